@@ -0,0 +1,22 @@
+// public/reminder-sw.js
+// Shows reminder notifications with Snooze and Done buttons and hands the choice to an open tab
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const trigger = event.notification.data && event.notification.data.trigger;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find((candidate) => candidate.focused) || windows[0];
+    if (!client) {
+      await self.clients.openWindow('/');
+      return;
+    }
+    // Snooze and Done are handled in the background; clicking the notification itself opens the app
+    if (!event.action) await client.focus();
+    client.postMessage({ type: 'reminder-action', action: event.action || 'open', trigger });
+  })());
+});
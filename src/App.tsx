@@ -5,22 +5,45 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import SavedViewPage from "./pages/SavedViewPage";
+import SettingsPage from "./pages/SettingsPage";
+import FocusPage from "./pages/FocusPage";
+import { FocusSessionRunner } from "./components/focus/FocusSessionRunner";
+import { ReminderScheduler } from "./components/reminders/ReminderScheduler";
+import { SettingsProvider } from "./components/settings/SettingsProvider";
+import { TimeTrackingSync } from "./components/time/TimeTrackingSync";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      retry: 1,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <SettingsProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <ReminderScheduler />
+        <TimeTrackingSync />
+        <FocusSessionRunner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/board" element={<Index />} />
+            <Route path="/views/:id" element={<SavedViewPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
+            <Route path="/focus" element={<FocusPage />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </SettingsProvider>
   </QueryClientProvider>
 );
 
@@ -1,6 +1,14 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { AICircle } from './AICircle';
+import { createAssistantProvider, type AssistantProvider, type ChatMessage } from './APIs/assistantApi';
+import { buildTaskContext, executeToolCall, isTaskToolCall, TASK_TOOLS, type TaskToolCall } from './APIs/assistantTools';
+import { TaskConflictError } from './APIs/taskClient';
+import { ActionConfirmationCard, type ProposedAction } from './assistant/ActionConfirmationCard';
+import { useI18n } from '@/hooks/use-i18n';
+import { reportConflictError } from '@/hooks/use-task-conflicts';
 import { useToast } from '@/hooks/use-toast';
+import { useInvalidateTasks, useTasks } from '@/hooks/use-tasks';
+import { canSpeak, createAssistantUtterance } from '@/lib/speech';
 import { Textarea } from '@/components/jarvis_ui/textarea';
 import { Button } from '@/components/jarvis_ui/button';
 import { Send, MessageSquare } from 'lucide-react';
@@ -10,9 +18,22 @@ interface Message {
   text: string;
   isUser: boolean;
   timestamp: Date;
+  pending?: boolean; // reply still streaming in
+  actions?: ProposedAction[]; // task changes waiting for the user's approval
 }
 
-export const AIAssistant: React.FC = () => {
+interface AIAssistantProps {
+  provider?: AssistantProvider;
+  onTasksChanged?: () => void;
+}
+
+// Conversation so far, in the shape chat providers expect
+const toChatHistory = (messages: Message[]): ChatMessage[] =>
+  messages
+    .filter(message => message.text.trim())
+    .map(message => ({ role: message.isUser ? 'user' : 'assistant', content: message.text }));
+
+export const AIAssistant: React.FC<AIAssistantProps> = ({ provider: providerProp, onTasksChanged }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -21,73 +42,29 @@ export const AIAssistant: React.FC = () => {
   const [currentTranscript, setCurrentTranscript] = useState('');
   const [showSidebar, setShowSidebar] = useState(false);
   const { toast } = useToast();
+  const { t, speechLang } = useI18n();
   const messageIdRef = useRef(0);
+  const messagesRef = useRef<Message[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const provider = useMemo(() => providerProp ?? createAssistantProvider(), [providerProp]);
+  // The assistant needs the current tasks to resolve "the report task" to an id
+  const { data: tasks = [] } = useTasks();
+  const invalidateTasks = useInvalidateTasks();
 
-  // Generate simple AI responses (replace with actual AI API later)
-  const generateAIResponse = (userInput: string): string => {
-    const responses = [
-      "I understand your request. How can I assist you further?",
-      "That's an interesting question. Let me think about that for you.",
-      "I'm here to help with whatever you need. What would you like to know?",
-      "Thank you for your input. I'm processing your request now.",
-      "I'm your AI assistant, ready to help you with any questions or tasks.",
-      "Fascinating! I'd be happy to explore that topic with you.",
-      "I see what you're asking. Let me provide you with the best assistance I can.",
-      "Your request has been noted. How else can I be of service today?"
-    ];
-    
-    // Simple keyword-based responses
-    const lowerInput = userInput.toLowerCase();
-    
-    if (lowerInput.includes('hello') || lowerInput.includes('hi')) {
-      return "Hello! I'm your AI assistant. It's great to meet you. How can I help you today?";
-    }
-    
-    if (lowerInput.includes('name') || lowerInput.includes('who are you')) {
-      return "I am JARVIS, your advanced AI assistant. I'm here to help you with information, tasks, and conversations.";
-    }
-    
-    if (lowerInput.includes('weather')) {
-      return "I don't have access to real-time weather data, but I'd recommend checking a weather service for current conditions.";
-    }
-    
-    if (lowerInput.includes('time')) {
-      const now = new Date();
-      return `The current time is ${now.toLocaleTimeString()}.`;
-    }
-    
-    if (lowerInput.includes('help')) {
-      return "I can help you with various tasks including answering questions, providing information, and having conversations. Just speak naturally and I'll do my best to assist!";
-    }
-    
-    return responses[Math.floor(Math.random() * responses.length)];
-  };
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  // Stop any reply still streaming when the assistant is closed
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Text-to-Speech function
   const speak = useCallback((text: string) => {
-    if ('speechSynthesis' in window) {
+    if (canSpeak()) {
       // Stop any ongoing speech
       window.speechSynthesis.cancel();
-      
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Configure voice settings for a more AI-like experience
-      utterance.rate = 0.9;
-      utterance.pitch = 1.0;
-      utterance.volume = 0.8;
-      
-      // Try to use a more suitable voice
-      const voices = window.speechSynthesis.getVoices();
-      const preferredVoice = voices.find(voice => 
-        voice.name.includes('Google') || 
-        voice.name.includes('Alex') || 
-        voice.name.includes('Daniel') ||
-        voice.lang.startsWith('en')
-      );
-      
-      if (preferredVoice) {
-        utterance.voice = preferredVoice;
-      }
+
+      const utterance = createAssistantUtterance(text, speechLang);
 
       utterance.onstart = () => {
         setIsSpeaking(true);
@@ -103,8 +80,8 @@ export const AIAssistant: React.FC = () => {
         setIsSpeaking(false);
         setCurrentUtterance(null);
         toast({
-          title: "Speech Error",
-          description: "There was an error with text-to-speech.",
+          title: t('assistant.speechError.title'),
+          description: t('assistant.speechError.description'),
           variant: "destructive"
         });
       };
@@ -113,15 +90,15 @@ export const AIAssistant: React.FC = () => {
       window.speechSynthesis.speak(utterance);
     } else {
       toast({
-        title: "Speech Not Supported",
-        description: "Text-to-speech is not supported in your browser.",
+        title: t('assistant.speechUnsupported.title'),
+        description: t('assistant.speechUnsupported.description'),
         variant: "destructive"
       });
     }
-  }, [toast]);
+  }, [toast, t, speechLang]);
 
   // Handle message input (voice or text)
-  const handleMessageInput = useCallback((text: string) => {
+  const handleMessageInput = useCallback(async (text: string) => {
     if (!text.trim()) return;
 
     // Add user message
@@ -132,34 +109,124 @@ export const AIAssistant: React.FC = () => {
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
-
-    // Generate AI response
-    const aiResponseText = generateAIResponse(text);
-    
-    // Add AI message
+    // Placeholder AI message that fills in as tokens arrive
+    const aiMessageId = (++messageIdRef.current).toString();
     const aiMessage: Message = {
-      id: (++messageIdRef.current).toString(),
-      text: aiResponseText,
+      id: aiMessageId,
+      text: '',
       isUser: false,
-      timestamp: new Date()
+      timestamp: new Date(),
+      pending: true
     };
 
-    setMessages(prev => [...prev, aiMessage]);
+    const history: ChatMessage[] = [
+      { role: 'system', content: buildTaskContext(tasks) },
+      ...toChatHistory([...messagesRef.current, userMessage])
+    ];
+    setMessages(prev => [...prev, userMessage, aiMessage]);
 
-    // Set current transcript and speak the AI response
-    setCurrentTranscript(aiResponseText);
-    speak(aiResponseText);
-  }, [speak]);
+    const updateAIMessage = (changes: Partial<Message>) => {
+      setMessages(prev => prev.map(message => (message.id === aiMessageId ? { ...message, ...changes } : message)));
+    };
+
+    // A new question cancels the previous reply
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let streamed = '';
+    try {
+      const aiResponseText = await provider.chat(history, {
+        signal: controller.signal,
+        onToken: (token) => {
+          streamed += token;
+          updateAIMessage({ text: streamed });
+        },
+        tools: TASK_TOOLS,
+        onToolCall: (call) => {
+          if (!isTaskToolCall(call)) {
+            console.warn('⚠️ Ignoring unknown assistant tool:', call.name);
+            return;
+          }
+          setMessages(prev => prev.map(message => (
+            message.id === aiMessageId
+              ? { ...message, actions: [...(message.actions || []), { call, status: 'pending' }] }
+              : message
+          )));
+          // Confirmation cards live in the chat panel, so open it for voice requests too
+          setShowSidebar(true);
+        }
+      });
+
+      updateAIMessage({ text: aiResponseText, pending: false });
+
+      // Set current transcript and speak the AI response
+      setCurrentTranscript(aiResponseText);
+      speak(aiResponseText);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateAIMessage({ pending: false });
+        return;
+      }
+      console.error('❌ Assistant request failed:', error);
+      updateAIMessage({
+        text: streamed || t('assistant.fallbackReply'),
+        pending: false
+      });
+      toast({
+        title: t('assistant.offline.title'),
+        description: error instanceof Error ? error.message : t('assistant.offline.description', { provider: provider.name }),
+        variant: "destructive"
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+    }
+  }, [provider, speak, toast, t, tasks]);
+
+  const updateAction = useCallback((messageId: string, index: number, changes: Partial<ProposedAction>) => {
+    setMessages(prev => prev.map(message => (
+      message.id === messageId && message.actions
+        ? { ...message, actions: message.actions.map((action, i) => (i === index ? { ...action, ...changes } : action)) }
+        : message
+    )));
+  }, []);
+
+  // Runs a confirmed (possibly edited) action against the task API
+  const handleApproveAction = useCallback(async (messageId: string, index: number, call: TaskToolCall) => {
+    updateAction(messageId, index, { call, status: 'running', error: undefined });
+    try {
+      await executeToolCall(call, tasks);
+      updateAction(messageId, index, { status: 'done' });
+      toast({
+        title: t('assistant.applied.title'),
+        description: t('assistant.applied.description'),
+      });
+      // A tool call can touch any task, so refresh the shared cache
+      await invalidateTasks();
+      onTasksChanged?.();
+    } catch (error) {
+      console.error('❌ Assistant action failed:', error);
+      if (error instanceof TaskConflictError) {
+        // Saved elsewhere since the assistant read it; the merge dialog shows both versions
+        reportConflictError(error, tasks.find(task => task.id === error.current.id));
+      }
+      updateAction(messageId, index, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : t('assistant.updateFailed')
+      });
+    }
+  }, [tasks, toast, t, invalidateTasks, onTasksChanged, updateAction]);
 
   // Handle voice input from the circle
   const handleVoiceInput = useCallback((text: string) => {
     handleMessageInput(text);
     toast({
-      title: "Voice Input Received",
-      description: `You said: "${text}"`,
+      title: t('assistant.heard.title'),
+      description: t('assistant.heard.description', { text }),
     });
-  }, [handleMessageInput, toast]);
+  }, [handleMessageInput, toast, t]);
 
   // Handle text input submission
   const handleTextSubmit = useCallback(() => {
@@ -195,10 +262,10 @@ export const AIAssistant: React.FC = () => {
       {/* Chat Sidebar */}
       <div className={`relative z-10 transition-all duration-300 ${
         showSidebar ? 'w-80' : 'w-0'
-      } bg-card/10 backdrop-blur-sm border-r border-primary/20 overflow-hidden`}>
+      } bg-card/10 backdrop-blur-sm border-e border-primary/20 overflow-hidden`}>
         <div className="h-full flex flex-col p-4">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-semibold text-glow">Chat History</h3>
+            <h3 className="text-lg font-semibold text-glow">{t('assistant.history')}</h3>
             <Button
               variant="ghost"
               size="sm"
@@ -216,21 +283,35 @@ export const AIAssistant: React.FC = () => {
                 key={message.id}
                 className={`p-3 rounded-lg text-sm ${
                   message.isUser
-                    ? 'bg-primary/20 border border-primary/30 ml-4'
-                    : 'bg-accent/20 border border-accent/30 mr-4'
+                    ? 'bg-primary/20 border border-primary/30 ms-4'
+                    : 'bg-accent/20 border border-accent/30 me-4'
                 }`}
               >
                 <div className="flex justify-between items-start mb-1">
                   <span className={`text-xs font-medium ${
                     message.isUser ? 'text-primary' : 'text-accent'
                   }`}>
-                    {message.isUser ? 'You' : 'JARVIS'}
+                    {message.isUser ? t('assistant.you') : 'JARVIS'}
                   </span>
                   <span className="text-xs text-muted-foreground">
-                    {message.timestamp.toLocaleTimeString()}
+                    {message.timestamp.toLocaleTimeString(speechLang)}
                   </span>
                 </div>
-                <p>{message.text}</p>
+                <p>
+                  {message.text}
+                  {message.pending && (
+                    <span className="inline-block w-1.5 h-3.5 ms-0.5 align-middle bg-accent animate-pulse" />
+                  )}
+                </p>
+                {message.actions?.map((action, index) => (
+                  <ActionConfirmationCard
+                    key={`${message.id}-${index}`}
+                    action={action}
+                    tasks={tasks}
+                    onApprove={(call) => handleApproveAction(message.id, index, call)}
+                    onReject={() => updateAction(message.id, index, { status: 'rejected' })}
+                  />
+                ))}
               </div>
             ))}
           </div>
@@ -241,7 +322,7 @@ export const AIAssistant: React.FC = () => {
               value={textInput}
               onChange={(e) => setTextInput(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Type your message..."
+              placeholder={t('assistant.placeholder')}
               className="resize-none bg-background/50 border-primary/20"
               rows={3}
             />
@@ -251,8 +332,8 @@ export const AIAssistant: React.FC = () => {
               className="w-full"
               size="sm"
             >
-              <Send className="w-4 h-4 mr-2" />
-              Send
+              <Send className="w-4 h-4 me-2" />
+              {t('assistant.send')}
             </Button>
           </div>
         </div>
@@ -265,10 +346,10 @@ export const AIAssistant: React.FC = () => {
           variant="outline"
           size="sm"
           onClick={() => setShowSidebar(!showSidebar)}
-          className="absolute top-4 left-4 bg-card/20 backdrop-blur-sm border-primary/30"
+          className="absolute top-4 start-4 bg-card/20 backdrop-blur-sm border-primary/30"
         >
-          <MessageSquare className="w-4 h-4 mr-2" />
-          {showSidebar ? 'Hide Chat' : 'Show Chat'}
+          <MessageSquare className="w-4 h-4 me-2" />
+          {showSidebar ? t('assistant.hideChat') : t('assistant.showChat')}
         </Button>
 
         {/* Header */}
@@ -277,7 +358,7 @@ export const AIAssistant: React.FC = () => {
             J.A.R.V.I.S
           </h1>
           <p className="text-xl text-muted-foreground">
-            Just A Rather Very Intelligent System
+            {t('assistant.tagline')}
           </p>
         </div>
 
@@ -295,8 +376,8 @@ export const AIAssistant: React.FC = () => {
         {isSpeaking && currentTranscript && (
           <div className="mb-6 max-w-2xl bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-lg p-4">
             <div className="flex items-center mb-2">
-              <div className="w-2 h-2 bg-accent rounded-full animate-pulse mr-2" />
-              <span className="text-sm font-medium text-accent">JARVIS is speaking...</span>
+              <div className="w-2 h-2 bg-accent rounded-full animate-pulse me-2" />
+              <span className="text-sm font-medium text-accent">{t('assistant.jarvisSpeaking')}</span>
             </div>
             <p className="text-sm text-muted-foreground italic">"{currentTranscript}"</p>
           </div>
@@ -310,17 +391,17 @@ export const AIAssistant: React.FC = () => {
             size="sm"
             className="mb-6"
           >
-            Stop Speaking
+            {t('assistant.stopSpeaking')}
           </Button>
         )}
 
         {/* Instructions */}
         <div className="text-center space-y-2">
           <p className="text-sm text-muted-foreground">
-            Click the circle and speak to interact with JARVIS
+            {t('assistant.instructions')}
           </p>
           <p className="text-xs text-muted-foreground/70">
-            Use the chat sidebar to type messages or view conversation history
+            {t('assistant.chatHint')}
           </p>
         </div>
       </div>
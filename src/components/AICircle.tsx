@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Mic, MicOff, Volume2 } from 'lucide-react';
 import { Button } from '@/components/jarvis_ui/button';
+import { useI18n } from '@/hooks/use-i18n';
 import { useToast } from '@/hooks/use-toast';
 
 // Extend Window interface for Speech Recognition
@@ -16,19 +17,28 @@ interface AICircleProps {
   onVoiceInput?: (text: string) => void;
   isListening?: boolean;
   isSpeaking?: boolean;
+  progress?: number; // 0-1 of a countdown, drawn as a ring that empties around the circle
+  label?: string; // shown in the middle instead of the icon, e.g. the time left
+  title?: string; // replaces the assistant's name under the circle
+  hint?: string; // replaces the voice hint under the circle
 }
 
 export const AICircle: React.FC<AICircleProps> = ({
   size = 300,
   onVoiceInput,
   isListening = false,
-  isSpeaking = false
+  isSpeaking = false,
+  progress,
+  label,
+  title,
+  hint
 }) => {
   const [isActive, setIsActive] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   const [recognition, setRecognition] = useState<any>(null);
   const [isSupported, setIsSupported] = useState(false);
   const { toast } = useToast();
+  const { t, speechLang } = useI18n();
   const circleRef = useRef<HTMLDivElement>(null);
 
   // Initialize Speech Recognition
@@ -39,7 +49,7 @@ export const AICircle: React.FC<AICircleProps> = ({
         const recognitionInstance = new SpeechRecognition();
         recognitionInstance.continuous = false;
         recognitionInstance.interimResults = false;
-        recognitionInstance.lang = 'en-US';
+        recognitionInstance.lang = speechLang;
 
         recognitionInstance.onstart = () => {
           setIsActive(true);
@@ -58,8 +68,8 @@ export const AICircle: React.FC<AICircleProps> = ({
           console.error('Speech recognition error:', event.error);
           setIsActive(false);
           toast({
-            title: "Voice Recognition Error",
-            description: "Please check your microphone permissions and try again.",
+            title: t('assistant.error.title'),
+            description: t('assistant.error.description'),
             variant: "destructive"
           });
         };
@@ -71,13 +81,13 @@ export const AICircle: React.FC<AICircleProps> = ({
         setIsSupported(false);
       }
     }
-  }, [onVoiceInput, toast]);
+  }, [onVoiceInput, toast, t, speechLang]);
 
   const handleClick = () => {
     if (!isSupported) {
       toast({
-        title: "Voice Recognition Unavailable",
-        description: "Your browser doesn't support voice recognition. Please use a modern browser.",
+        title: t('assistant.unavailable.title'),
+        description: t('assistant.unavailable.description'),
         variant: "destructive"
       });
       return;
@@ -134,6 +144,9 @@ export const AICircle: React.FC<AICircleProps> = ({
     return rings;
   };
 
+  const ringRadius = size / 2 - 3;
+  const ringLength = 2 * Math.PI * ringRadius;
+
   const circleClasses = `
     ai-circle
     ${isActive || isListening ? 'active' : ''}
@@ -161,6 +174,25 @@ export const AICircle: React.FC<AICircleProps> = ({
         {/* Particles */}
         {(isActive || isListening || isSpeaking) && generateParticles()}
         
+        {/* Countdown Ring */}
+        {progress !== undefined && (
+          <svg className="absolute inset-0 -rotate-90 pointer-events-none" width={size} height={size} aria-hidden="true">
+            <circle cx={size / 2} cy={size / 2} r={ringRadius} fill="none" stroke="hsl(var(--primary) / 0.15)" strokeWidth={6} />
+            <circle
+              cx={size / 2}
+              cy={size / 2}
+              r={ringRadius}
+              fill="none"
+              stroke="hsl(var(--primary))"
+              strokeWidth={6}
+              strokeLinecap="round"
+              strokeDasharray={ringLength}
+              strokeDashoffset={ringLength * Math.min(Math.max(progress, 0), 1)}
+              style={{ transition: 'stroke-dashoffset 1s linear' }}
+            />
+          </svg>
+        )}
+
         {/* Scanning Line */}
         {(isActive || isListening) && <div className="scan-line" />}
         
@@ -170,6 +202,8 @@ export const AICircle: React.FC<AICircleProps> = ({
             <Mic className="w-16 h-16 text-primary drop-shadow-lg" />
           ) : isSpeaking ? (
             <Volume2 className="w-16 h-16 text-primary-glow drop-shadow-lg animate-pulse" />
+          ) : label ? (
+            <span className="text-5xl font-bold tabular-nums text-primary text-glow">{label}</span>
           ) : (
             <div className="w-16 h-16 rounded-full bg-gradient-to-br from-primary/20 to-accent/20 border border-primary/30 flex items-center justify-center">
               <div className="w-8 h-8 rounded-full bg-primary/60" />
@@ -190,14 +224,14 @@ export const AICircle: React.FC<AICircleProps> = ({
       {/* Status Text */}
       <div className="text-center space-y-2">
         <h2 className="text-2xl font-bold text-glow">
-          {isActive || isListening ? 'Listening...' : 
-           isSpeaking ? 'Speaking...' : 
-           'AI Assistant'}
+          {isActive || isListening ? t('assistant.listening') :
+           isSpeaking ? t('assistant.speaking') :
+           title ?? t('assistant.title')}
         </h2>
         <p className="text-muted-foreground">
-          {isSupported 
-            ? 'Click the circle to start voice interaction' 
-            : 'Voice recognition not supported'}
+          {isSupported
+            ? hint ?? t('assistant.hint')
+            : t('assistant.unsupported')}
         </p>
       </div>
 
@@ -211,13 +245,13 @@ export const AICircle: React.FC<AICircleProps> = ({
       >
         {isActive || isListening ? (
           <>
-            <MicOff className="w-4 h-4 mr-2" />
-            Stop Listening
+            <MicOff className="w-4 h-4 me-2" />
+            {t('assistant.stop')}
           </>
         ) : (
           <>
-            <Mic className="w-4 h-4 mr-2" />
-            Start Voice Input
+            <Mic className="w-4 h-4 me-2" />
+            {t('assistant.start')}
           </>
         )}
       </Button>
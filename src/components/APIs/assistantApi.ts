@@ -0,0 +1,392 @@
+// src/components/APIs/assistantApi.ts
+// Chat providers for the JARVIS assistant (Django backend, OpenAI-compatible servers, offline mock)
+
+import { AUTH_TOKEN_KEY } from './taskClient';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Function-calling tool in the OpenAI schema; the Django endpoint accepts the same shape
+export interface AssistantTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface AssistantToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+  tools?: AssistantTool[];
+  onToolCall?: (call: AssistantToolCall) => void;
+}
+
+// Anything that can answer a conversation. Implementations stream through
+// onToken when they can and always resolve with the full reply.
+export interface AssistantProvider {
+  readonly name: string;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+}
+
+export type AssistantApiFormat = 'django' | 'openai';
+
+export interface AssistantConfig {
+  provider: 'http' | 'mock';
+  endpoint: string;
+  format: AssistantApiFormat;
+  model?: string;
+  apiKey?: string;
+  systemPrompt: string;
+}
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are JARVIS, a concise and friendly assistant that helps the user plan their day and manage their tasks.';
+
+// Read from Vite env so a local server can be swapped in without code changes:
+//   VITE_ASSISTANT_PROVIDER=mock|http
+//   VITE_ASSISTANT_ENDPOINT=http://localhost:11434/v1/chat/completions
+//   VITE_ASSISTANT_FORMAT=django|openai
+//   VITE_ASSISTANT_MODEL, VITE_ASSISTANT_API_KEY
+export const getAssistantConfig = (): AssistantConfig => {
+  const env = import.meta.env;
+  return {
+    provider: env.VITE_ASSISTANT_PROVIDER === 'mock' ? 'mock' : 'http',
+    endpoint: env.VITE_ASSISTANT_ENDPOINT || 'http://localhost:8000/assistant/chat/',
+    format: env.VITE_ASSISTANT_FORMAT === 'openai' ? 'openai' : 'django',
+    model: env.VITE_ASSISTANT_MODEL || undefined,
+    apiKey: env.VITE_ASSISTANT_API_KEY || undefined,
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  };
+};
+
+// Pulls the text delta out of one streamed or complete payload in either format
+const extractText = (payload: unknown): string => {
+  if (!payload || typeof payload !== 'object') return '';
+  const data = payload as {
+    token?: string;
+    reply?: string;
+    content?: string;
+    choices?: { delta?: { content?: string }; message?: { content?: string } }[];
+  };
+  const choice = data.choices?.[0];
+  return choice?.delta?.content ?? choice?.message?.content ?? data.token ?? data.reply ?? data.content ?? '';
+};
+
+interface RawToolCall {
+  index?: number;
+  id?: string;
+  name?: string;
+  arguments?: string | Record<string, unknown>;
+  function?: { name?: string; arguments?: string };
+}
+
+// Streamed tool calls arrive in fragments keyed by index; complete ones arrive whole
+const extractToolCalls = (payload: unknown): RawToolCall[] => {
+  if (!payload || typeof payload !== 'object') return [];
+  const data = payload as {
+    tool_calls?: RawToolCall[];
+    tool_call?: RawToolCall;
+    choices?: { delta?: { tool_calls?: RawToolCall[] }; message?: { tool_calls?: RawToolCall[] } }[];
+  };
+  const choice = data.choices?.[0];
+  return choice?.delta?.tool_calls ?? choice?.message?.tool_calls ?? data.tool_calls ?? (data.tool_call ? [data.tool_call] : []);
+};
+
+class ToolCallCollector {
+  private calls = new Map<number, { id?: string; name: string; args: string; parsed?: Record<string, unknown> }>();
+
+  add(raw: RawToolCall[]) {
+    raw.forEach((call, position) => {
+      const index = call.index ?? this.calls.size + position;
+      const entry = this.calls.get(index) ?? { name: '', args: '' };
+      entry.id = entry.id ?? call.id;
+      entry.name += call.function?.name ?? call.name ?? '';
+      const args = call.function?.arguments ?? call.arguments;
+      if (typeof args === 'string') entry.args += args;
+      else if (args) entry.parsed = args;
+      this.calls.set(index, entry);
+    });
+  }
+
+  flush(onToolCall?: (call: AssistantToolCall) => void) {
+    this.calls.forEach((entry, index) => {
+      if (!entry.name) return;
+      let args = entry.parsed ?? {};
+      if (!entry.parsed && entry.args) {
+        try {
+          args = JSON.parse(entry.args);
+        } catch {
+          console.error('❌ Could not parse tool call arguments:', entry.args);
+          return;
+        }
+      }
+      onToolCall?.({ id: entry.id || `call_${index}`, name: entry.name, arguments: args });
+    });
+    this.calls.clear();
+  }
+}
+
+export class HttpAssistantProvider implements AssistantProvider {
+  readonly name: string;
+  private config: AssistantConfig;
+
+  constructor(config: AssistantConfig) {
+    this.config = config;
+    this.name = config.format === 'openai' ? 'OpenAI-compatible' : 'Django';
+  }
+
+  private getHeaders(): HeadersInit {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream, application/json',
+    };
+    // The Django backend shares the task API session; other servers take an API key
+    const token = this.config.format === 'django'
+      ? localStorage.getItem(AUTH_TOKEN_KEY)
+      : this.config.apiKey;
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const body = {
+      messages: [{ role: 'system', content: this.config.systemPrompt }, ...messages],
+      stream: true,
+      ...(this.config.model ? { model: this.config.model } : {}),
+      ...(options.tools?.length ? { tools: options.tools } : {}),
+    };
+
+    console.log(`🤖 Assistant request (${this.name}): ${this.config.endpoint}`);
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      credentials: this.config.format === 'django' ? 'include' : 'omit',
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.error?.message || errorData.error || errorData.detail ||
+        `HTTP ${response.status}: ${response.statusText}`
+      );
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+
+    // Servers that ignore `stream` answer with a single JSON body
+    if (contentType.includes('application/json') || !response.body) {
+      const payload = await response.json();
+      const text = extractText(payload);
+      if (text) options.onToken?.(text);
+      const toolCalls = new ToolCallCollector();
+      toolCalls.add(extractToolCalls(payload));
+      toolCalls.flush(options.onToolCall);
+      return text;
+    }
+
+    return this.readStream(response.body, contentType.includes('text/event-stream'), options);
+  }
+
+  // Reads server-sent events (`data: {...}` lines) or a raw text stream
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    isEventStream: boolean,
+    { onToken, onToolCall }: ChatOptions
+  ): Promise<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const toolCalls = new ToolCallCollector();
+    let buffer = '';
+    let fullText = '';
+
+    const emit = (token: string) => {
+      if (!token) return;
+      fullText += token;
+      onToken?.(token);
+    };
+
+    const handleLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+      const data = trimmed.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+      let payload: unknown;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        // Some servers stream plain text in the data field
+        emit(data);
+        return;
+      }
+      emit(extractText(payload));
+      toolCalls.add(extractToolCalls(payload));
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+
+      if (!isEventStream) {
+        emit(chunk);
+        continue;
+      }
+
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+
+    if (isEventStream && buffer) handleLine(buffer);
+    toolCalls.flush(onToolCall);
+    return fullText;
+  }
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// "friday at 3", "tomorrow 9am", "today at 14:30" -> ISO string, relative to `now`
+const parseMockWhen = (text: string, now: Date): { iso: string; hasTime: boolean } | null => {
+  const date = new Date(now);
+  const lower = text.toLowerCase();
+  const weekday = WEEKDAYS.findIndex(day => lower.includes(day));
+
+  if (lower.includes('tomorrow')) {
+    date.setDate(date.getDate() + 1);
+  } else if (weekday !== -1) {
+    date.setDate(date.getDate() + (((weekday - date.getDay() + 7) % 7) || 7));
+  } else if (!lower.includes('today')) {
+    return null;
+  }
+
+  const time = lower.match(/(?:at\s+)?\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/);
+  if (time) {
+    let hours = parseInt(time[1], 10);
+    if (time[3] === 'pm' && hours < 12) hours += 12;
+    if (time[3] === 'am' && hours === 12) hours = 0;
+    // "at 3" without am/pm means the afternoon
+    if (!time[3] && hours < 8) hours += 12;
+    date.setHours(hours, time[2] ? parseInt(time[2], 10) : 0, 0, 0);
+  } else {
+    date.setHours(0, 0, 0, 0);
+  }
+  return { iso: date.toISOString(), hasTime: Boolean(time) };
+};
+
+// Deterministic offline replies, streamed word by word, for developing the UI without a server
+export class MockAssistantProvider implements AssistantProvider {
+  readonly name = 'Mock';
+  private tokenDelayMs: number;
+  private now: () => Date;
+
+  constructor(tokenDelayMs = 30, now: () => Date = () => new Date()) {
+    this.tokenDelayMs = tokenDelayMs;
+    this.now = now;
+  }
+
+  static reply(messages: ChatMessage[]): string {
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    const input = (lastUser?.content || '').toLowerCase();
+    const turn = messages.filter(message => message.role === 'user').length;
+
+    if (/\b(hello|hi|hey)\b/.test(input)) {
+      return "Hello! I'm your AI assistant. It's great to meet you. How can I help you today?";
+    }
+    if (input.includes('name') || input.includes('who are you')) {
+      return "I am JARVIS, your advanced AI assistant. I'm here to help you with information, tasks, and conversations.";
+    }
+    if (input.includes('help')) {
+      return "I can help you plan your day, answer questions and keep track of your tasks. Just speak naturally and I'll do my best to assist!";
+    }
+    return `(offline mock, turn ${turn}) You said: "${lastUser?.content ?? ''}". Connect a chat backend for real answers.`;
+  }
+
+  // Recognises a few fixed phrasings so task actions can be exercised offline
+  static toolCall(input: string, now: Date): AssistantToolCall | null {
+    const text = input.trim().replace(/[.!?]+$/, '');
+    let match: RegExpMatchArray | null;
+
+    if ((match = text.match(/^(?:mark|set)\s+(?:the\s+|my\s+)?(.+?)(?:\s+task)?\s+(?:as\s+)?(?:done|complete|completed|finished)$/i))) {
+      return { id: 'mock_call', name: 'toggle_task_status', arguments: { task_name: match[1], confidence: 0.9 } };
+    }
+    if (/^(?:stop|end)\s+(?:the\s+|my\s+)?(?:timer|tracking)$/i.test(text)) {
+      return { id: 'mock_call', name: 'stop_timer', arguments: { confidence: 0.9 } };
+    }
+    if ((match = text.match(/^(?:start\s+(?:a\s+|the\s+)?timer\s+(?:for|on)|start\s+tracking|track\s+time\s+(?:for|on))\s+(?:the\s+|my\s+)?(.+?)(?:\s+task)?$/i))) {
+      return { id: 'mock_call', name: 'start_timer', arguments: { task_name: match[1], confidence: 0.9 } };
+    }
+    if ((match = text.match(/^(?:delete|remove)\s+(?:the\s+|my\s+)?(.+?)(?:\s+task)?$/i))) {
+      return { id: 'mock_call', name: 'delete_task', arguments: { task_name: match[1], confidence: 0.85 } };
+    }
+    if ((match = text.match(/^(?:move|reschedule)\s+(?:the\s+|my\s+)?(.+?)\s+to\s+(.+)$/i))) {
+      const when = parseMockWhen(match[2], now);
+      if (!when) return null;
+      return {
+        id: 'mock_call',
+        name: 'update_task',
+        arguments: {
+          task_name: match[1],
+          deadline: when.iso,
+          ...(when.hasTime ? { specific_time: when.iso } : {}),
+          confidence: 0.8,
+        },
+      };
+    }
+    if ((match = text.match(/^(?:add|create|schedule|remind me to)\s+(?:a\s+task\s+(?:to\s+)?)?(.+?)(?:\s+((?:on\s+|at\s+)?(?:today|tomorrow|monday|tuesday|wednesday|thursday|friday|saturday|sunday).*))?$/i))) {
+      const when = match[2] ? parseMockWhen(match[2], now) : null;
+      return {
+        id: 'mock_call',
+        name: 'create_task',
+        arguments: {
+          name: match[1].charAt(0).toUpperCase() + match[1].slice(1),
+          ...(when ? { deadline: when.iso } : {}),
+          ...(when?.hasTime ? { specific_time: when.iso } : {}),
+          confidence: 0.75,
+        },
+      };
+    }
+    return null;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    const toolCall = options.tools?.length && lastUser ? MockAssistantProvider.toolCall(lastUser.content, this.now()) : null;
+    const offered = toolCall && options.tools.some(tool => tool.function.name === toolCall.name);
+    const text = offered
+      ? "Sure, here's what I'll do. Please confirm below."
+      : MockAssistantProvider.reply(messages);
+    const tokens = text.match(/\S+\s*/g) || [];
+
+    for (const token of tokens) {
+      if (options.signal?.aborted) {
+        throw new DOMException('The request was aborted.', 'AbortError');
+      }
+      if (this.tokenDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.tokenDelayMs));
+      }
+      options.onToken?.(token);
+    }
+    if (offered) options.onToolCall?.(toolCall);
+    return text;
+  }
+}
+
+export const createAssistantProvider = (config: AssistantConfig = getAssistantConfig()): AssistantProvider =>
+  config.provider === 'mock' ? new MockAssistantProvider() : new HttpAssistantProvider(config);
@@ -0,0 +1,234 @@
+// src/components/APIs/assistantTools.ts
+// Task tools the assistant can propose; each call runs through the task API, or its offline outbox, once the user approves it
+
+import { format, type Locale } from 'date-fns';
+import { createTaskOrQueue, deleteTaskOrQueue, toggleTaskOrQueue, updateTaskOrQueue } from './offlineSync';
+import { translateEnglish, type Translate } from '@/lib/i18n';
+import { readTimeTracking, startTimer, stopTimer } from '@/lib/timeTracking';
+import type { Task, TaskInput } from '@/types/TaskTypes';
+import type { AssistantTool, AssistantToolCall } from './assistantApi';
+
+export type TaskToolName =
+  | 'create_task' | 'update_task' | 'toggle_task_status' | 'delete_task' | 'start_timer' | 'stop_timer';
+
+// Arguments the model may send; tasks are referenced by id, or by name when it only heard a title
+export interface TaskToolArguments {
+  task_id?: string;
+  task_name?: string;
+  name?: string;
+  description?: string;
+  deadline?: string; // ISO datetime
+  specific_time?: string; // ISO datetime
+  duration_minutes?: number;
+  priority?: number; // 1 (highest) - 5
+  location?: string;
+  confidence?: number; // 0-1, stored as ai_confidence_score
+}
+
+export interface TaskToolCall {
+  id: string;
+  name: TaskToolName;
+  arguments: TaskToolArguments;
+}
+
+// Used when the model does not report how sure it is
+export const DEFAULT_AI_CONFIDENCE = 0.5;
+
+const taskReference = {
+  task_id: { type: 'string', description: 'ID of an existing task from the task list' },
+  task_name: { type: 'string', description: 'Name of the task, when the id is not known' },
+};
+
+const taskFields = {
+  name: { type: 'string', description: 'Task title' },
+  description: { type: 'string' },
+  deadline: { type: 'string', description: 'ISO 8601 datetime the task is due' },
+  specific_time: { type: 'string', description: 'ISO 8601 datetime for tasks at a fixed time' },
+  duration_minutes: { type: 'integer', minimum: 1 },
+  priority: { type: 'integer', minimum: 1, maximum: 5, description: '1 is the highest priority' },
+  location: { type: 'string' },
+};
+
+const confidence = {
+  confidence: { type: 'number', minimum: 0, maximum: 1, description: 'How sure you are this is what the user wants' },
+};
+
+export const TASK_TOOLS: AssistantTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_task',
+      description: 'Create a new task for the user.',
+      parameters: { type: 'object', properties: { ...taskFields, ...confidence }, required: ['name'] },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_task',
+      description: 'Change fields of an existing task, e.g. move it to another time.',
+      parameters: { type: 'object', properties: { ...taskReference, ...taskFields, ...confidence } },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'toggle_task_status',
+      description: 'Mark a task as done, or reopen a completed task.',
+      parameters: { type: 'object', properties: { ...taskReference, ...confidence } },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_task',
+      description: 'Delete a task permanently.',
+      parameters: { type: 'object', properties: { ...taskReference, ...confidence } },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'start_timer',
+      description: 'Start tracking time on a task. Stops the timer that is running, if any.',
+      parameters: { type: 'object', properties: { ...taskReference, ...confidence } },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'stop_timer',
+      description: 'Stop the running timer; the time is added to its task.',
+      parameters: { type: 'object', properties: { ...confidence } },
+    },
+  },
+];
+
+const TOOL_NAMES = TASK_TOOLS.map(tool => tool.function.name);
+
+export const isTaskToolCall = (call: AssistantToolCall): call is AssistantToolCall & TaskToolCall =>
+  TOOL_NAMES.includes(call.name);
+
+// Whether the call acts on an existing task, which the user can pick when editing it
+export const toolTargetsTask = (name: TaskToolName) => name !== 'create_task' && name !== 'stop_timer';
+
+// System message listing the user's tasks so the model can refer to them by id
+export const buildTaskContext = (tasks: Task[], now = new Date()): string => {
+  const lines = tasks.slice(0, 50).map(task => {
+    const due = task.specific_time || task.deadline;
+    return `- ${task.id}: "${task.name}" (${task.status}${due ? `, due ${due}` : ''})`;
+  });
+  const { running } = readTimeTracking();
+  return [
+    `The current time is ${now.toISOString()}.`,
+    'Use the task tools to create, update, complete or delete tasks, or to start and stop the timer on a task, when the user asks. Every call is shown to the user for confirmation first.',
+    running ? `A timer is running on "${running.taskName}" since ${running.startedAt}.` : 'No timer is running.',
+    lines.length ? `The user's tasks:\n${lines.join('\n')}` : 'The user has no tasks yet.',
+  ].join('\n');
+};
+
+// Finds the task a call refers to: exact id first, then exact name, then partial name
+export const resolveToolTask = (args: TaskToolArguments, tasks: Task[]): Task | undefined => {
+  if (args.task_id) {
+    const byId = tasks.find(task => String(task.id) === String(args.task_id));
+    if (byId) return byId;
+  }
+  const query = args.task_name?.trim().toLowerCase();
+  if (!query) return undefined;
+  return (
+    tasks.find(task => task.name.toLowerCase() === query) ||
+    tasks.find(task => task.name.toLowerCase().includes(query)) ||
+    tasks.find(task => query.includes(task.name.toLowerCase()))
+  );
+};
+
+const clampConfidence = (value: unknown) =>
+  typeof value === 'number' && !Number.isNaN(value)
+    ? Math.round(Math.min(Math.max(value, 0), 1) * 100) / 100
+    : DEFAULT_AI_CONFIDENCE;
+
+// Only the task fields from the call, in the shape taskClient expects
+const buildTaskFields = (args: TaskToolArguments) => {
+  const fields: Partial<TaskInput> = {};
+  if (args.name) fields.name = args.name;
+  if (args.description !== undefined) fields.description = args.description;
+  if (args.specific_time) {
+    // Same convention as the task dialog: a fixed time is also the deadline
+    fields.specific_time = args.specific_time;
+    fields.deadline = args.specific_time;
+  } else if (args.deadline) {
+    fields.deadline = args.deadline;
+  }
+  if (args.duration_minutes) fields.duration_minutes = args.duration_minutes;
+  if (args.priority) fields.priority = args.priority;
+  if (args.location !== undefined) fields.location = args.location;
+  return fields;
+};
+
+const formatWhen = (iso?: string, locale?: Locale) => {
+  if (!iso) return null;
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : format(date, 'EEE, MMM d p', { locale });
+};
+
+// One-line summary for the confirmation card, in the UI language
+export const describeToolCall = (call: TaskToolCall, tasks: Task[], t: Translate = translateEnglish, locale?: Locale): string => {
+  const { arguments: args } = call;
+  const task = resolveToolTask(args, tasks);
+  const taskName = `"${task?.name || args.task_name || args.task_id || t('tool.unknownTask')}"`;
+  const when = formatWhen(args.specific_time || args.deadline, locale);
+
+  switch (call.name) {
+    case 'create_task': {
+      const name = args.name || t('tool.untitled');
+      return when ? t('tool.call.createAt', { name, when }) : t('tool.call.create', { name });
+    }
+    case 'update_task': {
+      const change = when ? t('tool.call.updateAt', { task: taskName, when }) : t('tool.call.update', { task: taskName });
+      return args.name && task && args.name !== task.name ? t('tool.call.renamed', { change, name: args.name }) : change;
+    }
+    case 'toggle_task_status':
+      return task?.status === 'completed' ? t('tool.call.reopen', { task: taskName }) : t('tool.call.complete', { task: taskName });
+    case 'delete_task':
+      return t('tool.call.delete', { task: taskName });
+    case 'start_timer':
+      return t('tool.call.startTimer', { task: taskName });
+    case 'stop_timer': {
+      const { running } = readTimeTracking();
+      return running ? t('tool.call.stopTimer', { task: running.taskName }) : t('tool.call.noTimer');
+    }
+  }
+};
+
+// Runs an approved call against the task API; offline it is queued and sent on reconnect
+export const executeToolCall = async (call: TaskToolCall, tasks: Task[]) => {
+  const { arguments: args } = call;
+  const aiFields = {
+    ai_suggested: true,
+    ai_confidence_score: clampConfidence(args.confidence),
+  };
+
+  if (call.name === 'create_task') {
+    if (!args.name?.trim()) throw new Error('The new task needs a name');
+    return createTaskOrQueue({ name: args.name, ...buildTaskFields(args), ...aiFields });
+  }
+  if (call.name === 'stop_timer') {
+    return stopTimer();
+  }
+
+  const task = resolveToolTask(args, tasks);
+  if (!task) {
+    throw new Error(`Couldn't find a task matching "${args.task_name || args.task_id || ''}"`);
+  }
+
+  switch (call.name) {
+    case 'update_task':
+      return updateTaskOrQueue(task, { name: task.name, ...buildTaskFields(args), ...aiFields });
+    case 'toggle_task_status':
+      return toggleTaskOrQueue(task);
+    case 'delete_task':
+      return deleteTaskOrQueue(task);
+    case 'start_timer':
+      return startTimer(task);
+  }
+};
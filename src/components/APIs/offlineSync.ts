@@ -0,0 +1,239 @@
+// src/components/APIs/offlineSync.ts
+// Offline copy of tasks and categories, and the outbox that replays queued changes on reconnect
+
+import { readValue, updateValue, writeValue } from '@/lib/offlineStore';
+import { applyTaskInput, draftTask } from '@/lib/taskMappers';
+import { remapTimeEntries } from '@/lib/timeTracking';
+import {
+  applyOutbox, discardEntry, isStaleAgainst, isTempId, queueOperation, remapTaskId, TEMP_ID_PREFIX,
+  type OutboxEntry, type OutboxOperation
+} from '@/lib/taskOutbox';
+import type { Task, TaskCategory, TaskInput, TaskStatus } from '@/types/TaskTypes';
+import { isNetworkError, TaskApiError, taskClient } from './taskClient';
+
+const OUTBOX_LOCK = 'deeptalk-task-outbox';
+
+export interface ReplayResult {
+  sent: number;
+  failed: number;
+  offline: boolean; // stopped because the connection dropped again
+}
+
+// IndexedDB can be unavailable (private mode, old browsers); the app then just works online
+const safely = async <T>(action: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await action();
+  } catch (error) {
+    console.error('❌ Offline store unavailable:', error);
+    return fallback;
+  }
+};
+
+export const readOutbox = () => safely(() => readValue<OutboxEntry[]>('outbox', []), []);
+
+const updateOutbox = (update: (entries: OutboxEntry[]) => OutboxEntry[]) =>
+  updateValue<OutboxEntry[]>('outbox', [], update);
+
+export const queueTaskOperation = async (operation: OutboxOperation) => {
+  console.log('📦 Queued offline change:', operation.kind, operation.taskId);
+  // Deletes arrive after the task already left the cache; the saved copy still knows its name
+  if (!operation.label) {
+    const saved = await safely(() => readValue<Task[]>('tasks', []), []);
+    operation = { ...operation, label: saved.find(task => task.id === operation.taskId)?.name || 'Untitled task' };
+  }
+  return updateOutbox(entries => queueOperation(entries, operation));
+};
+
+export const discardOutboxEntry = (seq: number) => updateOutbox(entries => discardEntry(entries, seq));
+
+// Failed and conflicting entries go back in line; force also skips the updated_at check
+export const requeueOutboxEntry = (seq: number, force = false) =>
+  updateOutbox(entries => entries.map(entry => (entry.seq === seq
+    ? { ...entry, status: 'pending', error: undefined, force: force || entry.force }
+    : entry)));
+
+// ---- Reads with an offline fallback ----
+
+export const fetchTasksWithReplica = async (status: TaskStatus | 'all' = 'all'): Promise<Task[]> => {
+  const [outbox, categories] = await Promise.all([readOutbox(), readCategoryReplica()]);
+  let tasks: Task[];
+  try {
+    tasks = await taskClient.listTasks(status);
+    if (status === 'all') await safely(() => writeValue('tasks', tasks), undefined);
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    console.log('📴 Offline, showing saved tasks');
+    tasks = await safely(() => readValue<Task[]>('tasks', []), []);
+  }
+  return applyOutbox(tasks, outbox, categories)
+    .filter(task => status === 'all' || task.status === status);
+};
+
+const readCategoryReplica = () => safely(() => readValue<TaskCategory[]>('categories', []), []);
+
+export const fetchCategoriesWithReplica = async (): Promise<TaskCategory[]> => {
+  try {
+    const categories = await taskClient.listCategories();
+    await safely(() => writeValue('categories', categories), undefined);
+    return categories;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return readCategoryReplica();
+  }
+};
+
+// ---- Writes ----
+
+// Sends right away when possible; without a connection the change is queued and the local result returned
+export const sendOrQueue = async <T>(
+  operation: OutboxOperation,
+  send: () => Promise<T>,
+  queuedResult: () => T
+): Promise<T> => {
+  if (navigator.onLine) {
+    try {
+      return await send();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  await queueTaskOperation(operation);
+  return queuedResult();
+};
+
+// Several creates can start in the same millisecond, e.g. an import chunk
+let tempIds = 0;
+const nextTempId = () => `${TEMP_ID_PREFIX}${Date.now()}-${++tempIds}`;
+
+// The same writes for code outside the task hooks (series edits, assistant actions, imports);
+// offline they are queued like the hooks' changes and return the local copy. Updates are checked
+// against the revision of `task`, so a TaskConflictError comes back if it was saved elsewhere since.
+export const createTaskOrQueue = (input: TaskInput, categories: TaskCategory[] = []): Promise<Task> => {
+  const tempId = nextTempId();
+  return sendOrQueue(
+    { kind: 'create', taskId: tempId, label: input.name, input },
+    () => taskClient.createTask(input),
+    () => draftTask(tempId, input, categories)
+  );
+};
+
+export const updateTaskOrQueue = (task: Task, input: Partial<TaskInput>, categories: TaskCategory[] = []): Promise<Task> =>
+  sendOrQueue(
+    { kind: 'update', taskId: task.id, label: task.name, input, baseUpdatedAt: task.updated_at, baseVersion: task.version },
+    () => taskClient.updateTask(task.id, input, { updated_at: task.updated_at, version: task.version }),
+    () => applyTaskInput(task, input, categories)
+  );
+
+export const toggleTaskOrQueue = (task: Task): Promise<Task> => {
+  const completed = task.status !== 'completed';
+  const input: Partial<TaskInput> = {
+    name: task.name,
+    status: completed ? 'completed' : 'pending',
+    completion_percentage: completed ? 100 : task.completion_percentage === 100 ? 0 : task.completion_percentage,
+  };
+  return sendOrQueue(
+    { kind: 'update', taskId: task.id, label: task.name, input, baseUpdatedAt: task.updated_at, baseVersion: task.version },
+    () => taskClient.toggleTaskStatus(task.id),
+    () => applyTaskInput(task, input)
+  );
+};
+
+export const deleteTaskOrQueue = (task: Task) =>
+  sendOrQueue({ kind: 'delete', taskId: task.id, label: task.name }, () => taskClient.deleteTask(task.id), () => undefined);
+
+const sendEntry = (entry: OutboxEntry) => {
+  switch (entry.kind) {
+    case 'create':
+      return taskClient.createTask(entry.input as TaskInput);
+    case 'update':
+      return taskClient.updateTask(entry.taskId, entry.input ?? {});
+    case 'delete':
+      return taskClient.deleteTask(entry.taskId);
+  }
+};
+
+const markEntry = (seq: number, changes: Partial<OutboxEntry>) =>
+  updateOutbox(entries => entries.map(entry => (entry.seq === seq ? { ...entry, ...changes } : entry)));
+
+const replay = async (): Promise<ReplayResult> => {
+  const result: ReplayResult = { sent: 0, failed: 0, offline: false };
+  if (!(await readOutbox()).some(entry => entry.status === 'pending')) return result;
+
+  let serverTasks: Map<string, Task>;
+  try {
+    serverTasks = new Map((await taskClient.listTasks()).map(task => [task.id, task]));
+  } catch (error) {
+    if (isNetworkError(error)) return { ...result, offline: true };
+    throw error;
+  }
+
+  // Tasks this replay saved itself; their newer updated_at is not a conflict
+  const written = new Set<string>();
+
+  // Re-read before every step; another tab or a new edit may have changed the outbox meanwhile
+  for (;;) {
+    const entry = (await readOutbox()).find(item => item.status === 'pending');
+    if (!entry) break;
+
+    const serverTask = serverTasks.get(entry.taskId);
+    if (entry.kind !== 'create' && isTempId(entry.taskId)) {
+      await markEntry(entry.seq, { status: 'failed', error: 'The task this change belongs to was not added.' });
+      result.failed++;
+      continue;
+    }
+    if (entry.kind !== 'create' && !serverTask) {
+      if (entry.kind === 'delete') {
+        await discardOutboxEntry(entry.seq);
+      } else {
+        await markEntry(entry.seq, { status: 'failed', error: 'This task no longer exists on the server.' });
+        result.failed++;
+      }
+      continue;
+    }
+    if (!written.has(entry.taskId) && isStaleAgainst(entry, serverTask)) {
+      await markEntry(entry.seq, { status: 'conflict', error: 'Changed on another device after you edited it offline.' });
+      result.failed++;
+      continue;
+    }
+
+    try {
+      const saved = await sendEntry(entry);
+      // Before the create leaves the outbox, so the tracked time never points at a task that isn't listed
+      if (entry.kind === 'create' && saved) await remapTimeEntries(entry.taskId, (saved as Task).id);
+      await updateOutbox(entries => {
+        const rest = entries.filter(item => item.seq !== entry.seq);
+        return entry.kind === 'create' && saved ? remapTaskId(rest, entry.taskId, (saved as Task).id) : rest;
+      });
+      if (saved) {
+        serverTasks.set((saved as Task).id, saved as Task);
+        written.add((saved as Task).id);
+      }
+      result.sent++;
+    } catch (error) {
+      if (isNetworkError(error)) return { ...result, offline: true };
+      const conflict = error instanceof TaskApiError && error.status === 409;
+      await markEntry(entry.seq, {
+        status: conflict ? 'conflict' : 'failed',
+        error: error instanceof Error ? error.message : 'The server rejected this change.',
+      });
+      result.failed++;
+    }
+  }
+
+  return result;
+};
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// One replay at a time per tab, and across tabs where the Web Locks API exists
+export const replayOutbox = (): Promise<ReplayResult> => {
+  if (!replaying) {
+    const run = navigator.locks
+      ? navigator.locks.request(OUTBOX_LOCK, replay)
+      : replay();
+    replaying = run.finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+};
@@ -0,0 +1,171 @@
+// src/components/APIs/recurringTasks.ts
+// Applies edits to one occurrence of a repeating task with "this / this and following / all" scopes
+
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import type { RecurrenceEditScope, RecurrenceException } from '@/types/CalendarTypes';
+import {
+  formatRRule, occurrenceKey, occurrenceStartFromKey, ruleFromRepeatFields, ruleToRepeatFields,
+  shiftRuleWeekdays, splitRule, upsertException
+} from '@/lib/recurrence';
+import { getTaskStart, taskToInput } from '@/lib/taskMappers';
+import { toZonedTime } from '@/lib/timezones';
+import type { Task, TaskInput } from '@/types/TaskTypes';
+import { createTaskOrQueue, updateTaskOrQueue } from './offlineSync';
+
+export interface OccurrenceChange {
+  start: Date;
+  duration?: number;
+  allDay?: boolean;
+  fields?: Partial<TaskInput>; // other task fields from the edit dialog
+}
+
+export const getSeriesStart = (task: Task): Date | null => getTaskStart(task);
+
+const timingFields = (start: Date, allDay: boolean | undefined, duration?: number) => ({
+  deadline: start.toISOString(),
+  specific_time: allDay ? null : start.toISOString(),
+  ...(duration ? { duration_minutes: duration } : {}),
+});
+
+// Fields a new series copies from the one it was split from
+const copyableFields = (task: Task) => ({
+  name: task.name,
+  description: task.description,
+  category: task.category?.id,
+  tags: task.tags,
+  priority: task.priority,
+  urgency: task.urgency,
+  location: task.location,
+  required_tools: task.required_tools,
+  duration_minutes: task.duration_minutes,
+  timezone: task.timezone,
+});
+
+// Belong to the whole series: timing goes on the exception itself, and the rest can't differ per occurrence
+const SERIES_FIELDS = new Set<string>([
+  'deadline', 'specific_time', 'duration_minutes', 'timezone', 'is_repeat', 'repeat_pattern', 'repeat_frequency',
+  'repeat_days_of_week', 'repeat_end_date', 'recurrence_rule', 'recurrence_exceptions', 'prerequisite_tasks',
+  'blocking_tasks', 'actual_time_spent_minutes',
+]);
+
+const isBlank = (value: unknown) => value == null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const sameValue = (a: unknown, b: unknown) => (isBlank(a) && isBlank(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+const sameIds = (a: Array<string | number> = [], b: Array<string | number> = []) =>
+  sameValue(a.map(String).sort(), b.map(String).sort());
+
+// Editing one occurrence can't change how the series repeats or what it waits on
+const assertOccurrenceEdit = (task: Task, fields: Partial<TaskInput>) => {
+  const rule = ruleFromRepeatFields(task);
+  const edited = ruleFromRepeatFields({ ...task, ...fields, timezone: task.timezone });
+  const ruleChanged = Boolean(edited) && formatRRule(edited) !== formatRRule(rule);
+  const dependenciesChanged =
+    (fields.prerequisite_tasks && !sameIds(fields.prerequisite_tasks, task.prerequisite_tasks)) ||
+    (fields.blocking_tasks && !sameIds(fields.blocking_tasks, task.blocking_tasks));
+  if (ruleChanged || dependenciesChanged) {
+    throw new Error('Repetition and prerequisites apply to the whole series; choose "This and following" or "All occurrences" to change them');
+  }
+};
+
+// What the occurrence keeps of its own on top of the series; a field set back to the series' value is dropped
+const occurrenceFields = (task: Task, previous: Partial<TaskInput> = {}, fields: Partial<TaskInput> = {}) => {
+  const series: Record<string, unknown> = taskToInput(task);
+  const overrides: Record<string, unknown> = { ...previous };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (SERIES_FIELDS.has(key)) return;
+    if (sameValue(value, series[key])) delete overrides[key];
+    else overrides[key] = value;
+  });
+  return Object.keys(overrides).length ? (overrides as Partial<TaskInput>) : undefined;
+};
+
+const shiftExceptionDates = (exceptions: RecurrenceException[], days: number) =>
+  days === 0
+    ? exceptions
+    : exceptions.map(exception => ({
+        ...exception,
+        date: format(addDays(occurrenceStartFromKey(exception.date, new Date()), days), 'yyyy-MM-dd'),
+      }));
+
+export const skipOccurrence = (task: Task, key: string) =>
+  updateTaskOrQueue(task, {
+    name: task.name,
+    recurrence_exceptions: upsertException(task.recurrence_exceptions, { date: key, skip: true }),
+  });
+
+export const applyOccurrenceEdit = async (
+  task: Task,
+  key: string,
+  scope: RecurrenceEditScope,
+  change: OccurrenceChange
+) => {
+  const seriesStart = getSeriesStart(task);
+  const rule = ruleFromRepeatFields({ ...task, ...(change.fields || {}) });
+  if (!seriesStart || !rule) {
+    throw new Error('This task is not a repeating series');
+  }
+
+  const timeZone = task.timezone;
+  // The zone the edited series is saved in, which the dialog can change
+  const savedZone = change.fields?.timezone ?? timeZone;
+  const occurrenceStart = occurrenceStartFromKey(key, seriesStart, timeZone);
+  const exceptions = task.recurrence_exceptions || [];
+  const isFirst = key === occurrenceKey(seriesStart, timeZone);
+  // Days and weekdays are counted on the series' own calendar
+  const wall = (date: Date) => (timeZone ? toZonedTime(date, timeZone) : date);
+  console.log(`🔁 Editing occurrence ${key} of task ${task.id} (${scope})`);
+
+  // A single occurrence keeps its own timing and details on its exception
+  if (scope === 'this') {
+    if (change.fields) assertOccurrenceEdit(task, change.fields);
+    const fields = occurrenceFields(task, exceptions.find(exception => exception.date === key)?.fields, change.fields);
+    return updateTaskOrQueue(task, {
+      name: task.name,
+      recurrence_exceptions: upsertException(exceptions, {
+        date: key,
+        start: change.start.toISOString(),
+        ...(change.duration ? { duration: change.duration } : {}),
+        ...(fields ? { fields } : {}),
+      }),
+    });
+  }
+
+  if (scope === 'following' && !isFirst) {
+    const { before, after } = splitRule(seriesStart, rule, occurrenceStart, timeZone);
+    const dayShift = differenceInCalendarDays(wall(change.start), wall(occurrenceStart));
+
+    await updateTaskOrQueue(task, {
+      name: task.name,
+      ...ruleToRepeatFields(before, timeZone),
+      recurrence_exceptions: exceptions.filter(exception => exception.date < key),
+    });
+
+    // The new series starts where the occurrence was moved to
+    const laterExceptions = exceptions.filter(exception => exception.date > key);
+    return createTaskOrQueue({
+      ...copyableFields(task),
+      ...(change.fields || {}),
+      ...timingFields(change.start, change.allDay, change.duration),
+      ...ruleToRepeatFields(shiftRuleWeekdays(after, wall(occurrenceStart), wall(change.start)), savedZone),
+      recurrence_exceptions: shiftExceptionDates(laterExceptions, dayShift),
+    });
+  }
+
+  // Whole series: move its start by the same amount the occurrence moved
+  const delta = change.start.getTime() - occurrenceStart.getTime();
+  const newStart = new Date(seriesStart.getTime() + delta);
+  const dayShift = differenceInCalendarDays(wall(newStart), wall(seriesStart));
+
+  return updateTaskOrQueue(task, {
+    name: task.name,
+    ...(change.fields || {}),
+    ...timingFields(newStart, change.allDay, change.duration),
+    ...ruleToRepeatFields(shiftRuleWeekdays(rule, wall(seriesStart), wall(newStart)), savedZone),
+    recurrence_exceptions: shiftExceptionDates(
+      exceptions.filter(exception => exception.date !== key),
+      dayShift
+    ),
+  });
+};
+
@@ -0,0 +1,112 @@
+// src/components/APIs/savedViews.ts
+// Saved views on the backend, with a copy in localStorage that stands in when the backend can't be reached
+
+import type { SavedView, SavedViewInput } from '@/types/CalendarTypes';
+import { isNetworkError, TaskApiError, taskClient } from './taskClient';
+
+const STORAGE_KEY = 'deeptalk_saved_views';
+// Views saved while the backend was out of reach; they are uploaded on the next successful load
+const LOCAL_ID_PREFIX = 'local-';
+
+export const isLocalView = (view: SavedView) => view.id.startsWith(LOCAL_ID_PREFIX);
+
+// Offline, or a backend that has no saved views endpoint yet
+const isUnavailable = (error: unknown) =>
+  isNetworkError(error) || (error instanceof TaskApiError && error.status === 404);
+
+const readLocal = (): SavedView[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (views: SavedView[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+  } catch (error) {
+    console.error('❌ Failed to save views locally:', error);
+  }
+};
+
+const toInput = ({ id: _id, created_at: _createdAt, updated_at: _updatedAt, ...input }: SavedView): SavedViewInput => input;
+
+export const fetchSavedViews = async (): Promise<SavedView[]> => {
+  const local = readLocal();
+  let views: SavedView[];
+  try {
+    views = await taskClient.listSavedViews();
+  } catch (error) {
+    if (!isUnavailable(error)) throw error;
+    console.log('📴 Saved views unavailable on the server, using this browser\'s copy');
+    return local;
+  }
+
+  // Views edited while offline are newer here than on the server
+  const localById = new Map(local.map(view => [view.id, view]));
+  views = await Promise.all(views.map(async view => {
+    const edited = localById.get(view.id);
+    if (!edited?.updated_at || !view.updated_at || new Date(edited.updated_at) <= new Date(view.updated_at)) return view;
+    return taskClient.updateSavedView(view.id, toInput(edited)).catch(() => view);
+  }));
+
+  const uploaded: SavedView[] = [];
+  const pending: SavedView[] = [];
+  for (const view of local.filter(isLocalView)) {
+    try {
+      uploaded.push(await taskClient.createSavedView(toInput(view)));
+      console.log('☁️ Uploaded saved view:', view.name);
+    } catch (error) {
+      console.error('❌ Failed to upload saved view:', view.name, error);
+      pending.push(view);
+    }
+  }
+
+  const synced = [...views, ...uploaded, ...pending];
+  writeLocal(synced);
+  return synced;
+};
+
+const now = () => new Date().toISOString();
+
+const saveLocally = (view: SavedView) => {
+  const views = readLocal();
+  writeLocal(views.some(other => other.id === view.id)
+    ? views.map(other => (other.id === view.id ? view : other))
+    : [...views, view]);
+  return view;
+};
+
+export const createSavedView = async (input: SavedViewInput): Promise<SavedView> => {
+  try {
+    return saveLocally(await taskClient.createSavedView(input));
+  } catch (error) {
+    if (!isUnavailable(error)) throw error;
+    return saveLocally({ ...input, id: `${LOCAL_ID_PREFIX}${Date.now().toString(36)}`, created_at: now(), updated_at: now() });
+  }
+};
+
+export const updateSavedView = async (view: SavedView, changes: Partial<SavedViewInput>): Promise<SavedView> => {
+  const updated = { ...view, ...changes, updated_at: now() };
+  // Not on the server yet; the upload will carry the change
+  if (isLocalView(view)) return saveLocally(updated);
+  try {
+    return saveLocally(await taskClient.updateSavedView(view.id, changes));
+  } catch (error) {
+    if (!isUnavailable(error)) throw error;
+    return saveLocally(updated);
+  }
+};
+
+export const deleteSavedView = async (view: SavedView): Promise<void> => {
+  if (!isLocalView(view)) {
+    try {
+      await taskClient.deleteSavedView(view.id);
+    } catch (error) {
+      if (!isUnavailable(error)) throw error;
+    }
+  }
+  writeLocal(readLocal().filter(other => other.id !== view.id));
+};
@@ -0,0 +1,69 @@
+// src/components/APIs/settings.ts
+// Calendar settings on the backend, with a copy in localStorage that stands in when the backend can't be reached
+
+import { DEFAULT_CALENDAR_SETTINGS, mergeSettings } from '@/lib/settings';
+import type { CalendarSettings } from '@/types/CalendarTypes';
+import { isNetworkError, TaskApiError, taskClient } from './taskClient';
+
+export const SETTINGS_STORAGE_KEY = 'deeptalk_settings';
+
+interface LocalSettings {
+  settings: CalendarSettings;
+  unsynced: boolean; // changed while the backend was out of reach; uploaded on the next successful load
+}
+
+// Offline, or a backend that has no settings endpoint yet
+const isUnavailable = (error: unknown) =>
+  isNetworkError(error) || (error instanceof TaskApiError && error.status === 404);
+
+const readLocal = (): LocalSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    return { settings: mergeSettings(DEFAULT_CALENDAR_SETTINGS, saved?.settings), unsynced: Boolean(saved?.unsynced) };
+  } catch {
+    return { settings: DEFAULT_CALENDAR_SETTINGS, unsynced: false };
+  }
+};
+
+const writeLocal = (local: LocalSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(local));
+  } catch (error) {
+    console.error('❌ Failed to save settings locally:', error);
+  }
+};
+
+// What this browser last saw, available before the backend answers
+export const readLocalSettings = () => readLocal().settings;
+
+export const fetchSettings = async (): Promise<CalendarSettings> => {
+  const local = readLocal();
+  let saved: Partial<CalendarSettings>;
+  try {
+    saved = local.unsynced ? await taskClient.updateSettings(local.settings) : await taskClient.getSettings();
+  } catch (error) {
+    if (!isUnavailable(error)) throw error;
+    console.log('📴 Settings unavailable on the server, using this browser\'s copy');
+    return local.settings;
+  }
+  if (local.unsynced) console.log('☁️ Uploaded settings changed offline');
+
+  const settings = mergeSettings(DEFAULT_CALENDAR_SETTINGS, saved);
+  writeLocal({ settings, unsynced: false });
+  return settings;
+};
+
+export const saveSettings = async (settings: CalendarSettings): Promise<CalendarSettings> => {
+  const previous = readLocal();
+  writeLocal({ settings, unsynced: true });
+  try {
+    const saved = mergeSettings(settings, await taskClient.updateSettings(settings));
+    writeLocal({ settings: saved, unsynced: false });
+    return saved;
+  } catch (error) {
+    if (isUnavailable(error)) return settings;
+    // Refused, so it would be refused again on the next upload
+    writeLocal(previous);
+    throw error;
+  }
+};
@@ -0,0 +1,250 @@
+// src/components/APIs/taskClient.ts
+// Typed client for the Django task_manager API; every task passes through normalizeTask
+
+import { isNewerRevision, normalizeTask } from '@/lib/taskMappers';
+import type { CalendarSettings, SavedView, SavedViewInput } from '@/types/CalendarTypes';
+import type {
+  Task, TaskCategory, TaskInput, TaskResponse, TaskRevision, TaskSearchFilters, TaskStats, TaskStatus
+} from '@/types/TaskTypes';
+
+export const API_BASE_URL = 'http://localhost:8000';
+export const AUTH_TOKEN_KEY = 'deeptalk_token';
+
+export class TaskApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.name = 'TaskApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// Someone else saved the task after the revision an update was based on
+export class TaskConflictError extends TaskApiError {
+  current: Task;
+  attempted: Partial<TaskInput>; // the update that was refused
+
+  constructor(current: Task, attempted: Partial<TaskInput> = {}) {
+    super('This task was changed somewhere else since you opened it.', 409, current);
+    this.name = 'TaskConflictError';
+    this.current = current;
+    this.attempted = attempted;
+  }
+}
+
+// fetch rejects with a TypeError when the request never reached the server
+export const isNetworkError = (error: unknown) => !(error instanceof TaskApiError) && error instanceof TypeError;
+
+const EMPTY_STATS: TaskStats = {
+  total: 0,
+  pending: 0,
+  completed: 0,
+  in_progress: 0,
+  overdue: 0,
+  completion_rate: 0,
+};
+
+export class TaskClient {
+  private baseURL: string;
+
+  constructor(baseURL: string = API_BASE_URL) {
+    this.baseURL = baseURL;
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const url = `${this.baseURL}${endpoint}`;
+    console.log(`🔗 API Request: ${options.method || 'GET'} ${url}`);
+    const response = await fetch(url, { ...options, headers, credentials: 'include' });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 401) {
+        console.error('Authentication failed, token may be expired');
+      }
+      console.error(`❌ API Error: ${response.status}`, errorData);
+      throw new TaskApiError(
+        errorData.error || errorData.message || `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        errorData
+      );
+    }
+
+    // DELETE and bulk endpoints may answer without a body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+
+  // ---- Tasks ----
+
+  async listTasks(status?: TaskStatus | 'all'): Promise<Task[]> {
+    const params = new URLSearchParams();
+    if (status && status !== 'all') params.append('status', status);
+
+    const data = await this.request<{ tasks?: TaskResponse[] }>(`/task_manager/tasks/?${params.toString()}`);
+    return (data.tasks || []).map(normalizeTask);
+  }
+
+  async createTask(input: TaskInput): Promise<Task> {
+    console.log('📝 Creating task:', input);
+    // Django returns the task itself, not wrapped in { task }
+    const data = await this.request<TaskResponse>('/task_manager/tasks/', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    return normalizeTask(data);
+  }
+
+  async getTask(taskId: string): Promise<Task> {
+    const data = await this.request<TaskResponse>(`/task_manager/tasks/${taskId}/`);
+    return normalizeTask(data);
+  }
+
+  // With `expected`, refuses to overwrite a newer save: checks before writing and sends the
+  // revision along so the backend can answer 409 if another save lands in between
+  async updateTask(taskId: string, input: Partial<TaskInput>, expected?: TaskRevision): Promise<Task> {
+    console.log(`📝 Updating task ${taskId}:`, input);
+    if (expected) {
+      const current = await this.getTask(taskId);
+      if (isNewerRevision(current, expected)) throw new TaskConflictError(current, input);
+    }
+
+    const body = expected
+      ? { ...input, expected_updated_at: expected.updated_at, expected_version: expected.version }
+      : input;
+    try {
+      const data = await this.request<TaskResponse>(`/task_manager/tasks/${taskId}/`, {
+        method: 'PUT',
+        body: JSON.stringify(body),
+      });
+      return normalizeTask(data);
+    } catch (error) {
+      if (error instanceof TaskApiError && error.status === 409) {
+        throw new TaskConflictError(await this.getTask(taskId), input);
+      }
+      throw error;
+    }
+  }
+
+  // Toggle between pending and completed
+  async toggleTaskStatus(taskId: string): Promise<Task> {
+    console.log(`🔄 Toggling task status ${taskId}`);
+    const data = await this.request<TaskResponse>(`/task_manager/tasks/${taskId}/toggle/`, {
+      method: 'POST',
+    });
+    return normalizeTask(data);
+  }
+
+  // Soft delete on the backend
+  async deleteTask(taskId: string): Promise<void> {
+    console.log(`🗑️ Deleting task ${taskId}`);
+    await this.request(`/task_manager/tasks/${taskId}/`, { method: 'DELETE' });
+  }
+
+  async getTaskStats(): Promise<TaskStats> {
+    const data = await this.request<Partial<TaskStats>>('/task_manager/tasks/stats/');
+    return { ...EMPTY_STATS, ...data };
+  }
+
+  async searchTasks(query: string, filters: TaskSearchFilters = {}): Promise<Task[]> {
+    const params = new URLSearchParams({ q: query });
+    if (filters.status) params.append('status', filters.status);
+    if (filters.priority) params.append('priority', filters.priority.toString());
+
+    const data = await this.request<{ tasks?: TaskResponse[] }>(`/task_manager/search/?${params.toString()}`);
+    return (data.tasks || []).map(normalizeTask);
+  }
+
+  async bulkUpdateTasks(taskIds: string[], updates: Partial<TaskInput>): Promise<Task[]> {
+    const data = await this.request<{ updated_tasks?: TaskResponse[] }>('/task_manager/tasks/bulk/update/', {
+      method: 'POST',
+      body: JSON.stringify({ task_ids: taskIds, updates }),
+    });
+    return (data.updated_tasks || []).map(normalizeTask);
+  }
+
+  async bulkDeleteTasks(taskIds: string[]): Promise<void> {
+    await this.request('/task_manager/tasks/bulk/delete/', {
+      method: 'POST',
+      body: JSON.stringify({ task_ids: taskIds }),
+    });
+  }
+
+  // ---- Categories ----
+
+  async listCategories(): Promise<TaskCategory[]> {
+    const data = await this.request<{ categories?: TaskCategory[] }>('/task_manager/categories/');
+    return data.categories || [];
+  }
+
+  async createCategory(category: Omit<TaskCategory, 'id'>): Promise<TaskCategory> {
+    return this.request<TaskCategory>('/task_manager/categories/', {
+      method: 'POST',
+      body: JSON.stringify(category),
+    });
+  }
+
+  async updateCategory(categoryId: string, category: Partial<TaskCategory>): Promise<TaskCategory> {
+    return this.request<TaskCategory>(`/task_manager/categories/${categoryId}/`, {
+      method: 'PUT',
+      body: JSON.stringify(category),
+    });
+  }
+
+  async deleteCategory(categoryId: string): Promise<void> {
+    await this.request(`/task_manager/categories/${categoryId}/`, { method: 'DELETE' });
+  }
+
+  // ---- Saved views ----
+
+  async listSavedViews(): Promise<SavedView[]> {
+    const data = await this.request<{ views?: SavedView[] }>('/task_manager/views/');
+    return data.views || [];
+  }
+
+  async createSavedView(view: SavedViewInput): Promise<SavedView> {
+    return this.request<SavedView>('/task_manager/views/', {
+      method: 'POST',
+      body: JSON.stringify(view),
+    });
+  }
+
+  async updateSavedView(viewId: string, view: Partial<SavedViewInput>): Promise<SavedView> {
+    return this.request<SavedView>(`/task_manager/views/${viewId}/`, {
+      method: 'PUT',
+      body: JSON.stringify(view),
+    });
+  }
+
+  async deleteSavedView(viewId: string): Promise<void> {
+    await this.request(`/task_manager/views/${viewId}/`, { method: 'DELETE' });
+  }
+
+  // ---- Settings ----
+
+  async getSettings(): Promise<Partial<CalendarSettings>> {
+    const data = await this.request<{ settings?: Partial<CalendarSettings> }>('/task_manager/settings/');
+    return data.settings || {};
+  }
+
+  async updateSettings(settings: CalendarSettings): Promise<Partial<CalendarSettings>> {
+    const data = await this.request<{ settings?: Partial<CalendarSettings> }>('/task_manager/settings/', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+    return data.settings || settings;
+  }
+}
+
+// Create a singleton instance
+export const taskClient = new TaskClient();
+
+export default taskClient;
@@ -0,0 +1,51 @@
+// src/components/APIs/taskImport.ts
+// Creates imported tasks in chunks: a few requests at a time, so one bad row doesn't sink the rest of the file
+
+import type { Task, TaskInput } from '@/types/TaskTypes';
+import { createTaskOrQueue } from './offlineSync';
+
+// Requests in flight at once; each chunk finishes before the next one starts
+export const IMPORT_CHUNK_SIZE = 10;
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportOptions {
+  onProgress?: (progress: ImportProgress) => void;
+  signal?: AbortSignal; // stops before the next chunk
+}
+
+export interface ImportResult {
+  created: Task[];
+  failed: { input: TaskInput; error: string }[];
+  stopped: number; // rows never sent because the import was stopped
+}
+
+// Offline, rows are queued in the outbox with the other changes and counted as created
+export const importTasks = async (inputs: TaskInput[], { onProgress, signal }: ImportOptions = {}): Promise<ImportResult> => {
+  const result: ImportResult = { created: [], failed: [], stopped: 0 };
+
+  for (let start = 0; start < inputs.length; start += IMPORT_CHUNK_SIZE) {
+    if (signal?.aborted) {
+      result.stopped = inputs.length - start;
+      break;
+    }
+    const chunk = inputs.slice(start, start + IMPORT_CHUNK_SIZE);
+    const outcomes = await Promise.allSettled(chunk.map(input => createTaskOrQueue(input)));
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        result.created.push(outcome.value);
+        return;
+      }
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      result.failed.push({ input: chunk[index], error });
+    });
+    onProgress?.({ done: start + chunk.length, total: inputs.length });
+  }
+
+  console.log(`📥 Imported ${result.created.length} of ${inputs.length} tasks`);
+  return result;
+};
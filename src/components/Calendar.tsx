@@ -1,70 +1,116 @@
 // src/components/Calendar.tsx
 
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { ChevronLeft, ChevronRight, Plus, RefreshCw, Calendar as CalendarIcon } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek, eachDayOfInterval, isSameMonth, isToday, isSameDay, addMonths, subMonths } from 'date-fns';
+import { format, isSameDay } from 'date-fns';
 import { Button } from '@/components/calendar_ui/button';
 import { Card } from '@/components/calendar_ui/card';
+import { useCalendarCommands } from '@/hooks/use-calendar-commands';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
 import { cn } from '@/lib/utils';
-
-export interface CalendarEvent {
-  id: string;
-  title: string;
-  date: Date;
-  time?: string;
-  color?: string;
-  description?: string;
-  type?: 'task' | 'event' | 'reminder';
-  completed?: boolean;
-}
+import type { CalendarEvent, CalendarView, SavedViewSort } from '@/types/CalendarTypes';
+import {
+  filterEventsForView, getViewRange, getViewTitle, getVisibleDays, navigateView, viewContainsDate, type EventReschedule
+} from '@/lib/calendarViews';
+import { TimeGridView } from './calendar_views/TimeGridView';
+import { AgendaView } from './calendar_views/AgendaView';
+import { TimelineView } from './calendar_views/TimelineView';
+import { ViewSwitcher } from './calendar_views/ViewSwitcher';
+import { MonthView } from './calendar_views/MonthView';
 
 interface CalendarProps {
   events?: CalendarEvent[];
   onDateClick?: (date: Date) => void;
   onEventClick?: (event: CalendarEvent) => void;
+  onEventReschedule?: (event: CalendarEvent, change: EventReschedule) => void;
   onAddEvent?: (date: Date) => void;
   onRefreshEvents?: () => void;
+  onRangeChange?: (range: { start: Date; end: Date }) => void;
   isLoading?: boolean;
+  // Changing it later switches the calendar too, e.g. when a saved view is opened;
+  // unset opens the default view from settings
+  initialView?: CalendarView['type'];
+  onViewTypeChange?: (type: CalendarView['type']) => void;
+  sort?: SavedViewSort; // order of items within a day in the agenda
 }
 
 export const Calendar = ({ 
   events = [], 
   onDateClick, 
   onEventClick, 
+  onEventReschedule,
   onAddEvent,
   onRefreshEvents,
-  isLoading = false 
+  onRangeChange,
+  isLoading = false,
+  initialView,
+  onViewTypeChange,
+  sort = 'schedule'
 }: CalendarProps) => {
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const { settings } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const startView = initialView ?? settings.defaultView;
+  const [viewState, setView] = useState<Omit<CalendarView, 'weekStartsOn'>>({
+    type: startView,
+    currentDate: new Date(),
+    showWeekends: true,
+    showCompleted: true,
+  });
+  const view: CalendarView = { ...viewState, weekStartsOn: settings.startOfWeek };
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
 
-  const monthStart = startOfMonth(currentDate);
-  const monthEnd = endOfMonth(currentDate);
-  const calendarStart = startOfWeek(monthStart);
-  const calendarEnd = endOfWeek(monthEnd);
+  const currentDate = view.currentDate;
+  const days = getVisibleDays(view);
+  const visibleEvents = filterEventsForView(events, view);
+
+  // Let the container expand repeating tasks for just the visible range
+  const viewRange = getViewRange(view);
+  const rangeStart = viewRange.start.getTime();
+  const rangeEnd = viewRange.end.getTime();
+  useEffect(() => {
+    onRangeChange?.({ start: new Date(rangeStart), end: new Date(rangeEnd) });
+  }, [rangeStart, rangeEnd, onRangeChange]);
 
-  const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
-  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  useEffect(() => {
+    setView(prev => (prev.type === startView ? prev : { ...prev, type: startView }));
+  }, [startView]);
+
+  const updateView = (changes: Partial<CalendarView>) => {
+    setView(prev => ({ ...prev, ...changes }));
+    if (changes.type) onViewTypeChange?.(changes.type);
+  };
 
   const getEventsForDate = (date: Date) => {
-    return events.filter(event => isSameDay(event.date, date));
+    return visibleEvents.filter(event => isSameDay(event.date, date));
   };
 
-  const navigateMonth = (direction: 'prev' | 'next') => {
-    setCurrentDate(direction === 'prev' ? subMonths(currentDate, 1) : addMonths(currentDate, 1));
+  const navigate = (direction: 'prev' | 'next') => {
+    updateView({ currentDate: navigateView(view, direction) });
   };
 
-  const goToToday = () => {
+  const goToToday = useCallback(() => {
     const today = new Date();
-    setCurrentDate(today);
+    setView(prev => ({ ...prev, currentDate: today }));
     setSelectedDate(today);
-  };
+  }, []);
+
+  // "Go to today" from the command palette
+  useCalendarCommands(useCallback(command => {
+    if (command.type === 'today') goToToday();
+  }, [goToToday]));
 
   const handleDateClick = (date: Date) => {
     setSelectedDate(date);
     onDateClick?.(date);
   };
 
+  // Drill into a single day, e.g. from a crowded month cell
+  const openDay = (date: Date) => {
+    setSelectedDate(date);
+    updateView({ type: 'day', currentDate: date });
+  };
+
   const handleAddEvent = () => {
     const dateToUse = selectedDate || new Date();
     onAddEvent?.(dateToUse);
@@ -77,7 +123,8 @@ export const Calendar = ({
 
   // Check if current view contains today
   const today = new Date();
-  const isCurrentMonthToday = isSameMonth(today, currentDate);
+  const isTodayInView = viewContainsDate(view, today);
+  const pendingCount = visibleEvents.filter(e => e.type === 'task' && !e.completed).length;
 
   return (
     <div className="w-full max-w-7xl mx-auto">
@@ -93,43 +140,43 @@ export const Calendar = ({
                   <CalendarIcon className="h-5 w-5 text-white" />
                 </div>
                 <h1 className="text-3xl font-bold text-white">
-                  {format(currentDate, 'MMMM yyyy')}
+                  {getViewTitle(view, dateLocale)}
                 </h1>
               </div>
               <Button
-                variant={isCurrentMonthToday ? "default" : "outline"}
+                variant={isTodayInView ? "default" : "outline"}
                 size="sm"
                 onClick={goToToday}
                 className={cn(
                   "transition-all duration-300 font-semibold",
-                  isCurrentMonthToday 
+                  isTodayInView 
                     ? "bg-white/20 hover:bg-white/30 text-white border-white/30 shadow-lg backdrop-blur-sm ring-2 ring-white/30" 
                     : "bg-white/10 hover:bg-white/20 text-white border-white/20 backdrop-blur-sm"
                 )}
               >
-                <CalendarIcon className="h-4 w-4 mr-2" />
-                {isCurrentMonthToday ? "📅 Today" : "Go to Today"}
+                <CalendarIcon className="h-4 w-4 me-2" />
+                {isTodayInView ? `📅 ${t('calendar.today')}` : t('calendar.goToToday')}
               </Button>
             </div>
             
             <div className="flex items-center gap-3">
               {/* Navigation */}
-              <div className="flex items-center gap-1 mr-4">
+              <div className="flex items-center gap-1 me-4">
                 <Button
                   variant="ghost"
                   size="icon"
-                  onClick={() => navigateMonth('prev')}
+                  onClick={() => navigate('prev')}
                   className="hover:bg-white/20 text-white backdrop-blur-sm rounded-xl transition-all duration-200 hover:scale-105"
                 >
-                  <ChevronLeft className="h-5 w-5" />
+                  <ChevronLeft className="h-5 w-5 rtl:rotate-180" />
                 </Button>
                 <Button
                   variant="ghost"
                   size="icon"
-                  onClick={() => navigateMonth('next')}
+                  onClick={() => navigate('next')}
                   className="hover:bg-white/20 text-white backdrop-blur-sm rounded-xl transition-all duration-200 hover:scale-105"
                 >
-                  <ChevronRight className="h-5 w-5" />
+                  <ChevronRight className="h-5 w-5 rtl:rotate-180" />
                 </Button>
               </div>
 
@@ -141,8 +188,8 @@ export const Calendar = ({
                 disabled={isLoading}
                 className="bg-white/10 hover:bg-white/20 text-white border-white/20 backdrop-blur-sm font-medium"
               >
-                <RefreshCw className={cn("h-4 w-4 mr-2", isLoading && "animate-spin")} />
-                Refresh
+                <RefreshCw className={cn("h-4 w-4 me-2", isLoading && "animate-spin")} />
+                {t('calendar.refresh')}
               </Button>
               
               <Button
@@ -151,8 +198,8 @@ export const Calendar = ({
                 onClick={handleAddEvent}
                 className="bg-white hover:bg-white/90 text-purple-600 shadow-lg font-semibold backdrop-blur-sm"
               >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Event
+                <Plus className="h-4 w-4 me-2" />
+                {t('calendar.addEvent')}
               </Button>
             </div>
           </div>
@@ -161,136 +208,64 @@ export const Calendar = ({
           {selectedDate && (
             <div className="mt-4 bg-white/10 border border-white/20 rounded-xl p-3 backdrop-blur-sm">
               <p className="text-sm text-white/90">
-                Selected: <span className="font-semibold text-white">{format(selectedDate, 'EEEE, MMMM d, yyyy')}</span>
-                {isSameDay(selectedDate, today) && <span className="ml-2 text-yellow-200">• Today</span>}
+                {t('calendar.selected')} <span className="font-semibold text-white">{format(selectedDate, 'PPPP', { locale: dateLocale })}</span>
+                {isSameDay(selectedDate, today) && <span className="ms-2 text-yellow-200">• {t('calendar.today')}</span>}
               </p>
             </div>
           )}
+
+          <ViewSwitcher view={view} onChange={updateView} />
         </div>
 
         {/* Calendar Grid */}
         <Card className="p-0 shadow-xl overflow-hidden border-0 bg-white/80 backdrop-blur-sm">
-          {/* Weekday Headers */}
-          <div className="grid grid-cols-7 bg-gradient-to-r from-gray-50 to-gray-100 border-b-2 border-gray-200">
-            {weekdays.map((day) => (
-              <div
-                key={day}
-                className="p-4 text-center text-sm font-bold text-gray-700 uppercase tracking-wide"
-              >
-                {day}
-              </div>
-            ))}
-          </div>
+          {(view.type === 'week' || view.type === 'day') && (
+            <TimeGridView
+              days={days}
+              events={visibleEvents}
+              selectedDate={selectedDate}
+              onSlotClick={handleDateClick}
+              onEventClick={onEventClick}
+              onReschedule={onEventReschedule}
+              scrollToHour={parseInt(settings.workingHours.start, 10) || undefined}
+            />
+          )}
 
-          {/* Calendar Days */}
-          <div className="grid grid-cols-7 bg-white">
-            {days.map((day, index) => {
-              const dayEvents = getEventsForDate(day);
-              const isCurrentMonth = isSameMonth(day, currentDate);
-              const isDayToday = isToday(day);
-              const isSelected = selectedDate && isSameDay(day, selectedDate);
-              const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+          {view.type === 'agenda' && (
+            <AgendaView
+              days={days}
+              events={visibleEvents}
+              onDateClick={openDay}
+              onEventClick={onEventClick}
+              onReschedule={onEventReschedule}
+              sort={sort}
+            />
+          )}
 
-              return (
-                <div
-                  key={day.toISOString()}
-                  className={cn(
-                    "min-h-[130px] p-3 border-b border-r border-gray-100 cursor-pointer transition-all duration-300 group",
-                    "hover:bg-gradient-to-br hover:from-blue-50 hover:to-indigo-50 hover:shadow-lg hover:scale-[1.02] hover:z-10",
-                    !isCurrentMonth && "bg-gray-50/70",
-                    isSelected && "bg-gradient-to-br from-blue-100 to-indigo-100 ring-2 ring-blue-400 ring-inset shadow-lg",
-                    isDayToday && !isSelected && "bg-gradient-to-br from-yellow-50 to-orange-50 ring-2 ring-yellow-400 ring-inset"
-                  )}
-                  onClick={() => handleDateClick(day)}
-                >
-                  <div className="flex flex-col h-full">
-                    {/* Day Number */}
-                    <div
-                      className={cn(
-                        "w-10 h-10 flex items-center justify-center rounded-full text-sm font-bold transition-all duration-300 mb-2",
-                        isDayToday && "bg-gradient-to-br from-blue-500 to-purple-600 text-white shadow-lg ring-2 ring-blue-300 animate-pulse",
-                        !isDayToday && isCurrentMonth && "text-gray-700 group-hover:bg-blue-100 group-hover:text-blue-700",
-                        !isDayToday && !isCurrentMonth && "text-gray-400",
-                        isWeekend && isCurrentMonth && !isDayToday && "text-purple-600 font-semibold",
-                        isSelected && !isDayToday && "bg-blue-200 text-blue-800 ring-2 ring-blue-400"
-                      )}
-                    >
-                      {isDayToday ? (
-                        <span className="flex flex-col items-center">
-                          <span className="text-xs">TODAY</span>
-                          <span className="text-lg">{format(day, 'd')}</span>
-                        </span>
-                      ) : (
-                        format(day, 'd')
-                      )}
-                    </div>
+          {view.type === 'timeline' && (
+            <TimelineView
+              days={days}
+              events={visibleEvents}
+              onDateClick={openDay}
+              onEventClick={onEventClick}
+              onReschedule={onEventReschedule}
+            />
+          )}
 
-                    {/* Events */}
-                    <div className="flex-1 space-y-1">
-                      {dayEvents.slice(0, 3).map((event) => (
-                        <div
-                          key={event.id}
-                          className={cn(
-                            "px-2 py-1 rounded-lg text-xs font-medium cursor-pointer transition-all duration-200",
-                            "shadow-sm border backdrop-blur-sm hover:shadow-md hover:scale-105 hover:z-10",
-                            event.type === 'task' && event.completed && "bg-green-100 text-green-800 border-green-200 line-through opacity-75",
-                            event.type === 'task' && !event.completed && "bg-yellow-100 text-yellow-800 border-yellow-200",
-                            event.type === 'event' && "bg-blue-100 text-blue-800 border-blue-200",
-                            event.type === 'reminder' && "bg-purple-100 text-purple-800 border-purple-200",
-                            !event.type && "bg-indigo-100 text-indigo-800 border-indigo-200"
-                          )}
-                          style={event.color ? { 
-                            backgroundColor: `${event.color}15`, 
-                            borderColor: `${event.color}40`,
-                            color: event.color 
-                          } : {}}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onEventClick?.(event);
-                          }}
-                        >
-                          <div className="flex items-center gap-1">
-                            {event.type === 'task' && (
-                              <span className="text-xs">
-                                {event.completed ? '✅' : '📋'}
-                              </span>
-                            )}
-                            {event.type === 'event' && <span className="text-xs">📅</span>}
-                            {event.type === 'reminder' && <span className="text-xs">🔔</span>}
-                            {event.time && (
-                              <span className="text-xs opacity-75 font-normal">
-                                {event.time}
-                              </span>
-                            )}
-                          </div>
-                          <span className="truncate block font-medium">{event.title}</span>
-                        </div>
-                      ))}
-                      
-                      {dayEvents.length > 3 && (
-                        <div className="text-xs text-gray-600 px-2 py-1 bg-gray-100 rounded-lg text-center border border-gray-200">
-                          +{dayEvents.length - 3} more
-                        </div>
-                      )}
-                      
-                      {dayEvents.length === 0 && isSelected && (
-                        <div 
-                          className="text-xs text-blue-600 px-2 py-1 bg-blue-50 rounded-lg text-center cursor-pointer hover:bg-blue-100 transition-colors border border-blue-200 border-dashed"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleAddEvent();
-                          }}
-                        >
-                          <Plus className="h-3 w-3 inline mr-1" />
-                          Add event
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+          {view.type === 'month' && (
+            <MonthView
+              days={days}
+              events={visibleEvents}
+              currentDate={currentDate}
+              selectedDate={selectedDate}
+              showWeekends={view.showWeekends}
+              onDateClick={handleDateClick}
+              onEventClick={onEventClick}
+              onReschedule={onEventReschedule}
+              onShowMore={openDay}
+              onAddEvent={handleAddEvent}
+            />
+          )}
         </Card>
 
         {/* Quick Stats with Gradient */}
@@ -299,20 +274,23 @@ export const Calendar = ({
             <div className="flex items-center gap-4">
               <span className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                <strong>{events.length}</strong> total events
+                <strong>{visibleEvents.length}</strong> {t('calendar.stats.total', { count: visibleEvents.length })}
               </span>
               <span className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <strong>{getEventsForDate(today).length}</strong> today
+                <strong>{getEventsForDate(today).length}</strong> {t('calendar.stats.today')}
               </span>
               <span className="flex items-center gap-2">
                 <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>
-                <strong>{events.filter(e => e.type === 'task' && !e.completed).length}</strong> pending tasks
+                <strong>{pendingCount}</strong> {t('calendar.stats.pending', { count: pendingCount })}
               </span>
             </div>
             {selectedDate && (
               <span className="text-indigo-600 font-medium">
-                {getEventsForDate(selectedDate).length} events on {format(selectedDate, 'MMM d')}
+                {t('calendar.stats.onDay', {
+                  count: getEventsForDate(selectedDate).length,
+                  date: format(selectedDate, 'MMM d', { locale: dateLocale }),
+                })}
               </span>
             )}
           </div>
@@ -1,42 +1,64 @@
 
-import {
-  taskAPI,
-  categoryAPI,
-  taskUtils
-} from './APIs/TaskAPI';
-
 // src/components/CalendarContainer.tsx
-// Fixed to work with your existing TaskAPI.js
+// Full task editor on top of the calendar, backed by the shared task queries
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Calendar } from './Calendar';
 import { Button } from '@/components/calendar_ui/button';
 import { Card } from '@/components/calendar_ui/card';
 import { 
   X, Clock, Calendar as CalendarIcon, Type, Flag, 
   MapPin, Target, AlertCircle, Loader2,
-  Wifi, WifiOff, Tag
+  Tag, Repeat, SkipForward, Sparkles, GitBranch,
+  ChevronDown, ChevronUp, Timer, Brain
 } from 'lucide-react';
-import { format } from 'date-fns';
-// Calendar Event interface
-interface CalendarEvent {
-  id: string;
-  title: string;
-  description?: string;
-  date: Date;
-  time?: string;
-  deadline?: Date;
-  duration?: number;
-  priority?: 'low' | 'medium' | 'high' | 'urgent';
-  status?: 'not_started' | 'in_progress' | 'completed' | 'cancelled' | 'on_hold';
-  category?: string;
-  tags?: string[];
-  location?: string;
-  type?: 'task' | 'event' | 'reminder';
-  completed?: boolean;
-  progress?: number;
-  color?: string;
-}
+import { addDays, format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useCalendarFilter } from '@/hooks/use-calendar-filter';
+import { useQuickAddShortcut } from '@/hooks/use-quick-add-shortcut';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useSubtaskRollups } from '@/hooks/use-subtask-rollups';
+import { reportConflictError } from '@/hooks/use-task-conflicts';
+import { useViewOptions } from '@/hooks/use-view-options';
+import {
+  useCategories, useCreateTask, useInvalidateTasks, useTaskStats, useTasks, useUpdateTask
+} from '@/hooks/use-tasks';
+import { QuickAddDialog } from './QuickAdd';
+import { PendingChanges } from './offline/PendingChanges';
+import { TaskMergeDialog } from './conflicts/TaskMergeDialog';
+import { AutoSchedulePanel } from './scheduler/AutoSchedulePanel';
+import { DependencyGraph } from './dependencies/DependencyGraph';
+import { TaskPicker } from './dependencies/TaskPicker';
+import { FilterBar } from './filters/FilterBar';
+import { CommandPalette } from './palette/CommandPalette';
+import { getEventEnd, getEventStart, getViewRange, type EventReschedule } from '@/lib/calendarViews';
+import {
+  proposalToInputs, SCHEDULE_HORIZON_DAYS, scheduleTasks, type SchedulePlan
+} from '@/lib/autoScheduler';
+import { filterEventsByDate, filterTasks } from '@/lib/calendarFilter';
+import { expandOccurrences, ruleFromRepeatFields } from '@/lib/recurrence';
+import { displayTimeZone } from '@/lib/settings';
+import { subtasksOf } from '@/lib/subtasks';
+import { buildDependencyGraph, openPrerequisites, validateDependencies } from '@/lib/taskDependencies';
+import { applyTaskInput, eventStatusToTask, formatTaskTime, levelToPriority, taskToEvent } from '@/lib/taskMappers';
+import { fromZonedTime, timeZoneCity, toZonedTime } from '@/lib/timezones';
+import type { CalendarEvent, RecurrenceEditScope } from '@/types/CalendarTypes';
+import type { Task, TaskCategory, TaskInput, TaskStatus } from '@/types/TaskTypes';
+import { applyOccurrenceEdit, getSeriesStart, skipOccurrence } from './APIs/recurringTasks';
+import { TaskConflictError } from './APIs/taskClient';
+import { RecurrenceScopeDialog } from './recurrence/RecurrenceScopeDialog';
+import { TimeZoneSelect } from './settings/TimeZoneSelect';
+import { TimerButton } from './time/TimerButton';
+import { RecurrenceRuleEditor } from './recurrence/RecurrenceRuleEditor';
+
+const LEVELS = [1, 2, 3, 4, 5] as const;
+const LEVEL_ICONS = { 1: '🔴', 2: '🟠', 3: '🟡', 4: '🟢', 5: '🔵' };
+const DIFFICULTY_ICONS = { 1: '💎', 2: '🔴', 3: '🟡', 4: '🟢', 5: '⭐' };
+const STATUS_OPTIONS: [TaskStatus, string][] = [
+  ['pending', '⭕'], ['in_progress', '🔄'], ['completed', '✅'], ['on_hold', '⏸️'], ['cancelled', '❌'],
+];
+const REPEAT_PATTERNS = ['daily', 'weekly', 'monthly', 'yearly', 'custom'] as const;
 
 // Comprehensive Task Event Dialog matching your Task model
 interface ComprehensiveTaskDialogProps {
@@ -45,8 +67,8 @@ interface ComprehensiveTaskDialogProps {
   editEvent?: CalendarEvent | null;
   onClose: () => void;
   onSave: (event: Omit<CalendarEvent, 'id'>) => Promise<void>;
-  categories: any[];
-  existingTasks: any[];
+  categories: TaskCategory[];
+  existingTasks: Task[];
   isLoading?: boolean;
 }
 
@@ -60,6 +82,14 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
   existingTasks = [],
   isLoading = false
 }) => {
+  const createTask = useCreateTask();
+  const updateTask = useUpdateTask();
+  const invalidateTasks = useInvalidateTasks();
+  const { t, dateLocale } = useI18n();
+  const { settings } = useSettings();
+  const { defaultEventDuration } = settings;
+  const displayZone = displayTimeZone(settings);
+
   // Basic Information
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
@@ -68,9 +98,10 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
 
   // Timing Information
   const [deadline, setDeadline] = useState('');
-  const [durationMinutes, setDurationMinutes] = useState<number>(60);
+  const [durationMinutes, setDurationMinutes] = useState<number>(defaultEventDuration);
   const [specificTime, setSpecificTime] = useState('');
-  const [estimatedDurationMinutes, setEstimatedDurationMinutes] = useState<number>(60);
+  const [timeZone, setTimeZone] = useState(displayZone); // the clock the date and time are entered on
+  const [estimatedDurationMinutes, setEstimatedDurationMinutes] = useState<number>(defaultEventDuration);
   const [minimumDurationMinutes, setMinimumDurationMinutes] = useState<number>(30);
   const [maximumDurationMinutes, setMaximumDurationMinutes] = useState<number>(120);
 
@@ -92,8 +123,8 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
   const [requiredTools, setRequiredTools] = useState<string>('');
 
   // Dependencies and Relationships
-  const [prerequisiteTasks, setPrerequisiteTasks] = useState<string>('');
-  const [blockingTasks, setBlockingTasks] = useState<string>('');
+  const [prerequisiteTasks, setPrerequisiteTasks] = useState<string[]>([]);
+  const [blockingTasks, setBlockingTasks] = useState<string[]>([]);
 
   // Scheduling Constraints
   const [canBeSplit, setCanBeSplit] = useState<boolean>(true);
@@ -104,9 +135,12 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
   // Advanced Fields
   const [deadlineFlexibilityMinutes, setDeadlineFlexibilityMinutes] = useState<number>(0);
   const [isRepeat, setIsRepeat] = useState<boolean>(false);
-  const [repeatPattern, setRepeatPattern] = useState<string>('');
+  const [repeatPattern, setRepeatPattern] = useState<TaskInput['repeat_pattern']>('');
   const [repeatFrequency, setRepeatFrequency] = useState<number>(1);
   const [repeatDaysOfWeek, setRepeatDaysOfWeek] = useState<string>('');
+  const [repeatEndDate, setRepeatEndDate] = useState('');
+  const [recurrenceRule, setRecurrenceRule] = useState('');
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>('this');
 
   // AI and Quality
   const [aiSuggested, setAiSuggested] = useState<boolean>(false);
@@ -128,56 +162,117 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
     setExpandedSections(newExpanded);
   };
 
+  // Occurrences share the task of their series
+  const sourceTask = editEvent
+    ? existingTasks.find(task => String(task.id) === (editEvent.seriesId ?? String(editEvent.id)))
+    : null;
+  // The form shows an occurrence with whatever it changed on its own
+  const ownFields = editEvent?.occurrenceDate
+    ? sourceTask?.recurrence_exceptions?.find(exception => exception.date === editEvent.occurrenceDate)?.fields
+    : undefined;
+  const formTask = useMemo(
+    () => (sourceTask && ownFields ? applyTaskInput(sourceTask, ownFields, categories) : sourceTask),
+    [sourceTask, ownFields, categories]
+  );
+
   useEffect(() => {
     if (editEvent) {
       // Load existing task data - you'll need to fetch full task details here
       setName(editEvent.title);
       setDescription(editEvent.description || '');
-      setDeadline(editEvent.deadline ? format(editEvent.deadline, 'yyyy-MM-dd') : '');
-      setSpecificTime(editEvent.time || '');
-      setDurationMinutes(editEvent.duration || 60);
+      // The calendar shows timed tasks on the display zone's clock; the form uses the task's own
+      const zone = formTask?.timezone || displayZone;
+      const shownStart = editEvent.time ? toZonedTime(fromZonedTime(editEvent.date, displayZone), zone) : editEvent.deadline;
+      setTimeZone(zone);
+      setDeadline(shownStart ? format(shownStart, 'yyyy-MM-dd') : '');
+      setSpecificTime(editEvent.time ? format(shownStart, 'HH:mm') : '');
+      setDurationMinutes(editEvent.duration || defaultEventDuration);
       
-      // Map priority
-      const priorityMap: { [key: string]: number } = {
-        'urgent': 1, 'high': 2, 'medium': 3, 'low': 5
-      };
-      setPriority(priorityMap[editEvent.priority || 'medium'] || 3);
-      setUrgency(priorityMap[editEvent.priority || 'medium'] || 3);
-      
-      // Map status
-      const statusMap: { [key: string]: string } = {
-        'not_started': 'pending', 'in_progress': 'in_progress',
-        'completed': 'completed', 'cancelled': 'cancelled', 'on_hold': 'on_hold'
-      };
-      setStatus(statusMap[editEvent.status || 'not_started'] || 'pending');
+      setPriority(formTask?.priority ?? levelToPriority(editEvent.priority));
+      setUrgency(formTask?.urgency ?? levelToPriority(editEvent.priority));
+      setStatus(eventStatusToTask(editEvent.status));
       
       setCategory(editEvent.category || '');
       setTags(editEvent.tags?.join(', ') || '');
       setLocation(editEvent.location || '');
       setCompletionPercentage(editEvent.progress || 0);
+      // Tracked time is added to the task as timers stop, so saving the form must carry it over
+      setEstimatedEffortHours(formTask?.estimated_effort_hours ?? 1.0);
+      setActualTimeSpentMinutes(formTask?.actual_time_spent_minutes ?? 0);
+      setPrerequisiteTasks((formTask?.prerequisite_tasks ?? []).map(String));
+      setBlockingTasks((formTask?.blocking_tasks ?? []).map(String));
+
+      // The auto-scheduler reads these, so they have to survive a save from the form
+      setEstimatedDurationMinutes(formTask?.estimated_duration_minutes ?? defaultEventDuration);
+      setMinimumDurationMinutes(formTask?.minimum_duration_minutes ?? 30);
+      setMaximumDurationMinutes(formTask?.maximum_duration_minutes ?? 120);
+      setDeadlineFlexibilityMinutes(formTask?.deadline_flexibility_minutes ?? 0);
+      setDifficultyLevel(formTask?.difficulty_level ?? 3);
+      setBasePriority(formTask?.base_priority ?? 3);
+      setUrgencyMultiplier(formTask?.urgency_multiplier ?? 1.0);
+      setRequiredTools(formTask?.required_tools?.join(', ') || '');
+      setCanBeSplit(formTask?.can_be_split ?? true);
+      setRequiresConsecutiveTime(!!formTask?.requires_consecutive_time);
+      setPreferredTimeOfDay(formTask?.preferred_time_of_day?.join(', ') || '');
+      setAvoidTimeOfDay(formTask?.avoid_time_of_day?.join(', ') || '');
+
+      // Repetition isn't on the calendar event, read it from the task
+      setIsRepeat(!!formTask?.is_repeat);
+      setRepeatPattern(formTask?.repeat_pattern || '');
+      setRepeatFrequency(formTask?.repeat_frequency || 1);
+      setRepeatDaysOfWeek(formTask?.repeat_days_of_week?.join(', ') || '');
+      setRepeatEndDate(formTask?.repeat_end_date ? formTask.repeat_end_date.slice(0, 10) : '');
+      setRecurrenceRule(formTask?.recurrence_rule || '');
+      setEditScope('this');
+
+      // Keep the assistant's flags, or saving the form would reset them
+      setAiSuggested(!!formTask?.ai_suggested);
+      setAiConfidenceScore(formTask?.ai_confidence_score ?? 0);
+      setUserSatisfactionRating(formTask?.user_satisfaction_rating ?? 0);
     } else {
       // Reset all fields
-      setName(''); setDescription(''); setDeadline(''); setSpecificTime('');
-      setDurationMinutes(60); setEstimatedDurationMinutes(60);
+      setName(''); setDescription(''); setDeadline(''); setSpecificTime(''); setTimeZone(displayZone);
+      setDurationMinutes(defaultEventDuration); setEstimatedDurationMinutes(defaultEventDuration);
       setMinimumDurationMinutes(30); setMaximumDurationMinutes(120);
       setPriority(3); setUrgency(3); setDifficultyLevel(3);
       setBasePriority(3); setUrgencyMultiplier(1.0);
       setStatus('pending'); setCompletionPercentage(0);
       setEstimatedEffortHours(1.0); setActualTimeSpentMinutes(0);
-      setLocation(''); setRequiredTools(''); setPrerequisiteTasks('');
-      setBlockingTasks(''); setCategory(''); setTags('');
+      setLocation(''); setRequiredTools(''); setPrerequisiteTasks([]);
+      setBlockingTasks([]); setCategory(''); setTags('');
       setCanBeSplit(true); setRequiresConsecutiveTime(false);
       setPreferredTimeOfDay(''); setAvoidTimeOfDay('');
       setDeadlineFlexibilityMinutes(0); setIsRepeat(false);
       setRepeatPattern(''); setRepeatFrequency(1); setRepeatDaysOfWeek('');
+      setRepeatEndDate(''); setRecurrenceRule(''); setEditScope('this');
       setAiSuggested(false); setUserSatisfactionRating(0); setAiConfidenceScore(0);
     }
     setSubmitError(null);
-  }, [editEvent, isOpen]);
+  }, [editEvent, isOpen, formTask, defaultEventDuration, displayZone]);
+
+  // Date and time entered in the form, used for occurrence edits and the rule preview
+  const enteredDate = deadline ? new Date(`${deadline}T${/^\d{2}:\d{2}$/.test(specificTime) ? specificTime : '00:00'}`) : null;
+  const enteredValid = enteredDate && !isNaN(enteredDate.getTime());
+  const scheduledWall = enteredValid ? enteredDate : date;
+  const scheduledStart = enteredValid ? fromZonedTime(enteredDate, timeZone) : date && fromZonedTime(date, displayZone);
+
+  // Loops and out-of-order prerequisites block the save
+  const dependencyErrors = validateDependencies(existingTasks, {
+    id: sourceTask ? String(sourceTask.id) : null,
+    name,
+    start: deadline ? scheduledStart : null,
+    prerequisites: prerequisiteTasks,
+    blocking: blockingTasks,
+  }, t);
 
   const handleSave = async () => {
     if (!name || !date) {
-      setSubmitError('Task name and date are required');
+      setSubmitError(t('editor.required'));
+      return;
+    }
+    if (dependencyErrors.length > 0) {
+      setExpandedSections(prev => new Set(prev).add('dependencies'));
+      setSubmitError(dependencyErrors[0]);
       return;
     }
 
@@ -186,7 +281,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
 
     try {
       // Create comprehensive task data for your backend
-      const taskData = {
+      const taskData: TaskInput = {
         // Basic Information
         name: name,
         description: description,
@@ -207,7 +302,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
         urgency_multiplier: urgencyMultiplier,
         
         // Progress and Status
-        status: status,
+        status: status as TaskStatus,
         completion_percentage: completionPercentage,
         estimated_effort_hours: estimatedEffortHours,
         actual_time_spent_minutes: actualTimeSpentMinutes,
@@ -217,8 +312,8 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
         required_tools: requiredTools ? requiredTools.split(',').map(tool => tool.trim()).filter(Boolean) : [],
         
         // Dependencies
-        prerequisite_tasks: prerequisiteTasks ? prerequisiteTasks.split(',').map(id => id.trim()).filter(Boolean) : [],
-        blocking_tasks: blockingTasks ? blockingTasks.split(',').map(id => id.trim()).filter(Boolean) : [],
+        prerequisite_tasks: prerequisiteTasks,
+        blocking_tasks: blockingTasks,
         
         // Scheduling Constraints
         can_be_split: canBeSplit,
@@ -231,6 +326,8 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
         repeat_pattern: repeatPattern,
         repeat_frequency: repeatFrequency,
         repeat_days_of_week: repeatDaysOfWeek ? repeatDaysOfWeek.split(',').map(day => day.trim()).filter(Boolean) : [],
+        repeat_end_date: isRepeat && repeatEndDate && repeatPattern !== 'custom' ? repeatEndDate : null,
+        recurrence_rule: isRepeat && repeatPattern === 'custom' ? recurrenceRule || null : null,
         
         // AI Fields
         ai_suggested: aiSuggested,
@@ -238,18 +335,12 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
         ai_confidence_score: aiConfidenceScore || null,
       };
 
-      // Set deadline and specific time
+      // Set deadline and specific time, read on the clock of the chosen zone; an all-day task is due at its midnight
       if (deadline) {
-        if (specificTime) {
-          const [hours, minutes] = specificTime.split(':');
-          const deadlineDate = new Date(deadline);
-          deadlineDate.setHours(parseInt(hours), parseInt(minutes));
-          taskData.deadline = deadlineDate.toISOString();
-          taskData.specific_time = deadlineDate.toISOString();
-        } else {
-          taskData.deadline = new Date(deadline).toISOString();
-        }
+        taskData.deadline = scheduledStart.toISOString();
+        taskData.specific_time = specificTime ? scheduledStart.toISOString() : null;
       }
+      taskData.timezone = timeZone;
 
       // Set category ID
       if (category) {
@@ -262,21 +353,55 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
       console.log('Creating comprehensive task:', taskData);
 
       // Call your API
-      if (editEvent) {
-        await taskAPI.updateTask(editEvent.id, taskData);
+      if (editEvent?.seriesId && editEvent.occurrenceDate && sourceTask) {
+        await applyOccurrenceEdit(sourceTask, editEvent.occurrenceDate, editScope, {
+          start: deadline ? scheduledStart : fromZonedTime(editEvent.date, displayZone),
+          duration: durationMinutes,
+          allDay: !specificTime,
+          fields: taskData,
+        });
+        await invalidateTasks();
+      } else if (editEvent) {
+        await updateTask.mutateAsync({ id: editEvent.id, input: taskData });
       } else {
-        await taskAPI.createTask(taskData);
+        await createTask.mutateAsync(taskData);
       }
 
       onClose();
     } catch (error) {
-      setSubmitError(error instanceof Error ? error.message : 'Failed to save task');
+      // The merge dialog takes over from here; series edits go around useUpdateTask, which reports its own
+      if (error instanceof TaskConflictError) {
+        if (editEvent?.seriesId) reportConflictError(error, sourceTask);
+        onClose();
+        return;
+      }
+      setSubmitError(error instanceof Error ? error.message : t('editor.saveFailed'));
       console.error('Failed to save comprehensive task:', error);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleSkipOccurrence = async () => {
+    if (!sourceTask || !editEvent?.occurrenceDate) return;
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      await skipOccurrence(sourceTask, editEvent.occurrenceDate);
+      await invalidateTasks({ stats: false });
+      onClose();
+    } catch (error) {
+      if (reportConflictError(error, sourceTask)) {
+        onClose();
+        return;
+      }
+      setSubmitError(error instanceof Error ? error.message : t('editor.skipFailed'));
+      console.error('Failed to skip occurrence:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   if (!isOpen || !date) return null;
 
   return (
@@ -287,7 +412,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
           <div className="flex justify-between items-center">
             <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
               <CalendarIcon className="h-6 w-6 text-blue-600" />
-              {editEvent ? 'Edit Task' : 'Create Comprehensive Task'}
+              {editEvent ? t('taskDialog.edit') : t('editor.create')}
               {isLoading && <Loader2 className="h-5 w-5 animate-spin text-blue-600" />}
             </h2>
             <Button
@@ -304,10 +429,43 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
           <div className="mt-4 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200">
             <p className="text-sm text-blue-700 flex items-center gap-2">
               <CalendarIcon className="h-4 w-4" />
-              {format(date, 'EEEE, MMMM d, yyyy')}
+              {format(date, 'PPPP', { locale: dateLocale })}
             </p>
           </div>
 
+          {editEvent?.seriesId && (
+            <div className="mt-4 p-3 bg-gray-50 rounded-lg border border-gray-200 flex flex-wrap items-center gap-3">
+              <Repeat className="h-4 w-4 text-blue-600" />
+              <label className="text-sm font-medium text-gray-700">{t('editor.applyTo')}</label>
+              <select
+                value={editScope}
+                onChange={(e) => setEditScope(e.target.value as RecurrenceEditScope)}
+                disabled={isSubmitting}
+                className="border-2 border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none disabled:opacity-50"
+              >
+                <option value="this">{t('scope.this')}</option>
+                <option value="following">{t('scope.following')}</option>
+                <option value="all">{t('scope.all')}</option>
+              </select>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleSkipOccurrence}
+                disabled={isSubmitting}
+                className="ms-auto"
+              >
+                <SkipForward className="h-4 w-4 me-1" />
+                {t('editor.skip')}
+              </Button>
+              {editScope === 'this' && (
+                <p className="w-full text-xs text-gray-500">
+                  {t('editor.onlyThis')}
+                </p>
+              )}
+            </div>
+          )}
+
           {submitError && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
               <p className="text-sm text-red-700 flex items-center gap-2">
@@ -328,7 +486,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <Type className="h-5 w-5" />
-                Basic Information
+                {t('taskDialog.basics')}
               </h3>
               {expandedSections.has('basic') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -336,39 +494,39 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             {expandedSections.has('basic') && (
               <div className="p-4 space-y-4">
                 <div>
-                  <label className="block text-sm font-bold text-gray-700 mb-2">Task Name *</label>
+                  <label className="block text-sm font-bold text-gray-700 mb-2">{t('taskDialog.name')}</label>
                   <input
                     type="text"
                     value={name}
                     onChange={(e) => setName(e.target.value)}
                     className="w-full border-2 border-gray-200 rounded-xl px-4 py-3 focus:border-blue-500 focus:outline-none transition-colors text-lg"
-                    placeholder="Enter task name..."
+                    placeholder={t('editor.namePlaceholder')}
                     disabled={isSubmitting}
                   />
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('taskDialog.description')}</label>
                   <textarea
                     value={description}
                     onChange={(e) => setDescription(e.target.value)}
                     disabled={isSubmitting}
                     className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                     rows={3}
-                    placeholder="Detailed description of the task..."
+                    placeholder={t('editor.descriptionPlaceholder')}
                   />
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('taskDialog.category')}</label>
                     <select
                       value={category}
                       onChange={(e) => setCategory(e.target.value)}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                     >
-                      <option value="">Select category...</option>
+                      <option value="">{t('editor.chooseCategory')}</option>
                       {categories.map((cat) => (
                         <option key={cat.id} value={cat.name}>{cat.name}</option>
                       ))}
@@ -376,14 +534,14 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Tags (comma-separated)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.tags')}</label>
                     <input
                       type="text"
                       value={tags}
                       onChange={(e) => setTags(e.target.value)}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                      placeholder="urgent, meeting, project..."
+                      placeholder={t('editor.tagsPlaceholder')}
                     />
                   </div>
                 </div>
@@ -400,7 +558,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <Clock className="h-5 w-5" />
-                Timing & Duration
+                {t('editor.timing')}
               </h3>
               {expandedSections.has('timing') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -409,7 +567,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
               <div className="p-4 space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Specific Time</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.specificTime')}</label>
                     <input
                       type="time"
                       value={specificTime}
@@ -420,7 +578,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Deadline</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('taskDialog.deadline')}</label>
                     <input
                       type="date"
                       value={deadline}
@@ -431,7 +589,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Deadline Flexibility (minutes)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.flexibility')}</label>
                     <input
                       type="number"
                       value={deadlineFlexibilityMinutes}
@@ -443,9 +601,24 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.timeZone')}</label>
+                  <TimeZoneSelect
+                    value={timeZone}
+                    onChange={setTimeZone}
+                    disabled={isSubmitting}
+                    className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                  />
+                  {timeZone !== displayZone && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {t('editor.zoneHint', { city: timeZoneCity(timeZone) })}
+                    </p>
+                  )}
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Duration (minutes)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.duration')}</label>
                     <input
                       type="number"
                       value={durationMinutes}
@@ -457,7 +630,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Estimated Duration</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.estimated')}</label>
                     <input
                       type="number"
                       value={estimatedDurationMinutes}
@@ -469,7 +642,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Min Duration</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.minimum')}</label>
                     <input
                       type="number"
                       value={minimumDurationMinutes}
@@ -481,7 +654,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Max Duration</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.maximum')}</label>
                     <input
                       type="number"
                       value={maximumDurationMinutes}
@@ -495,7 +668,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Estimated Effort (hours)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.effort')}</label>
                     <input
                       type="number"
                       step="0.5"
@@ -508,7 +681,10 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Actual Time Spent (minutes)</label>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="block text-sm font-medium text-gray-700">{t('editor.spent')}</label>
+                      {sourceTask && <TimerButton task={sourceTask} className="py-0.5 text-xs" />}
+                    </div>
                     <input
                       type="number"
                       value={actualTimeSpentMinutes}
@@ -532,7 +708,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <Flag className="h-5 w-5" />
-                Priority & Difficulty
+                {t('editor.priorityDifficulty')}
               </h3>
               {expandedSections.has('priority') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -541,57 +717,51 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
               <div className="p-4 space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Priority (1-5)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.priority')}</label>
                     <select
                       value={priority}
                       onChange={(e) => setPriority(parseInt(e.target.value))}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                     >
-                      <option value={1}>🔴 Critical (1)</option>
-                      <option value={2}>🟠 High (2)</option>
-                      <option value={3}>🟡 Medium (3)</option>
-                      <option value={4}>🟢 Low (4)</option>
-                      <option value={5}>🔵 Lowest (5)</option>
+                      {LEVELS.map(level => (
+                        <option key={level} value={level}>{LEVEL_ICONS[level]} {t(`priority.${level}`)} ({level})</option>
+                      ))}
                     </select>
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Urgency (1-5)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.urgency')}</label>
                     <select
                       value={urgency}
                       onChange={(e) => setUrgency(parseInt(e.target.value))}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                     >
-                      <option value={1}>🔴 Urgent (1)</option>
-                      <option value={2}>🟠 High (2)</option>
-                      <option value={3}>🟡 Medium (3)</option>
-                      <option value={4}>🟢 Low (4)</option>
-                      <option value={5}>🔵 Lowest (5)</option>
+                      {LEVELS.map(level => (
+                        <option key={level} value={level}>{LEVEL_ICONS[level]} {t(`editor.urgency.${level}`)} ({level})</option>
+                      ))}
                     </select>
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Difficulty (1-5)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.difficulty')}</label>
                     <select
                       value={difficultyLevel}
                       onChange={(e) => setDifficultyLevel(parseInt(e.target.value))}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                     >
-                      <option value={1}>💎 Very Hard (1)</option>
-                      <option value={2}>🔴 Hard (2)</option>
-                      <option value={3}>🟡 Medium (3)</option>
-                      <option value={4}>🟢 Easy (4)</option>
-                      <option value={5}>⭐ Very Easy (5)</option>
+                      {LEVELS.map(level => (
+                        <option key={level} value={level}>{DIFFICULTY_ICONS[level]} {t(`editor.difficulty.${level}`)} ({level})</option>
+                      ))}
                     </select>
                   </div>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Base Priority</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.basePriority')}</label>
                     <input
                       type="number"
                       min="1"
@@ -604,7 +774,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Urgency Multiplier</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.urgencyMultiplier')}</label>
                     <input
                       type="number"
                       step="0.1"
@@ -618,24 +788,22 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('taskDialog.status')}</label>
                     <select
                       value={status}
                       onChange={(e) => setStatus(e.target.value)}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                     >
-                      <option value="pending">⭕ Pending</option>
-                      <option value="in_progress">🔄 In Progress</option>
-                      <option value="completed">✅ Completed</option>
-                      <option value="on_hold">⏸️ On Hold</option>
-                      <option value="cancelled">❌ Cancelled</option>
+                      {STATUS_OPTIONS.map(([value, icon]) => (
+                        <option key={value} value={value}>{icon} {t(`status.${value}`)}</option>
+                      ))}
                     </select>
                   </div>
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Completion Percentage: {completionPercentage}%</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.completion', { percent: completionPercentage })}</label>
                   <input
                     type="range"
                     min="0"
@@ -659,7 +827,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <MapPin className="h-5 w-5" />
-                Location & Tools
+                {t('editor.locationTools')}
               </h3>
               {expandedSections.has('location') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -668,26 +836,26 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
               <div className="p-4 space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('taskDialog.location')}</label>
                     <input
                       type="text"
                       value={location}
                       onChange={(e) => setLocation(e.target.value)}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                      placeholder="Where will this happen?"
+                      placeholder={t('editor.locationPlaceholder')}
                     />
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Required Tools (comma-separated)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.tools')}</label>
                     <input
                       type="text"
                       value={requiredTools}
                       onChange={(e) => setRequiredTools(e.target.value)}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                      placeholder="laptop, notebook, calculator..."
+                      placeholder={t('editor.toolsPlaceholder')}
                     />
                   </div>
                 </div>
@@ -704,7 +872,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <GitBranch className="h-5 w-5" />
-                Dependencies & Relationships
+                {t('editor.dependencies')}
               </h3>
               {expandedSections.has('dependencies') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -712,30 +880,37 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             {expandedSections.has('dependencies') && (
               <div className="p-4 space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Prerequisite Tasks (comma-separated IDs)</label>
-                    <input
-                      type="text"
-                      value={prerequisiteTasks}
-                      onChange={(e) => setPrerequisiteTasks(e.target.value)}
-                      disabled={isSubmitting}
-                      className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                      placeholder="task1, task2, task3..."
-                    />
-                  </div>
+                  <TaskPicker
+                    label={t('editor.prerequisites')}
+                    hint={t('editor.prerequisitesHint')}
+                    value={prerequisiteTasks}
+                    onChange={setPrerequisiteTasks}
+                    tasks={existingTasks}
+                    excludeId={sourceTask ? String(sourceTask.id) : null}
+                    disabled={isSubmitting}
+                  />
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Blocking Tasks (comma-separated IDs)</label>
-                    <input
-                      type="text"
-                      value={blockingTasks}
-                      onChange={(e) => setBlockingTasks(e.target.value)}
-                      disabled={isSubmitting}
-                      className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                      placeholder="task4, task5, task6..."
-                    />
-                  </div>
+                  <TaskPicker
+                    label={t('editor.blocking')}
+                    hint={t('editor.blockingHint')}
+                    value={blockingTasks}
+                    onChange={setBlockingTasks}
+                    tasks={existingTasks}
+                    excludeId={sourceTask ? String(sourceTask.id) : null}
+                    disabled={isSubmitting}
+                  />
                 </div>
+
+                {dependencyErrors.length > 0 && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+                    {dependencyErrors.map(message => (
+                      <div key={message} className="flex items-start gap-2 text-sm text-red-700">
+                        <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                        {message}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -749,7 +924,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <Timer className="h-5 w-5" />
-                Scheduling Constraints
+                {t('editor.scheduling')}
               </h3>
               {expandedSections.has('scheduling') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -766,7 +941,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                         disabled={isSubmitting}
                         className="rounded border-gray-300"
                       />
-                      Can be split into smaller chunks
+                      {t('editor.canSplit')}
                     </label>
 
                     <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
@@ -777,32 +952,32 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                         disabled={isSubmitting}
                         className="rounded border-gray-300"
                       />
-                      Requires consecutive time block
+                      {t('editor.consecutive')}
                     </label>
                   </div>
 
                   <div className="space-y-3">
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Preferred Time of Day</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.preferredTime')}</label>
                       <input
                         type="text"
                         value={preferredTimeOfDay}
                         onChange={(e) => setPreferredTimeOfDay(e.target.value)}
                         disabled={isSubmitting}
                         className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                        placeholder="morning, afternoon, evening..."
+                        placeholder={t('editor.preferredPlaceholder')}
                       />
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Avoid Time of Day</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.avoidTime')}</label>
                       <input
                         type="text"
                         value={avoidTimeOfDay}
                         onChange={(e) => setAvoidTimeOfDay(e.target.value)}
                         disabled={isSubmitting}
                         className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                        placeholder="late night, early morning..."
+                        placeholder={t('editor.avoidPlaceholder')}
                       />
                     </div>
                   </div>
@@ -820,7 +995,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <Target className="h-5 w-5" />
-                Repetition & Recurrence
+                {t('editor.repetition')}
               </h3>
               {expandedSections.has('repetition') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -835,30 +1010,28 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                     disabled={isSubmitting}
                     className="rounded border-gray-300"
                   />
-                  This is a recurring task
+                  {t('editor.isRepeat')}
                 </label>
 
-                {isRepeat && (
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {isRepeat && repeatPattern !== 'custom' && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Repeat Pattern</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.pattern')}</label>
                       <select
                         value={repeatPattern}
-                        onChange={(e) => setRepeatPattern(e.target.value)}
+                        onChange={(e) => setRepeatPattern(e.target.value as TaskInput['repeat_pattern'])}
                         disabled={isSubmitting}
                         className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                       >
-                        <option value="">Select pattern...</option>
-                        <option value="daily">Daily</option>
-                        <option value="weekly">Weekly</option>
-                        <option value="monthly">Monthly</option>
-                        <option value="yearly">Yearly</option>
-                        <option value="custom">Custom</option>
+                        <option value="">{t('editor.choosePattern')}</option>
+                        {REPEAT_PATTERNS.map(pattern => (
+                          <option key={pattern} value={pattern}>{t(`repeat.${pattern}`)}</option>
+                        ))}
                       </select>
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.frequency')}</label>
                       <input
                         type="number"
                         min="1"
@@ -870,16 +1043,51 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Days of Week</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.days')}</label>
                       <input
                         type="text"
                         value={repeatDaysOfWeek}
                         onChange={(e) => setRepeatDaysOfWeek(e.target.value)}
                         disabled={isSubmitting}
                         className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                        placeholder="Monday, Tuesday, Friday..."
+                        placeholder={t('editor.daysPlaceholder')}
                       />
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.endsOn')}</label>
+                      <input
+                        type="date"
+                        value={repeatEndDate}
+                        onChange={(e) => setRepeatEndDate(e.target.value)}
+                        disabled={isSubmitting}
+                        className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {isRepeat && repeatPattern === 'custom' && (
+                  <div className="space-y-4">
+                    <div className="max-w-xs">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.pattern')}</label>
+                      <select
+                        value={repeatPattern}
+                        onChange={(e) => setRepeatPattern(e.target.value as TaskInput['repeat_pattern'])}
+                        disabled={isSubmitting}
+                        className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                      >
+                        {REPEAT_PATTERNS.map(pattern => (
+                          <option key={pattern} value={pattern}>{t(`repeat.${pattern}`)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <RecurrenceRuleEditor
+                      value={recurrenceRule}
+                      onChange={setRecurrenceRule}
+                      start={scheduledWall}
+                      disabled={isSubmitting}
+                    />
                   </div>
                 )}
               </div>
@@ -895,7 +1103,7 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
             >
               <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                 <Brain className="h-5 w-5" />
-                AI & Quality Metrics
+                {t('editor.ai')}
               </h3>
               {expandedSections.has('ai') ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
             </button>
@@ -910,29 +1118,27 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
                     disabled={isSubmitting}
                     className="rounded border-gray-300"
                   />
-                  AI-suggested task
+                  {t('editor.aiSuggested')}
                 </label>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">User Satisfaction (1-5)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.satisfaction')}</label>
                     <select
                       value={userSatisfactionRating}
                       onChange={(e) => setUserSatisfactionRating(parseInt(e.target.value))}
                       disabled={isSubmitting}
                       className="w-full border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
                     >
-                      <option value={0}>Not rated</option>
-                      <option value={1}>⭐ Poor (1)</option>
-                      <option value={2}>⭐⭐ Fair (2)</option>
-                      <option value={3}>⭐⭐⭐ Good (3)</option>
-                      <option value={4}>⭐⭐⭐⭐ Very Good (4)</option>
-                      <option value={5}>⭐⭐⭐⭐⭐ Excellent (5)</option>
+                      <option value={0}>{t('editor.notRated')}</option>
+                      {LEVELS.map(level => (
+                        <option key={level} value={level}>{'⭐'.repeat(level)} {t(`editor.rating.${level}`)} ({level})</option>
+                      ))}
                     </select>
                   </div>
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">AI Confidence Score (0-1)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('editor.confidence')}</label>
                     <input
                       type="number"
                       step="0.01"
@@ -959,15 +1165,15 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
               disabled={isSubmitting}
               className="flex-1 border-2 hover:bg-gray-50 disabled:opacity-50"
             >
-              Cancel
+              {t('common.cancel')}
             </Button>
             <Button
               onClick={handleSave}
               disabled={!name || isSubmitting}
               className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-              {editEvent ? 'Update' : 'Create'} Comprehensive Task
+              {isSubmitting && <Loader2 className="h-4 w-4 me-2 animate-spin" />}
+              {editEvent ? t('editor.update') : t('editor.create')}
             </Button>
           </div>
         </div>
@@ -976,120 +1182,119 @@ const ComprehensiveTaskDialog: React.FC<ComprehensiveTaskDialogProps> = ({
   );
 };
 
+// Repeating tasks become one event per occurrence in the range, which is in real instants.
+// Dates are shown on the clock of `timeZone`; without one they stay plain instants.
+// An occurrence edited on its own shows its own name, priority and the like.
+const expandTaskToEvents = (
+  task: Task, range: { start: Date; end: Date }, timeZone?: string, categories: TaskCategory[] = []
+): CalendarEvent[] => {
+  const base = taskToEvent(task, timeZone);
+  const rule = ruleFromRepeatFields(task);
+  const seriesStart = getSeriesStart(task);
+  if (!rule || !seriesStart) return [base];
+
+  return expandOccurrences(seriesStart, rule, range.start, range.end, task.recurrence_exceptions, task.timezone).map(occ => {
+    const date = toZonedTime(occ.start, task.specific_time ? timeZone : task.timezone);
+    return {
+      ...(occ.fields ? taskToEvent(applyTaskInput(task, occ.fields, categories), timeZone) : base),
+      id: `${task.id}::${occ.key}`,
+      seriesId: String(task.id),
+      occurrenceDate: occ.key,
+      date,
+      time: task.specific_time ? formatTaskTime(date) : undefined,
+      deadline: date,
+      duration: occ.duration ?? base.duration,
+    };
+  });
+};
+
 // Main Calendar Container (same as before, just updated dialog component)
 const ComprehensiveCalendarContainer: React.FC = () => {
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [stats, setStats] = useState<any>(null);
-  const [categories, setCategories] = useState<any[]>([]);
-  const [existingTasks, setExistingTasks] = useState<any[]>([]);
+  // Same cache as the dashboard, so edits there show up here without a reload
+  const { t } = useI18n();
+  const tasksQuery = useTasks();
+  const statsQuery = useTaskStats();
+  const { data: categories = [] } = useCategories();
+  const existingTasks = useMemo(() => tasksQuery.data ?? [], [tasksQuery.data]);
+  const stats = statsQuery.data ?? null;
+  const loading = tasksQuery.isFetching;
+  const error = tasksQuery.error ? tasksQuery.error.message || t('tasks.loadFailed') : null;
+  const updateTask = useUpdateTask({ errorTitle: t('board.moveFailed') });
+  const scheduleTask = useUpdateTask({ errorTitle: t('schedule.saveFailed') });
+  const createTask = useCreateTask({ errorTitle: t('schedule.splitFailed') });
+  const invalidateTasks = useInvalidateTasks();
+  const { settings } = useSettings();
+  const timeZone = displayTimeZone(settings);
 
   const [showEventDialog, setShowEventDialog] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-
-  // Transform backend task to calendar event (same as before)
-  const transformTaskToEvent = (task: any): CalendarEvent => {
-    let displayDate = new Date();
-    if (task.specific_time) {
-      displayDate = new Date(task.specific_time);
-    } else if (task.deadline) {
-      displayDate = new Date(task.deadline);
-    } else {
-      displayDate = new Date(task.created_at || Date.now());
-    }
-
-    const priorityMap: { [key: number]: 'low' | 'medium' | 'high' | 'urgent' } = {
-      1: 'urgent', 2: 'high', 3: 'medium', 4: 'medium', 5: 'low'
-    };
-
-    return {
-      id: task.id,
-      title: task.name,
-      description: task.description,
-      date: displayDate,
-      time: task.specific_time ? taskUtils.formatTime(task.specific_time) : undefined,
-      deadline: task.deadline ? new Date(task.deadline) : undefined,
-      duration: task.duration_minutes,
-      priority: priorityMap[task.priority] || 'medium',
-      status: task.status === 'pending' ? 'not_started' : task.status,
-      category: task.category?.name,
-      tags: Array.isArray(task.tags) ? task.tags : [],
-      location: task.location,
-      type: 'task',
-      completed: task.status === 'completed',
-      progress: task.completion_percentage || 0,
-      color: taskUtils.getPriorityColor(task.priority),
-    };
-  };
-
-  // Load data functions (same as before)
-  const loadTasks = async () => {
-    setLoading(true);
-    setError(null);
-    
-    try {
-      console.log('📥 Loading comprehensive tasks...');
-      const tasks = await taskAPI.loadTasks();
-      setExistingTasks(tasks); // Store full task data
-      const calendarEvents = tasks.map(transformTaskToEvent);
-      setEvents(calendarEvents);
-      console.log(`✅ Loaded ${calendarEvents.length} comprehensive tasks`);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load tasks';
-      setError(errorMessage);
-      console.error('❌ Failed to load tasks:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const loadCategories = async () => {
-    try {
-      const cats = await categoryAPI.loadCategories();
-      setCategories(cats);
-    } catch (err) {
-      console.error('❌ Failed to load categories:', err);
-    }
-  };
+  const { toast } = useToast();
+  const [showQuickAdd, setShowQuickAdd] = useState(false);
+  const [visibleRange, setVisibleRange] = useState(() =>
+    getViewRange({ type: 'month', currentDate: new Date(), showWeekends: true, showCompleted: true })
+  );
+  const [pendingOccurrenceMove, setPendingOccurrenceMove] = useState<{
+    event: CalendarEvent;
+    change: EventReschedule;
+  } | null>(null);
+
+  useQuickAddShortcut(useCallback(() => setShowQuickAdd(true), []));
+  useSubtaskRollups();
+  const { filter, setFilter } = useCalendarFilter();
+  const { options: viewOptions, setOptions: setViewOptions } = useViewOptions();
+
+  // Tasks with open prerequisites stay locked in place until those are done.
+  // The filter picks which tasks are drawn; locks and subtasks still come from all of them
+  const events = useMemo(() => {
+    const graph = buildDependencyGraph(existingTasks);
+    const tasksById = new Map(existingTasks.map(task => [String(task.id), task]));
+    const shown = filterTasks(existingTasks, filter, { ignoreDateRange: true });
+    // The calendar reports its range on the display zone's clock
+    const range = { start: fromZonedTime(visibleRange.start, timeZone), end: fromZonedTime(visibleRange.end, timeZone) };
+    return filterEventsByDate(shown.flatMap(task => {
+      const expanded = expandTaskToEvents(task, range, timeZone, categories);
+      const subtasks = subtasksOf(existingTasks, task.id).map(subtask => subtask.id);
+      const waitingOn = task.status === 'completed' ? [] : openPrerequisites(graph, tasksById, String(task.id));
+      if (waitingOn.length === 0 && subtasks.length === 0) return expanded;
+      const blockedBy = waitingOn.length ? waitingOn.map(prerequisite => prerequisite.name) : undefined;
+      return expanded.map(event => ({ ...event, blockedBy, subtasks: subtasks.length ? subtasks : undefined }));
+    }), filter);
+  }, [existingTasks, visibleRange, filter, timeZone, categories]);
+  const [showDependencyGraph, setShowDependencyGraph] = useState(false);
+
+  // Auto-scheduler proposal, drawn as ghost events until accepted
+  const [schedulePlan, setSchedulePlan] = useState<SchedulePlan | null>(null);
+  const [savingProposalId, setSavingProposalId] = useState<string | null>(null);
+
+  const proposedEvents = useMemo<CalendarEvent[]>(() => {
+    if (!schedulePlan) return [];
+    return schedulePlan.blocks.map(block => {
+      const task = existingTasks.find(item => item.id === block.taskId);
+      const base = task ? taskToEvent(task, timeZone) : { id: block.taskId, title: t('schedule.untitled') };
+      const date = toZonedTime(block.start, timeZone);
+      return {
+        ...base,
+        id: `proposal::${block.taskId}::${block.part}`,
+        title: block.parts > 1 ? `${base.title} (${block.part}/${block.parts})` : base.title,
+        date,
+        time: formatTaskTime(date),
+        duration: Math.round((block.end.getTime() - block.start.getTime()) / 60000),
+        proposed: true,
+      };
+    });
+  }, [schedulePlan, existingTasks, timeZone, t]);
 
-  const loadStats = async () => {
-    try {
-      const statsData = await taskAPI.getTaskStats();
-      setStats(statsData);
-    } catch (err) {
-      console.error('❌ Failed to load stats:', err);
-    }
-  };
+  const calendarEvents = useMemo(() => [...events, ...proposedEvents], [events, proposedEvents]);
 
   // Event handlers (same as before)
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
-
-  useEffect(() => {
-    loadTasks();
-    loadCategories();
-    loadStats();
-  }, []);
-
   const handleDateClick = useCallback((date: Date) => {
     setSelectedDate(date);
     console.log('📅 Date selected:', format(date, 'yyyy-MM-dd'));
   }, []);
 
   const handleEventClick = useCallback((event: CalendarEvent) => {
+    if (event.proposed) return;
     console.log('🎯 Comprehensive task clicked:', event);
     setEditingEvent(event);
     setSelectedDate(event.date);
@@ -1103,24 +1308,115 @@ const ComprehensiveCalendarContainer: React.FC = () => {
     setShowEventDialog(true);
   }, []);
 
+  const { refetch: refetchTasks } = tasksQuery;
+  const { refetch: refetchStats } = statsQuery;
   const handleRefreshEvents = useCallback(() => {
     console.log('🔄 Refreshing comprehensive tasks...');
-    loadTasks();
-    loadStats();
-  }, []);
+    refetchTasks();
+    refetchStats();
+  }, [refetchTasks, refetchStats]);
 
+  // The dialog saves through the task mutations; only the dialog state is left to reset
   const handleSaveEvent = useCallback(async (eventData: Omit<CalendarEvent, 'id'>) => {
+    setShowEventDialog(false);
+    setEditingEvent(null);
+  }, []);
+
+  // Drag, resize or keyboard move from the calendar: useUpdateTask moves the chip right away
+  // and puts it back with a toast if the backend rejects the change
+  // Moves come in on the calendar's clock: timed ones in the display zone, all-day ones as dates in the task's zone
+  const changeToInstant = useCallback((task: Task | undefined, change: EventReschedule): EventReschedule => ({
+    ...change,
+    start: fromZonedTime(change.start, change.allDay ? task?.timezone : timeZone),
+  }), [timeZone]);
+
+  const handleEventReschedule = useCallback(async (event: CalendarEvent, change: EventReschedule) => {
+    // Moving an occurrence of a repeating task needs a scope first
+    if (event.seriesId) {
+      setPendingOccurrenceMove({ event, change });
+      return;
+    }
+
+    const task = existingTasks.find(item => String(item.id) === event.id);
+    const startIso = changeToInstant(task, change).start.toISOString();
+    console.log('🗓️ Rescheduling task:', event.id, format(change.start, 'yyyy-MM-dd HH:mm'));
+    updateTask.mutate({
+      id: event.id,
+      input: {
+        name: event.title,
+        deadline: startIso,
+        specific_time: change.allDay ? null : startIso,
+        duration_minutes: change.duration,
+      },
+    });
+  }, [updateTask, existingTasks, changeToInstant]);
+
+  const handleOccurrenceScope = async (scope: RecurrenceEditScope) => {
+    if (!pendingOccurrenceMove) return;
+    const { event, change } = pendingOccurrenceMove;
+    setPendingOccurrenceMove(null);
+
+    const task = existingTasks.find(item => String(item.id) === event.seriesId);
     try {
-      await loadTasks();
-      await loadStats();
-      
-      setShowEventDialog(false);
-      setEditingEvent(null);
-    } catch (error) {
-      console.error('❌ Failed to save comprehensive task:', error);
-      throw error;
+      if (!task || !event.occurrenceDate) throw new Error(t('tasks.seriesMissing'));
+      await applyOccurrenceEdit(task, event.occurrenceDate, scope, changeToInstant(task, change));
+      await invalidateTasks();
+    } catch (err) {
+      if (reportConflictError(err, task)) return;
+      console.error('❌ Failed to move occurrence:', err);
+      toast({
+        title: t('board.moveFailed'),
+        description: err instanceof Error ? err.message : t('common.tryAgain'),
+        variant: "destructive"
+      });
     }
-  }, []);
+  };
+
+  const handleAutoSchedule = () => {
+    const from = new Date();
+    const horizon = { start: from, end: addDays(from, SCHEDULE_HORIZON_DAYS) };
+    // Everything with a time slot in the horizon is fixed, including each occurrence of a repeating task
+    const busy = existingTasks
+      .flatMap(task => expandTaskToEvents(task, horizon))
+      .filter(event => event.time && !event.completed)
+      .map(event => ({ start: getEventStart(event), end: getEventEnd(event) }));
+    const plan = scheduleTasks(existingTasks, { from, busy, workingHours: settings.workingHours });
+    console.log(`🧩 Auto-schedule placed ${plan.blocks.length} blocks, ${plan.unscheduled.length} tasks left over`);
+    setSchedulePlan(plan);
+  };
+
+  const acceptProposal = async (taskId: string) => {
+    const task = existingTasks.find(item => item.id === taskId);
+    if (!task || !schedulePlan) return;
+    const { update, creates } = proposalToInputs(task, schedulePlan.blocks.filter(block => block.taskId === taskId));
+    setSavingProposalId(taskId);
+    try {
+      await scheduleTask.mutateAsync({ id: taskId, input: update });
+      for (const input of creates) {
+        await createTask.mutateAsync(input);
+      }
+      setSchedulePlan(prev => prev && { ...prev, blocks: prev.blocks.filter(block => block.taskId !== taskId) });
+    } catch (err) {
+      // The mutation hooks already showed why; the proposal stays so it can be retried
+      console.error('❌ Failed to accept proposal:', err);
+      throw err;
+    } finally {
+      setSavingProposalId(null);
+    }
+  };
+
+  const acceptAllProposals = async () => {
+    if (!schedulePlan) return;
+    const taskIds = [...new Set(schedulePlan.blocks.map(block => block.taskId))];
+    try {
+      for (const taskId of taskIds) {
+        await acceptProposal(taskId);
+      }
+      setSchedulePlan(null);
+    } catch {
+      // Stop at the first failure; the rest stay proposed
+    }
+  };
 
   const getTodayEvents = (events: CalendarEvent[]) => {
     const today = new Date().toDateString();
@@ -1130,15 +1426,11 @@ const ComprehensiveCalendarContainer: React.FC = () => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-indigo-100">
       <div className="container mx-auto py-8">
-        {/* Connection Status */}
-        {!isOnline && (
-          <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg flex items-center gap-2">
-            <WifiOff className="h-4 w-4 text-orange-600" />
-            <span className="text-sm text-orange-700">
-              You're offline. Changes will be saved when connection is restored.
-            </span>
-          </div>
-        )}
+        {/* Connection status and changes waiting to sync */}
+        <PendingChanges />
+
+        {/* Opens when a save collides with an edit made elsewhere */}
+        <TaskMergeDialog />
 
         {/* Error Display */}
         {error && (
@@ -1153,7 +1445,7 @@ const ComprehensiveCalendarContainer: React.FC = () => {
               onClick={handleRefreshEvents}
               className="text-red-600 hover:text-red-700"
             >
-              Retry
+              {t('action.retry')}
             </Button>
           </div>
         )}
@@ -1163,31 +1455,96 @@ const ComprehensiveCalendarContainer: React.FC = () => {
           <div className="mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="bg-white/80 backdrop-blur-sm rounded-xl p-4 border border-white/50">
               <div className="text-2xl font-bold text-blue-600">{getTodayEvents(events).length}</div>
-              <div className="text-sm text-gray-600">Today's Tasks</div>
+              <div className="text-sm text-gray-600">{t('stats.todaysTasks')}</div>
             </div>
             <div className="bg-white/80 backdrop-blur-sm rounded-xl p-4 border border-white/50">
               <div className="text-2xl font-bold text-green-600">{stats.completion_rate || 0}%</div>
-              <div className="text-sm text-gray-600">Completion Rate</div>
+              <div className="text-sm text-gray-600">{t('stats.completionRate')}</div>
             </div>
             <div className="bg-white/80 backdrop-blur-sm rounded-xl p-4 border border-white/50">
               <div className="text-2xl font-bold text-orange-600">{stats.overdue || 0}</div>
-              <div className="text-sm text-gray-600">Overdue Tasks</div>
+              <div className="text-sm text-gray-600">{t('stats.overdue')}</div>
             </div>
             <div className="bg-white/80 backdrop-blur-sm rounded-xl p-4 border border-white/50">
               <div className="text-2xl font-bold text-purple-600">{stats.total || 0}</div>
-              <div className="text-sm text-gray-600">Total Tasks</div>
+              <div className="text-sm text-gray-600">{t('stats.total')}</div>
             </div>
           </div>
         )}
 
+        <FilterBar
+          tasks={existingTasks}
+          categories={categories}
+          filter={filter}
+          onChange={setFilter}
+          className="mb-4"
+        />
+
+        {/* Auto-scheduler and dependency graph */}
+        <div className="mb-4 flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowDependencyGraph(true)}
+            className="bg-white/80"
+          >
+            <GitBranch className="h-4 w-4 me-2 text-indigo-600" />
+            {t('deps.show')}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleAutoSchedule}
+            disabled={loading || Boolean(savingProposalId)}
+            className="bg-white/80"
+          >
+            <Sparkles className="h-4 w-4 me-2 text-indigo-600" />
+            {t('schedule.run')}
+          </Button>
+        </div>
+        {schedulePlan && (
+          <AutoSchedulePanel
+            plan={schedulePlan}
+            tasks={existingTasks}
+            savingTaskId={savingProposalId}
+            onAccept={(taskId) => acceptProposal(taskId).catch(() => undefined)}
+            onAcceptAll={acceptAllProposals}
+            onDiscard={() => setSchedulePlan(null)}
+          />
+        )}
+
         {/* Calendar Component */}
         <Calendar
-          events={events}
+          events={calendarEvents}
           onDateClick={handleDateClick}
           onEventClick={handleEventClick}
+          onEventReschedule={handleEventReschedule}
           onAddEvent={handleAddEvent}
           onRefreshEvents={handleRefreshEvents}
+          onRangeChange={setVisibleRange}
           isLoading={loading}
+          initialView={viewOptions.calendarView}
+          onViewTypeChange={(type) => setViewOptions({ calendarView: type })}
+          sort={viewOptions.sort}
+        />
+
+        <DependencyGraph
+          isOpen={showDependencyGraph}
+          tasks={existingTasks}
+          onClose={() => setShowDependencyGraph(false)}
+          onOpenTask={(task) => {
+            setShowDependencyGraph(false);
+            const event = events.find(item => item.id === String(task.id) || item.seriesId === String(task.id));
+            handleEventClick(event ?? taskToEvent(task, timeZone));
+          }}
+        />
+
+        {/* Which occurrences a drag of a repeating task applies to */}
+        <RecurrenceScopeDialog
+          isOpen={!!pendingOccurrenceMove}
+          title={t('scope.moveTitle')}
+          onConfirm={handleOccurrenceScope}
+          onCancel={() => setPendingOccurrenceMove(null)}
         />
 
         {/* Comprehensive Task Dialog */}
@@ -1204,6 +1561,22 @@ const ComprehensiveCalendarContainer: React.FC = () => {
           existingTasks={existingTasks}
           isLoading={loading}
         />
+
+        {/* Command palette (Cmd/Ctrl-K) */}
+        <CommandPalette
+          onOpenTask={(task) => {
+            const event = events.find(item => item.id === String(task.id) || item.seriesId === String(task.id));
+            handleEventClick(event ?? taskToEvent(task, timeZone));
+          }}
+          onNewTask={() => handleAddEvent(toZonedTime(new Date(), timeZone))}
+          onQuickAdd={() => setShowQuickAdd(true)}
+        />
+
+        {/* Quick Add (press "q") */}
+        <QuickAddDialog
+          isOpen={showQuickAdd}
+          onClose={() => setShowQuickAdd(false)}
+        />
       </div>
     </div>
   );
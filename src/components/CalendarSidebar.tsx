@@ -1,119 +1,185 @@
-// src\components\Calendar.tsx
+// src/components/CalendarSidebar.tsx
 
-import { useState } from 'react';
-import { Calendar as CalendarIcon, Plus, Settings, Search } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Calendar as CalendarIcon, Plus, Settings, Search, Target, Timer } from 'lucide-react';
 import { format, isToday } from 'date-fns';
 import { Button } from '@/components/calendar_ui/button';
 import { Input } from '@/components/calendar_ui/input';
 import { Card } from '@/components/calendar_ui/card';
 import { Separator } from '@/components/calendar_ui/separator';
-import { CalendarEvent } from './Calendar';
+import type { CalendarEvent, CalendarFilter } from '@/types/CalendarTypes';
+import type { Task, TaskCategory } from '@/types/TaskTypes';
+import { QuickAddBox } from './QuickAdd';
+import { FilterFacets } from './filters/FilterFacets';
+import { SavedViewList } from './views/SavedViewList';
+import { RunningTimer } from './time/RunningTimer';
+import { TimerButton } from './time/TimerButton';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useToggleTask } from '@/hooks/use-tasks';
+import { useTimeTracker } from '@/hooks/use-time-tracker';
+import { formatTaskTime } from '@/lib/taskMappers';
 import { cn } from '@/lib/utils';
 
 interface CalendarSidebarProps {
-  events: CalendarEvent[];
+  events: CalendarEvent[]; // already narrowed down by the filter
+  tasks: Task[]; // every task, for the facet counts
+  categories: TaskCategory[];
+  filter: CalendarFilter;
+  onFilterChange: (filter: CalendarFilter) => void;
   onCreateEvent: () => void;
+  onTaskCreated?: () => void;
   selectedDate?: Date | null;
 }
 
-export const CalendarSidebar = ({ events, onCreateEvent, selectedDate }: CalendarSidebarProps) => {
-  const [searchQuery, setSearchQuery] = useState('');
+export const CalendarSidebar = ({
+  events, tasks, categories, filter, onFilterChange, onCreateEvent, onTaskCreated, selectedDate
+}: CalendarSidebarProps) => {
+  const toggleTask = useToggleTask();
+  const { running } = useTimeTracker();
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const describeWhen = (event: CalendarEvent) => {
+    const date = format(event.date, settings.dateFormat, { locale: dateLocale });
+    return event.time
+      ? t('sidebar.dateAtTime', { date, time: formatTaskTime(event.date, settings.timeFormat, undefined, dateLocale) })
+      : date;
+  };
+  // The search is part of the filter, so it narrows the calendar as well as the results below
+  const searchQuery = filter.search ?? '';
 
   const todayEvents = events.filter(event => isToday(event.date));
   const upcomingEvents = events
     .filter(event => event.date > new Date() && !isToday(event.date))
     .slice(0, 5);
 
-  const filteredEvents = searchQuery
-    ? events.filter(event => 
-        event.title.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : [];
 
   return (
-    <div className="w-80 h-full border-r border-border bg-background p-4 space-y-6">
+    <div className="w-80 h-full overflow-y-auto border-e border-border bg-background p-4 space-y-6">
       {/* Create Button */}
       <Button 
         onClick={onCreateEvent}
         className="w-full justify-start bg-primary hover:bg-primary-hover shadow-button"
         size="lg"
       >
-        <Plus className="h-4 w-4 mr-2" />
-        Create
+        <Plus className="h-4 w-4 me-2" />
+        {t('sidebar.create')}
       </Button>
 
+      {/* Quick Add */}
+      <QuickAddBox onCreated={onTaskCreated} />
+
+      {/* Pinned saved views */}
+      <Card className="p-4 shadow-calendar">
+        <h3 className="font-medium mb-2">{t('sidebar.savedViews')}</h3>
+        <SavedViewList pinnedOnly />
+      </Card>
+
       {/* Search */}
       <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
-          placeholder="Search events..."
+          placeholder={t('sidebar.search')}
           value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-9 hover:bg-calendar-hover"
+          onChange={(e) => onFilterChange({ ...filter, search: e.target.value || undefined })}
+          className="ps-9 hover:bg-calendar-hover"
         />
       </div>
 
       {/* Search Results */}
-      {searchQuery && (
+      {searchQuery.trim() && (
         <Card className="p-4 shadow-calendar">
-          <h3 className="font-medium mb-3">Search Results</h3>
-          {filteredEvents.length > 0 ? (
+          <h3 className="font-medium mb-3">{t('sidebar.searchResults')}</h3>
+          {events.length > 0 ? (
             <div className="space-y-2">
-              {filteredEvents.map((event) => (
+              {events.map((event) => (
                 <div
                   key={event.id}
                   className="p-2 rounded hover:bg-calendar-hover cursor-pointer transition-colors"
                 >
                   <div className="font-medium text-sm">{event.title}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {format(event.date, 'MMM d')}
-                    {event.time && ` at ${event.time}`}
-                  </div>
+                  <div className="text-xs text-muted-foreground">{describeWhen(event)}</div>
                 </div>
               ))}
             </div>
           ) : (
-            <div className="text-sm text-muted-foreground">No events found</div>
+            <div className="text-sm text-muted-foreground">{t('sidebar.noResults')}</div>
           )}
         </Card>
       )}
 
+      {/* Facets */}
+      <FilterFacets tasks={tasks} categories={categories} filter={filter} onChange={onFilterChange} />
+
       {/* Mini Calendar */}
       <Card className="p-4 shadow-calendar">
         <div className="flex items-center gap-2 mb-3">
           <CalendarIcon className="h-4 w-4" />
           <h3 className="font-medium">
-            {selectedDate ? format(selectedDate, 'MMMM yyyy') : format(new Date(), 'MMMM yyyy')}
+            {format(selectedDate ?? new Date(), 'LLLL yyyy', { locale: dateLocale })}
           </h3>
         </div>
         <div className="text-sm text-muted-foreground">
-          Calendar navigation coming soon...
+          {t('sidebar.comingSoon')}
         </div>
       </Card>
 
+      {/* Time tracking */}
+      <Card className="p-4 shadow-calendar">
+        <h3 className="font-medium mb-3 flex items-center gap-2">
+          <Timer className="h-4 w-4" />
+          {t('timer.title')}
+        </h3>
+        {running ? (
+          <RunningTimer />
+        ) : (
+          <div className="text-sm text-muted-foreground">{t('timer.idle')}</div>
+        )}
+        <Button variant="outline" size="sm" onClick={() => navigate('/focus')} className="mt-3 w-full">
+          <Target className="h-4 w-4 me-2" />
+          {t('focus.title')}
+        </Button>
+      </Card>
+
       {/* Today's Events */}
       {todayEvents.length > 0 && (
         <Card className="p-4 shadow-calendar">
           <h3 className="font-medium mb-3 flex items-center gap-2">
             <div className="w-2 h-2 bg-calendar-today rounded-full"></div>
-            Today
+            {t('sidebar.today')}
           </h3>
           <div className="space-y-2">
             {todayEvents.map((event) => (
               <div
                 key={event.id}
                 className={cn(
-                  "p-2 rounded cursor-pointer transition-colors",
+                  "p-2 rounded cursor-pointer transition-colors flex items-start gap-2",
                   "bg-calendar-event-bg hover:bg-primary-light"
                 )}
               >
-                <div className="font-medium text-sm text-calendar-event">
-                  {event.title}
-                </div>
-                {event.time && (
-                  <div className="text-xs text-muted-foreground">
-                    {event.time}
+                {/* Occurrences of a repeating task are completed from the task dialog */}
+                {!event.seriesId && (
+                  <input
+                    type="checkbox"
+                    checked={!!event.completed}
+                    onChange={() => toggleTask.mutate(event.id)}
+                    className="mt-0.5 rounded border-gray-300"
+                    aria-label={t(event.completed ? 'sidebar.markNotDone' : 'sidebar.markDone', { title: event.title })}
+                  />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className={cn("font-medium text-sm text-calendar-event", event.completed && "line-through opacity-60")}>
+                    {event.title}
                   </div>
+                  {event.time && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatTaskTime(event.date, settings.timeFormat, undefined, dateLocale)}
+                    </div>
+                  )}
+                </div>
+                {event.type === 'task' && !event.proposed && (
+                  <TimerButton task={{ id: event.seriesId ?? event.id, name: event.title }} className="mt-0.5 py-0.5" />
                 )}
               </div>
             ))}
@@ -124,7 +190,7 @@ export const CalendarSidebar = ({ events, onCreateEvent, selectedDate }: Calenda
       {/* Upcoming Events */}
       {upcomingEvents.length > 0 && (
         <Card className="p-4 shadow-calendar">
-          <h3 className="font-medium mb-3">Upcoming</h3>
+          <h3 className="font-medium mb-3">{t('sidebar.upcoming')}</h3>
           <div className="space-y-2">
             {upcomingEvents.map((event) => (
               <div
@@ -132,10 +198,7 @@ export const CalendarSidebar = ({ events, onCreateEvent, selectedDate }: Calenda
                 className="p-2 rounded hover:bg-calendar-hover cursor-pointer transition-colors"
               >
                 <div className="font-medium text-sm">{event.title}</div>
-                <div className="text-xs text-muted-foreground">
-                  {format(event.date, 'MMM d')}
-                  {event.time && ` at ${event.time}`}
-                </div>
+                <div className="text-xs text-muted-foreground">{describeWhen(event)}</div>
               </div>
             ))}
           </div>
@@ -145,9 +208,9 @@ export const CalendarSidebar = ({ events, onCreateEvent, selectedDate }: Calenda
       <Separator />
 
       {/* Settings */}
-      <Button variant="ghost" className="w-full justify-start hover:bg-calendar-hover">
-        <Settings className="h-4 w-4 mr-2" />
-        Settings
+      <Button variant="ghost" className="w-full justify-start hover:bg-calendar-hover" onClick={() => navigate('/settings')}>
+        <Settings className="h-4 w-4 me-2" />
+        {t('nav.settings')}
       </Button>
     </div>
   );
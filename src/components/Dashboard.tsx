@@ -1,10 +1,37 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Calendar, CalendarEvent } from './Calendar';
+import React, { useState, useCallback, useMemo } from 'react';
+import { Calendar } from './Calendar';
 import { CalendarSidebar } from './CalendarSidebar';
 import { EventDialog } from './EventDialog';
 import { AIAssistant } from './AIAssistant';
-// Import API functions from the centralized API file
-import { taskAPI, categoryAPI, taskUtils } from './APIs/TaskAPI';
+import { QuickAddDialog } from './QuickAdd';
+import { PendingChanges } from './offline/PendingChanges';
+import { TaskMergeDialog } from './conflicts/TaskMergeDialog';
+import { CommandPalette } from './palette/CommandPalette';
+import { ImportExportMenu } from './transfer/ImportExportMenu';
+import { ReminderMenu } from './reminders/ReminderMenu';
+import { RunningTimer } from './time/RunningTimer';
+import { TaskConflictError } from './APIs/taskClient';
+import { useCalendarFilter } from '@/hooks/use-calendar-filter';
+import { useI18n } from '@/hooks/use-i18n';
+import { useQuickAddShortcut } from '@/hooks/use-quick-add-shortcut';
+import { useSettings } from '@/hooks/use-settings';
+import { useSubtaskRollups } from '@/hooks/use-subtask-rollups';
+import { useViewOptions } from '@/hooks/use-view-options';
+import { useCategories, useCreateTask, useTaskStats, useTasks, useUpdateTask } from '@/hooks/use-tasks';
+import { filterTasks } from '@/lib/calendarFilter';
+import { displayTimeZone } from '@/lib/settings';
+import { getTaskStart, taskToEvent } from '@/lib/taskMappers';
+import type { CalendarEvent } from '@/types/CalendarTypes';
+import type { Task, TaskInput, TaskStats } from '@/types/TaskTypes';
+
+const EMPTY_STATS: TaskStats = {
+  total: 0,
+  pending: 0,
+  completed: 0,
+  in_progress: 0,
+  overdue: 0,
+  completion_rate: 0,
+};
 
 // Types
 interface User {
@@ -19,78 +46,26 @@ interface User {
   tokenValid?: boolean;
 }
 
-interface TaskCategory {
-  id: string;
-  name: string;
-  color_hex: string;
-  icon: string;
-  user?: string;
-  is_system_category: boolean;
-}
-
-interface Task {
-  id: string;
-  name: string;
-  description?: string;
-  category?: string;
-  tags?: string[];
-  deadline?: string;
-  estimated_duration_minutes: number;
-  minimum_duration_minutes?: number;
-  maximum_duration_minutes?: number;
-  base_priority: number;
-  urgency_multiplier: number;
-  can_be_split: boolean;
-  requires_consecutive_time: boolean;
-  preferred_time_of_day?: string[];
-  avoid_time_of_day?: string[];
-  deadline_flexibility_minutes: number;
-  is_repeat: boolean;
-  repeat_pattern?: string;
-  repeat_frequency: number;
-  repeat_days_of_week?: string[];
-  repeat_end_date?: string;
-  priority: number;
-  urgency: number;
-  difficulty_level: number;
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled' | 'on_hold';
-  location?: string;
-  ai_suggested: boolean;
-  created_at: string;
-  updated_at?: string;
-  completed_at?: string;
-  is_overdue?: boolean;
-  category_name?: string;
-}
-
-interface TaskStats {
-  total: number;
-  pending: number;
-  completed: number;
-  in_progress: number;
-  overdue: number;
-  completion_rate: number;
-}
-
 interface DashboardProps {
   user: User;
   onSignOut: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [filter, setFilter] = useState<string>('all');
-  const [loading, setLoading] = useState<boolean>(true);
-  const [categories, setCategories] = useState<TaskCategory[]>([]);
-  const [stats, setStats] = useState<TaskStats>({
-    total: 0,
-    pending: 0,
-    completed: 0,
-    in_progress: 0,
-    overdue: 0,
-    completion_rate: 0,
-  });
+  // Shared with the calendar page through the React Query cache
+  const { data: tasks = [], isLoading: loading } = useTasks();
+  const { data: categories = [] } = useCategories();
+  const { data: stats = EMPTY_STATS } = useTaskStats();
+  // Narrowed client-side, so the sidebar facets can count what each option would show
+  const { filter, setFilter } = useCalendarFilter();
+  const { options: viewOptions, setOptions: setViewOptions } = useViewOptions();
+  const shownTasks = useMemo(() => filterTasks(tasks, filter), [tasks, filter]);
+  const timeZone = displayTimeZone(useSettings().settings);
+  const events = useMemo(() => shownTasks.map(task => taskToEvent(task, timeZone)), [shownTasks, timeZone]);
+  const { t } = useI18n();
+
+  const createTask = useCreateTask();
+  const updateTask = useUpdateTask();
 
   // Calendar specific state
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
@@ -99,55 +74,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
   
   // AI Assistant state
   const [showAIAssistant, setShowAIAssistant] = useState<boolean>(false);
+  const [showQuickAdd, setShowQuickAdd] = useState<boolean>(false);
 
-  // Data fetching functions
-  const fetchTasks = useCallback(async () => {
-    setLoading(true);
-    try {
-      console.log('Fetching tasks with filter:', filter);
-      const tasksData = await taskAPI.loadTasks(filter);
-      console.log('Tasks loaded:', tasksData);
-      
-      setTasks(tasksData);
-      // Convert tasks to calendar events
-      const calendarEvents = tasksData.map(task => taskUtils.taskToCalendarEvent(task));
-      setEvents(calendarEvents);
-    } catch (error) {
-      console.error('Failed to fetch tasks:', error);
-      // You could show a toast notification here
-    } finally {
-      setLoading(false);
-    }
-  }, [filter]);
-
-  const fetchCategories = useCallback(async () => {
-    try {
-      console.log('Fetching categories...');
-      const categoriesData = await categoryAPI.loadCategories();
-      console.log('Categories loaded:', categoriesData);
-      setCategories(categoriesData);
-    } catch (error) {
-      console.error('Failed to fetch categories:', error);
-    }
-  }, []);
-
-  const fetchStats = useCallback(async () => {
-    try {
-      console.log('Fetching stats...');
-      const statsData = await taskAPI.getTaskStats();
-      console.log('Stats loaded:', statsData);
-      setStats(statsData);
-    } catch (error) {
-      console.error('Failed to fetch stats:', error);
-    }
-  }, []);
-
-  // Load initial data
-  useEffect(() => {
-    fetchTasks();
-    fetchCategories();
-    fetchStats();
-  }, [fetchTasks, fetchCategories, fetchStats]);
+  useQuickAddShortcut(useCallback(() => setShowQuickAdd(true), []));
+  useSubtaskRollups();
 
   // Calendar event handlers
   const handleDateClick = (date: Date) => {
@@ -158,49 +88,45 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
 
   const handleEventClick = (event: CalendarEvent) => {
     // Find the task associated with this event
-    const task = tasks.find(t => t.id === event.id);
+    const task = tasks.find(item => item.id === event.id);
     setSelectedTask(task || null);
     setSelectedDate(event.date);
     setIsTaskDialogOpen(true);
   };
 
+  // From the command palette, which also finds tasks that aren't loaded
+  const handleOpenTask = (task: Task) => {
+    setShowAIAssistant(false);
+    setSelectedTask(task);
+    setSelectedDate(getTaskStart(task) ? taskToEvent(task, timeZone).date : new Date());
+    setIsTaskDialogOpen(true);
+  };
+
   const handleCreateTask = () => {
     setSelectedDate(new Date());
     setSelectedTask(null);
     setIsTaskDialogOpen(true);
   };
 
-  const handleSaveTask = async (taskData: Omit<Task, 'id'>) => {
+  const handleSaveTask = async (taskData: TaskInput) => {
     try {
       console.log('Saving task:', taskData);
       
       if (selectedTask) {
         // Update existing task
         console.log('Updating existing task:', selectedTask.id);
-        const updatedTask = await taskAPI.updateTask(selectedTask.id!, taskData);
+        const updatedTask = await updateTask.mutateAsync({ id: selectedTask.id, input: taskData });
         console.log('Task updated:', updatedTask);
-        
-        if (updatedTask) {
-          setTasks(prev => prev.map(t => t.id === selectedTask.id ? updatedTask : t));
-          setEvents(prev => prev.map(e => e.id === selectedTask.id ? taskUtils.taskToCalendarEvent(updatedTask) : e));
-        }
       } else {
         // Create new task
         console.log('Creating new task');
-        const newTask = await taskAPI.createTask(taskData);
+        const newTask = await createTask.mutateAsync(taskData);
         console.log('Task created:', newTask);
-        
-        if (newTask) {
-          setTasks(prev => [newTask, ...prev]);
-          setEvents(prev => [...prev, taskUtils.taskToCalendarEvent(newTask)]);
-        }
       }
-      
-      // Refresh stats
-      await fetchStats();
     } catch (error) {
+      // The mutation hooks roll back the cache and show a toast, or open the merge dialog
       console.error('Error saving task:', error);
-      alert(`Failed to save task: ${error.message}`);
+      if (error instanceof TaskConflictError) return;
       throw error; // Re-throw so dialog can handle the error
     }
   };
@@ -214,6 +140,22 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
     setShowAIAssistant(false);
   };
 
+  const palette = (
+    <CommandPalette
+      onOpenTask={handleOpenTask}
+      onNewTask={() => {
+        setShowAIAssistant(false);
+        handleCreateTask();
+      }}
+      onQuickAdd={() => {
+        setShowAIAssistant(false);
+        setShowQuickAdd(true);
+      }}
+      onToggleAssistant={() => setShowAIAssistant(current => !current)}
+      onShowCalendar={handleCloseAI}
+    />
+  );
+
   // Show AI Assistant if requested
   if (showAIAssistant) {
     return (
@@ -222,7 +164,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
         <button
           onClick={handleCloseAI}
           className="absolute top-4 right-4 z-50 bg-white/90 backdrop-blur-sm border border-gray-200 rounded-full p-3 hover:bg-white transition-colors shadow-lg"
-          title="Close AI Assistant"
+          title={t('dashboard.closeAssistant')}
         >
           <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -231,6 +173,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
         
         {/* AI Assistant Component */}
         <AIAssistant />
+        {palette}
       </div>
     );
   }
@@ -250,14 +193,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
           </div>
           
           <div className="flex items-center gap-4">
+            <RunningTimer className="max-w-[16rem]" />
+            <ImportExportMenu tasks={shownTasks} />
+            <ReminderMenu />
+
             {/* AI Assistant Button */}
             <button
               onClick={handleOpenAI}
               className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-lg hover:from-indigo-600 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl"
-              title="Open AI Assistant"
+              title={t('dashboard.openAssistant')}
             >
               <span className="text-lg">🤖</span>
-              <span className="font-medium">AI Assistant</span>
+              <span className="font-medium">{t('assistant.title')}</span>
             </button>
             
             <div className="flex items-center gap-3">
@@ -275,7 +222,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
               <button 
                 onClick={onSignOut}
                 className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
-                title="Sign Out"
+                title={t('nav.signOut')}
               >
                 <span className="text-lg">🚪</span>
               </button>
@@ -287,11 +234,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
       {/* Welcome Section */}
       <div className="bg-white border-b border-gray-200 px-6 py-6">
         <div className="max-w-7xl mx-auto">
+          <PendingChanges />
           <h2 className="text-2xl font-semibold text-gray-900 mb-2">
-            Welcome back, {user.firstName}! 👋
+            {t('dashboard.welcome', { name: user.firstName })}
           </h2>
           <p className="text-gray-600 mb-6">
-            Let's make today productive. You have {stats.pending} pending tasks.
+            {t('dashboard.pendingCount', { count: stats.pending })}
           </p>
           
           {/* AI Assistant Quick Access */}
@@ -304,8 +252,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
                 <span className="text-white text-xl">🤖</span>
               </div>
               <div className="text-left">
-                <div className="font-semibold text-gray-900">Ask AI Assistant</div>
-                <div className="text-sm text-gray-600">Get help with tasks and planning</div>
+                <div className="font-semibold text-gray-900">{t('dashboard.askAssistant')}</div>
+                <div className="text-sm text-gray-600">{t('dashboard.askAssistantHint')}</div>
               </div>
               <div className="ml-auto text-indigo-500 group-hover:translate-x-1 transition-transform">
                 →
@@ -322,7 +270,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
                 </div>
                 <div>
                   <h3 className="text-2xl font-bold text-blue-900">{stats.total}</h3>
-                  <p className="text-blue-700 text-sm">Total Tasks</p>
+                  <p className="text-blue-700 text-sm">{t('stats.total')}</p>
                 </div>
               </div>
             </div>
@@ -334,7 +282,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
                 </div>
                 <div>
                   <h3 className="text-2xl font-bold text-amber-900">{stats.pending}</h3>
-                  <p className="text-amber-700 text-sm">Pending</p>
+                  <p className="text-amber-700 text-sm">{t('status.pending')}</p>
                 </div>
               </div>
             </div>
@@ -346,7 +294,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
                 </div>
                 <div>
                   <h3 className="text-2xl font-bold text-green-900">{stats.completed}</h3>
-                  <p className="text-green-700 text-sm">Completed</p>
+                  <p className="text-green-700 text-sm">{t('status.completed')}</p>
                 </div>
               </div>
             </div>
@@ -358,7 +306,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
                 </div>
                 <div>
                   <h3 className="text-2xl font-bold text-red-900">{stats.overdue}</h3>
-                  <p className="text-red-700 text-sm">Overdue</p>
+                  <p className="text-red-700 text-sm">{t('dashboard.overdue')}</p>
                 </div>
               </div>
             </div>
@@ -371,6 +319,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
         {/* Calendar Sidebar */}
         <CalendarSidebar
           events={events}
+          tasks={tasks}
+          categories={categories}
+          filter={filter}
+          onFilterChange={setFilter}
           onCreateEvent={handleCreateTask}
           selectedDate={selectedDate}
         />
@@ -381,7 +333,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
             <div className="flex items-center justify-center h-full">
               <div className="text-center">
                 <div className="w-8 h-8 border-2 border-gray-300 border-t-indigo-600 rounded-full animate-spin mx-auto mb-4"></div>
-                <p className="text-gray-600">Loading your calendar...</p>
+                <p className="text-gray-600">{t('dashboard.loading')}</p>
               </div>
             </div>
           ) : (
@@ -389,6 +341,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
               events={events}
               onDateClick={handleDateClick}
               onEventClick={handleEventClick}
+              initialView={viewOptions.calendarView}
+              onViewTypeChange={(type) => setViewOptions({ calendarView: type })}
+              sort={viewOptions.sort}
             />
           )}
         </div>
@@ -403,6 +358,15 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onSignOut }) => {
         selectedTask={selectedTask}
         categories={categories}
       />
+
+      <TaskMergeDialog />
+
+      <QuickAddDialog
+        isOpen={showQuickAdd}
+        onClose={() => setShowQuickAdd(false)}
+      />
+
+      {palette}
     </div>
   );
 };
@@ -9,76 +9,33 @@ import { Button } from '@/components/calendar_ui/button';
 import { Input } from '@/components/calendar_ui/input';
 import { Label } from '@/components/calendar_ui/label';
 import { Textarea } from '@/components/calendar_ui/textarea';
-
-// Types matching your Django Task model
-interface Task {
-  id?: string;
-  name: string;
-  description?: string;
-  category?: string;
-  tags?: string[];
-  deadline?: string;
-  estimated_duration_minutes: number;
-  minimum_duration_minutes?: number;
-  maximum_duration_minutes?: number;
-  base_priority: number;
-  urgency_multiplier: number;
-  can_be_split: boolean;
-  requires_consecutive_time: boolean;
-  preferred_time_of_day?: string[];
-  avoid_time_of_day?: string[];
-  deadline_flexibility_minutes: number;
-  is_repeat: boolean;
-  repeat_pattern?: string;
-  repeat_frequency: number;
-  repeat_days_of_week?: string[];
-  repeat_end_date?: string;
-  priority: number;
-  urgency: number;
-  difficulty_level: number;
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled' | 'on_hold';
-  location?: string;
-  ai_suggested: boolean;
-}
-
-interface TaskCategory {
-  id: string;
-  name: string;
-  color_hex: string;
-  icon: string;
-}
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { TASK_PRIORITIES } from '@/lib/taskMappers';
+import { TaskBreakdown } from './subtasks/TaskBreakdown';
+import type { Task, TaskCategory, TaskInput, TaskPriority, TaskStatus } from '@/types/TaskTypes';
 
 interface EventDialogProps {
   isOpen: boolean;
   onClose: () => void;
   selectedDate: Date | null;
   selectedTask?: Task | null;
-  onSaveTask: (task: Omit<Task, 'id'>) => void;
+  onSaveTask: (task: TaskInput) => void;
   categories?: TaskCategory[];
 }
 
-const PRIORITY_OPTIONS = [
-  { value: 1, label: 'Critical', color: '#ef4444' },
-  { value: 2, label: 'High', color: '#f97316' },
-  { value: 3, label: 'Medium', color: '#eab308' },
-  { value: 4, label: 'Low', color: '#3b82f6' },
-  { value: 5, label: 'Lowest', color: '#6b7280' },
-];
-
-const STATUS_OPTIONS = [
-  { value: 'pending', label: 'Pending' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'completed', label: 'Completed' },
-  { value: 'cancelled', label: 'Cancelled' },
-  { value: 'on_hold', label: 'On Hold' },
-];
-
-const REPEAT_PATTERNS = [
-  { value: 'daily', label: 'Daily' },
-  { value: 'weekly', label: 'Weekly' },
-  { value: 'monthly', label: 'Monthly' },
-  { value: 'yearly', label: 'Yearly' },
-];
+// Labels come from the message catalog, as 'priority.1' to 'priority.5'
+const PRIORITY_OPTIONS = (Object.keys(TASK_PRIORITIES) as unknown as TaskPriority[]).map(priority => ({
+  value: Number(priority),
+  label: `priority.${priority}` as const,
+  color: TASK_PRIORITIES[priority].color,
+}));
+
+// Labelled 'status.pending' and so on
+const STATUS_OPTIONS: TaskStatus[] = ['pending', 'in_progress', 'completed', 'cancelled', 'on_hold'];
+
+// Labelled 'repeat.daily' and so on
+const REPEAT_PATTERNS = ['daily', 'weekly', 'monthly', 'yearly'] as const;
 
 export const EventDialog = ({ 
   isOpen, 
@@ -88,13 +45,15 @@ export const EventDialog = ({
   onSaveTask,
   categories = []
 }: EventDialogProps) => {
-  const [formData, setFormData] = useState<Omit<Task, 'id'>>({
+  const { defaultEventDuration } = useSettings().settings;
+  const { t, dateLocale } = useI18n();
+  const [formData, setFormData] = useState<TaskInput>({
     name: '',
     description: '',
     category: '',
     tags: [],
     deadline: new Date().toISOString().slice(0, 16), // Default to current date/time
-    estimated_duration_minutes: 60,
+    estimated_duration_minutes: defaultEventDuration,
     minimum_duration_minutes: 30,
     maximum_duration_minutes: 120,
     base_priority: 3,
@@ -114,6 +73,7 @@ export const EventDialog = ({
     status: 'pending',
     location: '',
     ai_suggested: false,
+    checklist: [],
   });
 
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -126,9 +86,9 @@ export const EventDialog = ({
       setFormData({
         name: selectedTask.name || '',
         description: selectedTask.description || '',
-        category: selectedTask.category || '',
+        category: selectedTask.category?.id || '',
         tags: selectedTask.tags || [],
-        deadline: selectedTask.deadline || '',
+        deadline: selectedTask.deadline ? format(new Date(selectedTask.deadline), "yyyy-MM-dd'T'HH:mm") : '',
         estimated_duration_minutes: selectedTask.estimated_duration_minutes || 60,
         minimum_duration_minutes: selectedTask.minimum_duration_minutes || 30,
         maximum_duration_minutes: selectedTask.maximum_duration_minutes || 120,
@@ -149,6 +109,8 @@ export const EventDialog = ({
         status: selectedTask.status || 'pending',
         location: selectedTask.location || '',
         ai_suggested: selectedTask.ai_suggested || false,
+        checklist: selectedTask.checklist || [],
+        assignee: selectedTask.assignee || null,
       });
     } else if (selectedDate) {
       // Set deadline to selected date if creating new task
@@ -180,7 +142,7 @@ export const EventDialog = ({
 
   const handleSave = async () => {
     if (!formData.name.trim()) {
-      alert('Task name is required');
+      alert(t('taskDialog.nameRequired'));
       return;
     }
 
@@ -188,18 +150,21 @@ export const EventDialog = ({
     try {
       const taskData = {
         ...formData,
+        // The input holds local time; the API stores ISO datetimes
+        deadline: formData.deadline ? new Date(formData.deadline).toISOString() : null,
         // Ensure arrays are properly formatted
         tags: formData.tags || [],
         preferred_time_of_day: formData.preferred_time_of_day || [],
         avoid_time_of_day: formData.avoid_time_of_day || [],
         repeat_days_of_week: formData.repeat_days_of_week || [],
+        checklist: formData.checklist || [],
       };
 
       await onSaveTask(taskData);
       handleClose();
     } catch (error) {
       console.error('Error saving task:', error);
-      alert('Failed to save task. Please try again.');
+      alert(t('taskDialog.saveFailed'));
     } finally {
       setIsLoading(false);
     }
@@ -212,7 +177,7 @@ export const EventDialog = ({
       category: '',
       tags: [],
       deadline: new Date().toISOString().slice(0, 16), // Reset to current date/time
-      estimated_duration_minutes: 60,
+      estimated_duration_minutes: defaultEventDuration,
       minimum_duration_minutes: 30,
       maximum_duration_minutes: 120,
       base_priority: 3,
@@ -232,6 +197,7 @@ export const EventDialog = ({
       status: 'pending',
       location: '',
       ai_suggested: false,
+      checklist: [],
     });
     setShowAdvanced(false);
     setCurrentTag('');
@@ -245,7 +211,7 @@ export const EventDialog = ({
         <DialogHeader>
           <DialogTitle className="flex items-center justify-between">
             <span>
-              {selectedTask ? 'Edit Task' : 'New Task'}
+              {selectedTask ? t('taskDialog.edit') : t('taskDialog.new')}
             </span>
             <Button variant="ghost" size="icon" onClick={handleClose} disabled={isLoading}>
               <X className="h-4 w-4" />
@@ -256,20 +222,20 @@ export const EventDialog = ({
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 py-4">
           {/* Left Column - Basic Information */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold">Basic Information</h3>
+            <h3 className="text-lg font-semibold">{t('taskDialog.basics')}</h3>
             
             {selectedDate && (
               <div className="text-sm text-muted-foreground bg-muted p-3 rounded-lg">
-                📅 {format(selectedDate, 'EEEE, MMMM d, yyyy')}
+                📅 {format(selectedDate, 'PPPP', { locale: dateLocale })}
               </div>
             )}
 
             {/* Task Name */}
             <div className="space-y-2">
-              <Label htmlFor="name">Task Name *</Label>
+              <Label htmlFor="name">{t('taskDialog.name')}</Label>
               <Input
                 id="name"
-                placeholder="What needs to be done?"
+                placeholder={t('taskDialog.namePlaceholder')}
                 value={formData.name}
                 onChange={(e) => handleInputChange('name', e.target.value)}
                 className="text-lg font-medium"
@@ -279,10 +245,10 @@ export const EventDialog = ({
 
             {/* Description */}
             <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
+              <Label htmlFor="description">{t('taskDialog.description')}</Label>
               <Textarea
                 id="description"
-                placeholder="Add details about this task..."
+                placeholder={t('taskDialog.descriptionPlaceholder')}
                 value={formData.description}
                 onChange={(e) => handleInputChange('description', e.target.value)}
                 className="min-h-[80px]"
@@ -292,7 +258,7 @@ export const EventDialog = ({
 
             {/* Category */}
             <div className="space-y-2">
-              <Label>Category</Label>
+              <Label>{t('taskDialog.category')}</Label>
               <select
                 value={formData.category}
                 onChange={(e) => handleInputChange('category', e.target.value)}
@@ -300,7 +266,7 @@ export const EventDialog = ({
                 style={{ color: '#1f2937', backgroundColor: '#ffffff' }}
                 disabled={isLoading}
               >
-                <option value="" style={{ color: '#6b7280' }}>Select a category</option>
+                <option value="" style={{ color: '#6b7280' }}>{t('taskDialog.chooseCategory')}</option>
                 {categories.map((category) => (
                   <option key={category.id} value={category.id} style={{ color: '#1f2937' }}>
                     {category.name}
@@ -309,9 +275,24 @@ export const EventDialog = ({
               </select>
             </div>
 
+            {/* Assignee */}
+            <div className="space-y-2">
+              <Label htmlFor="assignee" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                {t('taskDialog.assignee')}
+              </Label>
+              <Input
+                id="assignee"
+                placeholder={t('taskDialog.assigneePlaceholder')}
+                value={formData.assignee || ''}
+                onChange={(e) => handleInputChange('assignee', e.target.value || null)}
+                disabled={isLoading}
+              />
+            </div>
+
             {/* Status */}
             <div className="space-y-2">
-              <Label>Status</Label>
+              <Label>{t('taskDialog.status')}</Label>
               <select
                 value={formData.status}
                 onChange={(e) => handleInputChange('status', e.target.value)}
@@ -320,8 +301,8 @@ export const EventDialog = ({
                 disabled={isLoading}
               >
                 {STATUS_OPTIONS.map((status) => (
-                  <option key={status.value} value={status.value} style={{ color: '#1f2937' }}>
-                    {status.label}
+                  <option key={status} value={status} style={{ color: '#1f2937' }}>
+                    {t(`status.${status}`)}
                   </option>
                 ))}
               </select>
@@ -329,10 +310,10 @@ export const EventDialog = ({
 
             {/* Tags */}
             <div className="space-y-2">
-              <Label>Tags</Label>
+              <Label>{t('taskDialog.tags')}</Label>
               <div className="flex gap-2">
                 <Input
-                  placeholder="Add a tag..."
+                  placeholder={t('taskDialog.tagPlaceholder')}
                   value={currentTag}
                   onChange={(e) => setCurrentTag(e.target.value)}
                   onKeyPress={(e) => e.key === 'Enter' && addTag()}
@@ -358,13 +339,13 @@ export const EventDialog = ({
 
           {/* Right Column - Timing & Priority */}
           <div className="space-y-4">
-            <h3 className="text-lg font-semibold">Timing & Priority</h3>
+            <h3 className="text-lg font-semibold">{t('taskDialog.timing')}</h3>
 
             {/* Deadline */}
             <div className="space-y-2">
               <Label htmlFor="deadline" className="flex items-center gap-2">
                 <Calendar className="h-4 w-4" />
-                Deadline
+                {t('taskDialog.deadline')}
               </Label>
               <Input
                 id="deadline"
@@ -378,7 +359,7 @@ export const EventDialog = ({
             {/* Duration */}
             <div className="grid grid-cols-3 gap-2">
               <div className="space-y-2">
-                <Label>Est. Duration (min)</Label>
+                <Label>{t('taskDialog.estimate')}</Label>
                 <Input
                   type="number"
                   value={formData.estimated_duration_minutes}
@@ -387,7 +368,7 @@ export const EventDialog = ({
                 />
               </div>
               <div className="space-y-2">
-                <Label>Min (min)</Label>
+                <Label>{t('taskDialog.minimum')}</Label>
                 <Input
                   type="number"
                   value={formData.minimum_duration_minutes || ''}
@@ -396,7 +377,7 @@ export const EventDialog = ({
                 />
               </div>
               <div className="space-y-2">
-                <Label>Max (min)</Label>
+                <Label>{t('taskDialog.maximum')}</Label>
                 <Input
                   type="number"
                   value={formData.maximum_duration_minutes || ''}
@@ -409,7 +390,7 @@ export const EventDialog = ({
             {/* Priority Settings */}
             <div className="grid grid-cols-3 gap-2">
               <div className="space-y-2">
-                <Label>Priority</Label>
+                <Label>{t('taskDialog.priority')}</Label>
                 <select
                   value={formData.priority}
                   onChange={(e) => handleInputChange('priority', parseInt(e.target.value))}
@@ -419,13 +400,13 @@ export const EventDialog = ({
                 >
                   {PRIORITY_OPTIONS.map((priority) => (
                     <option key={priority.value} value={priority.value} style={{ color: '#1f2937' }}>
-                      {priority.label}
+                      {t(priority.label)}
                     </option>
                   ))}
                 </select>
               </div>
               <div className="space-y-2">
-                <Label>Urgency</Label>
+                <Label>{t('taskDialog.urgency')}</Label>
                 <select
                   value={formData.urgency}
                   onChange={(e) => handleInputChange('urgency', parseInt(e.target.value))}
@@ -435,13 +416,13 @@ export const EventDialog = ({
                 >
                   {PRIORITY_OPTIONS.map((priority) => (
                     <option key={priority.value} value={priority.value} style={{ color: '#1f2937' }}>
-                      {priority.label}
+                      {t(priority.label)}
                     </option>
                   ))}
                 </select>
               </div>
               <div className="space-y-2">
-                <Label>Difficulty</Label>
+                <Label>{t('taskDialog.difficulty')}</Label>
                 <select
                   value={formData.difficulty_level}
                   onChange={(e) => handleInputChange('difficulty_level', parseInt(e.target.value))}
@@ -451,7 +432,7 @@ export const EventDialog = ({
                 >
                   {PRIORITY_OPTIONS.map((priority) => (
                     <option key={priority.value} value={priority.value} style={{ color: '#1f2937' }}>
-                      {priority.label}
+                      {t(priority.label)}
                     </option>
                   ))}
                 </select>
@@ -462,11 +443,11 @@ export const EventDialog = ({
             <div className="space-y-2">
               <Label htmlFor="location" className="flex items-center gap-2">
                 <MapPin className="h-4 w-4" />
-                Location
+                {t('taskDialog.location')}
               </Label>
               <Input
                 id="location"
-                placeholder="Where will this task be done?"
+                placeholder={t('taskDialog.locationPlaceholder')}
                 value={formData.location}
                 onChange={(e) => handleInputChange('location', e.target.value)}
                 disabled={isLoading}
@@ -475,7 +456,7 @@ export const EventDialog = ({
 
             {/* Task Constraints */}
             <div className="space-y-3">
-              <Label>Task Constraints</Label>
+              <Label>{t('taskDialog.constraints')}</Label>
               <div className="space-y-2">
                 <label className="flex items-center space-x-2">
                   <input
@@ -485,7 +466,7 @@ export const EventDialog = ({
                     className="rounded border-gray-300"
                     disabled={isLoading}
                   />
-                  <span className="text-sm">Can be split into chunks</span>
+                  <span className="text-sm">{t('taskDialog.canSplit')}</span>
                 </label>
                 <label className="flex items-center space-x-2">
                   <input
@@ -495,7 +476,7 @@ export const EventDialog = ({
                     className="rounded border-gray-300"
                     disabled={isLoading}
                   />
-                  <span className="text-sm">Requires consecutive time</span>
+                  <span className="text-sm">{t('taskDialog.consecutive')}</span>
                 </label>
                 <label className="flex items-center space-x-2">
                   <input
@@ -505,13 +486,24 @@ export const EventDialog = ({
                     className="rounded border-gray-300"
                     disabled={isLoading}
                   />
-                  <span className="text-sm">AI suggested task</span>
+                  <span className="text-sm">{t('taskDialog.aiSuggested')}</span>
                 </label>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Subtasks & Checklist */}
+        <div className="border-t pt-4 space-y-4">
+          <h3 className="text-lg font-semibold">{t('taskDialog.breakdown')}</h3>
+          <TaskBreakdown
+            task={selectedTask}
+            checklist={formData.checklist || []}
+            onChecklistChange={(items) => handleInputChange('checklist', items)}
+            disabled={isLoading}
+          />
+        </div>
+
         {/* Advanced Settings Toggle */}
         <div className="border-t pt-4">
           <Button
@@ -523,7 +515,7 @@ export const EventDialog = ({
           >
             <span className="flex items-center gap-2">
               <Settings className="h-4 w-4" />
-              Advanced Settings
+              {t('taskDialog.advanced')}
             </span>
             {showAdvanced ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
           </Button>
@@ -542,14 +534,14 @@ export const EventDialog = ({
                   />
                   <span className="flex items-center gap-2">
                     <Repeat className="h-4 w-4" />
-                    Repeat this task
+                    {t('taskDialog.repeat')}
                   </span>
                 </label>
 
                 {formData.is_repeat && (
                   <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-4 border rounded-lg">
                     <div className="space-y-2">
-                      <Label>Pattern</Label>
+                      <Label>{t('taskDialog.pattern')}</Label>
                       <select
                         value={formData.repeat_pattern}
                         onChange={(e) => handleInputChange('repeat_pattern', e.target.value)}
@@ -558,14 +550,14 @@ export const EventDialog = ({
                         disabled={isLoading}
                       >
                         {REPEAT_PATTERNS.map((pattern) => (
-                          <option key={pattern.value} value={pattern.value} style={{ color: '#1f2937' }}>
-                            {pattern.label}
+                          <option key={pattern} value={pattern} style={{ color: '#1f2937' }}>
+                            {t(`repeat.${pattern}`)}
                           </option>
                         ))}
                       </select>
                     </div>
                     <div className="space-y-2">
-                      <Label>Frequency</Label>
+                      <Label>{t('taskDialog.frequency')}</Label>
                       <Input
                         type="number"
                         min="1"
@@ -575,7 +567,7 @@ export const EventDialog = ({
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label>End Date</Label>
+                      <Label>{t('taskDialog.endDate')}</Label>
                       <Input
                         type="date"
                         value={formData.repeat_end_date}
@@ -593,7 +585,7 @@ export const EventDialog = ({
         {/* Dialog Footer */}
         <div className="flex justify-end space-x-2 pt-4 border-t">
           <Button variant="outline" onClick={handleClose} disabled={isLoading}>
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button 
             onClick={handleSave}
@@ -603,10 +595,10 @@ export const EventDialog = ({
             {isLoading ? (
               <div className="flex items-center gap-2">
                 <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                {selectedTask ? 'Updating...' : 'Creating...'}
+                {selectedTask ? t('taskDialog.updating') : t('taskDialog.creating')}
               </div>
             ) : (
-              selectedTask ? 'Update Task' : 'Create Task'
+              selectedTask ? t('taskDialog.update') : t('taskDialog.create')
             )}
           </Button>
         </div>
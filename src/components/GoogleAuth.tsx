@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import Dashboard from './Dashboard';
+import { useI18n } from '@/hooks/use-i18n';
 
 // Types
 interface User {
@@ -29,6 +30,7 @@ const GoogleAuth: React.FC<GoogleAuthProps> = ({ onAuthSuccess, onSignOut }) =>
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [authMethod, setAuthMethod] = useState<'token' | 'session' | null>(null);
+  const { t } = useI18n();
 
   useEffect(() => {
     initializeAuth();
@@ -291,11 +293,11 @@ const GoogleAuth: React.FC<GoogleAuthProps> = ({ onAuthSuccess, onSignOut }) =>
         <div className="relative z-10 max-w-md w-full mx-4">
           <div className="bg-white/95 backdrop-blur-xl rounded-3xl p-12 shadow-2xl border border-white/20 text-center">
             <div className="w-10 h-10 border-3 border-gray-300 border-t-indigo-600 rounded-full animate-spin mx-auto mb-5" />
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">Welcome to DeepTalk</h3>
-            <p className="text-gray-600">Checking your authentication...</p>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">{t('auth.welcome')}</h3>
+            <p className="text-gray-600">{t('auth.checking')}</p>
             {authMethod && (
               <p className="text-sm text-gray-500 mt-2">
-                Authenticating via {authMethod}...
+                {t('auth.via', { method: authMethod })}
               </p>
             )}
           </div>
@@ -328,10 +330,10 @@ const GoogleAuth: React.FC<GoogleAuthProps> = ({ onAuthSuccess, onSignOut }) =>
               </h1>
             </div>
             <p className="text-lg font-medium text-gray-700 mb-2">
-              Your AI-Powered Productivity Companion
+              {t('auth.tagline')}
             </p>
             <p className="text-sm text-gray-500">
-              Welcome to a smarter way to manage your life
+              {t('auth.subtitle')}
             </p>
           </div>
 
@@ -380,7 +382,7 @@ const GoogleAuth: React.FC<GoogleAuthProps> = ({ onAuthSuccess, onSignOut }) =>
                   />
                 </svg>
               )}
-              Continue with Google
+              {t('auth.continueWithGoogle')}
             </button>
 
             {/* Terms */}
@@ -393,24 +395,24 @@ const GoogleAuth: React.FC<GoogleAuthProps> = ({ onAuthSuccess, onSignOut }) =>
             {/* Features Preview */}
             <div className="pt-8 border-t border-gray-200">
               <h3 className="text-center text-gray-700 font-medium mb-5">
-                What you'll get with DeepTalk:
+                {t('auth.features')}
               </h3>
               <div className="grid grid-cols-2 gap-4">
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <span className="text-base">🤖</span>
-                  <span>AI-Powered Task Management</span>
+                  <span>{t('auth.feature.tasks')}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <span className="text-base">📅</span>
-                  <span>Smart Scheduling</span>
+                  <span>{t('auth.feature.scheduling')}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <span className="text-base">📈</span>
-                  <span>Productivity Analytics</span>
+                  <span>{t('auth.feature.analytics')}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <span className="text-base">🎯</span>
-                  <span>Goal Tracking</span>
+                  <span>{t('auth.feature.goals')}</span>
                 </div>
               </div>
             </div>
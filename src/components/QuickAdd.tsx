@@ -0,0 +1,177 @@
+// src/components/QuickAdd.tsx
+// One-line task entry with a live preview of what the parser understood
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Calendar as CalendarIcon, Clock, Flag, Folder, Loader2, MapPin, Repeat, Tag, X, Zap
+} from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Input } from '@/components/calendar_ui/input';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories, useCreateTask } from '@/hooks/use-tasks';
+import { cn } from '@/lib/utils';
+import { parseQuickAdd, QUICK_ADD_EXAMPLES } from '@/lib/quickAddParser';
+import { describeRule, ruleFromRepeatFields } from '@/lib/recurrence';
+import { displayTimeZone } from '@/lib/settings';
+import { formatTaskTime, getPriorityColor } from '@/lib/taskMappers';
+import { toZonedTime } from '@/lib/timezones';
+import type { Task } from '@/types/TaskTypes';
+
+interface QuickAddBoxProps {
+  onCreated?: (task: Task) => void;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+const PreviewChip = ({ icon: Icon, children }: { icon: typeof Clock; children: React.ReactNode }) => (
+  <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs text-foreground">
+    <Icon className="h-3 w-3 text-muted-foreground" />
+    {children}
+  </span>
+);
+
+export const QuickAddBox = ({ onCreated, autoFocus = false, className }: QuickAddBoxProps) => {
+  const [text, setText] = useState('');
+  const { data: categories = [] } = useCategories();
+  const createTask = useCreateTask();
+  const { settings } = useSettings();
+  const isSaving = createTask.isPending;
+  const { toast } = useToast();
+  const { t, dateLocale } = useI18n();
+
+  const timeZone = displayTimeZone(settings);
+  const parsed = useMemo(() => parseQuickAdd(text, { categories, timeZone }), [text, categories, timeZone]);
+  const { request } = parsed;
+  const when = request.specific_time || request.deadline;
+  const day = when && format(toZonedTime(new Date(when), timeZone), 'EEE, MMM d', { locale: dateLocale });
+  const rule = ruleFromRepeatFields(request);
+
+  const handleSave = async () => {
+    if (!request.name || isSaving) return;
+    try {
+      console.log('⚡ Quick-adding task:', request);
+      const task = await createTask.mutateAsync(request);
+      toast({
+        title: t('quickAdd.added'),
+        description: day ? t('quickAdd.addedOn', { name: request.name, date: day }) : `"${request.name}"`,
+      });
+      setText('');
+      onCreated?.(task);
+    } catch (error) {
+      // useCreateTask already removed the placeholder and showed the error
+      console.error('❌ Quick add failed:', error);
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative">
+        <Zap className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={text}
+          autoFocus={autoFocus}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSave();
+            }
+          }}
+          placeholder={t('quickAdd.placeholder')}
+          className="pl-9 pr-9"
+          aria-label={t('quickAdd.label')}
+        />
+        {isSaving && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {text.trim() && (
+        <div className="rounded-lg border border-border bg-background p-2 space-y-2">
+          <div className="text-sm font-medium truncate">
+            {request.name || <span className="text-muted-foreground italic">{t('quickAdd.namePlaceholder')}</span>}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {day && (
+              <PreviewChip icon={CalendarIcon}>
+                {day}
+                {request.specific_time && ` · ${formatTaskTime(request.specific_time, settings.timeFormat, timeZone, dateLocale)}`}
+              </PreviewChip>
+            )}
+            {request.duration_minutes && <PreviewChip icon={Clock}>{t('common.minutes', { count: request.duration_minutes })}</PreviewChip>}
+            {request.priority && (
+              <PreviewChip icon={Flag}>
+                <span style={{ color: getPriorityColor(request.priority) }}>P{request.priority}</span>
+              </PreviewChip>
+            )}
+            {parsed.categoryName && <PreviewChip icon={Folder}>{parsed.categoryName}</PreviewChip>}
+            {request.tags?.map(tag => <PreviewChip key={tag} icon={Tag}>{tag}</PreviewChip>)}
+            {rule && <PreviewChip icon={Repeat}>{describeRule(rule, t, dateLocale)}</PreviewChip>}
+            {request.location && <PreviewChip icon={MapPin}>{request.location}</PreviewChip>}
+          </div>
+          <Button size="sm" className="w-full" disabled={!request.name || isSaving} onClick={handleSave}>
+            {t('quickAdd.add')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface QuickAddDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated?: (task: Task) => void;
+}
+
+// Modal version opened with the global "q" shortcut
+export const QuickAddDialog = ({ isOpen, onClose, onCreated }: QuickAddDialogProps) => {
+  const { t } = useI18n();
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 backdrop-blur-sm p-4 pt-[15vh]"
+      onMouseDown={(e) => {
+        if (!panelRef.current?.contains(e.target as Node)) onClose();
+      }}
+    >
+      <Card ref={panelRef} className="bg-white rounded-2xl w-full max-w-lg shadow-2xl border-0 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-gray-900">{t('quickAdd.title')}</h2>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label={t('quickAdd.close')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <QuickAddBox
+          autoFocus
+          onCreated={(task) => {
+            onCreated?.(task);
+            onClose();
+          }}
+        />
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div className="font-medium">{t('quickAdd.try')}</div>
+          {QUICK_ADD_EXAMPLES.map(example => (
+            <div key={example} className="font-mono truncate">{example}</div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+};
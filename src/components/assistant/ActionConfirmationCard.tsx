@@ -0,0 +1,167 @@
+// src/components/assistant/ActionConfirmationCard.tsx
+// Shows a task action proposed by the assistant so the user can approve, edit or dismiss it
+
+import { useState } from 'react';
+import { Check, Loader2, Pencil, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/jarvis_ui/button';
+import { Input } from '@/components/jarvis_ui/input';
+import { useI18n } from '@/hooks/use-i18n';
+import type { Task } from '@/types/TaskTypes';
+import {
+  describeToolCall, resolveToolTask, toolTargetsTask, type TaskToolArguments, type TaskToolCall
+} from '../APIs/assistantTools';
+
+export type ProposedActionStatus = 'pending' | 'running' | 'done' | 'failed' | 'rejected';
+
+export interface ProposedAction {
+  call: TaskToolCall;
+  status: ProposedActionStatus;
+  error?: string;
+}
+
+interface ActionConfirmationCardProps {
+  action: ProposedAction;
+  tasks: Task[];
+  onApprove: (call: TaskToolCall) => void;
+  onReject: () => void;
+}
+
+const toInputValue = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? '' : format(date, "yyyy-MM-dd'T'HH:mm");
+};
+
+export const ActionConfirmationCard = ({ action, tasks, onApprove, onReject }: ActionConfirmationCardProps) => {
+  const { t, dateLocale } = useI18n();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<TaskToolArguments>(action.call.arguments);
+
+  const { call, status } = action;
+  const editedCall: TaskToolCall = { ...call, arguments: draft };
+  const hasTaskFields = call.name === 'create_task' || call.name === 'update_task';
+  const targetTask = toolTargetsTask(call.name) ? resolveToolTask(draft, tasks) : undefined;
+  const when = draft.specific_time || draft.deadline;
+
+  const updateDraft = (changes: Partial<TaskToolArguments>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleWhenChange = (value: string) => {
+    const iso = value ? new Date(value).toISOString() : undefined;
+    // Keep the original kind of date: a fixed time stays a fixed time
+    updateDraft(draft.specific_time ? { specific_time: iso, deadline: iso } : { deadline: iso });
+  };
+
+  return (
+    <div className="mt-2 rounded-lg border border-primary/30 bg-background/60 p-3 text-xs space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold uppercase tracking-wide text-primary">{t(`tool.${call.name}`)}</span>
+        {typeof draft.confidence === 'number' && (
+          <span className="text-muted-foreground">{t('action.confidence', { percent: Math.round(draft.confidence * 100) })}</span>
+        )}
+      </div>
+
+      <p className="text-sm">{describeToolCall(editedCall, tasks, t, dateLocale)}</p>
+
+      {isEditing && status === 'pending' && (
+        <div className="space-y-2">
+          {toolTargetsTask(call.name) && (
+            <label className="block space-y-1">
+              <span className="text-muted-foreground">{t('action.task')}</span>
+              <select
+                value={targetTask?.id ?? ''}
+                onChange={(e) => updateDraft({ task_id: e.target.value, task_name: undefined })}
+                className="w-full rounded-md border border-primary/20 bg-background/50 px-2 py-1.5"
+              >
+                <option value="" disabled>{t('action.chooseTask')}</option>
+                {tasks.map(task => (
+                  <option key={task.id} value={task.id}>{task.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {hasTaskFields && (
+            <>
+              <label className="block space-y-1">
+                <span className="text-muted-foreground">{t('action.name')}</span>
+                <Input
+                  value={draft.name ?? ''}
+                  placeholder={targetTask?.name}
+                  onChange={(e) => updateDraft({ name: e.target.value || undefined })}
+                  className="h-8 bg-background/50 border-primary/20"
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-muted-foreground">{t('action.when')}</span>
+                <Input
+                  type="datetime-local"
+                  value={toInputValue(when)}
+                  onChange={(e) => handleWhenChange(e.target.value)}
+                  className="h-8 bg-background/50 border-primary/20"
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block space-y-1">
+                  <span className="text-muted-foreground">{t('action.duration')}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={draft.duration_minutes ?? ''}
+                    onChange={(e) => updateDraft({ duration_minutes: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                    className="h-8 bg-background/50 border-primary/20"
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-muted-foreground">{t('action.priority')}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={5}
+                    value={draft.priority ?? ''}
+                    onChange={(e) => updateDraft({ priority: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                    className="h-8 bg-background/50 border-primary/20"
+                  />
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {status === 'pending' && (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" className="h-7 px-2" onClick={() => onApprove(editedCall)}>
+            <Check className="w-3.5 h-3.5 mr-1" />
+            {t('action.approve')}
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => setIsEditing(!isEditing)}>
+            <Pencil className="w-3.5 h-3.5 mr-1" />
+            {isEditing ? t('action.doneEditing') : t('action.edit')}
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={onReject}>
+            <X className="w-3.5 h-3.5 mr-1" />
+            {t('action.dismiss')}
+          </Button>
+        </div>
+      )}
+
+      {status === 'running' && (
+        <div className="flex items-center gap-1.5 text-muted-foreground">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          {t('action.running')}
+        </div>
+      )}
+      {status === 'done' && <div className="text-green-500 font-medium">{t('action.done')}</div>}
+      {status === 'rejected' && <div className="text-muted-foreground">{t('action.dismissed')}</div>}
+      {status === 'failed' && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-destructive">{action.error || t('action.failed')}</span>
+          <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => onApprove(editedCall)}>
+            {t('action.retry')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
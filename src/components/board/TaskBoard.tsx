@@ -0,0 +1,357 @@
+// src/components/board/TaskBoard.tsx
+// Kanban board of tasks with columns and swimlanes by status, priority, category or assignee
+
+import { useCallback, useEffect, useMemo, useState, type DragEvent, type MouseEvent } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Gauge, Loader2, User } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { EventDialog } from '@/components/EventDialog';
+import { PendingChanges } from '@/components/offline/PendingChanges';
+import { TaskMergeDialog } from '@/components/conflicts/TaskMergeDialog';
+import { TaskConflictError } from '@/components/APIs/taskClient';
+import { FilterBar } from '@/components/filters/FilterBar';
+import { CommandPalette } from '@/components/palette/CommandPalette';
+import { useCalendarFilter } from '@/hooks/use-calendar-filter';
+import { useI18n } from '@/hooks/use-i18n';
+import { useViewOptions } from '@/hooks/use-view-options';
+import { useToast } from '@/hooks/use-toast';
+import { useBulkUpdateTasks, useCategories, useTasks, useUpdateTask } from '@/hooks/use-tasks';
+import { filterTasks } from '@/lib/calendarFilter';
+import { compareTasksBy } from '@/lib/savedViews';
+import {
+  BOARD_GROUPS, boardColumns, buildBoard, columnCount, columnKeyOf, dropInput, exceedsWipLimit,
+  loadWipLimits, saveWipLimits, tasksToMove,
+  type BoardGroupBy, type BoardSwimlaneBy, type WipLimits
+} from '@/lib/taskBoard';
+import { getPriorityColor, isTaskOverdue, toTaskPriority } from '@/lib/taskMappers';
+import { cn } from '@/lib/utils';
+import type { Task, TaskInput } from '@/types/TaskTypes';
+
+const BOARD_DRAG_TYPE = 'application/x-board-tasks';
+
+interface DropTarget {
+  lane: string;
+  column: string;
+}
+
+export const TaskBoard = () => {
+  const { data: tasks = [], isLoading } = useTasks();
+  const { data: categories = [] } = useCategories();
+  const { t, dateLocale } = useI18n();
+  const updateTask = useUpdateTask({ errorTitle: t('board.moveFailed') });
+  const bulkUpdate = useBulkUpdateTasks({ errorTitle: t('board.moveManyFailed') });
+  const { toast } = useToast();
+  const { filter, setFilter } = useCalendarFilter();
+  const shownTasks = useMemo(() => filterTasks(tasks, filter), [tasks, filter]);
+
+  // Grouping is in the URL, so saved views and shared links open the same board
+  const { options, setOptions } = useViewOptions();
+  const groupBy = options.groupBy ?? 'status';
+  const swimlaneBy = options.swimlaneBy ?? 'none';
+  const [wipLimits, setWipLimits] = useState<WipLimits>(() => loadWipLimits(groupBy));
+  const [editingLimit, setEditingLimit] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+
+  const priorityName = useCallback((priority: unknown) => t(`priority.${toTaskPriority(priority)}`), [t]);
+  const columns = useMemo(() => boardColumns(groupBy, tasks, categories, t), [groupBy, tasks, categories, t]);
+  const lanes = useMemo(
+    () => (swimlaneBy === 'none' ? [] : boardColumns(swimlaneBy, tasks, categories, t)),
+    [swimlaneBy, tasks, categories, t]
+  );
+  const board = useMemo(
+    () => buildBoard(shownTasks, columns, groupBy, swimlaneBy, lanes, compareTasksBy(options.sort)),
+    [shownTasks, columns, groupBy, swimlaneBy, lanes, options.sort]
+  );
+  // WIP limits count every task in the column, including those the filter hides
+  const fullBoard = useMemo(
+    () => buildBoard(tasks, columns, groupBy, 'none', []),
+    [tasks, columns, groupBy]
+  );
+  const showLaneHeaders = board.length > 1 || Boolean(board[0]?.label);
+
+  // Limits are kept per grouping
+  useEffect(() => {
+    setWipLimits(loadWipLimits(groupBy));
+    setEditingLimit(null);
+  }, [groupBy]);
+
+  const changeGroupBy = (value: BoardGroupBy) =>
+    setOptions({ groupBy: value, ...(swimlaneBy === value ? { swimlaneBy: 'none' as const } : {}) });
+
+  const setLimit = (columnKey: string, value: number) => {
+    const next = { ...wipLimits };
+    if (value > 0) next[columnKey] = value;
+    else delete next[columnKey];
+    setWipLimits(next);
+    saveWipLimits(groupBy, next);
+  };
+
+  // Ctrl/Cmd or Shift click builds a selection that moves together; a plain click opens the task
+  const handleCardClick = (e: MouseEvent, task: Task) => {
+    if (e.metaKey || e.ctrlKey || e.shiftKey) {
+      setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(task.id)) next.delete(task.id);
+        else next.add(task.id);
+        return next;
+      });
+      return;
+    }
+    setEditingTask(task);
+  };
+
+  const handleDragStart = (e: DragEvent, task: Task) => {
+    const ids = selected.has(task.id) ? [...selected] : [task.id];
+    e.dataTransfer.setData(BOARD_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = (e: DragEvent, target: DropTarget) => {
+    e.preventDefault();
+    setDropTarget(null);
+    let ids: string[] = [];
+    try {
+      ids = JSON.parse(e.dataTransfer.getData(BOARD_DRAG_TYPE) || '[]');
+    } catch {
+      return;
+    }
+
+    const dragged = tasks.filter(task => ids.includes(task.id));
+    const moving = tasksToMove(dragged, groupBy, target.column, swimlaneBy, target.lane);
+    if (moving.length === 0) return;
+
+    // Moving between lanes of the same column doesn't change the column's count
+    const entering = moving.filter(task => columnKeyOf(task, groupBy) !== target.column).length;
+    if (exceedsWipLimit(wipLimits, target.column, columnCount(fullBoard, target.column), entering)) {
+      const label = columns.find(column => column.key === target.column)?.label ?? target.column;
+      toast({
+        title: t('board.wipReached'),
+        description: t('board.wipLimited', { column: label, limit: wipLimits[target.column] }),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const input = dropInput(groupBy, target.column, swimlaneBy, target.lane);
+    console.log('🗂️ Moving tasks on the board:', moving.map(task => task.id), input);
+    if (moving.length === 1) {
+      updateTask.mutate({ id: moving[0].id, input: { name: moving[0].name, ...input } });
+    } else {
+      bulkUpdate.mutate({ ids: moving.map(task => task.id), input });
+    }
+    setSelected(new Set());
+  };
+
+  const handleSaveTask = async (input: TaskInput) => {
+    if (!editingTask) return;
+    try {
+      await updateTask.mutateAsync({ id: editingTask.id, input });
+    } catch (error) {
+      // The merge dialog takes over for conflicts; anything else keeps the dialog open
+      if (error instanceof TaskConflictError) return;
+      throw error;
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-4">
+      <PendingChanges />
+      <TaskMergeDialog />
+
+      {/* Controls */}
+      <Card className="p-4 bg-white/80 backdrop-blur-sm border border-white/50 flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          {t('board.columns')}
+          <select
+            value={groupBy}
+            onChange={(e) => changeGroupBy(e.target.value as BoardGroupBy)}
+            className="border border-gray-300 rounded-lg px-2 py-1 bg-white"
+          >
+            {BOARD_GROUPS.map(option => (
+              <option key={option} value={option}>{t(`board.group.${option}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          {t('board.swimlanes')}
+          <select
+            value={swimlaneBy}
+            onChange={(e) => setOptions({ swimlaneBy: e.target.value as BoardSwimlaneBy })}
+            className="border border-gray-300 rounded-lg px-2 py-1 bg-white"
+          >
+            <option value="none">{t('board.noLanes')}</option>
+            {BOARD_GROUPS.filter(option => option !== groupBy).map(option => (
+              <option key={option} value={option}>{t(`board.group.${option}`)}</option>
+            ))}
+          </select>
+        </label>
+        {selected.size > 0 && (
+          <div className="flex items-center gap-2 text-sm text-blue-700">
+            {t('board.selected', { count: selected.size })}
+            <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>{t('common.clear')}</Button>
+          </div>
+        )}
+        {(isLoading || updateTask.isPending || bulkUpdate.isPending) && (
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400 ml-auto" />
+        )}
+      </Card>
+
+      <FilterBar tasks={tasks} categories={categories} filter={filter} onChange={setFilter} />
+
+      {/* Board */}
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-grid gap-3" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(240px, 1fr))` }}>
+          {columns.map(column => {
+            const count = columnCount(fullBoard, column.key);
+            const limit = wipLimits[column.key];
+            const overLimit = limit > 0 && count > limit;
+            return (
+              <div
+                key={column.key}
+                className={cn(
+                  'flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-white/90 border-t-4 shadow-sm',
+                  overLimit && 'bg-red-50'
+                )}
+                style={{ borderTopColor: column.color ?? '#9ca3af' }}
+              >
+                <span className="font-semibold text-gray-900 truncate">{column.label}</span>
+                <span className="flex items-center gap-1 text-xs">
+                  {editingLimit === column.key ? (
+                    <input
+                      type="number"
+                      min={0}
+                      autoFocus
+                      defaultValue={limit || ''}
+                      placeholder={t('board.noLimit')}
+                      aria-label={t('board.limitFor', { column: column.label })}
+                      onBlur={(e) => {
+                        setLimit(column.key, parseInt(e.target.value) || 0);
+                        setEditingLimit(null);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                        if (e.key === 'Escape') setEditingLimit(null);
+                      }}
+                      className="w-16 border border-gray-300 rounded px-1 py-0.5"
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setEditingLimit(column.key)}
+                      title={t('board.setLimit')}
+                      className={cn(
+                        'flex items-center gap-1 px-1.5 py-0.5 rounded-full',
+                        overLimit ? 'bg-red-100 text-red-700 font-semibold' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      )}
+                    >
+                      {overLimit ? <AlertCircle className="h-3 w-3" /> : <Gauge className="h-3 w-3" />}
+                      {limit ? `${count}/${limit}` : count}
+                    </button>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+
+          {board.map(lane => (
+            <div key={lane.key} className="contents">
+              {showLaneHeaders && (
+                <div className="text-sm font-semibold text-gray-600 pt-2" style={{ gridColumn: `1 / span ${columns.length}` }}>
+                  {lane.label}
+                </div>
+              )}
+              {columns.map(column => {
+                const isTarget = dropTarget?.lane === lane.key && dropTarget.column === column.key;
+                return (
+                  <div
+                    key={column.key}
+                    className={cn(
+                      'min-h-[120px] p-2 rounded-lg bg-gray-100/70 space-y-2 transition-colors',
+                      isTarget && 'bg-blue-100 ring-2 ring-blue-400'
+                    )}
+                    onDragOver={(e) => {
+                      if (!e.dataTransfer.types.includes(BOARD_DRAG_TYPE)) return;
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = 'move';
+                      if (!isTarget) setDropTarget({ lane: lane.key, column: column.key });
+                    }}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => handleDrop(e, { lane: lane.key, column: column.key })}
+                  >
+                    {lane.cells[column.key].map(task => (
+                      <div
+                        key={task.id}
+                        role="button"
+                        tabIndex={0}
+                        draggable
+                        aria-pressed={selected.has(task.id)}
+                        onDragStart={(e) => handleDragStart(e, task)}
+                        onClick={(e) => handleCardClick(e, task)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') setEditingTask(task);
+                          if (e.key === ' ') {
+                            e.preventDefault();
+                            setSelected(prev => {
+                              const next = new Set(prev);
+                              if (next.has(task.id)) next.delete(task.id);
+                              else next.add(task.id);
+                              return next;
+                            });
+                          }
+                        }}
+                        className={cn(
+                          'p-3 rounded-lg bg-white border shadow-sm cursor-grab active:cursor-grabbing text-sm space-y-1',
+                          'focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500',
+                          selected.has(task.id) ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200 hover:shadow-md',
+                          task.status === 'completed' && 'opacity-70'
+                        )}
+                        style={{ borderLeft: `4px solid ${getPriorityColor(task.priority)}` }}
+                      >
+                        <div className={cn('font-medium text-gray-900', task.status === 'completed' && 'line-through')}>
+                          {task.name}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-500">
+                          {groupBy !== 'priority' && <span>{priorityName(task.priority)}</span>}
+                          {task.deadline && (
+                            <span className={cn(isTaskOverdue(task) && 'text-red-600 font-medium')}>
+                              {format(new Date(task.deadline), 'MMM d', { locale: dateLocale })}
+                            </span>
+                          )}
+                          {groupBy !== 'category' && task.category && (
+                            <span style={{ color: task.category.color_hex }}>{task.category.name}</span>
+                          )}
+                          {groupBy !== 'assignee' && task.assignee && (
+                            <span className="flex items-center gap-0.5"><User className="h-3 w-3" />{task.assignee}</span>
+                          )}
+                        </div>
+                        {task.completion_percentage > 0 && task.completion_percentage < 100 && (
+                          <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-green-500" style={{ width: `${task.completion_percentage}%` }} />
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <EventDialog
+        isOpen={Boolean(editingTask)}
+        onClose={() => setEditingTask(null)}
+        selectedDate={null}
+        selectedTask={editingTask}
+        onSaveTask={handleSaveTask}
+        categories={categories}
+      />
+
+      <CommandPalette onOpenTask={setEditingTask} />
+    </div>
+  );
+};
@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { addDays } from 'date-fns';
-import { Calendar, CalendarEvent } from '@/components/Calendar';
+import { Calendar } from '@/components/Calendar';
+import type { CalendarEvent, CalendarFilter } from '@/types/CalendarTypes';
 import { CalendarSidebar } from '@/components/CalendarSidebar';
 import { EventDialog } from '@/components/EventDialog';
 
@@ -38,6 +39,10 @@ const TaskCalendarApp = () => {
   const [isEventDialogOpen, setIsEventDialogOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+  // The sample events aren't tasks, so only the search applies to them
+  const [filter, setFilter] = useState<CalendarFilter>({});
+  const search = filter.search?.trim().toLowerCase();
+  const shownEvents = search ? events.filter(event => event.title.toLowerCase().includes(search)) : events;
 
   const handleDateClick = (date: Date) => {
     setSelectedDate(date);
@@ -69,7 +74,11 @@ const TaskCalendarApp = () => {
     <div className="min-h-screen bg-background">
       <div className="flex h-screen">
         <CalendarSidebar 
-          events={events}
+          events={shownEvents}
+          tasks={[]}
+          categories={[]}
+          filter={filter}
+          onFilterChange={setFilter}
           onCreateEvent={handleCreateEvent}
           selectedDate={selectedDate}
         />
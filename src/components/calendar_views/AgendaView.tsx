@@ -0,0 +1,88 @@
+// src/components/calendar_views/AgendaView.tsx
+// Scrolling list of upcoming days that have tasks
+
+import { format, isSameDay, isToday } from 'date-fns';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { formatTaskTime } from '@/lib/taskMappers';
+import { cn } from '@/lib/utils';
+import { getEventEnd, isTimedEvent, type EventReschedule } from '@/lib/calendarViews';
+import { compareEventsBy } from '@/lib/savedViews';
+import type { CalendarEvent, SavedViewSort } from '@/types/CalendarTypes';
+import { EventChip } from './EventChip';
+
+interface AgendaViewProps {
+  days: Date[];
+  events: CalendarEvent[];
+  onDateClick: (date: Date) => void;
+  onEventClick?: (event: CalendarEvent) => void;
+  onReschedule?: (event: CalendarEvent, change: EventReschedule) => void;
+  sort?: SavedViewSort;
+}
+
+export const AgendaView = ({ days, events, onDateClick, onEventClick, onReschedule, sort = 'schedule' }: AgendaViewProps) => {
+  const { settings: { timeFormat } } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const groups = days
+    .map(day => ({
+      day,
+      events: events
+        .filter(event => isSameDay(event.date, day))
+        .sort(compareEventsBy(sort)),
+    }))
+    .filter(group => group.events.length > 0);
+
+  if (groups.length === 0) {
+    return (
+      <div className="p-12 text-center text-gray-500 bg-white">
+        <div className="text-4xl mb-3">🗓️</div>
+        <p className="font-medium">{t('view.empty')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-[700px] overflow-y-auto bg-white divide-y divide-gray-100">
+      {groups.map(({ day, events: dayEvents }) => (
+        <div key={day.toISOString()} className="flex gap-6 p-4 hover:bg-gray-50/60 transition-colors">
+          <button
+            type="button"
+            onClick={() => onDateClick(day)}
+            className="w-24 shrink-0 text-start"
+          >
+            <div className={cn("text-3xl font-bold", isToday(day) ? "text-blue-600" : "text-gray-800")}>
+              {format(day, 'd')}
+            </div>
+            <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+              {format(day, 'EEE, MMM', { locale: dateLocale })}
+            </div>
+            {isToday(day) && <div className="text-xs text-yellow-600 font-semibold mt-1">• {t('calendar.today')}</div>}
+          </button>
+
+          <div className="flex-1 space-y-2">
+            {dayEvents.map(event => (
+              <div key={event.id} className="flex items-start gap-3">
+                <div className="w-32 shrink-0 pt-1 text-xs text-gray-500">
+                  {isTimedEvent(event)
+                    ? `${formatTaskTime(event.date, timeFormat, undefined, dateLocale)} – ${formatTaskTime(getEventEnd(event), timeFormat, undefined, dateLocale)}`
+                    : t('view.allDay')}
+                </div>
+                <EventChip
+                  event={event}
+                  onClick={onEventClick}
+                  onReschedule={onReschedule}
+                  showTime={false}
+                  className="flex-1"
+                >
+                  {event.description && (
+                    <span className="block text-[11px] font-normal opacity-75 truncate">{event.description}</span>
+                  )}
+                </EventChip>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+// src/components/calendar_views/EventChip.tsx
+
+import React from 'react';
+import { TimerButton } from '@/components/time/TimerButton';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { formatTaskTime } from '@/lib/taskMappers';
+import { cn } from '@/lib/utils';
+import { canRescheduleEvent, EVENT_DRAG_TYPE, keyboardReschedule, type EventReschedule } from '@/lib/calendarViews';
+import type { CalendarEvent } from '@/types/CalendarTypes';
+
+interface EventChipProps {
+  event: CalendarEvent;
+  onClick?: (event: CalendarEvent) => void;
+  onReschedule?: (event: CalendarEvent, change: EventReschedule) => void;
+  showTime?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+  children?: React.ReactNode;
+}
+
+const eventTypeIcon = (event: CalendarEvent) => {
+  if (event.proposed) return '✨';
+  if (event.blockedBy?.length) return '🔒';
+  if (event.type === 'task' && event.completed) return '✅';
+  if (event.parentTask) return '↳';
+  if (event.type === 'task') return '📋';
+  if (event.type === 'event') return '📅';
+  if (event.type === 'reminder') return '🔔';
+  return null;
+};
+
+export const EventChip = ({
+  event,
+  onClick,
+  onReschedule,
+  showTime = true,
+  className,
+  style,
+  children
+}: EventChipProps) => {
+  const { settings } = useSettings();
+  const { dateLocale } = useI18n();
+  const canReschedule = Boolean(onReschedule) && canRescheduleEvent(event);
+  const isBlocked = Boolean(event.blockedBy?.length);
+  const time = event.time && formatTaskTime(event.date, settings.timeFormat, undefined, dateLocale);
+  // Occurrences of a repeating task track time against the task itself
+  const trackable = event.type === 'task' && !event.proposed;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onClick?.(event);
+      return;
+    }
+    if (!canReschedule || !e.altKey) return;
+    const change = keyboardReschedule(event, e.key, e.shiftKey);
+    if (change) {
+      e.preventDefault();
+      e.stopPropagation();
+      onReschedule?.(event, change);
+    }
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      draggable={canReschedule}
+      aria-label={isBlocked
+        ? `${event.title}. Locked until ${event.blockedBy!.join(', ')} ${event.blockedBy!.length === 1 ? 'is' : 'are'} done.`
+        : canReschedule
+          ? `${event.title}. Press Alt and the arrow keys to move it, Alt+Shift+Up or Down to change its duration.`
+          : event.title}
+      className={cn(
+        "group/event px-2 py-1 rounded-lg text-xs font-medium cursor-pointer transition-all duration-200",
+        "shadow-sm border backdrop-blur-sm hover:shadow-md hover:z-10",
+        "focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:z-20",
+        canReschedule && "active:cursor-grabbing",
+        event.type === 'task' && event.completed && "bg-green-100 text-green-800 border-green-200 line-through opacity-75",
+        event.type === 'task' && !event.completed && "bg-yellow-100 text-yellow-800 border-yellow-200",
+        event.type === 'event' && "bg-blue-100 text-blue-800 border-blue-200",
+        event.type === 'reminder' && "bg-purple-100 text-purple-800 border-purple-200",
+        !event.type && "bg-indigo-100 text-indigo-800 border-indigo-200",
+        event.proposed && "border-dashed border-2 opacity-70 shadow-none",
+        isBlocked && "opacity-60 grayscale border-dashed",
+        className
+      )}
+      style={{
+        ...(event.color ? {
+          backgroundColor: `${event.color}15`,
+          borderColor: `${event.color}40`,
+          color: event.color
+        } : {}),
+        ...style
+      }}
+      title={[
+        event.time ? `${time} · ${event.title}` : event.title,
+        isBlocked && `Waiting on: ${event.blockedBy!.join(', ')}`,
+      ].filter(Boolean).join('\n')}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick?.(event);
+      }}
+      onKeyDown={handleKeyDown}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(EVENT_DRAG_TYPE, event.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+    >
+      <div className="flex items-center gap-1">
+        {eventTypeIcon(event) && <span className="text-xs">{eventTypeIcon(event)}</span>}
+        {showTime && event.time && (
+          <span className="text-xs opacity-75 font-normal">
+            {time}
+          </span>
+        )}
+        {trackable && (
+          <TimerButton
+            task={{ id: event.seriesId ?? event.id, name: event.title }}
+            className="ms-auto"
+            idleClassName={event.completed ? "hidden" : "opacity-0 group-hover/event:opacity-100 focus-visible:opacity-100"}
+          />
+        )}
+      </div>
+      <span className="truncate block font-medium">{event.title}</span>
+      {event.subtasks?.length ? (
+        <span className="block text-[10px] opacity-75">
+          {event.progress ?? 0}% · {event.subtasks.length} subtask{event.subtasks.length === 1 ? '' : 's'}
+        </span>
+      ) : null}
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+// src/components/calendar_views/MonthView.tsx
+
+import React, { useState } from 'react';
+import { format, isSameDay, isSameMonth, isToday } from 'date-fns';
+import { Plus } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import {
+  findDraggedEvent, isEventDrag, isWeekendDay, rescheduleToDay, type EventReschedule
+} from '@/lib/calendarViews';
+import type { CalendarEvent } from '@/types/CalendarTypes';
+import { EventChip } from './EventChip';
+
+interface MonthViewProps {
+  days: Date[];
+  events: CalendarEvent[];
+  currentDate: Date;
+  selectedDate: Date | null;
+  showWeekends: boolean;
+  onDateClick: (date: Date) => void;
+  onEventClick?: (event: CalendarEvent) => void;
+  onReschedule?: (event: CalendarEvent, change: EventReschedule) => void;
+  onShowMore: (date: Date) => void;
+  onAddEvent: () => void;
+}
+
+export const MonthView = ({
+  days,
+  events,
+  currentDate,
+  selectedDate,
+  showWeekends,
+  onDateClick,
+  onEventClick,
+  onReschedule,
+  onShowMore,
+  onAddEvent
+}: MonthViewProps) => {
+  const { t, dateLocale } = useI18n();
+  const [dropTarget, setDropTarget] = useState<Date | null>(null);
+  const weekdays = days.slice(0, showWeekends ? 7 : 5).map(day => format(day, 'EEE', { locale: dateLocale }));
+
+  const handleDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const event = findDraggedEvent(e.dataTransfer, events);
+    if (event && !isSameDay(event.date, day)) {
+      onReschedule?.(event, rescheduleToDay(event, day));
+    }
+  };
+
+  return (
+    <>
+      {/* Weekday Headers */}
+      <div className={cn("grid bg-gradient-to-r from-gray-50 to-gray-100 border-b-2 border-gray-200", showWeekends ? "grid-cols-7" : "grid-cols-5")}>
+        {weekdays.map((day) => (
+          <div
+            key={day}
+            className="p-4 text-center text-sm font-bold text-gray-700 uppercase tracking-wide"
+          >
+            {day}
+          </div>
+        ))}
+      </div>
+
+      {/* Calendar Days */}
+      <div className={cn("grid bg-white", showWeekends ? "grid-cols-7" : "grid-cols-5")}>
+        {days.map((day) => {
+          const dayEvents = events.filter(event => isSameDay(event.date, day));
+          const isCurrentMonth = isSameMonth(day, currentDate);
+          const isDayToday = isToday(day);
+          const isSelected = selectedDate && isSameDay(day, selectedDate);
+          const isWeekend = isWeekendDay(day);
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "min-h-[130px] p-3 border-b border-e border-gray-100 cursor-pointer transition-all duration-300 group",
+                "hover:bg-gradient-to-br hover:from-blue-50 hover:to-indigo-50 hover:shadow-lg hover:scale-[1.02] hover:z-10",
+                !isCurrentMonth && "bg-gray-50/70",
+                isSelected && "bg-gradient-to-br from-blue-100 to-indigo-100 ring-2 ring-blue-400 ring-inset shadow-lg",
+                isDayToday && !isSelected && "bg-gradient-to-br from-yellow-50 to-orange-50 ring-2 ring-yellow-400 ring-inset",
+                dropTarget && isSameDay(day, dropTarget) && "bg-blue-50 ring-2 ring-blue-400 ring-inset"
+              )}
+              onClick={() => onDateClick(day)}
+              onDragOver={(e) => {
+                if (!onReschedule || !isEventDrag(e.dataTransfer)) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (!dropTarget || !isSameDay(day, dropTarget)) setDropTarget(day);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, day)}
+            >
+              <div className="flex flex-col h-full">
+                {/* Day Number */}
+                <div
+                  className={cn(
+                    "w-10 h-10 flex items-center justify-center rounded-full text-sm font-bold transition-all duration-300 mb-2",
+                    isDayToday && "bg-gradient-to-br from-blue-500 to-purple-600 text-white shadow-lg ring-2 ring-blue-300 animate-pulse",
+                    !isDayToday && isCurrentMonth && "text-gray-700 group-hover:bg-blue-100 group-hover:text-blue-700",
+                    !isDayToday && !isCurrentMonth && "text-gray-400",
+                    isWeekend && isCurrentMonth && !isDayToday && "text-purple-600 font-semibold",
+                    isSelected && !isDayToday && "bg-blue-200 text-blue-800 ring-2 ring-blue-400"
+                  )}
+                >
+                  {isDayToday ? (
+                    <span className="flex flex-col items-center">
+                      <span className="text-xs">{t('view.todayBadge')}</span>
+                      <span className="text-lg">{format(day, 'd')}</span>
+                    </span>
+                  ) : (
+                    format(day, 'd')
+                  )}
+                </div>
+
+                {/* Events */}
+                <div className="flex-1 space-y-1">
+                  {dayEvents.slice(0, 3).map((event) => (
+                    <EventChip
+                      key={event.id}
+                      event={event}
+                      onClick={onEventClick}
+                      onReschedule={onReschedule}
+                      className="hover:scale-105"
+                    />
+                  ))}
+                
+                  {dayEvents.length > 3 && (
+                    <button
+                      type="button"
+                      className="w-full text-xs text-gray-600 px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded-lg text-center border border-gray-200 transition-colors"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onShowMore(day);
+                      }}
+                    >
+                      {t('view.more', { count: dayEvents.length - 3 })}
+                    </button>
+                  )}
+                
+                  {dayEvents.length === 0 && isSelected && (
+                    <div 
+                      className="text-xs text-blue-600 px-2 py-1 bg-blue-50 rounded-lg text-center cursor-pointer hover:bg-blue-100 transition-colors border border-blue-200 border-dashed"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onAddEvent();
+                      }}
+                    >
+                      <Plus className="h-3 w-3 inline me-1" />
+                      {t('view.addEvent')}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,297 @@
+// src/components/calendar_views/TimeGridView.tsx
+// Hourly grid used by the week and day views
+
+import React, { useEffect, useRef, useState } from 'react';
+import { format, isSameDay, setHours, startOfDay, type Locale } from 'date-fns';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { convertWallTime, formatZoneOffset, fromZonedTime, isValidTimeZone, resolveTimeZone, timeZoneCity, toZonedTime } from '@/lib/timezones';
+import { cn } from '@/lib/utils';
+import {
+  canRescheduleEvent, DEFAULT_EVENT_DURATION, findDraggedEvent, HOUR_HEIGHT, isEventDrag, isTimedEvent, layoutDayEvents,
+  minutesSinceMidnight, rescheduleToAllDay, rescheduleToSlot, resizeEvent, type EventReschedule
+} from '@/lib/calendarViews';
+import type { CalendarEvent } from '@/types/CalendarTypes';
+import { EventChip } from './EventChip';
+
+interface TimeGridViewProps {
+  days: Date[];
+  events: CalendarEvent[];
+  selectedDate: Date | null;
+  onSlotClick: (date: Date) => void;
+  onEventClick?: (event: CalendarEvent) => void;
+  onReschedule?: (event: CalendarEvent, change: EventReschedule) => void;
+  scrollToHour?: number;
+}
+
+interface ResizeState {
+  event: CalendarEvent;
+  startY: number;
+  initialDuration: number;
+  duration: number;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Whole hours drop the minutes in 12-hour labels; zones off by half an hour keep them
+const hourLabel = (date: Date, timeFormat: string, locale?: Locale) => {
+  if (timeFormat === '24h') return format(date, 'HH:mm');
+  return format(date, date.getMinutes() ? 'h:mm a' : 'h a', { locale });
+};
+
+export const TimeGridView = ({
+  days,
+  events,
+  selectedDate,
+  onSlotClick,
+  onEventClick,
+  onReschedule,
+  scrollToHour = 7
+}: TimeGridViewProps) => {
+  const { settings } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [resizing, setResizing] = useState<ResizeState | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Start the grid at the beginning of the working day instead of midnight
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollToHour * HOUR_HEIGHT;
+    }
+  }, [scrollToHour]);
+
+  // Track the pointer while an event's bottom edge is being dragged
+  useEffect(() => {
+    if (!resizing) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const deltaMinutes = ((e.clientY - resizing.startY) / HOUR_HEIGHT) * 60;
+      setResizing(prev => prev && { ...prev, duration: resizeEvent(prev.event, prev.initialDuration + deltaMinutes).duration });
+    };
+    const handleUp = () => {
+      if (resizing.duration !== resizing.initialDuration) {
+        onReschedule?.(resizing.event, resizeEvent(resizing.event, resizing.duration));
+      }
+      setResizing(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [resizing, onReschedule]);
+
+  const allowDrop = (e: React.DragEvent, target: string) => {
+    if (!onReschedule || !isEventDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== target) setDropTarget(target);
+  };
+
+  const handleColumnDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const event = findDraggedEvent(e.dataTransfer, events);
+    if (!event) return;
+    const offsetY = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    onReschedule?.(event, rescheduleToSlot(event, day, (offsetY / HOUR_HEIGHT) * 60));
+  };
+
+  const handleAllDayDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const event = findDraggedEvent(e.dataTransfer, events);
+    if (event) {
+      onReschedule?.(event, rescheduleToAllDay(event, day));
+    }
+  };
+
+  // The grid shows wall-clock time in the display zone; the second gutter shows the same moments elsewhere
+  const timeZone = resolveTimeZone(settings.timezone);
+  const secondaryZone = isValidTimeZone(settings.secondaryTimezone) && settings.secondaryTimezone !== timeZone
+    ? settings.secondaryTimezone
+    : null;
+  const now = toZonedTime(new Date(), timeZone);
+  const gutters = secondaryZone ? '4rem 4rem' : '4rem';
+  const gridTemplate = { gridTemplateColumns: `${gutters} repeat(${days.length}, minmax(0, 1fr))` };
+  // Labels follow the first day shown, so they're right for every day unless DST changes mid-week
+  const referenceDay = startOfDay(days[0] ?? now);
+  const secondaryLabel = (hour: number) =>
+    hourLabel(convertWallTime(setHours(referenceDay, hour), timeZone, secondaryZone), settings.timeFormat, dateLocale);
+  const zoneHeader = (zone: string) => (
+    <div className="p-1 self-end text-end text-[10px] leading-tight text-gray-400" title={zone}>
+      <div className="truncate font-semibold">{timeZoneCity(zone)}</div>
+      <div>{formatZoneOffset(fromZonedTime(referenceDay, timeZone), zone)}</div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white">
+      {/* Day headers */}
+      <div className="grid bg-gradient-to-r from-gray-50 to-gray-100 border-b-2 border-gray-200" style={gridTemplate}>
+        {secondaryZone ? (
+          <>
+            {zoneHeader(secondaryZone)}
+            {zoneHeader(timeZone)}
+          </>
+        ) : <div />}
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className={cn(
+              "p-3 text-center cursor-pointer",
+              selectedDate && isSameDay(day, selectedDate) && "bg-blue-100"
+            )}
+            onClick={() => onSlotClick(startOfDay(day))}
+          >
+            <div className="text-xs font-bold text-gray-500 uppercase tracking-wide">{format(day, 'EEE', { locale: dateLocale })}</div>
+            <div
+              className={cn(
+                "mx-auto mt-1 w-9 h-9 flex items-center justify-center rounded-full text-lg font-bold text-gray-700",
+                isSameDay(day, now) && "bg-gradient-to-br from-blue-500 to-purple-600 text-white shadow-lg"
+              )}
+            >
+              {format(day, 'd')}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* All-day row for tasks without a specific time */}
+      <div className="grid border-b border-gray-200" style={gridTemplate}>
+        {secondaryZone && <div />}
+        <div className="p-2 text-[10px] font-semibold text-gray-400 uppercase text-end">{t('view.allDay')}</div>
+        {days.map((day) => {
+          const target = `allday-${day.toISOString()}`;
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "p-1 border-s border-gray-100 space-y-1 min-h-[2.5rem] transition-colors",
+                dropTarget === target && "bg-blue-50"
+              )}
+              onDragOver={(e) => allowDrop(e, target)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleAllDayDrop(e, day)}
+            >
+              {events
+                .filter(event => !isTimedEvent(event) && isSameDay(event.date, day))
+                .map(event => (
+                  <EventChip
+                    key={event.id}
+                    event={event}
+                    onClick={onEventClick}
+                    onReschedule={onReschedule}
+                    showTime={false}
+                  />
+                ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Hour grid */}
+      <div ref={scrollRef} className={cn("overflow-y-auto max-h-[600px]", resizing && "cursor-ns-resize select-none")}>
+        <div className="grid relative" style={gridTemplate}>
+          {/* Hour labels */}
+          {secondaryZone && (
+            <div className="bg-gray-50/60">
+              {HOURS.map(hour => (
+                <div key={hour} className="relative text-end pe-2" style={{ height: HOUR_HEIGHT }}>
+                  <span className="absolute -top-2 end-2 text-[10px] text-gray-400 italic">
+                    {hour === 0 ? '' : secondaryLabel(hour)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div>
+            {HOURS.map(hour => (
+              <div key={hour} className="relative text-end pe-2" style={{ height: HOUR_HEIGHT }}>
+                <span className="absolute -top-2 end-2 text-[10px] text-gray-400">
+                  {hour === 0 ? '' : hourLabel(setHours(startOfDay(now), hour), settings.timeFormat, dateLocale)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {days.map((day) => {
+            const target = `column-${day.toISOString()}`;
+            const dayEvents = events.filter(event => isTimedEvent(event) && isSameDay(event.date, day));
+            const positioned = layoutDayEvents(
+              // Preview the new length while resizing
+              dayEvents.map(event =>
+                resizing && resizing.event.id === event.id ? { ...event, duration: resizing.duration } : event
+              ),
+              day
+            );
+
+            return (
+              <div
+                key={day.toISOString()}
+                className={cn("relative border-s border-gray-100", dropTarget === target && "bg-blue-50/50")}
+                onDragOver={(e) => allowDrop(e, target)}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+                }}
+                onDrop={(e) => handleColumnDrop(e, day)}
+              >
+                {HOURS.map(hour => (
+                  <div
+                    key={hour}
+                    className="border-b border-gray-100 hover:bg-blue-50/60 cursor-pointer transition-colors"
+                    style={{ height: HOUR_HEIGHT }}
+                    onClick={() => onSlotClick(setHours(startOfDay(day), hour))}
+                  />
+                ))}
+
+                {positioned.map(({ event, top, height, column, columns }) => (
+                  <EventChip
+                    key={event.id}
+                    event={event}
+                    onClick={onEventClick}
+                    onReschedule={onReschedule}
+                    className="absolute overflow-hidden group/chip"
+                    style={{
+                      top: (top / 60) * HOUR_HEIGHT,
+                      height: Math.max((height / 60) * HOUR_HEIGHT - 2, 18),
+                      left: `calc(${(column / columns) * 100}% + 2px)`,
+                      width: `calc(${100 / columns}% - 4px)`,
+                    }}
+                  >
+                    {onReschedule && canRescheduleEvent(event) && (
+                      <div
+                        aria-hidden="true"
+                        className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize opacity-0 group-hover/chip:opacity-100 bg-current/20 rounded-b-lg"
+                        onClick={(e) => e.stopPropagation()}
+                        onPointerDown={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          const initialDuration = event.duration || DEFAULT_EVENT_DURATION;
+                          setResizing({ event, startY: e.clientY, initialDuration, duration: initialDuration });
+                        }}
+                      />
+                    )}
+                  </EventChip>
+                ))}
+
+                {/* Current time indicator */}
+                {isSameDay(day, now) && (
+                  <div
+                    className="absolute left-0 right-0 h-0.5 bg-red-500 pointer-events-none"
+                    style={{ top: (minutesSinceMidnight(now) / 60) * HOUR_HEIGHT }}
+                  >
+                    <div className="absolute -start-1 -top-1 w-2.5 h-2.5 rounded-full bg-red-500" />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+// src/components/calendar_views/TimelineView.tsx
+// Horizontal timeline across the visible days, one lane per overlap
+
+import { format, isToday, startOfDay } from 'date-fns';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import { layoutTimeline, TIMELINE_MIN_BAR_DAYS, type EventReschedule } from '@/lib/calendarViews';
+import type { CalendarEvent } from '@/types/CalendarTypes';
+import { EventChip } from './EventChip';
+
+interface TimelineViewProps {
+  days: Date[];
+  events: CalendarEvent[];
+  onDateClick: (date: Date) => void;
+  onEventClick?: (event: CalendarEvent) => void;
+  onReschedule?: (event: CalendarEvent, change: EventReschedule) => void;
+}
+
+const LANE_HEIGHT = 44; // px
+
+export const TimelineView = ({ days, events, onDateClick, onEventClick, onReschedule }: TimelineViewProps) => {
+  const { dateLocale } = useI18n();
+  const bars = layoutTimeline(events, days);
+  const laneCount = Math.max(bars.reduce((max, bar) => Math.max(max, bar.lane + 1), 0), 3);
+
+  return (
+    <div className="bg-white overflow-x-auto">
+      <div className="min-w-[900px]">
+        {/* Day axis */}
+        <div className="flex bg-gradient-to-r from-gray-50 to-gray-100 border-b-2 border-gray-200">
+          {days.map(day => (
+            <button
+              type="button"
+              key={day.toISOString()}
+              onClick={() => onDateClick(startOfDay(day))}
+              className={cn(
+                "flex-1 p-3 text-center border-l border-gray-200 first:border-l-0",
+                isToday(day) && "bg-yellow-50"
+              )}
+            >
+              <div className="text-xs font-bold text-gray-500 uppercase tracking-wide">{format(day, 'EEE', { locale: dateLocale })}</div>
+              <div className={cn("text-sm font-semibold", isToday(day) ? "text-blue-600" : "text-gray-700")}>
+                {format(day, 'MMM d', { locale: dateLocale })}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Lanes */}
+        <div className="relative" style={{ height: laneCount * LANE_HEIGHT + 16 }}>
+          <div className="absolute inset-0 flex pointer-events-none">
+            {days.map(day => (
+              <div
+                key={day.toISOString()}
+                className={cn("flex-1 border-l border-gray-100 first:border-l-0", isToday(day) && "bg-yellow-50/50")}
+              />
+            ))}
+          </div>
+
+          {bars.map(({ event, offset, width, lane }) => (
+            <EventChip
+              key={event.id}
+              event={event}
+              onClick={onEventClick}
+              onReschedule={onReschedule}
+              className="absolute overflow-hidden whitespace-nowrap"
+              style={{
+                left: `calc(${offset * 100}% + 2px)`,
+                width: `calc(${Math.max(width, TIMELINE_MIN_BAR_DAYS / days.length) * 100}% - 4px)`,
+                top: lane * LANE_HEIGHT + 8,
+                height: LANE_HEIGHT - 6,
+              }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
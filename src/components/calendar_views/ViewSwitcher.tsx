@@ -0,0 +1,60 @@
+// src/components/calendar_views/ViewSwitcher.tsx
+
+import { Eye, EyeOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { CALENDAR_VIEW_TYPES } from '@/lib/calendarViews';
+import type { CalendarView } from '@/types/CalendarTypes';
+
+interface ViewSwitcherProps {
+  view: CalendarView;
+  onChange: (changes: Partial<CalendarView>) => void;
+}
+
+export const ViewSwitcher = ({ view, onChange }: ViewSwitcherProps) => {
+  const { t } = useI18n();
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+      <div className="inline-flex rounded-xl bg-white/10 p-1 backdrop-blur-sm border border-white/20" role="tablist">
+        {CALENDAR_VIEW_TYPES.map(type => (
+          <button
+            key={type}
+            type="button"
+            role="tab"
+            aria-selected={view.type === type}
+            onClick={() => onChange({ type })}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200",
+              view.type === type
+                ? "bg-white text-purple-600 shadow-lg"
+                : "text-white/90 hover:bg-white/20"
+            )}
+          >
+            {t(`view.${type}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          aria-pressed={view.showWeekends}
+          onClick={() => onChange({ showWeekends: !view.showWeekends })}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-white/10 hover:bg-white/20 text-white border border-white/20"
+        >
+          {view.showWeekends ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+          {t('view.weekends')}
+        </button>
+        <button
+          type="button"
+          aria-pressed={view.showCompleted}
+          onClick={() => onChange({ showCompleted: !view.showCompleted })}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-white/10 hover:bg-white/20 text-white border border-white/20"
+        >
+          {view.showCompleted ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+          {t('view.completed')}
+        </button>
+      </div>
+    </div>
+  );
+};
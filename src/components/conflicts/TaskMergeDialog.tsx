@@ -0,0 +1,148 @@
+// src/components/conflicts/TaskMergeDialog.tsx
+// Three-way merge for a task that was saved somewhere else while it was being edited here
+
+import { useMemo, useState } from 'react';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { useCategories, useUpdateTask } from '@/hooks/use-tasks';
+import { useTaskConflicts, type TaskConflict } from '@/hooks/use-task-conflicts';
+import {
+  buildMergedInput, buildMergeRows, defaultChoices, formatMergeValue,
+  type MergeChoice, type MergeField
+} from '@/lib/taskMerge';
+import { cn } from '@/lib/utils';
+
+interface MergeFormProps {
+  conflict: TaskConflict;
+  onDone: () => void;
+}
+
+const MergeForm = ({ conflict, onDone }: MergeFormProps) => {
+  const { data: categories = [] } = useCategories();
+  const { t, dateLocale } = useI18n();
+  const updateTask = useUpdateTask({ errorTitle: t('merge.saveFailed') });
+  const rows = useMemo(
+    () => buildMergeRows(conflict.base, conflict.mine, conflict.theirs),
+    [conflict]
+  );
+  const [choices, setChoices] = useState<Record<MergeField, MergeChoice>>(() => defaultChoices(rows));
+  const [showAll, setShowAll] = useState(false);
+
+  const changedRows = rows.filter(row => row.changedByMe || row.changedByThem);
+  const visibleRows = showAll ? rows : changedRows;
+  const conflictCount = rows.filter(row => row.conflict).length;
+
+  const handleSave = async () => {
+    try {
+      // Written against the server copy we just saw; if it moved again the dialog comes back
+      await updateTask.mutateAsync({
+        id: conflict.taskId,
+        input: buildMergedInput(rows, choices, conflict.theirs),
+        expected: { updated_at: conflict.theirs.updated_at, version: conflict.theirs.version },
+      });
+      onDone();
+    } catch (error) {
+      console.error('❌ Failed to save merged task:', error);
+    }
+  };
+
+  const choose = (field: MergeField, choice: MergeChoice) =>
+    setChoices(prev => ({ ...prev, [field]: choice }));
+
+  return (
+    <>
+      <p className="text-sm text-gray-600">
+        {t('merge.intro', { task: conflict.theirs.name })}{' '}
+        {conflictCount > 0 ? t('merge.conflicts', { count: conflictCount }) : t('merge.noConflicts')}
+      </p>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="p-2 font-medium">{t('merge.field')}</th>
+              <th className="p-2 font-medium">{t('merge.original')}</th>
+              <th className="p-2 font-medium">{t('merge.mine')}</th>
+              <th className="p-2 font-medium">{t('merge.theirs')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => (
+              <tr key={row.field} className={cn('border-t border-gray-100', row.conflict && 'bg-amber-50')}>
+                <td className="p-2 font-medium text-gray-900 whitespace-nowrap">{t(`taskField.${row.field}`)}</td>
+                <td className="p-2 text-gray-500">{formatMergeValue(row, row.base, categories, t, dateLocale)}</td>
+                {(['mine', 'theirs'] as MergeChoice[]).map(side => {
+                  const changed = side === 'mine' ? row.changedByMe : row.changedByThem;
+                  return (
+                    <td key={side} className="p-2">
+                      <label className={cn('flex items-start gap-2', row.conflict && 'cursor-pointer')}>
+                        {row.conflict && (
+                          <input
+                            type="radio"
+                            name={`merge-${row.field}`}
+                            checked={choices[row.field] === side}
+                            onChange={() => choose(row.field, side)}
+                            className="mt-0.5 w-4 h-4 text-blue-600"
+                          />
+                        )}
+                        <span className={cn(changed ? 'text-gray-900 font-medium' : 'text-gray-400')}>
+                          {formatMergeValue(row, row[side], categories, t, dateLocale)}
+                        </span>
+                      </label>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowAll(value => !value)}
+        className="text-xs text-blue-600 hover:underline"
+      >
+        {showAll ? t('merge.changedOnly') : t('merge.allFields')}
+      </button>
+
+      <div className="flex gap-3 pt-2">
+        <Button variant="outline" className="flex-1" onClick={onDone} disabled={updateTask.isPending}>
+          {t('merge.keepTheirs')}
+        </Button>
+        <Button
+          className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          onClick={handleSave}
+          disabled={updateTask.isPending}
+        >
+          {updateTask.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {t('merge.save')}
+        </Button>
+      </div>
+    </>
+  );
+};
+
+// Shows the oldest unresolved conflict; mounted once per page
+export const TaskMergeDialog = () => {
+  const { conflicts, dismiss } = useTaskConflicts();
+  const { t } = useI18n();
+  const conflict = conflicts[0];
+
+  if (!conflict) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <Card className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl border-0 p-6 space-y-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <GitMerge className="h-5 w-5 text-amber-600" />
+          {t('merge.title')}
+        </h2>
+        {/* Keyed so each conflict starts from its own default choices */}
+        <MergeForm key={conflict.id} conflict={conflict} onDone={() => dismiss(conflict.id)} />
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+// src/components/dependencies/DependencyGraph.tsx
+// Prerequisite graph of the linked tasks, left to right, with the critical path highlighted
+
+import { useMemo, useState } from 'react';
+import { GitBranch, Lock, X } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { taskDuration } from '@/lib/autoScheduler';
+import type { Translate } from '@/lib/i18n';
+import {
+  buildDependencyGraph, criticalPath, dependencyLayers, linkedTaskIds, openPrerequisites,
+  type DependencyGraph as Graph
+} from '@/lib/taskDependencies';
+import { cn } from '@/lib/utils';
+import type { Task } from '@/types/TaskTypes';
+
+interface DependencyGraphProps {
+  isOpen: boolean;
+  tasks: Task[];
+  onClose: () => void;
+  onOpenTask: (task: Task) => void;
+}
+
+const NODE_WIDTH = 176;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 64;
+const ROW_GAP = 20;
+const PADDING = 16;
+
+const formatMinutes = (total: number, t: Translate) => {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  if (!hours) return t('deps.minutes', { minutes });
+  return minutes ? t('deps.hoursMinutes', { hours, minutes }) : t('deps.hours', { hours });
+};
+
+// Everything the task waits on and everything waiting on it
+const chainOf = (graph: Graph, id: string) => {
+  const chain = new Set([id]);
+  const walk = (edges: Map<string, Set<string>>, from: string) =>
+    edges.get(from)?.forEach(next => {
+      if (chain.has(next)) return;
+      chain.add(next);
+      walk(edges, next);
+    });
+  walk(graph.prerequisites, id);
+  walk(graph.dependents, id);
+  return chain;
+};
+
+export const DependencyGraph = ({ isOpen, tasks, onClose, onOpenTask }: DependencyGraphProps) => {
+  const { t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { graph, layers, critical, tasksById } = useMemo(() => {
+    const graph = buildDependencyGraph(tasks);
+    return {
+      graph,
+      layers: dependencyLayers(graph, linkedTaskIds(graph)),
+      critical: criticalPath(graph, tasks),
+      tasksById: new Map(tasks.map(task => [String(task.id), task])),
+    };
+  }, [tasks]);
+
+  const positions = useMemo(() => {
+    const map = new Map<string, { x: number; y: number }>();
+    layers.forEach((column, columnIndex) =>
+      column.forEach((id, rowIndex) => map.set(id, {
+        x: PADDING + columnIndex * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + rowIndex * (NODE_HEIGHT + ROW_GAP),
+      }))
+    );
+    return map;
+  }, [layers]);
+
+  const criticalEdges = useMemo(
+    () => new Set(critical.taskIds.slice(1).map((id, index) => `${critical.taskIds[index]}->${id}`)),
+    [critical]
+  );
+  const highlighted = useMemo(() => (selectedId ? chainOf(graph, selectedId) : null), [graph, selectedId]);
+
+  if (!isOpen) return null;
+
+  const width = PADDING * 2 + layers.length * NODE_WIDTH + Math.max(layers.length - 1, 0) * COLUMN_GAP;
+  const height = PADDING * 2 + Math.max(0, ...layers.map(column => column.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+  const selected = selectedId ? tasksById.get(selectedId) : undefined;
+  const selectedWaitingOn = selectedId ? openPrerequisites(graph, tasksById, selectedId) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <Card className="bg-white rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto shadow-2xl border-0 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <GitBranch className="h-5 w-5 text-indigo-600" />
+            {t('deps.title')}
+          </h2>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t('deps.close')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {layers.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {t('deps.empty')}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {critical.taskIds.length > 0 ? (
+                <>
+                  {t('deps.criticalPath')} <span className="font-medium text-orange-700">
+                    {critical.taskIds.map(id => tasksById.get(id)?.name ?? id).join(' → ')}
+                  </span> {t('deps.workLeft', { duration: formatMinutes(critical.minutes, t) })}
+                </>
+              ) : t('deps.allDone')}
+            </p>
+
+            <div className="overflow-auto border border-gray-200 rounded-lg bg-gray-50">
+              <svg width={width} height={height} role="img" aria-label={t('deps.graph')}>
+                <defs>
+                  <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L10,5 L0,10 z" fill="#9ca3af" />
+                  </marker>
+                  <marker id="dependency-arrow-critical" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L10,5 L0,10 z" fill="#ea580c" />
+                  </marker>
+                </defs>
+
+                {[...positions.keys()].flatMap(id =>
+                  [...graph.dependents.get(id)!].map(next => {
+                    const from = positions.get(id)!;
+                    const to = positions.get(next)!;
+                    const isCritical = criticalEdges.has(`${id}->${next}`);
+                    const faded = highlighted && !(highlighted.has(id) && highlighted.has(next));
+                    const x1 = from.x + NODE_WIDTH;
+                    const y1 = from.y + NODE_HEIGHT / 2;
+                    const x2 = to.x;
+                    const y2 = to.y + NODE_HEIGHT / 2;
+                    const bend = Math.max((x2 - x1) / 2, 24);
+                    return (
+                      <path
+                        key={`${id}->${next}`}
+                        d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                        fill="none"
+                        stroke={isCritical ? '#ea580c' : '#9ca3af'}
+                        strokeWidth={isCritical ? 2.5 : 1.5}
+                        opacity={faded ? 0.15 : 1}
+                        markerEnd={`url(#dependency-arrow${isCritical ? '-critical' : ''})`}
+                      />
+                    );
+                  })
+                )}
+
+                {[...positions.entries()].map(([id, { x, y }]) => {
+                  const task = tasksById.get(id);
+                  if (!task) return null;
+                  const isDone = task.status === 'completed' || task.status === 'cancelled';
+                  const isBlocked = !isDone && openPrerequisites(graph, tasksById, id).length > 0;
+                  const isCritical = critical.taskIds.includes(id);
+                  return (
+                    <foreignObject key={id} x={x} y={y} width={NODE_WIDTH} height={NODE_HEIGHT}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(prev => (prev === id ? null : id))}
+                        onDoubleClick={() => onOpenTask(task)}
+                        aria-pressed={selectedId === id}
+                        className={cn(
+                          'w-full h-full rounded-lg border-2 px-2 text-left text-xs transition-opacity',
+                          'focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500',
+                          isDone ? 'bg-green-50 border-green-300 text-green-800' : 'bg-white text-gray-900',
+                          !isDone && (isCritical ? 'border-orange-500' : 'border-gray-300'),
+                          isBlocked && 'bg-gray-100 text-gray-500 border-dashed',
+                          selectedId === id && 'ring-2 ring-blue-500',
+                          highlighted && !highlighted.has(id) && 'opacity-30'
+                        )}
+                      >
+                        <span className={cn('flex items-center gap-1 font-medium truncate', isDone && 'line-through')}>
+                          {isBlocked && <Lock className="h-3 w-3 shrink-0" />}
+                          <span className="truncate">{task.name}</span>
+                        </span>
+                        <span className="block text-[11px] opacity-75">
+                          {t(`status.${task.status}`)} · {formatMinutes(taskDuration(task), t)}
+                        </span>
+                      </button>
+                    </foreignObject>
+                  );
+                })}
+              </svg>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border-2 border-orange-500" /> {t('deps.legend.critical')}</span>
+              <span className="flex items-center gap-1"><Lock className="h-3 w-3" /> {t('deps.legend.waiting')}</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100 border-2 border-green-300" /> {t('deps.legend.done')}</span>
+              <span>{t('deps.legend.hint')}</span>
+            </div>
+
+            {selected && (
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-blue-50 border border-blue-100">
+                <div className="text-sm min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{selected.name}</div>
+                  <div className="text-xs text-gray-600">
+                    {selected.status === 'completed'
+                      ? t('deps.done')
+                      : selectedWaitingOn.length > 0
+                        ? t('deps.waitingOn', { tasks: selectedWaitingOn.map(task => task.name).join(', ') })
+                        : t('deps.ready')}
+                  </div>
+                </div>
+                <Button size="sm" onClick={() => onOpenTask(selected)}>{t('deps.open')}</Button>
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+// src/components/dependencies/TaskPicker.tsx
+// Search-as-you-type picker for linking other tasks, shown as removable chips
+
+import { useId, useMemo, useState, type KeyboardEvent } from 'react';
+import { Search, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useI18n } from '@/hooks/use-i18n';
+import { getTaskStart } from '@/lib/taskMappers';
+import { cn } from '@/lib/utils';
+import type { Task } from '@/types/TaskTypes';
+
+interface TaskPickerProps {
+  label: string;
+  hint?: string;
+  value: string[];
+  onChange: (ids: string[]) => void;
+  tasks: Task[];
+  excludeId?: string | null; // the task being edited
+  disabled?: boolean;
+}
+
+const MAX_MATCHES = 8;
+
+export const TaskPicker = ({ label, hint, value, onChange, tasks, excludeId, disabled }: TaskPickerProps) => {
+  const inputId = useId();
+  const { t, dateLocale } = useI18n();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+
+  const tasksById = useMemo(() => new Map(tasks.map(task => [String(task.id), task])), [tasks]);
+
+  const matches = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    return tasks
+      .filter(task => String(task.id) !== excludeId && !value.includes(String(task.id)))
+      .filter(task => !text || task.name.toLowerCase().includes(text) || task.tags?.some(tag => tag.toLowerCase().includes(text)))
+      .slice(0, MAX_MATCHES);
+  }, [tasks, query, value, excludeId]);
+
+  const add = (task: Task) => {
+    onChange([...value, String(task.id)]);
+    setQuery('');
+    setHighlight(0);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight(prev => (prev + step + matches.length) % Math.max(matches.length, 1));
+    } else if (e.key === 'Enter' && isOpen && matches[highlight]) {
+      e.preventDefault();
+      add(matches[highlight]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'Backspace' && !query && value.length) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={inputId} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      {hint && <p className="text-xs text-gray-500 mb-2">{hint}</p>}
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {value.map(id => {
+            const task = tasksById.get(id);
+            return (
+              <span
+                key={id}
+                className={cn(
+                  'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border',
+                  task?.status === 'completed'
+                    ? 'bg-green-50 text-green-700 border-green-200 line-through'
+                    : 'bg-blue-50 text-blue-700 border-blue-200'
+                )}
+              >
+                {task?.name ?? t('picker.missing', { id })}
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter(item => item !== id))}
+                  disabled={disabled}
+                  aria-label={t('picker.remove', { task: task?.name ?? id })}
+                  className="hover:text-red-600 disabled:opacity-50"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          id={inputId}
+          type="text"
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-autocomplete="list"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlight(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          className="w-full border-2 border-gray-200 rounded-lg pl-9 pr-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+          placeholder={t('picker.search')}
+        />
+
+        {isOpen && !disabled && (
+          <ul role="listbox" className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+            {matches.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-gray-500">{t('picker.noMatches')}</li>
+            ) : matches.map((task, index) => {
+              const start = getTaskStart(task);
+              return (
+                <li
+                  key={task.id}
+                  role="option"
+                  aria-selected={index === highlight}
+                  // Keeps focus in the input so the list doesn't close before the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => add(task)}
+                  onMouseEnter={() => setHighlight(index)}
+                  className={cn(
+                    'px-3 py-2 text-sm cursor-pointer flex items-center justify-between gap-2',
+                    index === highlight ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  )}
+                >
+                  <span className={cn('truncate', task.status === 'completed' && 'line-through text-gray-400')}>
+                    {task.name}
+                  </span>
+                  {start && <span className="text-xs text-gray-400 shrink-0">{format(start, 'MMM d', { locale: dateLocale })}</span>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+// src/components/filters/FacetOptionList.tsx
+// Checkbox list of one facet's values with their live counts, shared by the filter bar and sidebar
+
+import type { FacetOption } from '@/lib/calendarFilter';
+import { cn } from '@/lib/utils';
+
+interface FacetOptionListProps {
+  options: FacetOption[];
+  picked: string[];
+  onToggle: (value: string) => void;
+}
+
+export const FacetOptionList = ({ options, picked, onToggle }: FacetOptionListProps) => (
+  <div className="max-h-56 overflow-y-auto space-y-0.5">
+    {options.map(option => {
+      const checked = picked.includes(option.value);
+      return (
+        <label
+          key={option.value}
+          className={cn(
+            'flex items-center gap-2 px-2 py-1 rounded text-sm cursor-pointer hover:bg-gray-50',
+            !checked && option.count === 0 && 'text-gray-400'
+          )}
+        >
+          <input
+            type="checkbox"
+            checked={checked}
+            onChange={() => onToggle(option.value)}
+            className="rounded border-gray-300"
+          />
+          {option.color && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: option.color }} />}
+          <span className="flex-1 truncate">{option.label}</span>
+          <span className="text-xs tabular-nums text-gray-500">{option.count}</span>
+        </label>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,184 @@
+// src/components/filters/FilterBar.tsx
+// Search, facet menus, date range and toggles that build the CalendarFilter shared by every view
+
+import { useMemo } from 'react';
+import { AlertTriangle, Bookmark, ChevronDown, Clock, Filter, Search, X } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Input } from '@/components/calendar_ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/calendar_ui/popover';
+import { ImportExportMenu } from '@/components/transfer/ImportExportMenu';
+import { SavedViewList } from '@/components/views/SavedViewList';
+import { useI18n } from '@/hooks/use-i18n';
+import { useViewOptions } from '@/hooks/use-view-options';
+import { FacetOptionList } from './FacetOptionList';
+import {
+  countActiveFilters, dateBoundValue, facetCounts, filterTasks, shownFacets, toggleFacetValue, withDateBound
+} from '@/lib/calendarFilter';
+import { SAVED_VIEW_SORTS } from '@/lib/savedViews';
+import { cn } from '@/lib/utils';
+import type { CalendarFilter, SavedViewSort } from '@/types/CalendarTypes';
+import type { Task, TaskCategory } from '@/types/TaskTypes';
+
+interface FilterBarProps {
+  tasks: Task[]; // all tasks, so the counts can show what each option would add back
+  categories: TaskCategory[];
+  filter: CalendarFilter;
+  onChange: (filter: CalendarFilter) => void;
+  className?: string;
+}
+
+export const FilterBar = ({ tasks, categories, filter, onChange, className }: FilterBarProps) => {
+  const { t } = useI18n();
+  const counts = useMemo(() => facetCounts(tasks, filter, categories, t), [tasks, filter, categories, t]);
+  const shown = useMemo(() => filterTasks(tasks, filter), [tasks, filter]);
+  const active = countActiveFilters(filter);
+  const facets = shownFacets(counts, filter);
+  // The sort is saved with views along with the filter; the agenda and board apply it
+  const { options, setOptions } = useViewOptions();
+
+  // Picked values get a chip each, labelled the way their menu shows them
+  const chips = facets.flatMap(facet =>
+    (filter[facet] ?? []).map(value => ({
+      facet,
+      value,
+      label: counts[facet].find(option => option.value === value)?.label ?? value,
+    }))
+  );
+
+  return (
+    <div className={cn('bg-white/80 rounded-xl border border-gray-200 p-3 space-y-2', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-56">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={t('filter.placeholder')}
+            value={filter.search ?? ''}
+            onChange={(e) => onChange({ ...filter, search: e.target.value || undefined })}
+            className="pl-9 h-9"
+            aria-label={t('filter.search')}
+          />
+        </div>
+
+        {facets.map(facet => {
+          const picked = filter[facet] ?? [];
+          return (
+            <Popover key={facet}>
+              <PopoverTrigger asChild>
+                <Button variant={picked.length ? 'secondary' : 'outline'} size="sm" className="h-9">
+                  {t(`filter.facet.${facet}`)}
+                  {picked.length > 0 && <span className="text-xs text-blue-700">({picked.length})</span>}
+                  <ChevronDown className="h-3 w-3 opacity-60" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-60 p-2">
+                <FacetOptionList
+                  options={counts[facet]}
+                  picked={picked}
+                  onToggle={(value) => onChange(toggleFacetValue(filter, facet, value))}
+                />
+              </PopoverContent>
+            </Popover>
+          );
+        })}
+
+        <div className="flex items-center gap-1 text-sm text-gray-600">
+          <Input
+            type="date"
+            value={dateBoundValue(filter, 'start')}
+            onChange={(e) => onChange(withDateBound(filter, 'start', e.target.value))}
+            className="h-9 w-36"
+            aria-label={t('filter.from')}
+          />
+          <span>–</span>
+          <Input
+            type="date"
+            value={dateBoundValue(filter, 'end')}
+            onChange={(e) => onChange(withDateBound(filter, 'end', e.target.value))}
+            className="h-9 w-36"
+            aria-label={t('filter.to')}
+          />
+        </div>
+
+        <Button
+          variant={filter.hasDeadline ? 'secondary' : 'outline'}
+          size="sm"
+          className="h-9"
+          aria-pressed={!!filter.hasDeadline}
+          onClick={() => onChange({ ...filter, hasDeadline: !filter.hasDeadline || undefined })}
+        >
+          <Clock className="h-4 w-4" />
+          {t('filter.hasDeadline')}
+          <span className="text-xs text-gray-500">{counts.hasDeadline}</span>
+        </Button>
+        <Button
+          variant={filter.overdue ? 'secondary' : 'outline'}
+          size="sm"
+          className="h-9"
+          aria-pressed={!!filter.overdue}
+          onClick={() => onChange({ ...filter, overdue: !filter.overdue || undefined })}
+        >
+          <AlertTriangle className="h-4 w-4 text-red-500" />
+          {t('filter.overdue')}
+          <span className="text-xs text-gray-500">{counts.overdue}</span>
+        </Button>
+
+        <div className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+          <label className="flex items-center gap-1">
+            {t('filter.sort')}
+            <select
+              value={options.sort}
+              onChange={(e) => setOptions({ sort: e.target.value as SavedViewSort })}
+              className="border border-gray-300 rounded-lg px-2 py-1 bg-white"
+            >
+              {SAVED_VIEW_SORTS.map(sort => (
+                <option key={sort} value={sort}>{t(`sort.${sort}`)}</option>
+              ))}
+            </select>
+          </label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-9">
+                <Bookmark className="h-4 w-4" />
+                {t('filter.views')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 p-2">
+              <SavedViewList />
+            </PopoverContent>
+          </Popover>
+          <ImportExportMenu tasks={shown} />
+          <Filter className="h-4 w-4" />
+          <span>
+            {active ? t('filter.shown', { shown: shown.length, total: tasks.length }) : t('filter.count', { total: tasks.length })}
+          </span>
+          {active > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+              {t('filter.clear', { count: active })}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {chips.map(chip => (
+            <span
+              key={`${chip.facet}:${chip.value}`}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-50 text-blue-800 text-xs"
+            >
+              {t(`filter.facet.${chip.facet}`)}: {chip.label}
+              <button
+                type="button"
+                onClick={() => onChange(toggleFacetValue(filter, chip.facet, chip.value))}
+                aria-label={t('filter.remove', { facet: t(`filter.facet.${chip.facet}`), value: chip.label })}
+                className="hover:text-blue-950"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+// src/components/filters/FilterFacets.tsx
+// Sidebar facet lists with live counts, editing the same CalendarFilter as the filter bar
+
+import { useMemo } from 'react';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { FacetOptionList } from './FacetOptionList';
+import { countActiveFilters, facetCounts, shownFacets, toggleFacetValue } from '@/lib/calendarFilter';
+import type { CalendarFilter } from '@/types/CalendarTypes';
+import type { Task, TaskCategory } from '@/types/TaskTypes';
+
+interface FilterFacetsProps {
+  tasks: Task[];
+  categories: TaskCategory[];
+  filter: CalendarFilter;
+  onChange: (filter: CalendarFilter) => void;
+}
+
+export const FilterFacets = ({ tasks, categories, filter, onChange }: FilterFacetsProps) => {
+  const { t } = useI18n();
+  const counts = useMemo(() => facetCounts(tasks, filter, categories, t), [tasks, filter, categories, t]);
+  const active = countActiveFilters(filter);
+
+  return (
+    <Card className="p-4 shadow-calendar space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">{t('filter.title')}</h3>
+        {active > 0 && (
+          <button type="button" onClick={() => onChange({})} className="text-xs text-blue-600 hover:underline">
+            {t('filter.clear', { count: active })}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-0.5">
+        {(['hasDeadline', 'overdue'] as const).map(flag => (
+          <label key={flag} className="flex items-center gap-2 px-2 py-1 rounded text-sm cursor-pointer hover:bg-gray-50">
+            <input
+              type="checkbox"
+              checked={!!filter[flag]}
+              onChange={() => onChange({ ...filter, [flag]: !filter[flag] || undefined })}
+              className="rounded border-gray-300"
+            />
+            <span className="flex-1">{t(flag === 'overdue' ? 'filter.overdue' : 'filter.hasDeadline')}</span>
+            <span className="text-xs tabular-nums text-gray-500">{counts[flag]}</span>
+          </label>
+        ))}
+      </div>
+
+      {shownFacets(counts, filter).map(facet => (
+        <div key={facet} className="space-y-1">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{t(`filter.facet.${facet}`)}</h4>
+          <FacetOptionList
+            options={counts[facet]}
+            picked={filter[facet] ?? []}
+            onToggle={(value) => onChange(toggleFacetValue(filter, facet, value))}
+          />
+        </div>
+      ))}
+    </Card>
+  );
+};
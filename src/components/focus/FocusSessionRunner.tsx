@@ -0,0 +1,64 @@
+// src/components/focus/FocusSessionRunner.tsx
+// Moves the focus session on when a phase runs out, whichever page is open, and announces it
+
+import { useCallback, useEffect } from 'react';
+import { useFocusSession } from '@/hooks/use-focus-session';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { toast } from '@/hooks/use-toast';
+import { advanceFocus, transitionCue, type FocusTransition } from '@/lib/focusSession';
+import { canSpeak, createAssistantUtterance } from '@/lib/speech';
+
+// A phase that ended longer ago than this, e.g. while the laptop slept, moves on without a word
+const CUE_WINDOW_MS = 2 * 60 * 1000;
+// Longest wait between checks, so waking from sleep is picked up
+const MAX_WAIT_MS = 60 * 1000;
+// A background tab checks a little later, so a tab the user is looking at gets to announce it
+const HIDDEN_TAB_DELAY_MS = 3000;
+
+// Rendered once per tab; each phase end is only handled by one of them
+export const FocusSessionRunner = () => {
+  const session = useFocusSession();
+  const { settings: { focus } } = useSettings();
+  const { t, speechLang } = useI18n();
+  const endsAt = session?.endsAt;
+
+  const announce = useCallback((transition: FocusTransition) => {
+    const cue = transitionCue(transition, focus, t);
+    console.log('🍅 Focus:', cue);
+    toast({ title: t(`focus.phase.${transition.next}`), description: cue });
+    if (focus.spokenCues && canSpeak()) {
+      window.speechSynthesis.speak(createAssistantUtterance(cue, speechLang));
+    }
+  }, [focus, t, speechLang]);
+
+  useEffect(() => {
+    if (!endsAt) return;
+    let timer: ReturnType<typeof setTimeout>;
+    let stopped = false;
+
+    const schedule = (wait: number) => {
+      timer = setTimeout(() => {
+        check().catch(error => console.error('❌ Focus session check failed:', error));
+      }, wait + (document.hidden ? HIDDEN_TAB_DELAY_MS : 0));
+    };
+
+    // Once the session moves on, endsAt changes and this runs again for the next phase
+    const check = async () => {
+      const now = new Date();
+      const transitions = await advanceFocus(focus, now);
+      const last = transitions[transitions.length - 1];
+      if (last && now.getTime() - last.at.getTime() <= CUE_WINDOW_MS) announce(last);
+      if (stopped || transitions.length) return;
+      schedule(Math.min(MAX_WAIT_MS, Math.max(0, new Date(endsAt).getTime() - Date.now())));
+    };
+
+    schedule(Math.min(MAX_WAIT_MS, Math.max(0, new Date(endsAt).getTime() - Date.now())));
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [endsAt, focus, announce]);
+
+  return null;
+};
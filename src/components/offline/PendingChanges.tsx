@@ -0,0 +1,102 @@
+// src/components/offline/PendingChanges.tsx
+// Connection banner plus the list of task changes still waiting for the server
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, ChevronDown, ChevronUp, CloudOff, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { useI18n } from '@/hooks/use-i18n';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { describeEntry, type OutboxEntry } from '@/lib/taskOutbox';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLES: Record<OutboxEntry['status'], string> = {
+  pending: 'bg-blue-50 text-blue-700',
+  failed: 'bg-red-50 text-red-700',
+  conflict: 'bg-amber-50 text-amber-700',
+};
+
+export const PendingChanges = () => {
+  const { isOnline, isSyncing, entries, pending, failed, sync, retry, discard } = useOfflineSync();
+  const { t, dateLocale } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+
+  if (isOnline && entries.length === 0) return null;
+
+  const summary = [
+    pending.length > 0 && t('offline.waiting', { count: pending.length }),
+    failed.length > 0 && t('offline.attention', { count: failed.length }),
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div
+      className={cn(
+        'mb-4 rounded-lg border text-sm',
+        failed.length > 0 ? 'border-amber-200 bg-amber-50' : 'border-orange-200 bg-orange-50'
+      )}
+    >
+      <div className="p-3 flex items-center gap-2">
+        {isOnline ? (
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+        ) : (
+          <CloudOff className="h-4 w-4 text-orange-600" />
+        )}
+        <span className="flex-1 text-orange-800">
+          {isOnline ? summary : `${t('offline.offline')}${summary ? ` ${summary}.` : ''}`}
+        </span>
+        {isOnline && pending.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={sync} disabled={isSyncing}>
+            {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span className="ml-1">{t('offline.syncNow')}</span>
+          </Button>
+        )}
+        {entries.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setExpanded(value => !value)} aria-expanded={expanded}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+
+      {expanded && entries.length > 0 && (
+        <ul className="border-t border-orange-200 divide-y divide-orange-100">
+          {entries.map(entry => (
+            <li key={entry.seq} className="p-3 flex items-start gap-3 bg-white/60">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-900 truncate">{describeEntry(entry, t)}</div>
+                <div className="text-xs text-gray-500">
+                  {formatDistanceToNow(new Date(entry.queuedAt), { addSuffix: true, locale: dateLocale })}
+                </div>
+                {entry.error && <div className="text-xs text-red-600 mt-1">{entry.error}</div>}
+              </div>
+              <span className={cn('px-2 py-0.5 rounded-full text-xs', STATUS_STYLES[entry.status])}>
+                {t(`offline.status.${entry.status}`)}
+              </span>
+              {entry.status !== 'pending' && (
+                <div className="flex gap-1">
+                  {entry.status === 'conflict' ? (
+                    <Button size="sm" variant="outline" onClick={() => retry(entry.seq, true)} disabled={!isOnline}>
+                      {t('offline.keepMine')}
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => retry(entry.seq)} disabled={!isOnline}>
+                      {t('offline.retry')}
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => discard(entry.seq)}
+                    title={t('offline.discard')}
+                    aria-label={t('offline.discard')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
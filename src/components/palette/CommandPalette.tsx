@@ -0,0 +1,277 @@
+// src/components/palette/CommandPalette.tsx
+// Cmd/Ctrl-K palette: fuzzy search over tasks and categories, server search for older tasks, and app actions
+
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  Bookmark, Bot, Calendar as CalendarIcon, CalendarDays, CheckCircle2, Columns3, Folder, History,
+  Plus, FilterX, Zap, type LucideIcon
+} from 'lucide-react';
+import {
+  CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator, CommandShortcut
+} from '@/components/jarvis_ui/command';
+import { DialogTitle } from '@/components/jarvis_ui/dialog';
+import { taskClient } from '@/components/APIs/taskClient';
+import { sendCalendarCommand } from '@/hooks/use-calendar-commands';
+import { useCalendarFilter } from '@/hooks/use-calendar-filter';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSavedViews } from '@/hooks/use-saved-views';
+import { useSettings } from '@/hooks/use-settings';
+import { useCategories, useTasks } from '@/hooks/use-tasks';
+import { isFilterEmpty } from '@/lib/calendarFilter';
+import { CALENDAR_VIEW_TYPES } from '@/lib/calendarViews';
+import {
+  fuzzyMatch, matchTask, searchCategories, searchTasks, snippet,
+  type FieldMatch, type TaskSearchField, type TaskSearchResult
+} from '@/lib/fuzzySearch';
+import { BOARD_PATH, savedViewUrl, viewOptionsToSearchParams, type ViewOptions } from '@/lib/savedViews';
+import { getTaskStart } from '@/lib/taskMappers';
+import type { Task } from '@/types/TaskTypes';
+
+interface CommandPaletteProps {
+  onOpenTask: (task: Task) => void;
+  onNewTask?: () => void;
+  onQuickAdd?: () => void;
+  onToggleAssistant?: () => void;
+  onShowCalendar?: () => void; // for pages where the calendar shares its route with other screens
+}
+
+interface PaletteAction {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  run: () => void;
+  shortcut?: string;
+}
+
+const LOCAL_RESULT_LIMIT = 8;
+const SERVER_SEARCH_MIN_LENGTH = 2;
+const SERVER_SEARCH_DELAY = 300; // ms after the last keystroke
+// Fields shown under the task name when they matched
+const DETAIL_FIELDS: TaskSearchField[] = ['category', 'tags', 'location', 'description'];
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const Highlight = ({ text, ranges }: FieldMatch) => {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(<span key={`t${index}`}>{text.slice(cursor, start)}</span>);
+    parts.push(
+      <mark key={`m${index}`} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(<span key="rest">{text.slice(cursor)}</span>);
+  return <>{parts}</>;
+};
+
+const TaskResult = ({ result }: { result: TaskSearchResult }) => {
+  const { dateLocale } = useI18n();
+  const { task, fields } = result;
+  const start = getTaskStart(task);
+  const details = DETAIL_FIELDS.filter(field => fields[field]);
+  return (
+    <div className="flex min-w-0 flex-1 items-start gap-2">
+      <CheckCircle2 className={task.status === 'completed' ? 'text-green-500' : 'text-gray-300'} />
+      <div className="min-w-0 flex-1">
+        <div className={task.status === 'completed' ? 'truncate line-through opacity-70' : 'truncate'}>
+          {fields.name ? <Highlight {...fields.name} /> : task.name}
+        </div>
+        {details.map(field => (
+          <div key={field} className="truncate text-xs text-muted-foreground">
+            <Highlight {...(field === 'description' ? snippet(fields[field]) : fields[field])} />
+          </div>
+        ))}
+      </div>
+      {start && <span className="shrink-0 text-xs text-muted-foreground">{format(start, 'MMM d', { locale: dateLocale })}</span>}
+    </div>
+  );
+};
+
+export const CommandPalette = ({ onOpenTask, onNewTask, onQuickAdd, onToggleAssistant, onShowCalendar }: CommandPaletteProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [serverQuery, setServerQuery] = useState('');
+  const { data: tasks = [] } = useTasks();
+  const { data: categories = [] } = useCategories();
+  const { data: savedViews = [] } = useSavedViews();
+  const { settings } = useSettings();
+  const { filter, setFilter } = useCalendarFilter();
+  const { t } = useI18n();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 'k' || !(event.metaKey || event.ctrlKey)) return;
+      event.preventDefault();
+      setOpen(current => !current);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Older tasks aren't loaded; the server search finds them once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setServerQuery(query.trim()), SERVER_SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const serverSearch = useQuery({
+    queryKey: ['task-search', serverQuery],
+    queryFn: () => taskClient.searchTasks(serverQuery),
+    enabled: open && serverQuery.length >= SERVER_SEARCH_MIN_LENGTH,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+
+  const trimmed = query.trim();
+  const localResults = useMemo(() => searchTasks(tasks, trimmed, LOCAL_RESULT_LIMIT), [tasks, trimmed]);
+  const historyResults = useMemo(() => {
+    if (!serverSearch.data || serverQuery !== trimmed) return [];
+    const loaded = new Set(tasks.map(task => task.id));
+    return serverSearch.data
+      .filter(task => !loaded.has(task.id))
+      // The server may match in ways the local search doesn't; those show without highlights
+      .map(task => matchTask(task, trimmed) ?? { task, score: 0, fields: {} });
+  }, [serverSearch.data, serverQuery, trimmed, tasks]);
+  const categoryResults = useMemo(
+    () => (trimmed ? searchCategories(categories, trimmed).slice(0, 5) : []),
+    [categories, trimmed]
+  );
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+  };
+
+  // Calendar actions work from any page: they bring the calendar up first
+  const showCalendar = (changes: Partial<ViewOptions> = {}) => {
+    onShowCalendar?.();
+    const search = viewOptionsToSearchParams(changes, new URLSearchParams(location.search)).toString();
+    const pathname = location.pathname === BOARD_PATH ? '/' : location.pathname;
+    navigate({ pathname, search: search ? `?${search}` : '' });
+  };
+
+  const actions: PaletteAction[] = [
+    ...(onNewTask ? [{ id: 'new-task', label: t('palette.newTask'), icon: Plus, run: onNewTask }] : []),
+    ...(onQuickAdd ? [{ id: 'quick-add', label: t('quickAdd.title'), icon: Zap, run: onQuickAdd, shortcut: 'Q' }] : []),
+    {
+      id: 'today',
+      label: t('palette.today'),
+      icon: CalendarIcon,
+      run: () => {
+        showCalendar();
+        sendCalendarCommand({ type: 'today' });
+      },
+    },
+    ...CALENDAR_VIEW_TYPES.map(type => ({
+      id: `view-${type}`,
+      label: t('palette.switchView', { view: t(`view.${type}`).toLowerCase() }),
+      icon: CalendarDays,
+      run: () => showCalendar({ calendarView: type }),
+    })),
+    ...(location.pathname === BOARD_PATH
+      ? []
+      : [{
+        id: 'board', label: t('palette.openBoard'), icon: Columns3,
+        run: () => navigate({ pathname: BOARD_PATH, search: location.search }),
+      }]),
+    ...(isFilterEmpty(filter) ? [] : [{ id: 'clear-filters', label: t('palette.clearFilters'), icon: FilterX, run: () => setFilter({}) }]),
+    ...(onToggleAssistant ? [{ id: 'assistant', label: t('palette.toggleAssistant'), icon: Bot, run: onToggleAssistant }] : []),
+    ...savedViews.map(view => ({
+      id: `saved-view-${view.id}`,
+      label: t('palette.openView', { name: view.name }),
+      icon: Bookmark,
+      run: () => navigate(savedViewUrl(view, settings.startOfWeek)),
+    })),
+  ];
+  const shownActions = trimmed
+    ? actions
+      .map(action => ({ action, match: fuzzyMatch(trimmed, action.label) }))
+      .filter(item => item.match)
+      .sort((a, b) => b.match.score - a.match.score)
+    : actions.map(action => ({ action, match: null }));
+
+  const run = (action: () => void) => {
+    close();
+    action();
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={(next) => (next ? setOpen(true) : close())}
+      commandProps={{ shouldFilter: false, loop: true }}
+    >
+      <DialogTitle className="sr-only">{t('palette.title')}</DialogTitle>
+      <CommandInput value={query} onValueChange={setQuery} placeholder={t('palette.placeholder')} />
+      <CommandList className="max-h-[420px]">
+        <CommandEmpty>{serverSearch.isFetching ? t('palette.searching') : t('palette.nothing')}</CommandEmpty>
+
+        {localResults.length > 0 && (
+          <CommandGroup heading={t('palette.tasks')}>
+            {localResults.map(result => (
+              <CommandItem key={result.task.id} value={`task:${result.task.id}`} onSelect={() => run(() => onOpenTask(result.task))}>
+                <TaskResult result={result} />
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {historyResults.length > 0 && (
+          <CommandGroup heading={t('palette.olderTasks')}>
+            {historyResults.map(result => (
+              <CommandItem key={result.task.id} value={`history:${result.task.id}`} onSelect={() => run(() => onOpenTask(result.task))}>
+                <History className="text-muted-foreground" />
+                <TaskResult result={result} />
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {categoryResults.length > 0 && (
+          <CommandGroup heading={t('palette.categories')}>
+            {categoryResults.map(({ category, match }) => (
+              <CommandItem
+                key={category.id}
+                value={`category:${category.id}`}
+                onSelect={() => run(() => setFilter({ ...filter, categories: [category.name] }))}
+              >
+                <Folder style={{ color: category.color_hex }} />
+                <span className="flex-1">
+                  {t('palette.show')} <Highlight text={category.name} ranges={match.ranges} />
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {shownActions.length > 0 && (
+          <>
+            {(localResults.length > 0 || historyResults.length > 0 || categoryResults.length > 0) && <CommandSeparator />}
+            <CommandGroup heading={t('palette.actions')}>
+              {shownActions.map(({ action, match }) => (
+                <CommandItem key={action.id} value={`action:${action.id}`} onSelect={() => run(action.run)}>
+                  <action.icon className="text-muted-foreground" />
+                  <span className="flex-1">
+                    {match ? <Highlight text={action.label} ranges={match.ranges} /> : action.label}
+                  </span>
+                  {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+      <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+        {t('palette.hint', { key: isMac ? '⌘' : 'Ctrl' })}
+      </div>
+    </CommandDialog>
+  );
+};
@@ -0,0 +1,236 @@
+// src/components/recurrence/RecurrenceRuleEditor.tsx
+// Editor for custom repeat rules; reads and writes an RRULE string
+
+import { useMemo } from 'react';
+import { addYears, endOfDay, format } from 'date-fns';
+import { useI18n } from '@/hooks/use-i18n';
+import { cn } from '@/lib/utils';
+import {
+  describeRule, expandRule, formatRRule, parseRRule, WEEKDAY_CODES,
+  type RecurrenceFrequency, type RecurrenceRule, type WeekdayCode
+} from '@/lib/recurrence';
+
+interface RecurrenceRuleEditorProps {
+  value: string;
+  onChange: (rrule: string) => void;
+  start?: Date | null; // first occurrence, used for defaults and the preview
+  disabled?: boolean;
+}
+
+type MonthlyMode = 'monthDay' | 'weekdayOrdinal';
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const ORDINALS = [1, 2, 3, 4, -1];
+const PREVIEW_COUNT = 5;
+
+const inputClass =
+  "border-2 border-gray-200 rounded-lg px-3 py-2 focus:border-blue-500 focus:outline-none disabled:opacity-50";
+
+// The weekday with this code, in the UI language; 2024-01-07 was a Sunday
+const weekdayDate = (code: WeekdayCode) => new Date(2024, 0, 7 + WEEKDAY_CODES.indexOf(code));
+
+export const RecurrenceRuleEditor = ({ value, onChange, start, disabled = false }: RecurrenceRuleEditorProps) => {
+  const { t, dateLocale } = useI18n();
+  const anchor = start ?? new Date();
+  const rule: RecurrenceRule = parseRRule(value)
+    ?? { freq: 'WEEKLY', interval: 1, byDay: [{ weekday: WEEKDAY_CODES[anchor.getDay()] }] };
+
+  const monthlyMode: MonthlyMode = rule.byDay?.some(day => day.ordinal) ? 'weekdayOrdinal' : 'monthDay';
+  const endMode: EndMode = rule.count ? 'count' : rule.until ? 'until' : 'never';
+  const ordinalDay = rule.byDay?.find(day => day.ordinal);
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange(formatRRule({ ...rule, ...changes }));
+
+  const changeFrequency = (freq: RecurrenceFrequency) => {
+    // Drop parts that don't apply to the new frequency
+    update({
+      freq,
+      byDay: freq === 'WEEKLY' ? [{ weekday: WEEKDAY_CODES[anchor.getDay()] }] : undefined,
+      byMonthDay: undefined,
+      byMonth: undefined,
+    });
+  };
+
+  const toggleWeekday = (weekday: WeekdayCode) => {
+    const current = rule.byDay?.map(day => day.weekday) ?? [];
+    const next = current.includes(weekday) ? current.filter(day => day !== weekday) : [...current, weekday];
+    const ordered = WEEKDAY_CODES.filter(code => next.includes(code));
+    update({ byDay: ordered.length ? ordered.map(code => ({ weekday: code })) : undefined });
+  };
+
+  const setMonthlyMode = (mode: MonthlyMode) => {
+    if (mode === 'monthDay') {
+      update({ byDay: undefined, byMonthDay: [anchor.getDate()] });
+    } else {
+      const ordinal = Math.min(Math.ceil(anchor.getDate() / 7), 4);
+      update({ byMonthDay: undefined, byDay: [{ weekday: WEEKDAY_CODES[anchor.getDay()], ordinal }] });
+    }
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (mode === 'never') update({ count: undefined, until: undefined });
+    if (mode === 'count') update({ count: 10, until: undefined });
+    if (mode === 'until') update({ count: undefined, until: endOfDay(addYears(anchor, 1)) });
+  };
+
+  const preview = useMemo(() => {
+    if (!start) return [];
+    const parsed = parseRRule(value);
+    return parsed ? expandRule(start, parsed, start, addYears(start, 5)).slice(0, PREVIEW_COUNT) : [];
+  }, [value, start]);
+
+  return (
+    <div className="space-y-4 rounded-xl border-2 border-blue-100 bg-blue-50/40 p-4">
+      {/* Frequency */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>{t('rule.repeatEvery')}</span>
+        <input
+          type="number"
+          min="1"
+          value={rule.interval}
+          onChange={(e) => update({ interval: Math.max(parseInt(e.target.value, 10) || 1, 1) })}
+          disabled={disabled}
+          className={cn(inputClass, "w-20")}
+        />
+        <select
+          value={rule.freq}
+          onChange={(e) => changeFrequency(e.target.value as RecurrenceFrequency)}
+          disabled={disabled}
+          className={inputClass}
+        >
+          {FREQUENCIES.map(freq => (
+            <option key={freq} value={freq}>{t('rule.unit', { unit: freq, count: rule.interval })}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Weekdays */}
+      {rule.freq === 'WEEKLY' && (
+        <div className="flex gap-1.5">
+          {WEEKDAY_CODES.map(code => {
+            const selected = rule.byDay?.some(day => day.weekday === code);
+            return (
+              <button
+                key={code}
+                type="button"
+                aria-pressed={selected}
+                aria-label={format(weekdayDate(code), 'EEEE', { locale: dateLocale })}
+                disabled={disabled}
+                onClick={() => toggleWeekday(code)}
+                className={cn(
+                  "w-9 h-9 rounded-full text-sm font-semibold transition-colors",
+                  selected ? "bg-blue-600 text-white" : "bg-white border-2 border-gray-200 text-gray-600 hover:border-blue-300"
+                )}
+              >
+                {format(weekdayDate(code), 'EEEEE', { locale: dateLocale })}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Day of month or nth weekday */}
+      {(rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && (
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={monthlyMode === 'monthDay'}
+              onChange={() => setMonthlyMode('monthDay')}
+              disabled={disabled}
+            />
+            {t('rule.onDay')}
+            <input
+              type="number"
+              min="-1"
+              max="31"
+              value={rule.byMonthDay?.[0] ?? anchor.getDate()}
+              onChange={(e) => update({ byDay: undefined, byMonthDay: [parseInt(e.target.value, 10) || 1] })}
+              disabled={disabled || monthlyMode !== 'monthDay'}
+              className={cn(inputClass, "w-20")}
+            />
+            <span className="text-xs text-gray-500">{t('rule.lastDayHint')}</span>
+          </label>
+          <label className="flex flex-wrap items-center gap-2">
+            <input
+              type="radio"
+              checked={monthlyMode === 'weekdayOrdinal'}
+              onChange={() => setMonthlyMode('weekdayOrdinal')}
+              disabled={disabled}
+            />
+            {t('rule.onThe')}
+            <select
+              value={ordinalDay?.ordinal ?? 1}
+              onChange={(e) => update({ byDay: [{ weekday: ordinalDay?.weekday ?? WEEKDAY_CODES[anchor.getDay()], ordinal: parseInt(e.target.value, 10) }] })}
+              disabled={disabled || monthlyMode !== 'weekdayOrdinal'}
+              className={inputClass}
+            >
+              {ORDINALS.map(ordinal => (
+                <option key={ordinal} value={ordinal}>{t('rule.ordinal', { ordinal })}</option>
+              ))}
+            </select>
+            <select
+              value={ordinalDay?.weekday ?? WEEKDAY_CODES[anchor.getDay()]}
+              onChange={(e) => update({ byDay: [{ weekday: e.target.value as WeekdayCode, ordinal: ordinalDay?.ordinal ?? 1 }] })}
+              disabled={disabled || monthlyMode !== 'weekdayOrdinal'}
+              className={inputClass}
+            >
+              {WEEKDAY_CODES.map(code => (
+                <option key={code} value={code}>{format(weekdayDate(code), 'EEEE', { locale: dateLocale })}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {/* End */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>{t('rule.ends')}</span>
+        <select
+          value={endMode}
+          onChange={(e) => setEndMode(e.target.value as EndMode)}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="never">{t('rule.never')}</option>
+          <option value="until">{t('rule.onDate')}</option>
+          <option value="count">{t('rule.after')}</option>
+        </select>
+        {endMode === 'until' && (
+          <input
+            type="date"
+            value={rule.until ? format(rule.until, 'yyyy-MM-dd') : ''}
+            onChange={(e) => e.target.value && update({ until: endOfDay(new Date(`${e.target.value}T00:00`)) })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        )}
+        {endMode === 'count' && (
+          <>
+            <input
+              type="number"
+              min="1"
+              value={rule.count}
+              onChange={(e) => update({ count: Math.max(parseInt(e.target.value, 10) || 1, 1) })}
+              disabled={disabled}
+              className={cn(inputClass, "w-20")}
+            />
+            <span>{t('rule.occurrences', { count: rule.count })}</span>
+          </>
+        )}
+      </div>
+
+      {/* Summary and preview */}
+      <div className="text-sm">
+        <div className="font-medium text-blue-800">{describeRule(rule, t, dateLocale)}</div>
+        <code className="block mt-1 text-xs text-gray-500 break-all">RRULE:{formatRRule(rule)}</code>
+        {preview.length > 0 && (
+          <div className="mt-2 text-xs text-gray-600">
+            {t('rule.next', { dates: preview.map(date => format(date, 'EEE, MMM d', { locale: dateLocale })).join(' · ') })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
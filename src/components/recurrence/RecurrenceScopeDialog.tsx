@@ -0,0 +1,69 @@
+// src/components/recurrence/RecurrenceScopeDialog.tsx
+// Asks which occurrences of a repeating task a change applies to
+
+import { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import type { RecurrenceEditScope } from '@/types/CalendarTypes';
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean;
+  title?: string; // defaults to "Edit repeating task" in the UI language
+  onConfirm: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+}
+
+// Labelled 'scope.this' and so on
+const SCOPES: RecurrenceEditScope[] = ['this', 'following', 'all'];
+
+export const RecurrenceScopeDialog = ({
+  isOpen,
+  title,
+  onConfirm,
+  onCancel
+}: RecurrenceScopeDialogProps) => {
+  const { t } = useI18n();
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <Card className="bg-white rounded-2xl w-full max-w-sm shadow-2xl border-0 p-6 space-y-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Repeat className="h-5 w-5 text-blue-600" />
+          {title ?? t('scope.title')}
+        </h2>
+
+        <div className="space-y-2" role="radiogroup">
+          {SCOPES.map(option => (
+            <label key={option} className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="recurrence-scope"
+                checked={scope === option}
+                onChange={() => setScope(option)}
+                className="w-4 h-4 text-blue-600"
+              />
+              {t(`scope.${option}`)}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="outline" className="flex-1" onClick={onCancel}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            onClick={() => onConfirm(scope)}
+          >
+            {t('common.ok')}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
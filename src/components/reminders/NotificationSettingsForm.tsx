@@ -0,0 +1,125 @@
+// src/components/reminders/NotificationSettingsForm.tsx
+// When reminders go off and how they reach you; used by the bell menu and the settings page
+
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useToast } from '@/hooks/use-toast';
+import { notificationPermission, requestNotificationPermission } from '@/lib/desktopNotifications';
+import { formatLead } from '@/lib/reminders';
+import { canSpeak } from '@/lib/speech';
+import { cn } from '@/lib/utils';
+import type { NotificationSettings } from '@/types/CalendarTypes';
+
+const REMINDER_TIME_OPTIONS = [0, 5, 10, 15, 30, 60, 1440]; // minutes before
+const DEADLINE_WARNING_OPTIONS = [1, 2, 3, 7]; // days before
+
+const toggleValue = (values: number[], value: number) =>
+  values.includes(value) ? values.filter(existing => existing !== value) : [...values, value].sort((a, b) => a - b);
+
+const chip = (active: boolean) => cn(
+  'px-2 py-1 rounded-full border text-xs transition-colors',
+  active ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+);
+
+export const NotificationSettingsForm = () => {
+  const { settings: { notifications }, updateSettings } = useSettings();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const update = (changes: Partial<NotificationSettings>) => updateSettings({ notifications: changes });
+
+  const handleDesktopNotifications = async (enabled: boolean) => {
+    if (!enabled) {
+      update({ pushNotifications: false });
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    if (permission !== 'granted') {
+      toast({
+        title: t('reminders.blocked'),
+        description: t(permission === 'unsupported' ? 'reminders.unsupported' : 'reminders.allow'),
+        variant: 'destructive',
+      });
+      return;
+    }
+    update({ pushNotifications: true });
+  };
+
+  const toggles: { key: keyof NotificationSettings; label: string; disabled?: boolean }[] = [
+    { key: 'spokenReminders', label: t('reminders.spoken'), disabled: !canSpeak() },
+    { key: 'overdueNotifications', label: t('reminders.overdue') },
+    { key: 'dailyAgenda', label: t('reminders.agenda') },
+  ];
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <h3 className="font-semibold text-gray-900">{t('reminders.beforeTask')}</h3>
+        <div className="flex flex-wrap gap-1">
+          {REMINDER_TIME_OPTIONS.map(minutes => (
+            <button
+              key={minutes}
+              type="button"
+              className={chip(notifications.reminderTimes.includes(minutes))}
+              onClick={() => update({ reminderTimes: toggleValue(notifications.reminderTimes, minutes) })}
+            >
+              {minutes === 0 ? t('reminders.atStart') : formatLead(minutes, t)}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">{t('reminders.ownReminders')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold text-gray-900">{t('reminders.beforeDeadline')}</h3>
+        <div className="flex flex-wrap gap-1">
+          {DEADLINE_WARNING_OPTIONS.map(days => (
+            <button
+              key={days}
+              type="button"
+              className={chip(notifications.deadlineWarnings.includes(days))}
+              onClick={() => update({ deadlineWarnings: toggleValue(notifications.deadlineWarnings, days) })}
+            >
+              {formatLead(days * 1440, t)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={notifications.pushNotifications && notificationPermission() === 'granted'}
+            onChange={(e) => handleDesktopNotifications(e.target.checked).catch(() => undefined)}
+            disabled={notificationPermission() === 'unsupported'}
+            className="rounded border-gray-300"
+          />
+          {t('reminders.browser')}
+        </label>
+        {toggles.map(({ key, label, disabled }) => (
+          <label key={key} className={cn('flex items-center gap-2 text-gray-700 cursor-pointer', disabled && 'opacity-50')}>
+            <input
+              type="checkbox"
+              checked={Boolean(notifications[key])}
+              onChange={(e) => update({ [key]: e.target.checked })}
+              disabled={disabled}
+              className="rounded border-gray-300"
+            />
+            {label}
+          </label>
+        ))}
+        {notifications.dailyAgenda && (
+          <label className="flex items-center gap-2 ps-6 text-gray-700">
+            {t('reminders.agendaAt')}
+            <input
+              type="time"
+              value={notifications.dailyAgendaTime}
+              onChange={(e) => e.target.value && update({ dailyAgendaTime: e.target.value })}
+              className="border border-gray-300 rounded-lg px-2 py-1 bg-white"
+            />
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
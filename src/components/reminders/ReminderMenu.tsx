@@ -0,0 +1,61 @@
+// src/components/reminders/ReminderMenu.tsx
+// Bell menu with what's coming up and how reminders are delivered
+
+import { useMemo, useState } from 'react';
+import { addDays } from 'date-fns';
+import { Bell, BellOff } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/calendar_ui/popover';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useTasks } from '@/hooks/use-tasks';
+import { reminderTriggers } from '@/lib/reminders';
+import { displayTimeZone } from '@/lib/settings';
+import { formatTaskTime } from '@/lib/taskMappers';
+import { NotificationSettingsForm } from './NotificationSettingsForm';
+
+const UPCOMING_COUNT = 4;
+
+export const ReminderMenu = () => {
+  const { data: tasks = [] } = useTasks();
+  const { settings } = useSettings();
+  const { notifications, timeFormat } = settings;
+  const timeZone = displayTimeZone(settings);
+  const { t, dateLocale } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  const upcoming = useMemo(() => {
+    if (!open) return [];
+    const now = new Date();
+    return reminderTriggers(tasks, notifications, now, addDays(now, 1), { timeFormat, timeZone, t, locale: dateLocale })
+      .slice(0, UPCOMING_COUNT);
+  }, [open, tasks, notifications, timeFormat, timeZone, t, dateLocale]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-2" title={t('reminders.title')}>
+          {notifications.reminderTimes.length > 0 ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+          <span className="hidden md:inline">{t('reminders.title')}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4 text-sm">
+        <div className="space-y-1">
+          <h3 className="font-semibold text-gray-900">{t('reminders.comingUp')}</h3>
+          {upcoming.length === 0 && <p className="text-xs text-muted-foreground">{t('reminders.nothingSoon')}</p>}
+          {upcoming.map(trigger => (
+            <div key={trigger.key} className="flex items-baseline gap-2">
+              <span className="text-xs text-gray-500 w-16 shrink-0">{formatTaskTime(trigger.at, timeFormat, timeZone, dateLocale)}</span>
+              <span className="truncate" title={`${trigger.title}: ${trigger.body}`}>
+                {trigger.title}
+                <span className="text-gray-500"> · {trigger.body}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <NotificationSettingsForm />
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,126 @@
+// src/components/reminders/ReminderScheduler.tsx
+// Sets off due reminders as a toast, a browser notification and, when enabled, in the assistant's voice
+
+import { useCallback, useEffect } from 'react';
+import { ToastAction } from '@/components/jarvis_ui/toast';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useTasks, useUpdateTask } from '@/hooks/use-tasks';
+import { toast } from '@/hooks/use-toast';
+import { onReminderAction, registerReminderWorker, showDesktopNotification } from '@/lib/desktopNotifications';
+import { claimReminders, nextSnoozeEnd, snoozeReminder } from '@/lib/reminderState';
+import { reminderTriggers, SNOOZE_MINUTES, type ReminderTrigger } from '@/lib/reminders';
+import { displayTimeZone } from '@/lib/settings';
+import { canSpeak, createAssistantUtterance } from '@/lib/speech';
+
+// Reminders that came due while every tab was closed still go off if they're at most this old
+const CATCH_UP_MS = 6 * 60 * 60 * 1000;
+// Longest wait between checks, so task edits, snoozes from other tabs and waking from sleep are picked up
+const MAX_WAIT_MS = 60 * 1000;
+// A background tab checks a little later, so a tab the user is looking at gets to show the toast
+const HIDDEN_TAB_DELAY_MS = 3000;
+const REMINDER_TOAST_MS = 5 * 60 * 1000;
+
+// Rendered once per tab; other tabs running it too is fine, each trigger is only claimed once
+export const ReminderScheduler = () => {
+  const { data: tasks } = useTasks();
+  const { settings } = useSettings();
+  const { notifications, timeFormat } = settings;
+  const timeZone = displayTimeZone(settings);
+  const { t, dateLocale, speechLang } = useI18n();
+  const { mutate: updateTask } = useUpdateTask({ errorTitle: t('reminders.completeFailed') });
+
+  const snooze = useCallback((trigger: ReminderTrigger) => {
+    console.log('😴 Snoozed reminder:', trigger.title);
+    snoozeReminder(trigger, SNOOZE_MINUTES).catch(error => console.error('❌ Failed to snooze reminder:', error));
+  }, []);
+
+  const complete = useCallback((trigger: ReminderTrigger) => {
+    const task = tasks?.find(candidate => candidate.id === trigger.taskId);
+    if (!task) return;
+    console.log('✅ Completed from reminder:', task.name);
+    updateTask({ id: task.id, input: { name: task.name, status: 'completed', completion_percentage: 100 } });
+  }, [tasks, updateTask]);
+
+  const fire = useCallback((trigger: ReminderTrigger) => {
+    console.log('🔔 Reminder:', trigger.title, '-', trigger.body);
+    toast({
+      title: trigger.title,
+      description: trigger.body,
+      duration: REMINDER_TOAST_MS,
+      action: (
+        <div className="flex flex-col gap-1">
+          <ToastAction altText={t('reminder.snoozeFor', { minutes: SNOOZE_MINUTES })} onClick={() => snooze(trigger)}>
+            {t('reminder.snooze')}
+          </ToastAction>
+          {trigger.canComplete && (
+            <ToastAction altText={t('reminder.markDone')} onClick={() => complete(trigger)}>
+              {t('reminder.done')}
+            </ToastAction>
+          )}
+        </div>
+      ),
+    });
+
+    if (notifications.pushNotifications) {
+      showDesktopNotification(trigger, SNOOZE_MINUTES, t).catch(error => console.warn('⚠️ Notification failed:', error));
+    }
+    // Queued behind anything the assistant is saying rather than cutting it off
+    if (notifications.spokenReminders && canSpeak()) {
+      window.speechSynthesis.speak(createAssistantUtterance(`${trigger.title}. ${trigger.body}`, speechLang));
+    }
+  }, [notifications.pushNotifications, notifications.spokenReminders, snooze, complete, t, speechLang]);
+
+  useEffect(() => {
+    if (notifications.pushNotifications) registerReminderWorker();
+  }, [notifications.pushNotifications]);
+
+  // Snooze and Done pressed on a browser notification
+  useEffect(() => onReminderAction(({ action, trigger }) => {
+    if (action === 'snooze') snooze(trigger);
+    if (action === 'complete') complete(trigger);
+  }), [snooze, complete]);
+
+  useEffect(() => {
+    if (!tasks) return;
+    let timer: ReturnType<typeof setTimeout>;
+    let stopped = false;
+
+    // A snoozed task may have been completed or deleted in the meantime
+    const stillOpen = (trigger: ReminderTrigger) =>
+      !trigger.taskId || tasks.some(task =>
+        task.id === trigger.taskId && task.status !== 'completed' && task.status !== 'cancelled'
+      );
+
+    const schedule = (wait: number) => {
+      timer = setTimeout(() => {
+        check().catch(error => console.error('❌ Reminder check failed:', error));
+      }, wait + (document.hidden ? HIDDEN_TAB_DELAY_MS : 0));
+    };
+
+    const check = async () => {
+      const now = new Date();
+      const due = reminderTriggers(tasks, notifications, new Date(now.getTime() - CATCH_UP_MS), now, { timeFormat, timeZone, t, locale: dateLocale });
+      const claimed = await claimReminders(due, now);
+      claimed.filter(stillOpen).forEach(fire);
+      if (stopped) return;
+
+      const later = new Date(now.getTime() + MAX_WAIT_MS);
+      const next = reminderTriggers(tasks, notifications, now, later, { timeFormat, timeZone, t, locale: dateLocale })[0];
+      const wakeAt = Math.min(
+        later.getTime(),
+        next ? new Date(next.at).getTime() : Infinity,
+        nextSnoozeEnd()?.getTime() ?? Infinity
+      );
+      schedule(Math.max(0, wakeAt - Date.now()));
+    };
+
+    schedule(0);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [tasks, notifications, timeFormat, timeZone, t, dateLocale, fire]);
+
+  return null;
+};
@@ -0,0 +1,107 @@
+// src/components/scheduler/AutoSchedulePanel.tsx
+// Lists the auto-scheduler's proposal so it can be accepted in full or task by task
+
+import { format, type Locale } from 'date-fns';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { SCHEDULE_HORIZON_DAYS, type SchedulePlan, type ScheduledBlock } from '@/lib/autoScheduler';
+import { displayTimeZone } from '@/lib/settings';
+import { formatTaskTime } from '@/lib/taskMappers';
+import { toZonedTime } from '@/lib/timezones';
+import type { TimeFormat } from '@/types/CalendarTypes';
+import type { Task } from '@/types/TaskTypes';
+
+interface AutoSchedulePanelProps {
+  plan: SchedulePlan;
+  tasks: Task[];
+  savingTaskId?: string | null;
+  onAccept: (taskId: string) => void;
+  onAcceptAll: () => void;
+  onDiscard: () => void;
+}
+
+const formatBlock = (block: ScheduledBlock, timeFormat: TimeFormat, timeZone: string, locale: Locale) =>
+  `${format(toZonedTime(block.start, timeZone), 'EEE MMM d', { locale })}, ${formatTaskTime(block.start, timeFormat, timeZone, locale)}–${formatTaskTime(block.end, timeFormat, timeZone, locale)}`;
+
+export const AutoSchedulePanel = ({
+  plan,
+  tasks,
+  savingTaskId,
+  onAccept,
+  onAcceptAll,
+  onDiscard
+}: AutoSchedulePanelProps) => {
+  const { settings } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const taskName = (taskId: string) => tasks.find(task => task.id === taskId)?.name ?? t('schedule.untitled');
+  // Blocks grouped per task, in the order the scheduler placed them
+  const taskIds = [...new Set(plan.blocks.map(block => block.taskId))];
+  const isSaving = Boolean(savingTaskId);
+
+  return (
+    <Card className="mb-6 p-4 bg-white/90 backdrop-blur-sm border border-indigo-100 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Sparkles className="h-4 w-4 text-indigo-600" />
+          {t('schedule.title')}
+          <span className="text-sm font-normal text-gray-500">
+            {t('schedule.placed', { count: taskIds.length })}
+          </span>
+        </h3>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onDiscard} disabled={isSaving}>
+            <X className="h-4 w-4 mr-1" />
+            {t('schedule.discard')}
+          </Button>
+          <Button size="sm" onClick={onAcceptAll} disabled={isSaving || taskIds.length === 0}>
+            <Check className="h-4 w-4 mr-1" />
+            {t('schedule.acceptAll')}
+          </Button>
+        </div>
+      </div>
+
+      {taskIds.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {taskIds.map(taskId => {
+            const blocks = plan.blocks.filter(block => block.taskId === taskId);
+            return (
+              <li key={taskId} className="py-2 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">{taskName(taskId)}</div>
+                  {blocks.map(block => {
+                    const when = formatBlock(block, settings.timeFormat, displayTimeZone(settings), dateLocale);
+                    return (
+                      <div key={block.part} className="text-xs text-gray-500">
+                        {block.parts > 1 ? t('schedule.part', { part: block.part, parts: block.parts, when }) : when}
+                      </div>
+                    );
+                  })}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => onAccept(taskId)} disabled={isSaving}>
+                  {savingTaskId === taskId ? <Loader2 className="h-4 w-4 animate-spin" /> : t('schedule.accept')}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">{t('schedule.none')}</p>
+      )}
+
+      {plan.unscheduled.length > 0 && (
+        <div className="pt-2 border-t border-gray-100">
+          <div className="text-xs font-semibold text-gray-500 uppercase mb-1">{t('schedule.unplaced')}</div>
+          {plan.unscheduled.map(item => (
+            <div key={item.taskId} className="text-xs text-gray-600">
+              <span className="font-medium">{taskName(item.taskId)}</span> —{' '}
+              {t(`schedule.reason.${item.reason}`, { minutes: item.minutes, days: SCHEDULE_HORIZON_DAYS })}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
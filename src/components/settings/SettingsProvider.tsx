@@ -0,0 +1,89 @@
+// src/components/settings/SettingsProvider.tsx
+// Loads the calendar settings once for the whole app and saves changes as they are made
+
+import { useCallback, useEffect, useMemo, type ReactNode } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchSettings, readLocalSettings, saveSettings, SETTINGS_STORAGE_KEY } from '@/components/APIs/settings';
+import { SettingsContext, settingsKeys } from '@/hooks/use-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { useToast } from '@/hooks/use-toast';
+import { createTranslator, resolveLanguage } from '@/lib/i18n';
+import { DEFAULT_CALENDAR_SETTINGS, mergeSettings, type SettingsChanges } from '@/lib/settings';
+import type { CalendarSettings } from '@/types/CalendarTypes';
+
+// Keeps <html lang dir> on the UI language, so the whole page, portals included, mirrors for right-to-left languages
+const DocumentLanguage = () => {
+  const { speechLang, dir } = useI18n();
+  useEffect(() => {
+    document.documentElement.lang = speechLang;
+    document.documentElement.dir = dir;
+  }, [speechLang, dir]);
+  return null;
+};
+
+export const SettingsProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: settings = DEFAULT_CALENDAR_SETTINGS } = useQuery({
+    queryKey: settingsKeys.all,
+    queryFn: fetchSettings,
+    // This browser's copy shows straight away, so the week doesn't jump once the server answers
+    initialData: readLocalSettings,
+    initialDataUpdatedAt: 0,
+    staleTime: 5 * 60 * 1000,
+    networkMode: 'offlineFirst',
+  });
+
+  const save = useMutation({
+    mutationKey: settingsKeys.all,
+    mutationFn: saveSettings,
+    onMutate: (next) => {
+      const previous = queryClient.getQueryData<CalendarSettings>(settingsKeys.all);
+      queryClient.setQueryData(settingsKeys.all, next);
+      return { previous };
+    },
+    onSuccess: (saved) => {
+      // A later change still on its way would be undone by this older answer
+      if (queryClient.isMutating({ mutationKey: settingsKeys.all }) > 1) return;
+      queryClient.setQueryData(settingsKeys.all, saved);
+    },
+    onError: (error, _next, context) => {
+      queryClient.setQueryData(settingsKeys.all, context?.previous);
+      const t = createTranslator(resolveLanguage(context?.previous?.language));
+      toast({
+        title: t('settings.saveFailed'),
+        description: error instanceof Error ? error.message : t('common.tryAgain'),
+        variant: 'destructive',
+      });
+    },
+  });
+  const { mutate } = save;
+
+  // Merged into the cached copy, so quick changes in a row build on each other
+  const updateSettings = useCallback((changes: SettingsChanges) => {
+    const current = queryClient.getQueryData<CalendarSettings>(settingsKeys.all) ?? DEFAULT_CALENDAR_SETTINGS;
+    mutate(mergeSettings(current, changes));
+  }, [queryClient, mutate]);
+
+  // Changes saved in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SETTINGS_STORAGE_KEY) queryClient.setQueryData(settingsKeys.all, readLocalSettings());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [queryClient]);
+
+  const value = useMemo(
+    () => ({ settings, updateSettings, isSaving: save.isPending }),
+    [settings, updateSettings, save.isPending]
+  );
+
+  return (
+    <SettingsContext.Provider value={value}>
+      <DocumentLanguage />
+      {children}
+    </SettingsContext.Provider>
+  );
+};
@@ -0,0 +1,50 @@
+// src/components/settings/TimeZoneSelect.tsx
+// Picker for an IANA time zone, labelled with its name in the UI language and its current UTC offset
+
+import { useMemo } from 'react';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatZoneOffset, listTimeZones } from '@/lib/timezones';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  emptyLabel?: string; // offered as an extra first option whose value is ''
+  disabled?: boolean;
+  className?: string;
+}
+
+// "Indochina Time" for Asia/Ho_Chi_Minh; unset where the browser only knows the zone by its offset
+const zoneName = (date: Date, timeZone: string, language: string) => {
+  try {
+    const part = new Intl.DateTimeFormat(language, { timeZone, timeZoneName: 'longGeneric' })
+      .formatToParts(date)
+      .find(item => item.type === 'timeZoneName');
+    return part && !/^(GMT|UTC)/.test(part.value) ? part.value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const TimeZoneSelect = ({ value, onChange, emptyLabel, disabled, className }: TimeZoneSelectProps) => {
+  const { t, speechLang } = useI18n();
+  const options = useMemo(() => {
+    const now = new Date();
+    const zones = listTimeZones();
+    // A zone saved on another device may be missing from this browser's list
+    if (value && !zones.includes(value)) zones.push(value);
+    return zones.map(zone => {
+      const args = { zone: zone.replace(/_/g, ' '), offset: formatZoneOffset(now, zone) };
+      const name = zoneName(now, zone, speechLang);
+      return { zone, label: name ? t('zone.optionNamed', { ...args, name }) : t('zone.option', args) };
+    });
+  }, [value, t, speechLang]);
+
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} className={className}>
+      {emptyLabel && <option value="">{emptyLabel}</option>}
+      {options.map(({ zone, label }) => (
+        <option key={zone} value={zone}>{label}</option>
+      ))}
+    </select>
+  );
+};
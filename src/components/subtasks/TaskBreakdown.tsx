@@ -0,0 +1,207 @@
+// src/components/subtasks/TaskBreakdown.tsx
+// Subtasks and checklist of a task, with the progress and effort they roll up to
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckSquare, ListTree, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Input } from '@/components/calendar_ui/input';
+import { Label } from '@/components/calendar_ui/label';
+import { useI18n } from '@/hooks/use-i18n';
+import { useCreateTask, useDeleteTask, useTasks, useToggleTask, useUpdateTask } from '@/hooks/use-tasks';
+import { checklistProgress, newChecklistItem, rollUpTask, subtasksOf } from '@/lib/subtasks';
+import { cn } from '@/lib/utils';
+import type { ChecklistItem, Task } from '@/types/TaskTypes';
+
+interface TaskBreakdownProps {
+  task?: Task | null; // unset while the task is being created
+  checklist: ChecklistItem[];
+  onChecklistChange: (items: ChecklistItem[]) => void;
+  disabled?: boolean;
+}
+
+const toLocalInput = (iso?: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '');
+
+export const TaskBreakdown = ({ task, checklist, onChecklistChange, disabled }: TaskBreakdownProps) => {
+  const { data: tasks = [] } = useTasks();
+  const { t } = useI18n();
+  const createTask = useCreateTask({ errorTitle: t('subtasks.addFailed') });
+  const updateTask = useUpdateTask({ errorTitle: t('subtasks.scheduleFailed') });
+  const toggleTask = useToggleTask();
+  const deleteTask = useDeleteTask({ errorTitle: t('subtasks.removeFailed') });
+  const [newSubtask, setNewSubtask] = useState('');
+  const [newItem, setNewItem] = useState('');
+
+  const subtasks = useMemo(() => (task ? subtasksOf(tasks, task.id) : []), [tasks, task]);
+  // The unsaved checklist counts too, so ticking an item moves the bar right away
+  const rollup = useMemo(
+    () => (task ? rollUpTask({ ...task, checklist }, tasks) : null),
+    [task, checklist, tasks]
+  );
+  const items = checklistProgress(checklist);
+  const percent = rollup?.completion_percentage ?? (items.total ? Math.round((items.done / items.total) * 100) : null);
+
+  const addSubtask = () => {
+    const name = newSubtask.trim();
+    if (!name || !task) return;
+    // Starts out with the parent's category, priority and deadline
+    createTask.mutate({
+      name,
+      parent_task: task.id,
+      category: task.category?.id ?? null,
+      priority: task.priority,
+      urgency: task.urgency,
+      deadline: task.deadline,
+      tags: task.tags,
+    });
+    setNewSubtask('');
+  };
+
+  const scheduleSubtask = (subtask: Task, value: string) => {
+    const start = value ? new Date(value).toISOString() : null;
+    updateTask.mutate({ id: subtask.id, input: { name: subtask.name, specific_time: start, deadline: start ?? subtask.deadline } });
+  };
+
+  const addItem = () => {
+    if (!newItem.trim()) return;
+    onChecklistChange([...checklist, newChecklistItem(newItem)]);
+    setNewItem('');
+  };
+
+  const updateItem = (id: string, change: Partial<ChecklistItem>) =>
+    onChecklistChange(checklist.map(item => (item.id === id ? { ...item, ...change } : item)));
+
+  return (
+    <div className="space-y-4">
+      {percent !== null && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>{t('subtasks.progress', { percent })}</span>
+            {rollup && <span>{t('subtasks.effort', { hours: rollup.estimated_effort_hours })}</span>}
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-green-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {/* Subtasks are tasks of their own, each with its own slot on the calendar */}
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <ListTree className="h-4 w-4" />
+          {t('subtasks.title')}
+        </Label>
+        {!task ? (
+          <p className="text-xs text-muted-foreground">{t('subtasks.saveFirst')}</p>
+        ) : (
+          <>
+            {subtasks.map(subtask => (
+              <div key={subtask.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={subtask.status === 'completed'}
+                  onChange={() => toggleTask.mutate(subtask.id)}
+                  disabled={disabled}
+                  aria-label={t('subtasks.markDone', { name: subtask.name })}
+                  className="rounded border-gray-300"
+                />
+                <span className={cn('flex-1 text-sm truncate', subtask.status === 'completed' && 'line-through text-gray-400')}>
+                  {subtask.name}
+                </span>
+                <Input
+                  type="datetime-local"
+                  value={toLocalInput(subtask.specific_time)}
+                  onChange={(e) => scheduleSubtask(subtask, e.target.value)}
+                  disabled={disabled}
+                  aria-label={t('subtasks.when', { name: subtask.name })}
+                  className="w-52 h-8 text-xs"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteTask.mutate(subtask.id)}
+                  disabled={disabled}
+                  aria-label={t('subtasks.delete', { name: subtask.name })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                placeholder={t('subtasks.add')}
+                value={newSubtask}
+                onChange={(e) => setNewSubtask(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter') return;
+                  e.preventDefault();
+                  addSubtask();
+                }}
+                disabled={disabled}
+              />
+              <Button type="button" size="sm" onClick={addSubtask} disabled={disabled || !newSubtask.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Checklist items are saved with the task itself */}
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <CheckSquare className="h-4 w-4" />
+          {t('checklist.title')}
+          {items.total > 0 && <span className="text-xs font-normal text-muted-foreground">{items.done}/{items.total}</span>}
+        </Label>
+        {checklist.map(item => (
+          <div key={item.id} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={(e) => updateItem(item.id, { done: e.target.checked })}
+              disabled={disabled}
+              aria-label={t('subtasks.markDone', { name: item.text })}
+              className="rounded border-gray-300"
+            />
+            <input
+              value={item.text}
+              onChange={(e) => updateItem(item.id, { text: e.target.value })}
+              disabled={disabled}
+              className={cn(
+                'flex-1 text-sm bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none',
+                item.done && 'line-through text-gray-400'
+              )}
+            />
+            <button
+              type="button"
+              onClick={() => onChecklistChange(checklist.filter(other => other.id !== item.id))}
+              disabled={disabled}
+              aria-label={t('checklist.remove', { name: item.text })}
+              className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            placeholder={t('checklist.add')}
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter') return;
+              e.preventDefault();
+              addItem();
+            }}
+            disabled={disabled}
+          />
+          <Button type="button" size="sm" onClick={addItem} disabled={disabled || !newItem.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
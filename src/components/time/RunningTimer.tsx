@@ -0,0 +1,37 @@
+// src/components/time/RunningTimer.tsx
+// The timer that's running, with its task and a stop button; renders nothing while none is
+
+import { Square, Timer } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { useI18n } from '@/hooks/use-i18n';
+import { useElapsed, useTimeTracker } from '@/hooks/use-time-tracker';
+import { formatElapsed } from '@/lib/timeTracking';
+import { cn } from '@/lib/utils';
+
+export const RunningTimer = ({ className }: { className?: string }) => {
+  const { running, stop } = useTimeTracker();
+  const { t } = useI18n();
+  const elapsed = useElapsed(running);
+
+  if (!running) return null;
+
+  return (
+    <div className={cn('flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-2 py-1 text-sm', className)}>
+      <Timer className="h-4 w-4 shrink-0 text-red-600 animate-pulse" />
+      <span className="min-w-0 truncate text-gray-700" title={running.taskName}>
+        <span className="sr-only">{t('timer.tracking')} </span>
+        {running.taskName}
+      </span>
+      <span className="font-semibold tabular-nums text-red-700">{formatElapsed(elapsed)}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => stop().catch(error => console.error('❌ Failed to stop timer:', error))}
+        className="h-7 px-2 text-red-700 hover:bg-red-100"
+      >
+        <Square className="h-3 w-3 me-1 fill-current" />
+        {t('timer.stopButton')}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+// src/components/time/TimeReport.tsx
+// Estimated effort against tracked time, by category or by week, to show how far off the estimates run
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useTasks } from '@/hooks/use-tasks';
+import { displayTimeZone } from '@/lib/settings';
+import { timeReport, type TimeReportGroupBy } from '@/lib/timeTracking';
+import { cn } from '@/lib/utils';
+
+const chip = (active: boolean) => cn(
+  'px-2 py-1 rounded-full border text-xs transition-colors',
+  active ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+);
+
+// Green within 10% of the estimate, amber within 50%, red beyond that either way
+const ratioColor = (ratio: number) =>
+  Math.abs(ratio - 1) <= 0.1 ? 'text-green-700' : Math.abs(ratio - 1) <= 0.5 ? 'text-amber-700' : 'text-red-700';
+
+export const TimeReport = () => {
+  const { data: tasks = [] } = useTasks();
+  const { settings } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const [groupBy, setGroupBy] = useState<TimeReportGroupBy>('category');
+  const [completedOnly, setCompletedOnly] = useState(false);
+
+  const rows = useMemo(() => timeReport(tasks, groupBy, {
+    completedOnly,
+    weekStartsOn: settings.startOfWeek,
+    timeZone: displayTimeZone(settings),
+    uncategorizedLabel: t('report.uncategorized'),
+    unscheduledLabel: t('report.unscheduled'),
+    weekLabel: (week) => t('report.weekOf', { date: format(week, 'PP', { locale: dateLocale }) }),
+  }), [tasks, groupBy, completedOnly, settings, t, dateLocale]);
+
+  const taskCount = rows.reduce((total, row) => total + row.taskCount, 0);
+  const estimated = rows.reduce((total, row) => total + row.estimatedHours, 0);
+  const actual = rows.reduce((total, row) => total + row.actualHours, 0);
+  const hours = (value: number) => t('report.hours', { hours: value.toLocaleString(dateLocale.code) });
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-900">{t('report.title')}</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <div className="flex gap-1">
+            {(['category', 'week'] as const).map(option => (
+              <button key={option} type="button" className={chip(groupBy === option)} onClick={() => setGroupBy(option)}>
+                {t(option === 'category' ? 'report.byCategory' : 'report.byWeek')}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={completedOnly}
+              onChange={(e) => setCompletedOnly(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t('report.completedOnly')}
+          </label>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('report.empty')}</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-500">
+                  <th className="py-2 pe-4 text-start font-medium">{t('report.group')}</th>
+                  <th className="py-2 pe-4 text-end font-medium">{t('report.tasks')}</th>
+                  <th className="py-2 pe-4 text-end font-medium">{t('report.estimated')}</th>
+                  <th className="py-2 pe-4 text-end font-medium">{t('report.actual')}</th>
+                  <th className="py-2 text-end font-medium">{t('report.ratio')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-b border-gray-100">
+                    <td className="py-2 pe-4 text-gray-900">{row.label}</td>
+                    <td className="py-2 pe-4 text-end tabular-nums">{row.taskCount}</td>
+                    <td className="py-2 pe-4 text-end tabular-nums">{hours(row.estimatedHours)}</td>
+                    <td className="py-2 pe-4 text-end tabular-nums">{hours(row.actualHours)}</td>
+                    <td className={cn('py-2 text-end font-semibold tabular-nums', ratioColor(row.ratio))}>
+                      {row.ratio.toLocaleString(dateLocale.code)}×
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-sm text-gray-600">
+            {t('report.summary', {
+              count: taskCount,
+              ratio: (Math.round((actual / estimated) * 100) / 100).toLocaleString(dateLocale.code),
+            })}
+          </p>
+        </>
+      )}
+    </section>
+  );
+};
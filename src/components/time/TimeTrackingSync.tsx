@@ -0,0 +1,65 @@
+// src/components/time/TimeTrackingSync.tsx
+// Adds finished timer entries to their task's actual time; offline, the update waits in the outbox like any other
+
+import { useEffect } from 'react';
+import { TaskConflictError } from '@/components/APIs/taskClient';
+import { useI18n } from '@/hooks/use-i18n';
+import { useTasks, useUpdateTask } from '@/hooks/use-tasks';
+import { useTimeTracker } from '@/hooks/use-time-tracker';
+import { isTempId } from '@/lib/taskOutbox';
+import { claimTimeEntries, settleTimeEntries, type TimeEntry } from '@/lib/timeTracking';
+import type { Task } from '@/types/TaskTypes';
+
+// Rendered once per tab; each entry is only claimed by one of them
+export const TimeTrackingSync = () => {
+  const { data: tasks } = useTasks();
+  const { entries } = useTimeTracker();
+  const { t } = useI18n();
+  // A conflict only means the time goes on top of the other copy, no merge needed
+  const { mutateAsync: updateTask } = useUpdateTask({ errorTitle: t('timer.syncFailed'), mergeConflicts: false });
+  const waiting = entries.length > 0;
+
+  // Also runs when the task list refetches, which retries entries whose update failed
+  useEffect(() => {
+    if (!tasks || !waiting) return;
+
+    const addMinutes = (task: Task, minutes: number) => updateTask({
+      id: task.id,
+      input: { name: task.name, actual_time_spent_minutes: (task.actual_time_spent_minutes || 0) + minutes },
+    });
+
+    const sync = async () => {
+      const claimed = await claimTimeEntries();
+      const byTask = new Map<string, TimeEntry[]>();
+      claimed.forEach(entry => byTask.set(entry.taskId, [...(byTask.get(entry.taskId) ?? []), entry]));
+
+      for (const [taskId, taskEntries] of byTask) {
+        const ids = taskEntries.map(entry => entry.id);
+        const task = tasks.find(candidate => candidate.id === taskId);
+        // Created offline and not sent yet; the entries move to the server's id once it is (see remapTimeEntries)
+        // and are claimed again after the claim times out
+        if (task && isTempId(taskId)) continue;
+        if (!task) {
+          console.warn('⚠️ Dropping tracked time for a task that no longer exists:', taskEntries[0].taskName);
+          await settleTimeEntries(ids);
+          continue;
+        }
+        const minutes = taskEntries.reduce((total, entry) => total + entry.minutes, 0);
+        try {
+          // Changed elsewhere since the list loaded: add the time to the server's copy instead
+          await addMinutes(task, minutes).catch(error => {
+            if (error instanceof TaskConflictError) return addMinutes(error.current, minutes);
+            throw error;
+          });
+          await settleTimeEntries(ids);
+        } catch {
+          // Left claimed, so the next sync after the claim times out tries again
+        }
+      }
+    };
+
+    sync().catch(error => console.error('❌ Failed to sync tracked time:', error));
+  }, [tasks, waiting, updateTask]);
+
+  return null;
+};
@@ -0,0 +1,48 @@
+// src/components/time/TimerButton.tsx
+// Play/stop button for a task's timer, showing the time so far while it runs
+
+import type React from 'react';
+import { Play, Square } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { useElapsed, useTimeTracker } from '@/hooks/use-time-tracker';
+import { formatElapsed } from '@/lib/timeTracking';
+import { cn } from '@/lib/utils';
+import type { Task } from '@/types/TaskTypes';
+
+interface TimerButtonProps {
+  task: Pick<Task, 'id' | 'name'>;
+  className?: string;
+  idleClassName?: string; // only while the timer is stopped, e.g. to show the button on hover
+}
+
+export const TimerButton = ({ task, className, idleClassName }: TimerButtonProps) => {
+  const { running, toggle } = useTimeTracker();
+  const { t } = useI18n();
+  const isRunning = running?.taskId === task.id;
+  const elapsed = useElapsed(isRunning ? running : null);
+
+  // Kept from reaching the chip or row around it, which would open the task or start a drag
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toggle(task).catch(error => console.error('❌ Failed to toggle timer:', error));
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      onKeyDown={(e) => e.stopPropagation()}
+      aria-pressed={isRunning}
+      aria-label={t(isRunning ? 'timer.stop' : 'timer.start', { task: task.name })}
+      title={t(isRunning ? 'timer.stop' : 'timer.start', { task: task.name })}
+      className={cn(
+        'inline-flex items-center gap-1 rounded px-1 text-[10px] font-semibold tabular-nums transition-colors',
+        isRunning ? 'bg-red-600 text-white hover:bg-red-700' : cn('hover:bg-black/10', idleClassName),
+        className
+      )}
+    >
+      {isRunning ? <Square className="h-2.5 w-2.5 fill-current" /> : <Play className="h-2.5 w-2.5 fill-current" />}
+      {isRunning && formatElapsed(elapsed)}
+    </button>
+  );
+};
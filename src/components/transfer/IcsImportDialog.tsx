@@ -0,0 +1,162 @@
+// src/components/transfer/IcsImportDialog.tsx
+// Preview of the tasks in an .ics file: pick which to create, with likely duplicates left out
+
+import { useMemo, useState } from 'react';
+import { format, type Locale } from 'date-fns';
+import { AlertTriangle, Bell, CalendarPlus, Copy, Loader2, Repeat } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useCategories, useImportTasks, useTasks } from '@/hooks/use-tasks';
+import { previewImport, type ICalImportItem } from '@/lib/ical';
+import { describeRule, ruleFromRepeatFields } from '@/lib/recurrence';
+import { displayTimeZone } from '@/lib/settings';
+import type { Translate } from '@/lib/i18n';
+import { formatTaskTime } from '@/lib/taskMappers';
+import { toZonedTime } from '@/lib/timezones';
+import type { ImportProgress } from '@/components/APIs/taskImport';
+import type { CalendarSettings } from '@/types/CalendarTypes';
+import type { TaskInput } from '@/types/TaskTypes';
+import { reportImport } from './reportImport';
+
+interface IcsImportDialogProps {
+  fileName: string;
+  items: ICalImportItem[];
+  onClose: () => void;
+}
+
+// Timed items in the display zone; all-day ones on their own date
+const describeWhen = (input: TaskInput, settings: CalendarSettings, t: Translate, locale: Locale) => {
+  const { dateFormat, timeFormat } = settings;
+  const value = input.specific_time || input.deadline;
+  if (!value) return t('ics.noDate');
+  const date = toZonedTime(new Date(value), input.specific_time ? displayTimeZone(settings) : input.timezone);
+  const day = `${format(date, 'EEE', { locale })}, ${format(date, dateFormat, { locale })}`;
+  return input.specific_time ? `${day} ${formatTaskTime(date, timeFormat, undefined, locale)}` : day;
+};
+
+export const IcsImportDialog = ({ fileName, items, onClose }: IcsImportDialogProps) => {
+  const { data: tasks = [] } = useTasks();
+  const { data: categories = [] } = useCategories();
+  const { settings } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const importTasks = useImportTasks();
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const rows = useMemo(() => previewImport(items, tasks), [items, tasks]);
+  // Duplicates start unticked; ticking one imports it anyway
+  const [selected, setSelected] = useState(
+    () => new Set(rows.flatMap((row, index) => (row.duplicateOf || row.repeatedInFile ? [] : [index])))
+  );
+  const duplicates = rows.filter(row => row.duplicateOf || row.repeatedInFile).length;
+
+  const toggle = (index: number) =>
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  const handleImport = async () => {
+    const inputs = rows.filter((_, index) => selected.has(index)).map(row => row.item.input);
+    reportImport(await importTasks.mutateAsync({ inputs, onProgress: setProgress }), fileName, t);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <Card className="bg-white rounded-2xl w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl border-0 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <CalendarPlus className="h-5 w-5 text-blue-600" />
+            {t('transfer.title', { file: fileName })}
+          </h2>
+          <p className="text-sm text-gray-600">
+            {t('ics.found', { count: rows.length, duplicates })}
+          </p>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('ics.empty')}</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto divide-y border rounded-lg">
+            {rows.map(({ item, duplicateOf, repeatedInFile }, index) => {
+              const rule = ruleFromRepeatFields(item.input);
+              const category = categories.find(entry => entry.id === item.input.category);
+              return (
+                <label key={index} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggle(index)}
+                    disabled={importTasks.isPending}
+                    className="mt-1 rounded border-gray-300"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 truncate">{item.input.name}</span>
+                      <span className="text-xs text-gray-500">{item.kind === 'VEVENT' ? t('ics.event') : t('ics.todo')}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                      <span>{describeWhen(item.input, settings, t, dateLocale)}</span>
+                      {rule && (
+                        <span className="flex items-center gap-1">
+                          <Repeat className="h-3 w-3" />
+                          {describeRule(rule, t, dateLocale)}
+                        </span>
+                      )}
+                      {item.input.reminders?.length > 0 && (
+                        <span className="flex items-center gap-1">
+                          <Bell className="h-3 w-3" />
+                          {t('ics.reminders', { count: item.input.reminders.length })}
+                        </span>
+                      )}
+                      {category && <span style={{ color: category.color_hex }}>{category.name}</span>}
+                      {item.input.tags?.map(tag => <span key={tag}>#{tag}</span>)}
+                    </div>
+                    {duplicateOf && (
+                      <p className="flex items-center gap-1 text-xs text-amber-700">
+                        <Copy className="h-3 w-3" />
+                        {t('ics.duplicate', { task: duplicateOf.name })}
+                      </p>
+                    )}
+                    {!duplicateOf && repeatedInFile && (
+                      <p className="flex items-center gap-1 text-xs text-amber-700">
+                        <Copy className="h-3 w-3" />
+                        {t('ics.repeatedInFile')}
+                      </p>
+                    )}
+                    {item.warnings.map(warning => (
+                      <p key={warning} className="flex items-center gap-1 text-xs text-amber-700">
+                        <AlertTriangle className="h-3 w-3" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="outline" className="flex-1" onClick={onClose} disabled={importTasks.isPending}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            onClick={() => handleImport().catch(() => undefined)}
+            disabled={selected.size === 0 || importTasks.isPending}
+          >
+            {importTasks.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            {importTasks.isPending && progress
+              ? t('transfer.importing', { done: progress.done, total: progress.total })
+              : t('transfer.importTasks', { count: selected.size })}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+// src/components/transfer/ImportExportMenu.tsx
+// Export the tasks shown as .ics, CSV or JSON, or import one of those files through a preview
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { ArrowDownUp, Download, Upload } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/calendar_ui/popover';
+import { useI18n } from '@/hooks/use-i18n';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/use-tasks';
+import { downloadTextFile, exportFileName } from '@/lib/download';
+import { parseICalendar, tasksToICalendar, type ICalImportItem } from '@/lib/ical';
+import { parseTaskFile, tasksToCsv, tasksToJson, type TaskTable } from '@/lib/taskTable';
+import type { Task } from '@/types/TaskTypes';
+import { IcsImportDialog } from './IcsImportDialog';
+import { TableImportDialog } from './TableImportDialog';
+
+interface ImportExportMenuProps {
+  tasks: Task[]; // what the current view shows, which is what gets exported
+}
+
+type PendingImport =
+  | { kind: 'ics'; fileName: string; items: ICalImportItem[] }
+  | { kind: 'table'; fileName: string; table: TaskTable };
+
+const EXPORT_FORMATS = [
+  { extension: 'ics', label: '.ics', type: 'text/calendar', write: (tasks: Task[]) => tasksToICalendar(tasks, { name: 'DeepTalk tasks' }) },
+  { extension: 'csv', label: 'CSV', type: 'text/csv', write: tasksToCsv },
+  { extension: 'json', label: 'JSON', type: 'application/json', write: tasksToJson },
+];
+
+const isICalendar = (fileName: string, text: string) => /\.(ics|ical)$/i.test(fileName) || /^\s*BEGIN:VCALENDAR/i.test(text);
+
+export const ImportExportMenu = ({ tasks }: ImportExportMenuProps) => {
+  const { data: categories = [] } = useCategories();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+
+  const handleExport = (format: typeof EXPORT_FORMATS[number]) => {
+    const fileName = exportFileName('tasks', format.extension);
+    downloadTextFile(fileName, format.write(tasks), format.type);
+    console.log(`📤 Exported ${tasks.length} tasks to ${fileName}`);
+    setOpen(false);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // picking the same file again still fires change
+    if (!file) return;
+    setOpen(false);
+    try {
+      const text = await file.text();
+      setPending(
+        isICalendar(file.name, text)
+          ? { kind: 'ics', fileName: file.name, items: parseICalendar(text, categories) }
+          : { kind: 'table', fileName: file.name, table: parseTaskFile(file.name, text) }
+      );
+    } catch (error) {
+      toast({
+        title: t('transfer.readFailed', { file: file.name }),
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9">
+            <ArrowDownUp className="h-4 w-4" />
+            {t('transfer.menu')}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 p-2 space-y-1">
+          {EXPORT_FORMATS.map(format => (
+            <Button
+              key={format.extension}
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => handleExport(format)}
+              disabled={tasks.length === 0}
+            >
+              <Download className="h-4 w-4" />
+              {t('transfer.export', { count: tasks.length, format: format.label })}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" className="w-full justify-start" onClick={() => fileInput.current?.click()}>
+            <Upload className="h-4 w-4" />
+            {t('transfer.import')}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".ics,.ical,text/calendar,.csv,.tsv,text/csv,.json,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e).catch(() => undefined)}
+      />
+
+      {pending?.kind === 'ics' && (
+        <IcsImportDialog fileName={pending.fileName} items={pending.items} onClose={() => setPending(null)} />
+      )}
+      {pending?.kind === 'table' && (
+        <TableImportDialog fileName={pending.fileName} table={pending.table} onClose={() => setPending(null)} />
+      )}
+    </>
+  );
+};
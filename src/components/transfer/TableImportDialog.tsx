@@ -0,0 +1,225 @@
+// src/components/transfer/TableImportDialog.tsx
+// CSV/JSON import: map columns to task fields, review each row's problems, then create the valid rows in chunks
+
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowRight, FileSpreadsheet, Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import { useCategories, useImportTasks } from '@/hooks/use-tasks';
+import type { MessageKey } from '@/lib/i18n';
+import {
+  TASK_FIELDS, guessDateOrder, guessMapping, validateTable, type ColumnMapping, type DateOrder, type TaskTable
+} from '@/lib/taskTable';
+import type { ImportProgress } from '@/components/APIs/taskImport';
+import type { TaskInput } from '@/types/TaskTypes';
+import { reportImport } from './reportImport';
+
+interface TableImportDialogProps {
+  fileName: string;
+  table: TaskTable;
+  onClose: () => void;
+}
+
+// Enough to check the problems without rendering hundreds of rows
+const REVIEW_ROW_LIMIT = 200;
+const SAMPLE_COUNT = 2;
+
+export const TableImportDialog = ({ fileName, table, onClose }: TableImportDialogProps) => {
+  const { data: categories = [] } = useCategories();
+  const importTasks = useImportTasks();
+  const { t } = useI18n();
+  const [step, setStep] = useState<'map' | 'review'>('map');
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(table.headers));
+  const [dateOrder, setDateOrder] = useState<DateOrder>(() => guessDateOrder(table, guessMapping(table.headers)));
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const stopper = useRef<AbortController | null>(null);
+
+  // Every field in TASK_FIELDS has a 'taskField.' message
+  const fieldLabel = (key: keyof TaskInput) => t(`taskField.${key}` as MessageKey);
+  const repeatedFields = mapping.filter((key, index) => key && mapping.indexOf(key) !== index);
+  const mappingError = !mapping.includes('name')
+    ? t('table.needName')
+    : repeatedFields.length
+      ? t('table.pickedTwice', { field: fieldLabel(repeatedFields[0]) })
+      : null;
+  const usesDates = mapping.some(key => key === 'deadline' || key === 'specific_time' || key === 'repeat_end_date');
+
+  const results = useMemo(
+    () => (step === 'review' ? validateTable(table, mapping, categories, dateOrder) : []),
+    [step, table, mapping, categories, dateOrder]
+  );
+  const valid = results.filter(result => result.input);
+  const shown = (problemsOnly ? results.filter(result => result.errors.length || result.warnings.length) : results)
+    .slice(0, REVIEW_ROW_LIMIT);
+
+  const samples = (column: number) =>
+    table.rows.map(row => row[column]?.trim()).filter(Boolean).slice(0, SAMPLE_COUNT);
+
+  const setColumn = (column: number, key: keyof TaskInput | null) =>
+    setMapping(current => current.map((existing, index) => (index === column ? key : existing)));
+
+  const handleImport = async () => {
+    stopper.current = new AbortController();
+    const result = await importTasks.mutateAsync({
+      inputs: valid.map(row => row.input),
+      onProgress: setProgress,
+      signal: stopper.current.signal,
+    });
+    reportImport(result, fileName, t);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <Card className="bg-white rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col shadow-2xl border-0 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-blue-600" />
+            {t('transfer.title', { file: fileName })}
+          </h2>
+          <p className="text-sm text-gray-600">
+            {step === 'map'
+              ? t('table.rows', { count: table.rows.length })
+              : t('table.ready', { valid: valid.length, count: results.length })}
+          </p>
+        </div>
+
+        {step === 'map' ? (
+          <>
+            <div className="flex-1 overflow-y-auto border rounded-lg divide-y">
+              {table.headers.map((header, column) => (
+                <div key={column} className="grid grid-cols-[1fr_1fr_1fr] items-center gap-3 px-3 py-2 text-sm">
+                  <span className="font-medium text-gray-900 truncate" title={header}>{header}</span>
+                  <span className="text-xs text-gray-500 truncate" title={samples(column).join(' · ')}>
+                    {samples(column).join(' · ') || t('table.empty')}
+                  </span>
+                  <select
+                    value={mapping[column] ?? ''}
+                    onChange={(e) => setColumn(column, (e.target.value || null) as keyof TaskInput | null)}
+                    className="border border-gray-300 rounded-lg px-2 py-1 bg-white"
+                    aria-label={t('table.fieldFor', { column: header })}
+                  >
+                    <option value="">{t('table.skipColumn')}</option>
+                    {TASK_FIELDS.map(field => (
+                      <option key={field.key} value={field.key}>{fieldLabel(field.key)}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {usesDates && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                {t('table.dateOrder')}
+                <select
+                  value={dateOrder}
+                  onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                  className="border border-gray-300 rounded-lg px-2 py-1 bg-white"
+                >
+                  <option value="mdy">{t('table.mdy')}</option>
+                  <option value="dmy">{t('table.dmy')}</option>
+                </select>
+              </label>
+            )}
+            {mappingError && <p className="text-sm text-red-600">{mappingError}</p>}
+          </>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={problemsOnly}
+                onChange={(e) => setProblemsOnly(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              {t('table.problemsOnly')}
+            </label>
+            <div className="flex-1 overflow-y-auto border rounded-lg divide-y">
+              {shown.length === 0 && <p className="p-3 text-sm text-muted-foreground">{t('table.noProblems')}</p>}
+              {shown.map(result => {
+                const cells = table.rows[result.row - 1];
+                const name = cells[mapping.indexOf('name')]?.trim();
+                return (
+                  <div key={result.row} className="px-3 py-2 text-sm space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-400 w-14 shrink-0">{t('table.row', { row: result.row })}</span>
+                      <span className={result.input ? 'text-gray-900 truncate' : 'text-gray-400 line-through truncate'}>
+                        {name || t('table.noName')}
+                      </span>
+                    </div>
+                    {result.errors.map(error => (
+                      <p key={error} className="flex items-center gap-1 pl-16 text-xs text-red-600">
+                        <XCircle className="h-3 w-3 shrink-0" />
+                        {error}
+                      </p>
+                    ))}
+                    {result.warnings.map(warning => (
+                      <p key={warning} className="flex items-center gap-1 pl-16 text-xs text-amber-700">
+                        <AlertTriangle className="h-3 w-3 shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                );
+              })}
+              {results.length > REVIEW_ROW_LIMIT && shown.length === REVIEW_ROW_LIMIT && (
+                <p className="p-3 text-xs text-muted-foreground">{t('table.firstRows', { count: REVIEW_ROW_LIMIT })}</p>
+              )}
+            </div>
+            {importTasks.isPending && progress && (
+              <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          {step === 'map' ? (
+            <>
+              <Button variant="outline" className="flex-1" onClick={onClose}>
+                {t('common.cancel')}
+              </Button>
+              <Button
+                className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                onClick={() => setStep('review')}
+                disabled={Boolean(mappingError)}
+              >
+                {t('table.check')}
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            </>
+          ) : importTasks.isPending ? (
+            <>
+              <Button variant="outline" className="flex-1" onClick={() => stopper.current?.abort()}>
+                {t('transfer.stop')}
+              </Button>
+              <Button className="flex-1" disabled>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {progress ? t('transfer.importing', { done: progress.done, total: progress.total }) : t('transfer.importingShort')}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" className="flex-1" onClick={() => setStep('map')}>
+                {t('transfer.back')}
+              </Button>
+              <Button
+                className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                onClick={() => handleImport().catch(() => undefined)}
+                disabled={valid.length === 0}
+              >
+                {t('transfer.importTasks', { count: valid.length })}
+              </Button>
+            </>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
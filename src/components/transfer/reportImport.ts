@@ -0,0 +1,22 @@
+// src/components/transfer/reportImport.ts
+// The toasts shown when an import finishes, the same for every file format
+
+import type { ImportResult } from '@/components/APIs/taskImport';
+import { toast } from '@/hooks/use-toast';
+import { translateEnglish, type Translate } from '@/lib/i18n';
+
+export const reportImport = ({ created, failed, stopped }: ImportResult, fileName: string, t: Translate = translateEnglish) => {
+  if (created.length) {
+    toast({
+      title: t('transfer.imported', { count: created.length }),
+      description: stopped ? t('transfer.stopped', { file: fileName, count: stopped }) : fileName,
+    });
+  }
+  if (failed.length) {
+    toast({
+      title: t('transfer.failed', { count: failed.length }),
+      description: `${failed[0].input.name}: ${failed[0].error}`,
+      variant: 'destructive',
+    });
+  }
+};
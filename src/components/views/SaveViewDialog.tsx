@@ -0,0 +1,128 @@
+// src/components/views/SaveViewDialog.tsx
+// Names the current filter and layout as a saved view, or renames and re-pins an existing one
+
+import { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Bookmark, Loader2 } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { Card } from '@/components/calendar_ui/card';
+import { Input } from '@/components/calendar_ui/input';
+import { Label } from '@/components/calendar_ui/label';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSaveView } from '@/hooks/use-saved-views';
+import { DATE_WINDOWS, savedViewFromLocation } from '@/lib/savedViews';
+import type { SavedView, SavedViewDateWindow } from '@/types/CalendarTypes';
+
+interface SaveViewDialogProps {
+  view?: SavedView | null; // unset to save what is shown now as a new view
+  onClose: () => void;
+}
+
+export const SaveViewDialog = ({ view, onClose }: SaveViewDialogProps) => {
+  const location = useLocation();
+  const saveView = useSaveView();
+  const { t } = useI18n();
+  const [name, setName] = useState(view?.name ?? '');
+  const [pinned, setPinned] = useState(view?.pinned ?? true);
+  const [dateWindow, setDateWindow] = useState<SavedViewDateWindow | ''>(view?.dateWindow ?? '');
+  // Editing keeps the saved filter unless asked to take over the current one
+  const [useCurrent, setUseCurrent] = useState(!view);
+
+  const details = { name, pinned, dateWindow: dateWindow || null };
+  const current = savedViewFromLocation(location.pathname, location.search, details);
+  const shown = useCurrent ? current : view;
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    const input = useCurrent ? current : { ...details, name: name.trim() };
+    await saveView.mutateAsync({ view, input });
+    console.log('🔖 Saved view:', input.name);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <Card className="bg-white rounded-2xl w-full max-w-md shadow-2xl border-0 p-6 space-y-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Bookmark className="h-5 w-5 text-blue-600" />
+          {view ? t('views.edit') : t('views.save')}
+        </h2>
+
+        <div className="space-y-2">
+          <Label htmlFor="saved-view-name">{t('views.name')}</Label>
+          <Input
+            id="saved-view-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave().catch(() => undefined);
+            }}
+            placeholder={t('views.namePlaceholder')}
+            autoFocus
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="saved-view-window">{t('views.dates')}</Label>
+          <select
+            id="saved-view-window"
+            value={dateWindow}
+            onChange={(e) => setDateWindow(e.target.value as SavedViewDateWindow | '')}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 bg-white text-sm"
+          >
+            <option value="">{t('views.asFiltered')}</option>
+            {DATE_WINDOWS.map(option => (
+              <option key={option} value={option}>{t('views.window', { window: t(`dateWindow.${option}`) })}</option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={pinned}
+            onChange={(e) => setPinned(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          {t('views.pinToSidebar')}
+        </label>
+
+        {view && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useCurrent}
+              onChange={(e) => setUseCurrent(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t('views.replace')}
+          </label>
+        )}
+
+        {shown && (
+          <p className="text-xs text-muted-foreground">
+            {t('views.summary', {
+              layout: t(`view.${shown.layout}`),
+              sort: t(`sort.${shown.sort}`).toLowerCase(),
+              filter: shown.query ? 'current' : 'none',
+            })}
+          </p>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="outline" className="flex-1" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            onClick={() => handleSave().catch(() => undefined)}
+            disabled={!name.trim() || saveView.isPending}
+          >
+            {saveView.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
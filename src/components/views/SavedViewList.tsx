@@ -0,0 +1,118 @@
+// src/components/views/SavedViewList.tsx
+// Saved views to open, pin, share, edit or delete, plus saving what is shown now
+
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { BookmarkPlus, Link2, Pencil, Pin, PinOff, Trash2 } from 'lucide-react';
+import { Button } from '@/components/calendar_ui/button';
+import { useI18n } from '@/hooks/use-i18n';
+import { useToast } from '@/hooks/use-toast';
+import { useDeleteView, useSaveView, useSavedViews } from '@/hooks/use-saved-views';
+import { useSettings } from '@/hooks/use-settings';
+import { savedViewPath, savedViewUrl } from '@/lib/savedViews';
+import { cn } from '@/lib/utils';
+import type { SavedView } from '@/types/CalendarTypes';
+import { SaveViewDialog } from './SaveViewDialog';
+
+interface SavedViewListProps {
+  pinnedOnly?: boolean;
+}
+
+export const SavedViewList = ({ pinnedOnly }: SavedViewListProps) => {
+  const { data: views = [], isLoading } = useSavedViews();
+  const { startOfWeek } = useSettings().settings;
+  const saveView = useSaveView();
+  const deleteView = useDeleteView();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  // undefined: closed, null: saving a new view
+  const [editing, setEditing] = useState<SavedView | null | undefined>(undefined);
+
+  const shown = pinnedOnly ? views.filter(view => view.pinned) : views;
+  const here = `${location.pathname}${location.search}`;
+
+  const copyLink = async (view: SavedView) => {
+    const url = `${window.location.origin}${savedViewPath(view.id)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: t('views.linkCopied'), description: url });
+    } catch {
+      toast({ title: t('views.copyFailed'), description: url, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {isLoading && <p className="text-xs text-muted-foreground px-2">{t('views.loading')}</p>}
+      {!isLoading && shown.length === 0 && (
+        <p className="text-xs text-muted-foreground px-2">
+          {pinnedOnly ? t('views.pinnedEmpty') : t('views.empty')}
+        </p>
+      )}
+
+      {shown.map(view => {
+        const url = savedViewUrl(view, startOfWeek);
+        const layout = t(`view.${view.layout}`);
+        return (
+          <div
+            key={view.id}
+            className={cn('group flex items-center gap-1 rounded px-2 py-1 hover:bg-gray-50', url === here && 'bg-blue-50')}
+          >
+            <button
+              type="button"
+              onClick={() => navigate(url)}
+              className="flex-1 min-w-0 text-left"
+              title={t('views.openAs', { layout })}
+            >
+              <div className="text-sm font-medium truncate">{view.name}</div>
+              <div className="text-xs text-muted-foreground">{layout}</div>
+            </button>
+            <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+              <button
+                type="button"
+                onClick={() => saveView.mutate({ view, input: { pinned: !view.pinned } })}
+                className="p-1 text-gray-400 hover:text-blue-600"
+                aria-label={t(view.pinned ? 'views.unpin' : 'views.pin', { name: view.name })}
+              >
+                {view.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => copyLink(view)}
+                className="p-1 text-gray-400 hover:text-blue-600"
+                aria-label={t('views.copyLink', { name: view.name })}
+              >
+                <Link2 className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(view)}
+                className="p-1 text-gray-400 hover:text-blue-600"
+                aria-label={t('views.editView', { name: view.name })}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteView.mutate(view)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                aria-label={t('views.deleteView', { name: view.name })}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button variant="ghost" size="sm" className="w-full justify-start" onClick={() => setEditing(null)}>
+        <BookmarkPlus className="h-4 w-4" />
+        {t('views.saveCurrent')}
+      </Button>
+
+      {editing !== undefined && <SaveViewDialog view={editing} onClose={() => setEditing(undefined)} />}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import * as React from "react"
+
+// Navigation the command palette asks of whichever calendar is mounted;
+// module-level like use-task-conflicts, since the palette sits outside the calendar
+export type CalendarCommand = { type: "today" }
+
+const listeners: Array<(command: CalendarCommand) => void> = []
+
+export function sendCalendarCommand(command: CalendarCommand) {
+  listeners.forEach((listener) => listener(command))
+}
+
+export function useCalendarCommands(onCommand: (command: CalendarCommand) => void) {
+  React.useEffect(() => {
+    listeners.push(onCommand)
+    return () => {
+      const index = listeners.indexOf(onCommand)
+      if (index > -1) listeners.splice(index, 1)
+    }
+  }, [onCommand])
+}
@@ -0,0 +1,21 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+
+import { filterFromSearchParams, filterToSearchParams } from "@/lib/calendarFilter"
+import type { CalendarFilter } from "@/types/CalendarTypes"
+
+// The active filter lives in the query string, so a filtered calendar, agenda or board can be shared
+// and survives a reload; every view reading it shows the same tasks
+export function useCalendarFilter() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filter = useMemo(() => filterFromSearchParams(searchParams), [searchParams])
+
+  // Replaces the history entry, so typing a search doesn't leave one entry per keystroke
+  const setFilter = useCallback(
+    (next: CalendarFilter) => setSearchParams(current => filterToSearchParams(next, current), { replace: true }),
+    [setSearchParams]
+  )
+  const clearFilter = useCallback(() => setFilter({}), [setFilter])
+
+  return { filter, setFilter, clearFilter }
+}
@@ -0,0 +1,27 @@
+import * as React from "react"
+
+import { readFocusSession, remainingMs, subscribeFocusSession, type FocusSession } from "@/lib/focusSession"
+
+// The focus session under way, kept current across tabs
+export function useFocusSession() {
+  const [session, setSession] = React.useState<FocusSession | null>(readFocusSession)
+
+  React.useEffect(() => subscribeFocusSession(setSession), [])
+
+  return session
+}
+
+// Milliseconds left in the phase, ticking every second while it runs
+export function useRemaining(session: FocusSession | null) {
+  const [now, setNow] = React.useState(() => Date.now())
+  const running = Boolean(session?.endsAt)
+
+  React.useEffect(() => {
+    if (!running) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [running])
+
+  return session ? remainingMs(session, new Date(now)) : 0
+}
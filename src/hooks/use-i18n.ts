@@ -0,0 +1,21 @@
+import * as React from "react"
+
+import { useSettings } from "@/hooks/use-settings"
+import { createTranslator, LANGUAGES, resolveLanguage, textDirection } from "@/lib/i18n"
+
+// The UI language from settings: its translator, date-fns locale and speech language
+export function useI18n() {
+  const { settings } = useSettings()
+  const code = resolveLanguage(settings.language)
+
+  return React.useMemo(() => {
+    const language = LANGUAGES[code]
+    return {
+      language: code,
+      t: createTranslator(code),
+      dateLocale: language.dateLocale,
+      speechLang: language.speechLang,
+      dir: textDirection(code),
+    }
+  }, [code])
+}
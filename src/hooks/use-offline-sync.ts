@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+
+import {
+  discardOutboxEntry,
+  readOutbox,
+  replayOutbox,
+  requeueOutboxEntry,
+} from "@/components/APIs/offlineSync"
+import { useI18n } from "@/hooks/use-i18n"
+import { taskKeys, useInvalidateTasks } from "@/hooks/use-tasks"
+import { useToast } from "@/hooks/use-toast"
+
+// Connection state and the outbox of task changes waiting for the server;
+// replays the outbox whenever the browser comes back online
+export function useOfflineSync() {
+  const queryClient = useQueryClient()
+  const invalidateTasks = useInvalidateTasks()
+  const { toast } = useToast()
+  const { t } = useI18n()
+  const [isOnline, setIsOnline] = useState(navigator.onLine)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const { data: entries = [] } = useQuery({
+    queryKey: taskKeys.outbox(),
+    queryFn: readOutbox,
+    networkMode: "always",
+  })
+
+  const refreshOutbox = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: taskKeys.outbox() }),
+    [queryClient]
+  )
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine) return
+    setIsSyncing(true)
+    try {
+      const result = await replayOutbox()
+      if (result.sent > 0) {
+        toast({
+          title: t("offline.savedTitle"),
+          description: t("offline.savedBody", { count: result.sent }),
+        })
+        await invalidateTasks()
+      }
+      if (result.failed > 0) {
+        toast({
+          title: t("offline.failedTitle"),
+          description: t("offline.failedBody"),
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("❌ Failed to replay offline changes:", error)
+    } finally {
+      setIsSyncing(false)
+      refreshOutbox()
+    }
+  }, [invalidateTasks, refreshOutbox, toast, t])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [sync])
+
+  // Changes queued in an earlier session go out as soon as the app opens
+  useEffect(() => {
+    sync()
+  }, [sync])
+
+  const retry = useCallback(
+    async (seq: number, force = false) => {
+      await requeueOutboxEntry(seq, force)
+      await sync()
+    },
+    [sync]
+  )
+
+  const discard = useCallback(
+    async (seq: number) => {
+      await discardOutboxEntry(seq)
+      await refreshOutbox()
+      // The lists still show the discarded change until they are rebuilt from the saved copy
+      await invalidateTasks({ stats: false })
+    },
+    [invalidateTasks, refreshOutbox]
+  )
+
+  return {
+    isOnline,
+    isSyncing,
+    entries,
+    pending: entries.filter((entry) => entry.status === "pending"),
+    failed: entries.filter((entry) => entry.status !== "pending"),
+    sync,
+    retry,
+    discard,
+  }
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { createSavedView, deleteSavedView, fetchSavedViews, updateSavedView } from "@/components/APIs/savedViews"
+import { useI18n } from "@/hooks/use-i18n"
+import { useToast } from "@/hooks/use-toast"
+import type { Translate } from "@/lib/i18n"
+import type { SavedView, SavedViewInput } from "@/types/CalendarTypes"
+
+export const savedViewKeys = {
+  all: ["saved-views"] as const,
+}
+
+const errorMessage = (error: unknown, t: Translate) =>
+  error instanceof Error ? error.message : t("common.tryAgain")
+
+export function useSavedViews() {
+  return useQuery({
+    queryKey: savedViewKeys.all,
+    queryFn: fetchSavedViews,
+    staleTime: 5 * 60 * 1000,
+    // Falls back to this browser's copy when offline
+    networkMode: "offlineFirst",
+  })
+}
+
+// Creates a view, or updates the one passed in
+export function useSaveView() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    mutationFn: ({ view, input }: { view?: SavedView | null; input: Partial<SavedViewInput> }) =>
+      view ? updateSavedView(view, input) : createSavedView(input as SavedViewInput),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<SavedView[]>(savedViewKeys.all, (views = []) =>
+        views.some((view) => view.id === saved.id)
+          ? views.map((view) => (view.id === saved.id ? saved : view))
+          : [...views, saved]
+      )
+    },
+    onError: (error) => {
+      toast({ title: t("views.saveFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+  })
+}
+
+export function useDeleteView() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    mutationFn: deleteSavedView,
+    onSuccess: (_result, deleted) => {
+      queryClient.setQueryData<SavedView[]>(savedViewKeys.all, (views = []) =>
+        views.filter((view) => view.id !== deleted.id)
+      )
+    },
+    onError: (error) => {
+      toast({ title: t("views.deleteFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+  })
+}
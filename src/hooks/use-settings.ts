@@ -0,0 +1,25 @@
+import * as React from "react"
+
+import { DEFAULT_CALENDAR_SETTINGS, type SettingsChanges } from "@/lib/settings"
+import type { CalendarSettings } from "@/types/CalendarTypes"
+
+export const settingsKeys = {
+  all: ["settings"] as const,
+}
+
+export interface SettingsContextValue {
+  settings: CalendarSettings
+  updateSettings: (changes: SettingsChanges) => void
+  isSaving: boolean
+}
+
+// Provided by SettingsProvider; the defaults keep components usable outside it
+export const SettingsContext = React.createContext<SettingsContextValue>({
+  settings: DEFAULT_CALENDAR_SETTINGS,
+  updateSettings: () => undefined,
+  isSaving: false,
+})
+
+export function useSettings() {
+  return React.useContext(SettingsContext)
+}
@@ -0,0 +1,24 @@
+import { useEffect, useRef } from "react"
+
+import { useTasks, useUpdateTask } from "@/hooks/use-tasks"
+import { staleRollups } from "@/lib/subtasks"
+
+// Writes a parent's progress and effort whenever its subtasks or checklist change,
+// so filtered lists, stats and other clients see the rolled-up numbers too
+export function useSubtaskRollups() {
+  const { data: tasks } = useTasks()
+  const { mutate: updateTask } = useUpdateTask({ errorTitle: "Couldn't update the parent task's progress" })
+  // Each target value is written once per session, so a rejected save doesn't retry in a loop
+  const written = useRef(new Set<string>())
+
+  useEffect(() => {
+    if (!tasks) return
+    staleRollups(tasks).forEach(({ id, input }) => {
+      const key = `${id}:${input.completion_percentage}:${input.estimated_effort_hours}`
+      if (written.current.has(key)) return
+      written.current.add(key)
+      console.log("🧮 Rolling up subtask progress:", input.name, `${input.completion_percentage}%`)
+      updateTask({ id, input })
+    })
+  }, [tasks, updateTask])
+}
@@ -0,0 +1,57 @@
+import * as React from "react"
+
+import { TaskConflictError } from "@/components/APIs/taskClient"
+import type { Task, TaskInput } from "@/types/TaskTypes"
+
+// An update the server refused because the task was saved elsewhere in the meantime
+export interface TaskConflict {
+  id: string
+  taskId: string
+  base: Task // the task as it was when the edit started
+  mine: Partial<TaskInput>
+  theirs: Task // the task as it is on the server now
+}
+
+// Same module-level store as use-toast, so any mutation can report a conflict
+// and whichever page is mounted shows the merge dialog
+let conflicts: TaskConflict[] = []
+const listeners: Array<(conflicts: TaskConflict[]) => void> = []
+let count = 0
+
+const emit = () => listeners.forEach((listener) => listener(conflicts))
+
+export function reportTaskConflict(conflict: Omit<TaskConflict, "id">) {
+  count += 1
+  // A newer conflict on the same task replaces the older one
+  conflicts = [...conflicts.filter((item) => item.taskId !== conflict.taskId), { ...conflict, id: String(count) }]
+  emit()
+}
+
+// For writes that go around useUpdateTask (series edits, assistant actions); false for any other error
+export function reportConflictError(error: unknown, base?: Task) {
+  if (!(error instanceof TaskConflictError)) return false
+  reportTaskConflict({ taskId: error.current.id, base: base ?? error.current, mine: error.attempted, theirs: error.current })
+  return true
+}
+
+export function dismissTaskConflict(id: string) {
+  conflicts = conflicts.filter((item) => item.id !== id)
+  emit()
+}
+
+export function useTaskConflicts() {
+  const [state, setState] = React.useState<TaskConflict[]>(conflicts)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) listeners.splice(index, 1)
+    }
+  }, [])
+
+  return {
+    conflicts: state,
+    dismiss: dismissTaskConflict,
+  }
+}
@@ -0,0 +1,408 @@
+import { useCallback } from "react"
+import { useMutation, useQuery, useQueryClient, type QueryClient, type QueryKey } from "@tanstack/react-query"
+
+import { fetchCategoriesWithReplica, fetchTasksWithReplica, sendOrQueue } from "@/components/APIs/offlineSync"
+import { TaskConflictError, taskClient } from "@/components/APIs/taskClient"
+import { importTasks, type ImportOptions } from "@/components/APIs/taskImport"
+import { useI18n } from "@/hooks/use-i18n"
+import { reportTaskConflict } from "@/hooks/use-task-conflicts"
+import { useToast } from "@/hooks/use-toast"
+import type { Translate } from "@/lib/i18n"
+import { applyTaskInput, draftTask } from "@/lib/taskMappers"
+import { TEMP_ID_PREFIX } from "@/lib/taskOutbox"
+import type { Task, TaskCategory, TaskInput, TaskRevision, TaskStatus } from "@/types/TaskTypes"
+
+type ListStatus = TaskStatus | "all"
+
+export const taskKeys = {
+  all: ["tasks"] as const,
+  lists: () => [...taskKeys.all, "list"] as const,
+  list: (status: ListStatus = "all") => [...taskKeys.lists(), status] as const,
+  stats: () => ["task-stats"] as const,
+  categories: () => ["task-categories"] as const,
+  outbox: () => ["task-outbox"] as const,
+}
+
+const TASK_REFETCH_INTERVAL = 60 * 1000
+
+// Fields that change the numbers on the stats endpoint
+const STATS_FIELDS: (keyof TaskInput)[] = ["status", "deadline"]
+
+const affectsStats = (input: Partial<TaskInput>) => STATS_FIELDS.some((field) => field in input)
+
+export function useTasks(status: ListStatus = "all") {
+  return useQuery({
+    queryKey: taskKeys.list(status),
+    queryFn: () => fetchTasksWithReplica(status),
+    // Pick up changes made in other tabs or by the assistant while the page is open
+    refetchInterval: TASK_REFETCH_INTERVAL,
+    // Run the query offline too; it falls back to the saved copy
+    networkMode: "offlineFirst",
+  })
+}
+
+export function useTaskStats() {
+  return useQuery({
+    queryKey: taskKeys.stats(),
+    queryFn: () => taskClient.getTaskStats(),
+  })
+}
+
+export function useCategories() {
+  return useQuery({
+    queryKey: taskKeys.categories(),
+    queryFn: () => fetchCategoriesWithReplica(),
+    staleTime: 5 * 60 * 1000,
+    networkMode: "offlineFirst",
+  })
+}
+
+// ---- Optimistic cache helpers ----
+
+type ListSnapshot = [QueryKey, Task[] | undefined][]
+
+const statusOfList = (queryKey: QueryKey) => (queryKey[2] ?? "all") as ListStatus
+
+// Applies an edit to every cached task list; lists filtered by status drop tasks that no longer match
+const updateTaskLists = (queryClient: QueryClient, update: (tasks: Task[]) => Task[]) => {
+  queryClient.getQueriesData<Task[]>({ queryKey: taskKeys.lists() }).forEach(([queryKey, tasks]) => {
+    if (!tasks) return
+    const status = statusOfList(queryKey)
+    const next = update(tasks).filter((task) => status === "all" || task.status === status)
+    queryClient.setQueryData(queryKey, next)
+  })
+}
+
+const snapshotTaskLists = async (queryClient: QueryClient): Promise<ListSnapshot> => {
+  // Keep an in-flight refetch from overwriting the optimistic change
+  await queryClient.cancelQueries({ queryKey: taskKeys.lists() })
+  return queryClient.getQueriesData<Task[]>({ queryKey: taskKeys.lists() })
+}
+
+// Lists filtered by status may now be missing a task; refetch them next time they are used
+const markFilteredListsStale = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({
+    queryKey: taskKeys.lists(),
+    predicate: (query) => statusOfList(query.queryKey) !== "all",
+    refetchType: "none",
+  })
+
+const restoreTaskLists = (queryClient: QueryClient, snapshot?: ListSnapshot) => {
+  snapshot?.forEach(([queryKey, tasks]) => queryClient.setQueryData<Task[]>(queryKey, tasks))
+}
+
+const findCachedTask = (queryClient: QueryClient, id: string) => {
+  for (const [, tasks] of queryClient.getQueriesData<Task[]>({ queryKey: taskKeys.lists() })) {
+    const task = tasks?.find((item) => item.id === id)
+    if (task) return task
+  }
+  return undefined
+}
+
+const cachedCategories = (queryClient: QueryClient) =>
+  queryClient.getQueryData<TaskCategory[]>(taskKeys.categories())
+
+// A change queued for a task that was not cached leaves the lists as they are
+const replaceTask = (tasks: Task[], id: string, task?: Task) =>
+  task ? tasks.map((item) => (item.id === id ? task : item)) : tasks
+
+const errorMessage = (error: unknown, t: Translate) =>
+  error instanceof Error ? error.message : t("tasks.changeUndone")
+
+interface UpdateTaskVariables {
+  id: string
+  input: Partial<TaskInput>
+  expected?: TaskRevision | null
+}
+
+const revisionOf = (task: Task): TaskRevision => ({ updated_at: task.updated_at, version: task.version })
+
+interface MutationToastOptions {
+  errorTitle?: string
+}
+
+interface UpdateTaskOptions extends MutationToastOptions {
+  mergeConflicts?: boolean // false leaves a conflict to the caller instead of the merge dialog
+}
+
+// Queued changes show up in the pending changes list
+const refreshOutbox = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: taskKeys.outbox() })
+
+// ---- Mutations ----
+
+export function useCreateTask({ errorTitle }: MutationToastOptions = {}) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    mutationFn: (input: TaskInput) => {
+      const tempId = `${TEMP_ID_PREFIX}${Date.now()}`
+      return sendOrQueue(
+        { kind: "create", taskId: tempId, label: input.name, input },
+        () => taskClient.createTask(input),
+        () => draftTask(tempId, input, cachedCategories(queryClient))
+      )
+    },
+    onMutate: async (input) => {
+      const snapshot = await snapshotTaskLists(queryClient)
+      const placeholder = draftTask(`${TEMP_ID_PREFIX}${Date.now()}`, input, cachedCategories(queryClient))
+      updateTaskLists(queryClient, (tasks) => [placeholder, ...tasks])
+      return { snapshot, placeholderId: placeholder.id }
+    },
+    onSuccess: (task, _input, context) => {
+      updateTaskLists(queryClient, (tasks) => replaceTask(tasks, context.placeholderId, task))
+      queryClient.invalidateQueries({ queryKey: taskKeys.stats() })
+    },
+    onError: (error, _input, context) => {
+      restoreTaskLists(queryClient, context?.snapshot)
+      toast({ title: errorTitle ?? t("tasks.addFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+    onSettled: () => refreshOutbox(queryClient),
+  })
+}
+
+export function useUpdateTask({ errorTitle, mergeConflicts = true }: UpdateTaskOptions = {}) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    // expected defaults to the cached revision; pass null to overwrite whatever the server has
+    mutationFn: ({ id, input, expected }: UpdateTaskVariables) => {
+      // Optimistic edits leave updated_at and version alone, so the cache still holds the base revision
+      const cached = findCachedTask(queryClient, id)
+      const revision = expected === undefined ? cached && revisionOf(cached) : expected ?? undefined
+      return sendOrQueue(
+        {
+          kind: "update",
+          taskId: id,
+          label: cached?.name ?? input.name,
+          input,
+          baseUpdatedAt: revision?.updated_at,
+          baseVersion: revision?.version,
+        },
+        () => taskClient.updateTask(id, input, revision),
+        () => cached && applyTaskInput(cached, input, cachedCategories(queryClient))
+      )
+    },
+    onMutate: async ({ id, input }) => {
+      const snapshot = await snapshotTaskLists(queryClient)
+      const previous = findCachedTask(queryClient, id)
+      const categories = cachedCategories(queryClient)
+      updateTaskLists(queryClient, (tasks) =>
+        tasks.map((task) => (task.id === id ? applyTaskInput(task, input, categories) : task))
+      )
+      return { snapshot, previous }
+    },
+    onSuccess: (task, { id, input }) => {
+      updateTaskLists(queryClient, (tasks) => replaceTask(tasks, id, task))
+      if (affectsStats(input)) {
+        queryClient.invalidateQueries({ queryKey: taskKeys.stats() })
+      }
+      if ("status" in input) markFilteredListsStale(queryClient)
+    },
+    onError: (error, { id, input }, context) => {
+      restoreTaskLists(queryClient, context?.snapshot)
+      if (error instanceof TaskConflictError) {
+        // Show the server copy, and let the merge dialog decide what to write on top of it
+        updateTaskLists(queryClient, (tasks) => replaceTask(tasks, id, error.current))
+        if (mergeConflicts) {
+          reportTaskConflict({ taskId: id, base: context?.previous ?? error.current, mine: input, theirs: error.current })
+        }
+        return
+      }
+      toast({ title: errorTitle ?? t("tasks.updateFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+    onSettled: () => refreshOutbox(queryClient),
+  })
+}
+
+export function useToggleTask({ errorTitle }: MutationToastOptions = {}) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    mutationFn: (id: string) => {
+      // onMutate has already flipped the cached copy, so it holds the state to queue
+      const cached = findCachedTask(queryClient, id)
+      return sendOrQueue(
+        {
+          kind: "update",
+          taskId: id,
+          label: cached?.name,
+          input: { name: cached?.name, status: cached?.status, completion_percentage: cached?.completion_percentage },
+          baseUpdatedAt: cached?.updated_at,
+          baseVersion: cached?.version,
+        },
+        () => taskClient.toggleTaskStatus(id),
+        () => cached
+      )
+    },
+    onMutate: async (id) => {
+      const snapshot = await snapshotTaskLists(queryClient)
+      updateTaskLists(queryClient, (tasks) =>
+        tasks.map((task) => {
+          if (task.id !== id) return task
+          const completed = task.status !== "completed"
+          return {
+            ...task,
+            status: completed ? "completed" : "pending",
+            completion_percentage: completed ? 100 : task.completion_percentage === 100 ? 0 : task.completion_percentage,
+          }
+        })
+      )
+      return { snapshot }
+    },
+    onSuccess: (task, id) => {
+      updateTaskLists(queryClient, (tasks) => replaceTask(tasks, id, task))
+      queryClient.invalidateQueries({ queryKey: taskKeys.stats() })
+      markFilteredListsStale(queryClient)
+    },
+    onError: (error, _id, context) => {
+      restoreTaskLists(queryClient, context?.snapshot)
+      toast({ title: errorTitle ?? t("tasks.statusFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+    onSettled: () => refreshOutbox(queryClient),
+  })
+}
+
+export function useDeleteTask({ errorTitle }: MutationToastOptions = {}) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      sendOrQueue({ kind: "delete", taskId: id, label: "" }, () => taskClient.deleteTask(id), () => undefined),
+    onMutate: async (id) => {
+      const snapshot = await snapshotTaskLists(queryClient)
+      updateTaskLists(queryClient, (tasks) => tasks.filter((task) => task.id !== id))
+      return { snapshot }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.stats() })
+    },
+    onError: (error, _id, context) => {
+      restoreTaskLists(queryClient, context?.snapshot)
+      toast({ title: errorTitle ?? t("tasks.deleteFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+    onSettled: () => refreshOutbox(queryClient),
+  })
+}
+
+export function useBulkUpdateTasks({ errorTitle }: MutationToastOptions = {}) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    mutationFn: async ({ ids, input }: { ids: string[]; input: Partial<TaskInput> }) => {
+      if (navigator.onLine) return taskClient.bulkUpdateTasks(ids, input)
+      // Offline, each task gets its own outbox entry so they replay and fail independently
+      const tasks = ids.map((id) => findCachedTask(queryClient, id)).filter(Boolean)
+      return Promise.all(
+        tasks.map((task) =>
+          sendOrQueue(
+            {
+              kind: "update",
+              taskId: task.id,
+              label: task.name,
+              input,
+              baseUpdatedAt: task.updated_at,
+              baseVersion: task.version,
+            },
+            () => taskClient.updateTask(task.id, input),
+            () => task
+          )
+        )
+      )
+    },
+    onMutate: async ({ ids, input }) => {
+      const snapshot = await snapshotTaskLists(queryClient)
+      const categories = cachedCategories(queryClient)
+      updateTaskLists(queryClient, (tasks) =>
+        tasks.map((task) => (ids.includes(task.id) ? applyTaskInput(task, input, categories) : task))
+      )
+      return { snapshot }
+    },
+    onSuccess: (updated, { input }) => {
+      const byId = new Map(updated.map((task) => [task.id, task]))
+      updateTaskLists(queryClient, (tasks) => tasks.map((task) => byId.get(task.id) ?? task))
+      if (affectsStats(input)) {
+        queryClient.invalidateQueries({ queryKey: taskKeys.stats() })
+      }
+      if ("status" in input) markFilteredListsStale(queryClient)
+    },
+    onError: (error, _variables, context) => {
+      restoreTaskLists(queryClient, context?.snapshot)
+      toast({ title: errorTitle ?? t("tasks.updateManyFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+    onSettled: () => refreshOutbox(queryClient),
+  })
+}
+
+export function useBulkDeleteTasks({ errorTitle }: MutationToastOptions = {}) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      if (navigator.onLine) return taskClient.bulkDeleteTasks(ids)
+      await Promise.all(
+        ids.map((id) =>
+          sendOrQueue({ kind: "delete", taskId: id, label: "" }, () => taskClient.deleteTask(id), () => undefined)
+        )
+      )
+    },
+    onMutate: async (ids) => {
+      const snapshot = await snapshotTaskLists(queryClient)
+      updateTaskLists(queryClient, (tasks) => tasks.filter((task) => !ids.includes(task.id)))
+      return { snapshot }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.stats() })
+    },
+    onError: (error, _ids, context) => {
+      restoreTaskLists(queryClient, context?.snapshot)
+      toast({ title: errorTitle ?? t("tasks.deleteManyFailed"), description: errorMessage(error, t), variant: "destructive" })
+    },
+    onSettled: () => refreshOutbox(queryClient),
+  })
+}
+
+// For changes made outside these hooks, e.g. recurring-series edits that touch several tasks;
+// they may have been queued offline, so the pending changes list is refreshed too
+export function useInvalidateTasks() {
+  const queryClient = useQueryClient()
+  return useCallback(
+    (options: { stats?: boolean } = {}) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: taskKeys.lists() }),
+        refreshOutbox(queryClient),
+        options.stats === false ? Promise.resolve() : queryClient.invalidateQueries({ queryKey: taskKeys.stats() }),
+      ]),
+    [queryClient]
+  )
+}
+
+interface ImportTasksVariables extends ImportOptions {
+  inputs: TaskInput[]
+}
+
+// Creates tasks from an import file; the lists refetch once at the end rather than after every task
+export function useImportTasks() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ inputs, ...options }: ImportTasksVariables) => importTasks(inputs, options),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: taskKeys.stats() })
+      refreshOutbox(queryClient)
+    },
+  })
+}
@@ -0,0 +1,37 @@
+import * as React from "react"
+
+import {
+  elapsedMs, readTimeTracking, startTimer, stopTimer, subscribeTimeTracking,
+  type RunningTimer, type TimeTrackingState,
+} from "@/lib/timeTracking"
+import type { Task } from "@/types/TaskTypes"
+
+// The running timer and the entries waiting to be added to their tasks, kept current across tabs
+export function useTimeTracker() {
+  const [state, setState] = React.useState<TimeTrackingState>(readTimeTracking)
+
+  React.useEffect(() => subscribeTimeTracking(setState), [])
+
+  const { running, entries } = state
+  const isRunning = React.useCallback((taskId: string) => running?.taskId === taskId, [running])
+  const toggle = React.useCallback(
+    (task: Pick<Task, "id" | "name">) => (running?.taskId === task.id ? stopTimer() : startTimer(task)),
+    [running]
+  )
+
+  return { running, entries, isRunning, start: startTimer, stop: stopTimer, toggle }
+}
+
+// Milliseconds on the timer, ticking every second while it runs
+export function useElapsed(timer: RunningTimer | null) {
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    if (!timer) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [timer])
+
+  return timer ? elapsedMs(timer, new Date(now)) : 0
+}
@@ -0,0 +1,19 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+
+import { viewOptionsFromSearchParams, viewOptionsToSearchParams, type ViewOptions } from "@/lib/savedViews"
+
+// Calendar view, board grouping and sort live in the query string next to the filter,
+// so a saved view can open a page exactly as it was saved
+export function useViewOptions() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const options = useMemo(() => viewOptionsFromSearchParams(searchParams), [searchParams])
+
+  const setOptions = useCallback(
+    (changes: Partial<ViewOptions>) =>
+      setSearchParams((current) => viewOptionsToSearchParams(changes, current), { replace: true }),
+    [setSearchParams]
+  )
+
+  return { options, setOptions }
+}
@@ -0,0 +1,203 @@
+// src/lib/autoScheduler.test.ts
+// Which tasks the auto-scheduler places, and where
+
+import { format } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import type { Task } from '@/types/TaskTypes';
+import { scheduleTasks, schedulableTasks, type SchedulePlan, type ScheduleOptions } from './autoScheduler';
+import { makeTask } from './testTasks';
+
+const task = (id: string, fields: Partial<Task> = {}) => makeTask({ id, name: `Task ${id}`, ...fields });
+
+const ids = (tasks: Task[]) => tasks.map(item => item.id);
+
+// October 2026 on the device clock (UTC, see vite.config.ts); the 19th is a Monday
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+
+const MONDAY_MORNING = at(19, 8);
+
+const blocks = ({ blocks: placed }: SchedulePlan) =>
+  placed.map(block => `${block.taskId} ${format(block.start, 'EEE HH:mm')}-${format(block.end, 'HH:mm')}`);
+
+const place = (tasks: Task[], options: Partial<ScheduleOptions> = {}) =>
+  scheduleTasks(tasks, { from: MONDAY_MORNING, ...options });
+
+describe('schedulableTasks', () => {
+  it('leaves out scheduled, repeating and finished tasks', () => {
+    expect(ids(schedulableTasks([
+      task('open'),
+      task('timed', { specific_time: '2026-10-20T09:00:00Z' }),
+      task('repeating', { is_repeat: true, repeat_pattern: 'daily' }),
+      task('done', { status: 'completed' }),
+      task('dropped', { status: 'cancelled' }),
+    ]))).toEqual(['open']);
+  });
+
+  it('waits for open prerequisites, whichever side lists the link', () => {
+    expect(ids(schedulableTasks([
+      task('design'),
+      task('build', { prerequisite_tasks: ['design'] }),
+      task('test', { prerequisite_tasks: ['build'] }),
+      task('research', { blocking_tasks: ['write'] }),
+      task('write'),
+    ]))).toEqual(['design', 'research']);
+  });
+
+  it('places a task once its prerequisites are done', () => {
+    expect(ids(schedulableTasks([
+      task('design', { status: 'completed' }),
+      task('spike', { status: 'cancelled' }),
+      task('build', { prerequisite_tasks: ['design', 'spike'] }),
+    ]))).toEqual(['build']);
+  });
+
+  it('places the subtasks instead of their parent', () => {
+    expect(ids(schedulableTasks([
+      task('move'),
+      task('pack', { parent_task: 'move' }),
+      task('book van', { parent_task: 'move', status: 'completed' }),
+      task('trip'),
+      task('visa', { parent_task: 'trip', status: 'cancelled' }),
+    ]))).toEqual(['pack', 'trip']);
+  });
+});
+
+describe('scheduleTasks', () => {
+  it('only proposes blocks for tasks that can be worked on', () => {
+    const plan = scheduleTasks(
+      [task('design'), task('build', { prerequisite_tasks: ['design'] }), task('move'), task('pack', { parent_task: 'move' })],
+      { from: new Date(2026, 9, 19, 8) }
+    );
+    expect(plan.blocks.map(block => block.taskId).sort()).toEqual(['design', 'pack']);
+    expect(plan.unscheduled).toEqual([]);
+  });
+});
+
+describe('scheduleTasks placement', () => {
+  describe('working hours', () => {
+    it('starts at the beginning of the working day', () => {
+      expect(blocks(place([task('a')]))).toEqual(['a Mon 09:00-10:00']);
+    });
+
+    it('moves to the next working day when today has no room left', () => {
+      expect(blocks(place([task('a')], { from: at(19, 16, 30) }))).toEqual(['a Tue 09:00-10:00']);
+    });
+
+    it('skips days off', () => {
+      expect(blocks(place([task('a')], { from: at(23, 16, 30) }))).toEqual(['a Mon 09:00-10:00']);
+    });
+
+    it('keeps to custom hours', () => {
+      const workingHours = { start: '10:00', end: '11:30', workingDays: [2] };
+      expect(blocks(place([task('a', { estimated_duration_minutes: 90 })], { workingHours }))).toEqual(['a Tue 10:00-11:30']);
+    });
+
+    it('rounds a start in the middle of the day up to the next slot', () => {
+      expect(blocks(place([task('a')], { from: at(19, 10, 7) }))).toEqual(['a Mon 10:15-11:15']);
+    });
+  });
+
+  describe('busy time', () => {
+    it('goes around fixed events', () => {
+      const busy = [{ start: at(19, 9), end: at(19, 11) }];
+      expect(blocks(place([task('a')], { busy }))).toEqual(['a Mon 11:00-12:00']);
+    });
+
+    it('does not double-book the tasks it places', () => {
+      expect(blocks(place([task('a'), task('b')]))).toEqual(['a Mon 09:00-10:00', 'b Mon 10:00-11:00']);
+    });
+
+    it('skips a gap too short for the task', () => {
+      const busy = [{ start: at(19, 9, 30), end: at(19, 12) }];
+      expect(blocks(place([task('a')], { busy }))).toEqual(['a Mon 12:00-13:00']);
+    });
+  });
+
+  describe('time of day', () => {
+    it('uses the preferred time of day', () => {
+      expect(blocks(place([task('a', { preferred_time_of_day: ['afternoon'] })]))).toEqual(['a Mon 12:00-13:00']);
+    });
+
+    it('falls back to any time when the preferred one is taken', () => {
+      const busy = [{ start: at(19, 12), end: at(19, 17) }];
+      expect(blocks(place([task('a', { preferred_time_of_day: ['afternoon'] })], { busy, days: 1 })))
+        .toEqual(['a Mon 09:00-10:00']);
+    });
+
+    it('never uses a time of day to avoid', () => {
+      expect(blocks(place([task('a', { avoid_time_of_day: ['morning'] })]))).toEqual(['a Mon 12:00-13:00']);
+    });
+
+    it('leaves a task out when only avoided time is free', () => {
+      const plan = place([task('a', { avoid_time_of_day: ['morning', 'afternoon'] })]);
+      expect(plan.blocks).toEqual([]);
+      expect(plan.unscheduled).toEqual([{ taskId: 'a', reason: 'noOpening', minutes: 60 }]);
+    });
+
+    it('puts hard tasks in the morning', () => {
+      const busy = [{ start: at(19, 9), end: at(19, 12) }];
+      expect(blocks(place([task('hard', { difficulty_level: 5 })], { busy }))).toEqual(['hard Tue 09:00-10:00']);
+    });
+  });
+
+  describe('duration and splitting', () => {
+    it('keeps the estimate within the minimum and maximum', () => {
+      expect(blocks(place([
+        task('short', { estimated_duration_minutes: 15, minimum_duration_minutes: 45 }),
+        task('long', { estimated_duration_minutes: 300, maximum_duration_minutes: 90 }),
+      ]))).toEqual(['long Mon 09:00-10:30', 'short Mon 10:30-11:15']);
+    });
+
+    it('splits a task across the gaps when it may', () => {
+      const busy = [{ start: at(19, 10), end: at(19, 16) }];
+      const plan = place([task('a', { estimated_duration_minutes: 120, can_be_split: true })], { busy });
+      expect(blocks(plan)).toEqual(['a Mon 09:00-10:00', 'a Mon 16:00-17:00']);
+      expect(plan.blocks.map(block => `${block.part}/${block.parts}`)).toEqual(['1/2', '2/2']);
+    });
+
+    it('does not make pieces shorter than the minimum duration', () => {
+      const busy = [{ start: at(19, 9, 30), end: at(19, 16) }];
+      const plan = place([task('a', { estimated_duration_minutes: 120, minimum_duration_minutes: 60, can_be_split: true })], { busy });
+      expect(blocks(plan)).toEqual(['a Mon 16:00-17:00', 'a Tue 09:00-10:00']);
+    });
+
+    it('keeps a task that needs consecutive time in one piece', () => {
+      const busy = [{ start: at(19, 10), end: at(19, 16) }];
+      const plan = place([task('a', { estimated_duration_minutes: 120, can_be_split: true, requires_consecutive_time: true })], { busy });
+      expect(blocks(plan)).toEqual(['a Tue 09:00-11:00']);
+    });
+  });
+
+  describe('deadlines and order', () => {
+    it('places the earliest deadline first', () => {
+      expect(blocks(place([
+        task('later', { estimated_duration_minutes: 240, deadline: at(23, 17).toISOString() }),
+        task('sooner', { estimated_duration_minutes: 240, deadline: at(21, 17).toISOString() }),
+        task('whenever', { estimated_duration_minutes: 240 }),
+      ]))).toEqual(['sooner Mon 09:00-13:00', 'later Mon 13:00-17:00', 'whenever Tue 09:00-13:00']);
+    });
+
+    it('orders by priority and urgency without deadlines', () => {
+      expect(blocks(place([
+        task('low', { priority: 4 }),
+        task('critical', { priority: 1 }),
+        task('urgent', { priority: 4, urgency_multiplier: 2 }),
+      ]))).toEqual(['critical Mon 09:00-10:00', 'urgent Mon 10:00-11:00', 'low Mon 11:00-12:00']);
+    });
+
+    it('finishes before the deadline, allowing for its flexibility', () => {
+      const deadline = at(19, 10).toISOString();
+      const plan = place([
+        task('strict', { estimated_duration_minutes: 120, deadline }),
+        task('flexible', { estimated_duration_minutes: 120, deadline, deadline_flexibility_minutes: 60 }),
+      ]);
+      expect(blocks(plan)).toEqual(['flexible Mon 09:00-11:00']);
+      expect(plan.unscheduled).toEqual([{ taskId: 'strict', reason: 'noOpeningBeforeDeadline', minutes: 120 }]);
+    });
+
+    it('reports a deadline that has already passed', () => {
+      const plan = place([task('late', { deadline: at(16, 17).toISOString() })]);
+      expect(plan.unscheduled).toEqual([{ taskId: 'late', reason: 'noTimeBeforeDeadline', minutes: 60 }]);
+    });
+  });
+});
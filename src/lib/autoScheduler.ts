@@ -0,0 +1,284 @@
+// src/lib/autoScheduler.ts
+// Places unscheduled tasks into free working time; pure and deterministic for the same inputs
+
+import { addDays, addMinutes, format, startOfDay } from 'date-fns';
+import type { CalendarSettings } from '@/types/CalendarTypes';
+import type { Task, TaskInput } from '@/types/TaskTypes';
+import { buildDependencyGraph, openPrerequisites } from './taskDependencies';
+
+export type WorkingHours = CalendarSettings['workingHours'];
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '17:00',
+  workingDays: [1, 2, 3, 4, 5],
+};
+
+export const SCHEDULE_HORIZON_DAYS = 14;
+export const SCHEDULE_SLOT_MINUTES = 15;
+const DEFAULT_TASK_MINUTES = 60;
+const DEFAULT_MIN_CHUNK_MINUTES = 30;
+const HARD_TASK_DIFFICULTY = 4;
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduleOptions {
+  from: Date; // nothing is placed before this
+  days?: number;
+  workingHours?: WorkingHours;
+  busy?: TimeRange[]; // fixed events that already take time
+  slotMinutes?: number;
+}
+
+export interface ScheduledBlock extends TimeRange {
+  taskId: string;
+  part: number; // 1-based
+  parts: number;
+}
+
+export type UnscheduledReason = 'noTimeBeforeDeadline' | 'noOpeningBeforeDeadline' | 'noOpening';
+
+export interface UnscheduledTask {
+  taskId: string;
+  reason: UnscheduledReason;
+  minutes: number; // the opening the task needed
+}
+
+export interface SchedulePlan {
+  blocks: ScheduledBlock[];
+  unscheduled: UnscheduledTask[];
+}
+
+// ---- Time of day ----
+
+// Hours [start, end) for the words people type into preferred / avoid time of day
+const PERIODS: { match: RegExp; start: number; end: number }[] = [
+  { match: /early\s*morning/, start: 5, end: 8 },
+  { match: /morning/, start: 8, end: 12 },
+  { match: /afternoon/, start: 12, end: 17 },
+  { match: /noon|lunch/, start: 12, end: 13 },
+  { match: /evening/, start: 17, end: 21 },
+  { match: /night/, start: 21, end: 24 },
+];
+
+const periodHours = (label: string) => {
+  const text = label.toLowerCase();
+  // First match wins, so "early morning" is not also "morning" and "afternoon" not "noon"
+  const period = PERIODS.find(item => item.match.test(text));
+  return period ? [period] : [];
+};
+
+const periodRanges = (labels: string[] | undefined, day: Date): TimeRange[] =>
+  (labels ?? []).flatMap(periodHours).map(({ start, end }) => ({
+    start: addMinutes(startOfDay(day), start * 60),
+    end: addMinutes(startOfDay(day), end * 60),
+  }));
+
+// ---- Range arithmetic ----
+
+const subtractRange = (free: TimeRange[], taken: TimeRange): TimeRange[] =>
+  free.flatMap(range => {
+    if (taken.end <= range.start || taken.start >= range.end) return [range];
+    const pieces: TimeRange[] = [];
+    if (taken.start > range.start) pieces.push({ start: range.start, end: taken.start });
+    if (taken.end < range.end) pieces.push({ start: taken.end, end: range.end });
+    return pieces;
+  });
+
+const intersectRanges = (free: TimeRange[], allowed: TimeRange[]): TimeRange[] =>
+  free.flatMap(range =>
+    allowed
+      .map(window => ({
+        start: range.start > window.start ? range.start : window.start,
+        end: range.end < window.end ? range.end : window.end,
+      }))
+      .filter(piece => piece.end > piece.start)
+  );
+
+const minutesBetween = (start: Date, end: Date) => Math.round((end.getTime() - start.getTime()) / 60000);
+
+const ceilToSlot = (date: Date, slot: number) => {
+  const ms = slot * 60000;
+  return new Date(Math.ceil(date.getTime() / ms) * ms);
+};
+
+const timeOfDay = (day: Date, hhmm: string) => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return addMinutes(startOfDay(day), (hours || 0) * 60 + (minutes || 0));
+};
+
+// Working time in the horizon, minus the past and the busy ranges
+export const buildFreeTime = (options: ScheduleOptions): TimeRange[] => {
+  const { from, days = SCHEDULE_HORIZON_DAYS, workingHours = DEFAULT_WORKING_HOURS, busy = [] } = options;
+  const slot = options.slotMinutes ?? SCHEDULE_SLOT_MINUTES;
+  const earliest = ceilToSlot(from, slot);
+
+  let free: TimeRange[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const day = addDays(startOfDay(from), offset);
+    if (!workingHours.workingDays.includes(day.getDay())) continue;
+    const start = timeOfDay(day, workingHours.start);
+    const end = timeOfDay(day, workingHours.end);
+    if (end <= earliest) continue;
+    free.push({ start: start < earliest ? earliest : start, end });
+  }
+  [...busy].sort((a, b) => a.start.getTime() - b.start.getTime()).forEach(range => {
+    free = subtractRange(free, range);
+  });
+  return free;
+};
+
+// ---- Tasks ----
+
+// Tasks the scheduler may place: open, not repeating and without a time slot yet
+export const isSchedulable = (task: Task) =>
+  !task.specific_time && !task.is_repeat && task.status !== 'completed' && task.status !== 'cancelled';
+
+// Of those, the ones that can be worked on now: nothing they wait on is still open, and they aren't
+// parents whose subtasks carry the effort, since the subtasks get placed themselves
+export const schedulableTasks = (tasks: Task[]) => {
+  const graph = buildDependencyGraph(tasks);
+  const tasksById = new Map(tasks.map(task => [String(task.id), task]));
+  const parents = new Set(
+    tasks.filter(task => task.parent_task != null && task.status !== 'cancelled').map(task => String(task.parent_task))
+  );
+  return tasks.filter(task =>
+    isSchedulable(task) &&
+    !parents.has(String(task.id)) &&
+    openPrerequisites(graph, tasksById, String(task.id)).length === 0
+  );
+};
+
+export const taskDuration = (task: Task) => {
+  const wanted = task.estimated_duration_minutes || task.duration_minutes || DEFAULT_TASK_MINUTES;
+  const min = task.minimum_duration_minutes || 0;
+  const max = task.maximum_duration_minutes || Infinity;
+  return Math.min(Math.max(wanted, min), max);
+};
+
+const latestEnd = (task: Task) =>
+  task.deadline ? addMinutes(new Date(task.deadline), task.deadline_flexibility_minutes || 0) : null;
+
+// Earliest deadline first; then higher priority, urgency and difficulty; id breaks ties
+export const compareForScheduling = (a: Task, b: Task) => {
+  const deadlineA = latestEnd(a)?.getTime() ?? Infinity;
+  const deadlineB = latestEnd(b)?.getTime() ?? Infinity;
+  if (deadlineA !== deadlineB) return deadlineA - deadlineB;
+  const weight = (task: Task) => (6 - task.priority) * (task.urgency_multiplier || 1) + task.urgency / 10;
+  if (weight(a) !== weight(b)) return weight(b) - weight(a);
+  if ((a.difficulty_level ?? 0) !== (b.difficulty_level ?? 0)) return (b.difficulty_level ?? 0) - (a.difficulty_level ?? 0);
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+// Hard tasks without a stated preference go into the morning, while focus is fresh
+const preferredLabels = (task: Task) => {
+  if (task.preferred_time_of_day?.length) return task.preferred_time_of_day;
+  return (task.difficulty_level ?? 0) >= HARD_TASK_DIFFICULTY ? ['morning'] : [];
+};
+
+const daysIn = (free: TimeRange[]) => {
+  const seen = new Map<string, Date>();
+  free.forEach(range => seen.set(format(range.start, 'yyyy-MM-dd'), startOfDay(range.start)));
+  return [...seen.values()];
+};
+
+const fitSingle = (ranges: TimeRange[], minutes: number, slot: number): TimeRange | null => {
+  for (const range of ranges) {
+    const start = ceilToSlot(range.start, slot);
+    const end = addMinutes(start, minutes);
+    if (end <= range.end) return { start, end };
+  }
+  return null;
+};
+
+const fitSplit = (ranges: TimeRange[], minutes: number, minChunk: number, slot: number): TimeRange[] | null => {
+  const chunks: TimeRange[] = [];
+  let remaining = minutes;
+  for (const range of ranges) {
+    if (remaining <= 0) break;
+    const start = ceilToSlot(range.start, slot);
+    const available = minutesBetween(start, range.end);
+    const length = Math.min(remaining, available);
+    if (length < Math.min(minChunk, remaining)) continue;
+    chunks.push({ start, end: addMinutes(start, length) });
+    remaining -= length;
+  }
+  return remaining > 0 ? null : chunks;
+};
+
+const placeTask = (task: Task, free: TimeRange[], slot: number): TimeRange[] | Omit<UnscheduledTask, 'taskId'> => {
+  const minutes = taskDuration(task);
+  const deadline = latestEnd(task);
+  let candidates = deadline ? intersectRanges(free, [{ start: new Date(0), end: deadline }]) : free;
+  if (deadline && candidates.length === 0) return { reason: 'noTimeBeforeDeadline', minutes };
+
+  const days = daysIn(candidates);
+  days.forEach(day => {
+    periodRanges(task.avoid_time_of_day, day).forEach(range => {
+      candidates = subtractRange(candidates, range);
+    });
+  });
+
+  const splittable = task.can_be_split && !task.requires_consecutive_time;
+  const minChunk = task.minimum_duration_minutes || DEFAULT_MIN_CHUNK_MINUTES;
+  const fit = (ranges: TimeRange[]) =>
+    splittable ? fitSplit(ranges, minutes, minChunk, slot) : (() => {
+      const block = fitSingle(ranges, minutes, slot);
+      return block ? [block] : null;
+    })();
+
+  // Preferred times first, anywhere allowed second
+  const preferred = days.flatMap(day => periodRanges(preferredLabels(task), day));
+  const placed = (preferred.length ? fit(intersectRanges(candidates, preferred)) : null) ?? fit(candidates);
+  if (placed) return placed;
+  return { reason: deadline ? 'noOpeningBeforeDeadline' : 'noOpening', minutes };
+};
+
+export const scheduleTasks = (tasks: Task[], options: ScheduleOptions): SchedulePlan => {
+  const slot = options.slotMinutes ?? SCHEDULE_SLOT_MINUTES;
+  let free = buildFreeTime(options);
+  const plan: SchedulePlan = { blocks: [], unscheduled: [] };
+
+  schedulableTasks(tasks).sort(compareForScheduling).forEach(task => {
+    const result = placeTask(task, free, slot);
+    if ('reason' in result) {
+      plan.unscheduled.push({ taskId: task.id, ...result });
+      return;
+    }
+    result.forEach((range, index) => {
+      plan.blocks.push({ ...range, taskId: task.id, part: index + 1, parts: result.length });
+      free = subtractRange(free, range);
+    });
+  });
+
+  return plan;
+};
+
+// What accepting a task's proposal writes: the task takes the first block,
+// and each further block of a split task becomes a task of its own
+export const proposalToInputs = (task: Task, blocks: ScheduledBlock[]) => {
+  const [first, ...rest] = [...blocks].sort((a, b) => a.part - b.part);
+  const update: Partial<TaskInput> = {
+    name: task.name,
+    specific_time: first.start.toISOString(),
+    duration_minutes: minutesBetween(first.start, first.end),
+  };
+  const creates: TaskInput[] = rest.map(block => ({
+    name: `${task.name} (${block.part}/${block.parts})`,
+    description: task.description,
+    category: task.category?.id ?? null,
+    tags: task.tags,
+    priority: task.priority,
+    urgency: task.urgency,
+    location: task.location,
+    deadline: task.deadline,
+    specific_time: block.start.toISOString(),
+    duration_minutes: minutesBetween(block.start, block.end),
+    estimated_duration_minutes: minutesBetween(block.start, block.end),
+    prerequisite_tasks: [task.id],
+  }));
+  return { update, creates };
+};
@@ -0,0 +1,257 @@
+// src/lib/calendarFilter.ts
+// Matching tasks against a CalendarFilter, live facet counts, and the filter's URL query string form
+
+import { endOfDay, format, isValid, parse, startOfDay } from 'date-fns';
+import { translateEnglish, type Translate } from './i18n';
+import { boardColumns } from './taskBoard';
+import { TASK_PRIORITIES, getTaskStart, isTaskOverdue, priorityToLevel } from './taskMappers';
+import type { CalendarEvent, CalendarFilter } from '@/types/CalendarTypes';
+import type { Task, TaskCategory, TaskPriority } from '@/types/TaskTypes';
+
+// Facets where a task matches when it has any of the picked values
+export type ListFacet = 'categories' | 'priorities' | 'statuses' | 'types' | 'assignees' | 'tags';
+export type FilterFacet = ListFacet | 'search' | 'dateRange' | 'hasDeadline' | 'overdue';
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number; // tasks the option would show, given every other facet of the filter
+  color?: string;
+}
+
+export type FacetCounts = Record<ListFacet, FacetOption[]> & {
+  hasDeadline: number;
+  overdue: number;
+};
+
+export const LIST_FACETS: ListFacet[] = ['statuses', 'priorities', 'categories', 'assignees', 'tags', 'types'];
+
+// One query parameter per facet, repeated for each value: ?status=pending&status=on_hold
+const PARAM_KEYS: Record<ListFacet, string> = {
+  categories: 'category',
+  priorities: 'priority',
+  statuses: 'status',
+  types: 'type',
+  assignees: 'assignee',
+  tags: 'tag',
+};
+const SEARCH_PARAM = 'q';
+const FROM_PARAM = 'from';
+const TO_PARAM = 'to';
+const DEADLINE_PARAM = 'deadline';
+const OVERDUE_PARAM = 'overdue';
+const FILTER_PARAMS = [...Object.values(PARAM_KEYS), SEARCH_PARAM, FROM_PARAM, TO_PARAM, DEADLINE_PARAM, OVERDUE_PARAM];
+const DATE_PARAM_FORMAT = 'yyyy-MM-dd';
+
+// A date range open on one side is stored with these as its missing end
+const EARLIEST = new Date(-8.64e15);
+const LATEST = new Date(8.64e15);
+
+const facetValues = (task: Task, facet: ListFacet): string[] => {
+  switch (facet) {
+    case 'categories':
+      return task.category?.name ? [task.category.name] : [];
+    case 'priorities':
+      return [priorityToLevel(task.priority)];
+    case 'statuses':
+      return [task.status];
+    case 'types':
+      return ['task']; // every task is drawn as a 'task' event, see taskToEvent
+    case 'assignees':
+      return task.assignee ? [task.assignee] : [];
+    case 'tags':
+      return task.tags;
+  }
+};
+
+const matchesSearch = (task: Task, search: string) => {
+  const text = [task.name, task.description, task.location, ...task.tags].join(' ').toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word));
+};
+
+export const isInDateRange = (date: Date | null, range: CalendarFilter['dateRange']) =>
+  !range || (!!date && date >= range.start && date <= range.end);
+
+interface MatchOptions {
+  now?: Date;
+  ignore?: FilterFacet; // leave one facet out, for counting what its options would show
+  ignoreDateRange?: boolean; // the calendar checks the range per occurrence instead
+}
+
+export const matchesFilter = (task: Task, filter: CalendarFilter, options: MatchOptions = {}) => {
+  const { now = new Date(), ignore, ignoreDateRange } = options;
+
+  const listsMatch = LIST_FACETS.every(facet => {
+    const picked = filter[facet];
+    if (facet === ignore || !picked?.length) return true;
+    return facetValues(task, facet).some(value => picked.includes(value));
+  });
+  if (!listsMatch) return false;
+
+  if (ignore !== 'search' && filter.search?.trim() && !matchesSearch(task, filter.search)) return false;
+  if (ignore !== 'hasDeadline' && filter.hasDeadline && !task.deadline) return false;
+  if (ignore !== 'overdue' && filter.overdue && !isTaskOverdue(task, now)) return false;
+  if (ignore !== 'dateRange' && !ignoreDateRange && !isInDateRange(getTaskStart(task), filter.dateRange)) return false;
+  return true;
+};
+
+export const filterTasks = (tasks: Task[], filter: CalendarFilter, options: MatchOptions = {}) =>
+  isFilterEmpty(filter) ? tasks : tasks.filter(task => matchesFilter(task, filter, options));
+
+// Occurrences of a repeating task fall inside or outside the range one by one
+export const filterEventsByDate = <T extends Pick<CalendarEvent, 'date'>>(events: T[], filter: CalendarFilter) =>
+  filter.dateRange ? events.filter(event => isInDateRange(event.date, filter.dateRange)) : events;
+
+export const countActiveFilters = (filter: CalendarFilter) =>
+  LIST_FACETS.reduce((sum, facet) => sum + (filter[facet]?.length ?? 0), 0) +
+  (filter.search?.trim() ? 1 : 0) +
+  (filter.dateRange ? 1 : 0) +
+  (filter.hasDeadline ? 1 : 0) +
+  (filter.overdue ? 1 : 0);
+
+export const isFilterEmpty = (filter: CalendarFilter) => countActiveFilters(filter) === 0;
+
+export const toggleFacetValue = (filter: CalendarFilter, facet: ListFacet, value: string): CalendarFilter => {
+  const picked = filter[facet] ?? [];
+  const next = picked.includes(value) ? picked.filter(item => item !== value) : [...picked, value];
+  return { ...filter, [facet]: next.length ? next : undefined };
+};
+
+// ---- Facet counts ----
+
+const baseOptions = (
+  facet: ListFacet,
+  tasks: Task[],
+  categories: TaskCategory[],
+  t: Translate
+): Omit<FacetOption, 'count'>[] => {
+  const fromTasks = () => [...new Set(tasks.flatMap(task => facetValues(task, facet)))].sort((a, b) => a.localeCompare(b));
+
+  switch (facet) {
+    case 'statuses':
+      return boardColumns('status', [], [], t).map(({ key, label, color }) => ({ value: key, label, color }));
+    case 'priorities':
+      return (Object.keys(TASK_PRIORITIES) as unknown as TaskPriority[]).map(priority => ({
+        value: TASK_PRIORITIES[priority].level,
+        label: t(`priority.${priority}`),
+        color: TASK_PRIORITIES[priority].color,
+      }));
+    case 'categories': {
+      const known = categories.map(category => ({ value: category.name, label: category.name, color: category.color_hex }));
+      const names = new Set(known.map(option => option.value));
+      return [...known, ...fromTasks().filter(name => !names.has(name)).map(name => ({ value: name, label: name }))];
+    }
+    case 'types':
+      return fromTasks().map(type => ({ value: type, label: type === 'task' ? t('filter.type.task') : type }));
+    case 'assignees':
+    case 'tags':
+      return fromTasks().map(value => ({ value, label: value }));
+  }
+};
+
+// Each facet is counted with the rest of the filter applied but not itself,
+// so picking a status doesn't zero out the other statuses
+export const facetCounts = (
+  tasks: Task[],
+  filter: CalendarFilter,
+  categories: TaskCategory[] = [],
+  t: Translate = translateEnglish,
+  now = new Date()
+): FacetCounts => {
+  const countFor = (facet: ListFacet): FacetOption[] => {
+    const counts = new Map<string, number>();
+    tasks
+      .filter(task => matchesFilter(task, filter, { now, ignore: facet }))
+      .forEach(task => facetValues(task, facet).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1)));
+
+    const options = baseOptions(facet, tasks, categories, t);
+    // Values picked in a shared link stay listed, so they can be unpicked
+    const listed = new Set(options.map(option => option.value));
+    const missing = (filter[facet] ?? []).filter(value => !listed.has(value)).map(value => ({ value, label: value }));
+    return [...options, ...missing].map(option => ({ ...option, count: counts.get(option.value) ?? 0 }));
+  };
+
+  // How many tasks are left with the toggle switched on
+  const countFlag = (facet: 'hasDeadline' | 'overdue') =>
+    tasks.filter(task => matchesFilter(task, { ...filter, [facet]: true }, { now })).length;
+
+  return {
+    statuses: countFor('statuses'),
+    priorities: countFor('priorities'),
+    categories: countFor('categories'),
+    assignees: countFor('assignees'),
+    tags: countFor('tags'),
+    types: countFor('types'),
+    hasDeadline: countFlag('hasDeadline'),
+    overdue: countFlag('overdue'),
+  };
+};
+
+// Facets with nothing to pick from are left out; every task is a 'task' today, so the
+// type facet only shows up once there are two kinds to tell apart
+export const shownFacets = (counts: FacetCounts, filter: CalendarFilter) =>
+  LIST_FACETS.filter(facet => counts[facet].length > (facet === 'types' ? 1 : 0) || !!filter[facet]?.length);
+
+// ---- URL query string ----
+
+const parseDateParam = (value: string | null) => {
+  if (!value) return null;
+  const date = parse(value, DATE_PARAM_FORMAT, new Date());
+  return isValid(date) ? date : null;
+};
+
+export const filterFromSearchParams = (params: URLSearchParams): CalendarFilter => {
+  const filter: CalendarFilter = {};
+
+  LIST_FACETS.forEach(facet => {
+    const values = params.getAll(PARAM_KEYS[facet]).filter(Boolean);
+    if (values.length) filter[facet] = [...new Set(values)];
+  });
+
+  // Kept as typed, so a trailing space in the search box survives the round trip
+  const search = params.get(SEARCH_PARAM);
+  if (search) filter.search = search;
+
+  const from = parseDateParam(params.get(FROM_PARAM));
+  const to = parseDateParam(params.get(TO_PARAM));
+  if (from || to) {
+    filter.dateRange = { start: from ? startOfDay(from) : EARLIEST, end: to ? endOfDay(to) : LATEST };
+  }
+
+  if (params.get(DEADLINE_PARAM) === '1') filter.hasDeadline = true;
+  if (params.get(OVERDUE_PARAM) === '1') filter.overdue = true;
+  return filter;
+};
+
+// Replaces the filter's parameters and keeps any others already in the URL
+export const filterToSearchParams = (filter: CalendarFilter, base?: URLSearchParams) => {
+  const params = new URLSearchParams(base);
+  FILTER_PARAMS.forEach(key => params.delete(key));
+
+  LIST_FACETS.forEach(facet => filter[facet]?.forEach(value => params.append(PARAM_KEYS[facet], value)));
+  if (filter.search) params.set(SEARCH_PARAM, filter.search);
+  if (filter.dateRange) {
+    const { start, end } = filter.dateRange;
+    if (start > EARLIEST) params.set(FROM_PARAM, format(start, DATE_PARAM_FORMAT));
+    if (end < LATEST) params.set(TO_PARAM, format(end, DATE_PARAM_FORMAT));
+  }
+  if (filter.hasDeadline) params.set(DEADLINE_PARAM, '1');
+  if (filter.overdue) params.set(OVERDUE_PARAM, '1');
+  return params;
+};
+
+// The filter bar's date inputs edit one end at a time; clearing both drops the range
+export const withDateBound = (filter: CalendarFilter, bound: 'start' | 'end', value: string): CalendarFilter => {
+  const date = parseDateParam(value);
+  const range = {
+    start: filter.dateRange?.start ?? EARLIEST,
+    end: filter.dateRange?.end ?? LATEST,
+    [bound]: date ? (bound === 'start' ? startOfDay(date) : endOfDay(date)) : bound === 'start' ? EARLIEST : LATEST,
+  };
+  return { ...filter, dateRange: range.start > EARLIEST || range.end < LATEST ? range : undefined };
+};
+
+export const dateBoundValue = (filter: CalendarFilter, bound: 'start' | 'end') => {
+  const date = filter.dateRange?.[bound];
+  return date && date > EARLIEST && date < LATEST ? format(date, DATE_PARAM_FORMAT) : '';
+};
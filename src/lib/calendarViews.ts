@@ -0,0 +1,300 @@
+// src/lib/calendarViews.ts
+// Date range, navigation and layout helpers shared by the calendar views
+
+import {
+  addDays, addMinutes, addMonths, addWeeks, differenceInMinutes, eachDayOfInterval,
+  endOfDay, endOfMonth, endOfWeek, format, isSameMonth, startOfDay, startOfMonth,
+  startOfWeek, subDays, subMonths, subWeeks, type Locale
+} from 'date-fns';
+import type { CalendarEvent, CalendarView } from '@/types/CalendarTypes';
+
+export type CalendarViewType = CalendarView['type'];
+
+// Minimal shape the views need; CalendarEvent from types/CalendarTypes satisfies it
+export interface ViewEvent {
+  id: string;
+  title: string;
+  date: Date;
+  time?: string;
+  duration?: number; // minutes
+  completed?: boolean;
+}
+
+export const CALENDAR_VIEW_TYPES: CalendarViewType[] = ['month', 'week', 'day', 'agenda', 'timeline'];
+
+export const DEFAULT_EVENT_DURATION = 60; // minutes
+export const AGENDA_LENGTH_DAYS = 30;
+export const HOUR_HEIGHT = 48; // px per hour in the time grid
+export const TIMELINE_MIN_BAR_DAYS = 0.5; // short bars are drawn at least half a day wide
+
+export const isWeekendDay = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+// Events without a specific time are shown as all-day items
+export const isTimedEvent = (event: ViewEvent) => Boolean(event.time);
+
+export const getEventStart = (event: ViewEvent) => event.date;
+
+export const getEventEnd = (event: ViewEvent) =>
+  addMinutes(event.date, event.duration && event.duration > 0 ? event.duration : DEFAULT_EVENT_DURATION);
+
+export const minutesSinceMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// Inclusive start/end of the range a view displays
+export const getViewRange = (view: CalendarView): { start: Date; end: Date } => {
+  const { currentDate } = view;
+  const week = { weekStartsOn: view.weekStartsOn ?? 0 };
+  switch (view.type) {
+    case 'month':
+      return {
+        start: startOfWeek(startOfMonth(currentDate), week),
+        end: endOfWeek(endOfMonth(currentDate), week),
+      };
+    case 'week':
+    case 'timeline':
+      return { start: startOfWeek(currentDate, week), end: endOfWeek(currentDate, week) };
+    case 'day':
+      return { start: startOfDay(currentDate), end: endOfDay(currentDate) };
+    case 'agenda':
+      return {
+        start: startOfDay(currentDate),
+        end: endOfDay(addDays(currentDate, AGENDA_LENGTH_DAYS - 1)),
+      };
+  }
+};
+
+export const getVisibleDays = (view: CalendarView): Date[] => {
+  const { start, end } = getViewRange(view);
+  const days = eachDayOfInterval({ start, end });
+  // The day view always shows its single day, even on a weekend
+  if (view.showWeekends || view.type === 'day') return days;
+  return days.filter(day => !isWeekendDay(day));
+};
+
+export const navigateView = (view: CalendarView, direction: 'prev' | 'next'): Date => {
+  const { currentDate } = view;
+  const forward = direction === 'next';
+  switch (view.type) {
+    case 'month':
+      return forward ? addMonths(currentDate, 1) : subMonths(currentDate, 1);
+    case 'week':
+    case 'timeline':
+      return forward ? addWeeks(currentDate, 1) : subWeeks(currentDate, 1);
+    case 'day':
+      return forward ? addDays(currentDate, 1) : subDays(currentDate, 1);
+    case 'agenda':
+      return forward ? addDays(currentDate, AGENDA_LENGTH_DAYS) : subDays(currentDate, AGENDA_LENGTH_DAYS);
+  }
+};
+
+// Month and weekday names in the locale's language
+export const getViewTitle = (view: CalendarView, locale?: Locale): string => {
+  const { start, end } = getViewRange(view);
+  const options = { locale };
+  switch (view.type) {
+    case 'month':
+      return format(view.currentDate, 'LLLL yyyy', options);
+    case 'day':
+      return format(view.currentDate, 'PPPP', options);
+    default:
+      return isSameMonth(start, end)
+        ? `${format(start, 'MMM d', options)} – ${format(end, 'd, yyyy', options)}`
+        : `${format(start, 'MMM d', options)} – ${format(end, 'PP', options)}`;
+  }
+};
+
+// Whether today falls inside the range currently displayed
+export const viewContainsDate = (view: CalendarView, date: Date) => {
+  const { start, end } = getViewRange(view);
+  return date >= start && date <= end;
+};
+
+// Applies the view's display toggles (completed tasks and weekends)
+export const filterEventsForView = <T extends ViewEvent>(events: T[], view: CalendarView): T[] =>
+  events.filter(event => {
+    if (!view.showCompleted && event.completed) return false;
+    if (!view.showWeekends && view.type !== 'day' && isWeekendDay(event.date)) return false;
+    return true;
+  });
+
+export interface PositionedEvent<T extends ViewEvent> {
+  event: T;
+  top: number; // minutes from midnight
+  height: number; // minutes
+  column: number;
+  columns: number;
+}
+
+// Lays out one day's timed events into side-by-side columns so overlaps stay readable
+export const layoutDayEvents = <T extends ViewEvent>(events: T[], day: Date): PositionedEvent<T>[] => {
+  const dayStart = startOfDay(day);
+  const items = events
+    .map(event => {
+      const start = Math.max(0, differenceInMinutes(getEventStart(event), dayStart));
+      const end = Math.min(24 * 60, differenceInMinutes(getEventEnd(event), dayStart));
+      return { event, start, end: Math.max(end, start + 15) };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const positioned: PositionedEvent<T>[] = [];
+  let cluster: { item: (typeof items)[number]; column: number }[] = [];
+  let clusterEnd = -1;
+
+  const flushCluster = () => {
+    const columns = cluster.reduce((max, entry) => Math.max(max, entry.column + 1), 0);
+    cluster.forEach(({ item, column }) => {
+      positioned.push({
+        event: item.event,
+        top: item.start,
+        height: item.end - item.start,
+        column,
+        columns,
+      });
+    });
+    cluster = [];
+    clusterEnd = -1;
+  };
+
+  items.forEach(item => {
+    if (cluster.length > 0 && item.start >= clusterEnd) {
+      flushCluster();
+    }
+    const usedColumns = new Set(
+      cluster.filter(entry => entry.item.end > item.start).map(entry => entry.column)
+    );
+    let column = 0;
+    while (usedColumns.has(column)) column++;
+    cluster.push({ item, column });
+    clusterEnd = Math.max(clusterEnd, item.end);
+  });
+  flushCluster();
+
+  return positioned;
+};
+
+export interface TimelineBar<T extends ViewEvent> {
+  event: T;
+  offset: number; // fraction 0-1 of the visible range
+  width: number; // fraction 0-1 of the visible range
+  lane: number;
+}
+
+// Places events on a horizontal axis built from the visible days; hidden days take no space
+export const layoutTimeline = <T extends ViewEvent>(events: T[], days: Date[]): TimelineBar<T>[] => {
+  const dayIndex = new Map(days.map((day, index) => [format(day, 'yyyy-MM-dd'), index]));
+  const totalDays = days.length || 1;
+
+  const bars = events
+    .map(event => {
+      const index = dayIndex.get(format(event.date, 'yyyy-MM-dd'));
+      if (index === undefined) return null;
+      if (!isTimedEvent(event)) {
+        return { event, offset: index / totalDays, width: 1 / totalDays, lane: 0 };
+      }
+      const startFraction = minutesSinceMidnight(event.date) / (24 * 60);
+      const duration = differenceInMinutes(getEventEnd(event), getEventStart(event));
+      const durationFraction = Math.min(duration / (24 * 60), 1 - startFraction);
+      return {
+        event,
+        offset: (index + startFraction) / totalDays,
+        width: Math.max(durationFraction, 1 / 96) / totalDays,
+        lane: 0,
+      };
+    })
+    .filter((bar): bar is TimelineBar<T> => bar !== null)
+    .sort((a, b) => a.offset - b.offset);
+
+  const laneEnds: number[] = [];
+  bars.forEach(bar => {
+    let lane = laneEnds.findIndex(end => end <= bar.offset);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = bar.offset + Math.max(bar.width, TIMELINE_MIN_BAR_DAYS / totalDays);
+    bar.lane = lane;
+  });
+
+  return bars;
+};
+
+// ---- Rescheduling (drag and drop, resize, keyboard) ----
+
+export const EVENT_DRAG_TYPE = 'application/x-calendar-event';
+export const SNAP_MINUTES = 15;
+export const MIN_EVENT_DURATION = 15;
+
+// Proposals are accepted from the scheduler panel and blocked tasks wait for their prerequisites
+export const canRescheduleEvent = (event: Pick<CalendarEvent, 'proposed' | 'blockedBy'>) =>
+  !event.proposed && !event.blockedBy?.length;
+
+export const isEventDrag = (dataTransfer: DataTransfer) =>
+  Array.from(dataTransfer.types).includes(EVENT_DRAG_TYPE);
+
+export const findDraggedEvent = <T extends ViewEvent>(dataTransfer: DataTransfer, events: T[]) => {
+  const id = dataTransfer.getData(EVENT_DRAG_TYPE);
+  return events.find(event => event.id === id);
+};
+
+export interface EventReschedule {
+  start: Date;
+  duration: number; // minutes
+  allDay: boolean;
+}
+
+export const snapMinutes = (minutes: number, step = SNAP_MINUTES) => Math.round(minutes / step) * step;
+
+const currentDuration = (event: ViewEvent) =>
+  event.duration && event.duration > 0 ? event.duration : DEFAULT_EVENT_DURATION;
+
+// Dropped on a day cell: keep the time of day, change the date
+export const rescheduleToDay = (event: ViewEvent, day: Date): EventReschedule => {
+  const start = new Date(day);
+  start.setHours(event.date.getHours(), event.date.getMinutes(), 0, 0);
+  return { start, duration: currentDuration(event), allDay: !isTimedEvent(event) };
+};
+
+// Dropped on the all-day row: drop the specific time
+export const rescheduleToAllDay = (event: ViewEvent, day: Date): EventReschedule => ({
+  start: startOfDay(day),
+  duration: currentDuration(event),
+  allDay: true,
+});
+
+// Dropped on the hour grid at a given offset from midnight
+export const rescheduleToSlot = (event: ViewEvent, day: Date, minutes: number): EventReschedule => {
+  const clamped = Math.min(Math.max(snapMinutes(minutes), 0), 24 * 60 - SNAP_MINUTES);
+  return { start: addMinutes(startOfDay(day), clamped), duration: currentDuration(event), allDay: false };
+};
+
+export const resizeEvent = (event: ViewEvent, duration: number): EventReschedule => ({
+  start: event.date,
+  duration: Math.max(snapMinutes(duration), MIN_EVENT_DURATION),
+  allDay: false,
+});
+
+// Keyboard equivalent of dragging: Alt+←/→ moves a day, Alt+↑/↓ moves an hour,
+// Alt+Shift+↑/↓ shortens or lengthens by one snap step
+export const keyboardReschedule = (
+  event: ViewEvent,
+  key: string,
+  shiftKey: boolean
+): EventReschedule | null => {
+  const duration = currentDuration(event);
+  const allDay = !isTimedEvent(event);
+  switch (key) {
+    case 'ArrowLeft':
+      return { start: subDays(event.date, 1), duration, allDay };
+    case 'ArrowRight':
+      return { start: addDays(event.date, 1), duration, allDay };
+    case 'ArrowUp':
+    case 'ArrowDown': {
+      // Hours and durations only apply to tasks with a specific time
+      if (allDay) return null;
+      const step = key === 'ArrowUp' ? -1 : 1;
+      if (shiftKey) return resizeEvent(event, duration + step * SNAP_MINUTES);
+      return { start: addMinutes(event.date, step * 60), duration, allDay };
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,87 @@
+// src/lib/desktopNotifications.ts
+// Browser notifications for reminders, with Snooze and Done buttons where a service worker can show them
+
+import { translateEnglish, type Translate } from './i18n';
+import type { ReminderTrigger } from './reminders';
+
+const WORKER_URL = '/reminder-sw.js';
+
+export type ReminderAction = 'snooze' | 'complete' | 'open';
+
+export interface ReminderActionMessage {
+  type: 'reminder-action';
+  action: ReminderAction;
+  trigger: ReminderTrigger;
+}
+
+export const notificationPermission = (): NotificationPermission | 'unsupported' =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  return Notification.requestPermission();
+};
+
+// Only a service worker's notifications can carry buttons; without one the toast offers them instead
+export const registerReminderWorker = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register(WORKER_URL);
+  } catch (error) {
+    console.warn('⚠️ Reminder service worker unavailable, notifications will have no buttons:', error);
+  }
+};
+
+// Notification options the DOM typings don't list yet
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions?: { action: ReminderAction; title: string }[];
+}
+
+export const showDesktopNotification = async (
+  trigger: ReminderTrigger,
+  snoozeMinutes: number,
+  t: Translate = translateEnglish
+) => {
+  if (notificationPermission() !== 'granted') return;
+  const options: ReminderNotificationOptions = {
+    body: trigger.body,
+    // Same tag, same notification: a trigger shown twice replaces itself
+    tag: trigger.key,
+    icon: '/favicon.ico',
+    data: { trigger },
+  };
+
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration(WORKER_URL).catch(() => undefined)
+    : undefined;
+  if (registration?.active) {
+    await registration.showNotification(trigger.title, {
+      ...options,
+      actions: [
+        { action: 'snooze', title: t('reminder.snoozeFor', { minutes: snoozeMinutes }) },
+        ...(trigger.canComplete ? [{ action: 'complete' as const, title: t('reminder.markDone') }] : []),
+      ],
+    });
+    return;
+  }
+
+  try {
+    const notification = new Notification(trigger.title, options);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('⚠️ Could not show notification:', error);
+  }
+};
+
+export const onReminderAction = (handler: (message: ReminderActionMessage) => void) => {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'reminder-action') handler(event.data as ReminderActionMessage);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
@@ -0,0 +1,22 @@
+// src/lib/download.ts
+// Saves generated text, such as an export, as a file through a temporary link
+
+import { format } from 'date-fns';
+
+// e.g. "tasks-2026-10-19.csv"
+export const exportFileName = (label: string, extension: string, now = new Date()) => {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tasks';
+  return `${slug}-${format(now, 'yyyy-MM-dd')}.${extension}`;
+};
+
+export const downloadTextFile = (fileName: string, content: string, type = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
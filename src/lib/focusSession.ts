@@ -0,0 +1,254 @@
+// src/lib/focusSession.ts
+// Pomodoro-style focus sessions on a task, shared by every open tab through localStorage. Finished work
+// goes into the same time entries as the task timer, and the next task is picked by priority, urgency and deadline
+
+import type { FocusSettings } from '@/types/CalendarTypes';
+import type { Task } from '@/types/TaskTypes';
+import { translateEnglish, type Translate } from './i18n';
+import { buildDependencyGraph, openPrerequisites } from './taskDependencies';
+import { recordTimeEntry, stopTimer } from './timeTracking';
+
+const STORAGE_KEY = 'deeptalk_focus_session';
+const FOCUS_LOCK = 'deeptalk-focus-session';
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  sessionsBeforeLongBreak: 4,
+  spokenCues: true,
+};
+
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface FocusSession {
+  taskId: string;
+  taskName: string;
+  phase: FocusPhase;
+  phaseMs: number; // full length of the phase
+  endsAt: string | null; // ISO while running, null while paused
+  remainingMs: number; // while paused
+  workStartedAt: string | null; // ISO, when the work phase first ran; the start of its time entry
+  completedWork: number; // work phases finished in this session
+}
+
+// A phase that ran out
+export interface FocusTransition {
+  finished: FocusPhase;
+  next: FocusPhase;
+  at: Date;
+  session: FocusSession; // as it was when the phase ended
+}
+
+export const readFocusSession = (): FocusSession | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved && typeof saved.taskId === 'string' ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+const listeners: Array<(session: FocusSession | null) => void> = [];
+const emit = () => {
+  const session = readFocusSession();
+  listeners.forEach(listener => listener(session));
+};
+
+// Called with the session after any change, from this tab or another one
+export const subscribeFocusSession = (listener: (session: FocusSession | null) => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(readFocusSession());
+  };
+  listeners.push(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+// Read-modify-write by one tab at a time where the Web Locks API exists; the change returns the new session
+const withSession = <T>(change: (session: FocusSession | null) => { session: FocusSession | null; result: T }): Promise<T> => {
+  const run = async () => {
+    const { session, result } = change(readFocusSession());
+    try {
+      if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+      else localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('❌ Failed to save focus session:', error);
+    }
+    emit();
+    return result;
+  };
+  return navigator.locks ? navigator.locks.request(FOCUS_LOCK, run) : run();
+};
+
+export const remainingMs = (session: FocusSession, now = new Date()) =>
+  session.endsAt ? Math.max(0, new Date(session.endsAt).getTime() - now.getTime()) : session.remainingMs;
+
+// 0 when the phase starts, 1 when it's over
+export const focusProgress = (session: FocusSession, now = new Date()) =>
+  session.phaseMs ? 1 - remainingMs(session, now) / session.phaseMs : 0;
+
+const phaseLength = (phase: FocusPhase, settings: FocusSettings) =>
+  (phase === 'work' ? settings.workMinutes : phase === 'shortBreak' ? settings.shortBreakMinutes : settings.longBreakMinutes) * MINUTE_MS;
+
+// A phase of the session, waiting to be started
+const pendingPhase = (session: FocusSession, phase: FocusPhase, settings: FocusSettings): FocusSession => ({
+  ...session,
+  phase,
+  phaseMs: phaseLength(phase, settings),
+  endsAt: null,
+  remainingMs: phaseLength(phase, settings),
+  workStartedAt: null,
+});
+
+const run = (session: FocusSession, now: Date): FocusSession => ({
+  ...session,
+  endsAt: new Date(now.getTime() + session.remainingMs).toISOString(),
+  workStartedAt: session.phase === 'work' ? session.workStartedAt ?? now.toISOString() : null,
+});
+
+// Work done in the phase so far, as an entry for the task's actual time
+const logWork = (session: FocusSession | null, now: Date) => {
+  if (session?.phase !== 'work' || !session.workStartedAt) return Promise.resolve(null);
+  const worked = session.phaseMs - remainingMs(session, now);
+  return recordTimeEntry({ id: session.taskId, name: session.taskName }, new Date(session.workStartedAt), now, worked / MINUTE_MS);
+};
+
+// Starts working on the task straight away. A running task timer is stopped first, so the
+// same minutes aren't counted twice, and a session already going is ended with its work logged
+export const startFocus = async (task: Pick<Task, 'id' | 'name'>, settings: FocusSettings, now = new Date()) => {
+  await stopTimer(now);
+  const fresh: FocusSession = {
+    taskId: task.id,
+    taskName: task.name,
+    phase: 'work',
+    phaseMs: phaseLength('work', settings),
+    endsAt: null,
+    remainingMs: phaseLength('work', settings),
+    workStartedAt: null,
+    completedWork: 0,
+  };
+  const previous = await withSession(session => ({ session: run(fresh, now), result: session }));
+  await logWork(previous, now);
+};
+
+export const pauseFocus = (now = new Date()) =>
+  withSession(session => ({
+    session: session?.endsAt ? { ...session, endsAt: null, remainingMs: remainingMs(session, now) } : session,
+    result: undefined,
+  }));
+
+export const resumeFocus = (now = new Date()) =>
+  withSession(session => ({
+    session: session && !session.endsAt ? run(session, now) : session,
+    result: undefined,
+  }));
+
+// Ends the session; work done in the current phase still counts
+export const stopFocus = async (now = new Date()) => {
+  const previous = await withSession(session => ({ session: null, result: session }));
+  await logWork(previous, now);
+};
+
+// Work continues on another task from the next work phase; one already under way stays with its task
+export const switchFocusTask = (task: Pick<Task, 'id' | 'name'>) =>
+  withSession(session => ({
+    session: session && !session.workStartedAt ? { ...session, taskId: task.id, taskName: task.name } : session,
+    result: undefined,
+  }));
+
+const nextPhase = (session: FocusSession, completedWork: number, settings: FocusSettings): FocusPhase => {
+  if (session.phase !== 'work') return 'work';
+  const every = Math.max(1, settings.sessionsBeforeLongBreak);
+  return completedWork > 0 && completedWork % every === 0 ? 'longBreak' : 'shortBreak';
+};
+
+// Moves on to the next phase now and runs it; work cut short still counts towards the task, but not towards a long
+// break, so a short one follows it
+export const skipFocusPhase = async (settings: FocusSettings, now = new Date()) => {
+  const previous = await withSession(session => ({
+    session: session && run(pendingPhase(session, session.phase === 'work' ? 'shortBreak' : 'work', settings), now),
+    result: session,
+  }));
+  await logWork(previous, now);
+};
+
+// Moves past every phase that has run out. Breaks follow work straight away; work after a break waits to be
+// started, so time isn't logged while nobody is there. Only one tab gets the transitions back
+export const advanceFocus = async (settings: FocusSettings, now = new Date()): Promise<FocusTransition[]> => {
+  const transitions = await withSession(session => {
+    const transitions: FocusTransition[] = [];
+    let current = session;
+    while (current?.endsAt && new Date(current.endsAt) <= now) {
+      const at = new Date(current.endsAt);
+      const completedWork = current.completedWork + (current.phase === 'work' ? 1 : 0);
+      const upcoming = pendingPhase({ ...current, completedWork }, nextPhase(current, completedWork, settings), settings);
+      transitions.push({ finished: current.phase, next: upcoming.phase, at, session: current });
+      current = upcoming.phase === 'work' ? upcoming : run(upcoming, at);
+    }
+    return { session: current, result: transitions };
+  });
+
+  for (const { finished, at, session } of transitions) {
+    if (finished !== 'work') continue;
+    const task = { id: session.taskId, name: session.taskName };
+    await recordTimeEntry(task, new Date(session.workStartedAt ?? at), at, session.phaseMs / MINUTE_MS);
+  }
+  return transitions;
+};
+
+// What the assistant says when a phase runs out
+export const transitionCue = ({ finished, next, session }: FocusTransition, settings: FocusSettings, t: Translate = translateEnglish) => {
+  if (finished !== 'work') return t('focus.cue.breakOver', { task: session.taskName });
+  return next === 'longBreak'
+    ? t('focus.cue.longBreak', { count: session.completedWork + 1, minutes: settings.longBreakMinutes })
+    : t('focus.cue.break', { task: session.taskName, minutes: settings.shortBreakMinutes });
+};
+
+// ---- What to work on next ----
+
+const isOpen = (task: Task) => task.status !== 'completed' && task.status !== 'cancelled';
+
+// 1 without a deadline, rising to 4 as it comes due and staying there once it's overdue
+const deadlineWeight = (task: Task, now: Date) => {
+  if (!task.deadline) return 1;
+  const hoursLeft = (new Date(task.deadline).getTime() - now.getTime()) / (60 * MINUTE_MS);
+  if (Number.isNaN(hoursLeft)) return 1;
+  return hoursLeft <= 0 ? 4 : 1 + 3 * 24 / (24 + hoursLeft);
+};
+
+// Priority and urgency run from 1 (highest) to 5, so both are turned around to make bigger mean sooner
+export const focusScore = (task: Task, now = new Date()) =>
+  (6 - (task.priority || 3)) * (6 - (task.urgency || 3)) * deadlineWeight(task, now);
+
+// The open task worth doing next, leaving out ones still waiting on a prerequisite
+export const suggestNextTask = (tasks: Task[], { now = new Date(), exclude }: { now?: Date; exclude?: string } = {}) => {
+  const graph = buildDependencyGraph(tasks);
+  const tasksById = new Map(tasks.map(task => [String(task.id), task]));
+  const deadline = (task: Task) => (task.deadline ? new Date(task.deadline).getTime() : Infinity);
+  return tasks
+    .filter(task => isOpen(task) && String(task.id) !== exclude)
+    .filter(task => openPrerequisites(graph, tasksById, String(task.id)).length === 0)
+    .map(task => ({ task, score: focusScore(task, now) }))
+    .sort((a, b) => b.score - a.score || deadline(a.task) - deadline(b.task) || a.task.name.localeCompare(b.task.name))[0]?.task;
+};
+
+// ---- Voice ----
+
+export type FocusCommand = 'pause' | 'resume' | 'skip' | 'stop';
+
+const COMMAND_PATTERNS: [FocusCommand, RegExp][] = [
+  ['pause', /\b(pause|hold on)\b|tạm dừng/i],
+  ['resume', /\b(resume|continue|start|go)\b|tiếp tục|bắt đầu/i],
+  ['skip', /\b(skip|next)\b|bỏ qua/i],
+  ['stop', /\b(stop|end|finish|quit)\b|dừng|kết thúc/i],
+];
+
+// What was said to the focus ring, in English or Vietnamese
+export const parseFocusCommand = (text: string): FocusCommand | null =>
+  COMMAND_PATTERNS.find(([, pattern]) => pattern.test(text.trim()))?.[0] ?? null;
@@ -0,0 +1,151 @@
+// src/lib/fuzzySearch.ts
+// Fuzzy matching of tasks and categories for the command palette, with the ranges to highlight
+
+import type { Task, TaskCategory } from '@/types/TaskTypes';
+
+export type MatchRange = [number, number]; // [start, end) in the field's text
+
+export interface FuzzyMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+export type TaskSearchField = 'name' | 'tags' | 'category' | 'location' | 'description';
+
+export interface FieldMatch {
+  text: string;
+  ranges: MatchRange[];
+}
+
+export interface TaskSearchResult {
+  task: Task;
+  score: number;
+  fields: Partial<Record<TaskSearchField, FieldMatch>>;
+}
+
+// A hit in the name counts for more than the same hit in the description
+const FIELD_WEIGHTS: Record<TaskSearchField, number> = {
+  name: 3,
+  tags: 2,
+  category: 2,
+  location: 1.5,
+  description: 1,
+};
+
+// Letters scattered through a long description match almost anything
+const SUBSEQUENCE_FIELDS: TaskSearchField[] = ['name', 'tags', 'category', 'location'];
+
+const isWordStart = (text: string, index: number) => index === 0 || /[^\p{L}\p{N}]/u.test(text[index - 1]);
+
+const subsequenceFrom = (needle: string, haystack: string, start: number): FuzzyMatch | null => {
+  const ranges: MatchRange[] = [];
+  let score = 0;
+  let from = start;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, from);
+    if (found < 0) return null;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === found) {
+      last[1] = found + 1;
+      score += 6;
+    } else {
+      ranges.push([found, found + 1]);
+      score += isWordStart(haystack, found) ? 4 : 1;
+    }
+    from = found + 1;
+  }
+  return { score, ranges };
+};
+
+// Contiguous matches beat scattered ones, and matches at a word start beat those inside a word
+export const fuzzyMatch = (query: string, text: string, allowSubsequence = true): FuzzyMatch | null => {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle || !haystack) return null;
+
+  const index = haystack.indexOf(needle);
+  if (index >= 0) {
+    const score = 100 + needle.length * 2 + (isWordStart(haystack, index) ? 40 : 0) + (index === 0 ? 20 : 0);
+    return { score, ranges: [[index, index + needle.length]] };
+  }
+  if (!allowSubsequence) return null;
+
+  // Greedy from each place the first letter appears, keeping the best alignment
+  let best: FuzzyMatch | null = null;
+  for (let start = haystack.indexOf(needle[0]); start >= 0; start = haystack.indexOf(needle[0], start + 1)) {
+    const match = subsequenceFrom(needle, haystack, start);
+    if (match && (!best || match.score > best.score)) best = match;
+  }
+  // Too many pieces reads as noise rather than a match
+  return best && best.ranges.length <= Math.ceil(needle.length / 2) + 1 ? best : null;
+};
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+      else merged.push([...range]);
+      return merged;
+    }, []);
+
+const taskFields = (task: Task): Record<TaskSearchField, string> => ({
+  name: task.name,
+  tags: task.tags.join(', '),
+  category: task.category?.name ?? '',
+  location: task.location,
+  description: task.description,
+});
+
+// Every word of the query has to match somewhere; each word counts in the field it matches best
+export const matchTask = (task: Task, query: string): TaskSearchResult | null => {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const texts = taskFields(task);
+  const fields: TaskSearchResult['fields'] = {};
+  let score = 0;
+
+  for (const word of words) {
+    let best: { field: TaskSearchField; match: FuzzyMatch; weighted: number } | null = null;
+    for (const field of Object.keys(texts) as TaskSearchField[]) {
+      const match = fuzzyMatch(word, texts[field], SUBSEQUENCE_FIELDS.includes(field));
+      const weighted = match ? match.score * FIELD_WEIGHTS[field] : 0;
+      if (match && (!best || weighted > best.weighted)) best = { field, match, weighted };
+    }
+    if (!best) return null;
+    const { field, match, weighted } = best;
+    score += weighted;
+    fields[field] = { text: texts[field], ranges: mergeRanges([...(fields[field]?.ranges ?? []), ...match.ranges]) };
+  }
+
+  return { task, score, fields };
+};
+
+export const searchTasks = (tasks: Task[], query: string, limit = 20): TaskSearchResult[] =>
+  tasks
+    .map(task => matchTask(task, query))
+    .filter((result): result is TaskSearchResult => result !== null)
+    .sort((a, b) => b.score - a.score || a.task.name.localeCompare(b.task.name))
+    .slice(0, limit);
+
+export const searchCategories = (categories: TaskCategory[], query: string) =>
+  categories
+    .map(category => ({ category, match: fuzzyMatch(query, category.name) }))
+    .filter((result): result is { category: TaskCategory; match: FuzzyMatch } => result.match !== null)
+    .sort((a, b) => b.match.score - a.match.score);
+
+// A window of a long text around its first match, with the ranges moved to fit
+export const snippet = ({ text, ranges }: FieldMatch, radius = 40): FieldMatch => {
+  if (ranges.length === 0 || text.length <= radius * 2) return { text, ranges };
+  const start = Math.max(0, ranges[0][0] - radius);
+  const end = Math.min(text.length, ranges[0][1] + radius);
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    ranges: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift] as MatchRange),
+  };
+};
@@ -0,0 +1,87 @@
+// src/lib/i18n.test.ts
+// ICU arguments and plurals, the catalogs against each other, and text direction
+
+import { describe, expect, it } from 'vitest';
+import calendarSource from '@/components/CalendarContainer.tsx?raw';
+import assistantSource from '@/components/AIAssistant.tsx?raw';
+import homeSource from '@/pages/Index.tsx?raw';
+import { en, type MessageKey } from '@/locales/en';
+import { vi } from '@/locales/vi';
+import { createTranslator, formatMessage, textDirection } from './i18n';
+
+const TASKS = '{count, plural, =0 {no tasks} one {# task} other {# tasks}}';
+
+describe('formatMessage', () => {
+  it('fills in arguments and leaves unknown ones as written', () => {
+    expect(formatMessage('Logged in as {name}', { name: 'Lan' })).toBe('Logged in as Lan');
+    expect(formatMessage('Logged in as {name}')).toBe('Logged in as {name}');
+    expect(formatMessage('{total, number} open', { total: 1234 })).toBe('1,234 open');
+  });
+
+  it('picks the plural form for the count', () => {
+    expect(formatMessage(TASKS, { count: 1 })).toBe('1 task');
+    expect(formatMessage(TASKS, { count: 3 })).toBe('3 tasks');
+    expect(formatMessage(TASKS, { count: 0 })).toBe('no tasks');
+    expect(formatMessage(TASKS, { count: 1500 })).toBe('1,500 tasks');
+  });
+
+  it('formats # and falls back to other in languages without a singular', () => {
+    expect(formatMessage('{count, plural, other {# việc}}', { count: 1 }, 'vi')).toBe('1 việc');
+    expect(formatMessage(TASKS, { count: 1500 }, 'vi')).toBe('1.500 tasks');
+  });
+
+  it('handles select and arguments nested in a plural', () => {
+    const message = '{count, plural, one {# change} other {# changes}} by {who, select, me {you} other {{who}}}';
+    expect(formatMessage(message, { count: 2, who: 'me' })).toBe('2 changes by you');
+    expect(formatMessage(message, { count: 1, who: 'Lan' })).toBe('1 change by Lan');
+    expect(formatMessage('{more, plural, =0 {} other { and # more}}', { more: 0 })).toBe('');
+  });
+});
+
+describe('catalogs', () => {
+  const argumentNames = (message: string) =>
+    [...message.matchAll(/\{(\w+)(?=[,}])/g)].map(match => match[1]);
+
+  // A misspelled argument would show up on screen as "{name}"
+  it('only use arguments the English message is given', () => {
+    (Object.keys(en) as MessageKey[]).forEach(key => {
+      const names = argumentNames(en[key]);
+      expect({ key, unknown: argumentNames(vi[key]).filter(name => !names.includes(name)) }).toEqual({ key, unknown: [] });
+    });
+  });
+
+  it('translate with the language\'s own plural rules', () => {
+    expect(createTranslator('en')('offline.savedBody', { count: 1 })).toBe('1 change sent to the server.');
+    expect(createTranslator('vi')('offline.savedBody', { count: 1 })).toBe('Đã gửi 1 thay đổi lên máy chủ.');
+  });
+});
+
+describe('textDirection', () => {
+  it.each(['en', 'vi', 'en-GB', 'vi-VN'])('lays %s out left to right', (code) => {
+    expect(textDirection(code)).toBe('ltr');
+  });
+
+  it.each(['ar', 'he', 'fa-IR', 'UR'])('lays %s out right to left', (code) => {
+    expect(textDirection(code)).toBe('rtl');
+  });
+});
+
+// Margins, padding and positions that stay on the same side when <html dir> flips
+describe('right-to-left layout', () => {
+  const PHYSICAL_CLASS =
+    /(?<![\w-])(?:-?(?:[mp][lr]|left|right)-(?:[\w.]+|\[[^\]]*\])|(?:border-|rounded-[tb]?)[lr](?:-[\w.]+)?|text-(?:left|right))(?![\w-])/g;
+
+  it.each([
+    ['the task editor', calendarSource],
+    ['the assistant', assistantSource],
+    ['the home page', homeSource],
+  ])('%s uses start and end classes only', (_name, source) => {
+    expect(source.match(PHYSICAL_CLASS)).toBeNull();
+  });
+
+  it('catches left and right classes', () => {
+    const classes = 'ml-auto mr-2 pl-4 -mr-1 left-4 right-0 text-left border-r rounded-l-md pr-[10px]';
+    expect(classes.match(PHYSICAL_CLASS)).toHaveLength(10);
+    expect('ms-auto me-2 ps-4 start-4 text-start border-e text-2xl ml'.match(PHYSICAL_CLASS)).toBeNull();
+  });
+});
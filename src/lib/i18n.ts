@@ -0,0 +1,113 @@
+// src/lib/i18n.ts
+// UI languages: message catalogs with ICU-style arguments and plurals, plus each language's date-fns locale,
+// speech voice, week start and text direction
+
+import type { Locale } from 'date-fns';
+import { enUS, vi as viDates } from 'date-fns/locale';
+import { en, type MessageKey } from '@/locales/en';
+import { vi } from '@/locales/vi';
+import type { WeekStart } from '@/types/CalendarTypes';
+
+export type { MessageKey };
+export type LanguageCode = 'en' | 'vi';
+export type MessageValues = Record<string, string | number>;
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export interface Language {
+  code: LanguageCode;
+  name: string; // in the language itself, as shown in the picker
+  dateLocale: Locale;
+  speechLang: string; // BCP 47 tag for speech recognition and synthesis
+  weekStartsOn: WeekStart;
+  messages: Record<MessageKey, string>;
+}
+
+export const LANGUAGES: Record<LanguageCode, Language> = {
+  en: { code: 'en', name: 'English', dateLocale: enUS, speechLang: 'en-US', weekStartsOn: 0, messages: en },
+  vi: { code: 'vi', name: 'Tiếng Việt', dateLocale: viDates, speechLang: 'vi-VN', weekStartsOn: 1, messages: vi },
+};
+
+// Languages written right to left, for when a catalog for one of them is added
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+// The saved choice, else the first browser language there's a catalog for, else English
+export const resolveLanguage = (code?: string | null): LanguageCode => {
+  const candidates = code ? [code] : typeof navigator === 'undefined' ? [] : [...(navigator.languages ?? [navigator.language])];
+  const match = candidates.map(tag => tag.toLowerCase().split('-')[0]).find(base => base in LANGUAGES);
+  return (match as LanguageCode) ?? 'en';
+};
+
+export const textDirection = (code: string): 'ltr' | 'rtl' =>
+  RTL_LANGUAGES.includes(code.toLowerCase().split('-')[0]) ? 'rtl' : 'ltr';
+
+// ---- ICU message format (arguments, number, plural and select) ----
+
+// Index of the brace closing the one at `open`, or -1
+const closingBrace = (text: string, open: number) => {
+  let depth = 0;
+  for (let index = open; index < text.length; index++) {
+    if (text[index] === '{') depth++;
+    else if (text[index] === '}' && --depth === 0) return index;
+  }
+  return -1;
+};
+
+// "=0 {none} one {# task} other {# tasks}" → { '=0': 'none', one: '# task', other: '# tasks' }
+const parseOptions = (text: string) => {
+  const options: Record<string, string> = {};
+  let rest = text.trim();
+  while (rest) {
+    const open = rest.indexOf('{');
+    const close = open < 0 ? -1 : closingBrace(rest, open);
+    if (close < 0) break;
+    options[rest.slice(0, open).trim()] = rest.slice(open + 1, close);
+    rest = rest.slice(close + 1).trim();
+  }
+  return options;
+};
+
+const formatArgument = (body: string, values: MessageValues, locale: string): string => {
+  const match = body.match(/^\s*(\w+)\s*(?:,\s*(number|plural|select)\s*(?:,([\s\S]*))?)?$/);
+  if (!match) return `{${body}}`;
+  const [, name, type, options = ''] = match;
+  const value = values[name];
+  if (value === undefined) return `{${name}}`;
+
+  switch (type) {
+    case 'plural': {
+      const count = Number(value);
+      const choices = parseOptions(options);
+      const choice = choices[`=${count}`] ?? choices[new Intl.PluralRules(locale).select(count)] ?? choices.other ?? '';
+      return formatMessage(choice.replace(/#/g, new Intl.NumberFormat(locale).format(count)), values, locale);
+    }
+    case 'select': {
+      const choices = parseOptions(options);
+      return formatMessage(choices[String(value)] ?? choices.other ?? '', values, locale);
+    }
+    default:
+      return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  }
+};
+
+// Fills in "{name}", "{count, number}", "{count, plural, one {# task} other {# tasks}}" and "{kind, select, ...}"
+export const formatMessage = (message: string, values: MessageValues = {}, locale = 'en'): string => {
+  let result = '';
+  let index = 0;
+  while (index < message.length) {
+    const open = message.indexOf('{', index);
+    const close = open < 0 ? -1 : closingBrace(message, open);
+    if (close < 0) return result + message.slice(index);
+    result += message.slice(index, open) + formatArgument(message.slice(open + 1, close), values, locale);
+    index = close + 1;
+  }
+  return result;
+};
+
+// Keys missing from a catalog fall back to English
+export const createTranslator = (code: LanguageCode): Translate => {
+  const { messages } = LANGUAGES[code];
+  return (key, values) => formatMessage(messages[key] ?? en[key] ?? key, values, code);
+};
+
+// For code that runs outside React and hasn't been handed the user's language
+export const translateEnglish = createTranslator('en');
@@ -0,0 +1,102 @@
+// src/lib/ical.test.ts
+// Repeating tasks written on their zone's clock, and read back the same
+
+import { describe, expect, it } from 'vitest';
+import type { Task } from '@/types/TaskTypes';
+import { parseICalendar, tasksToICalendar } from './ical';
+import { makeTask } from './testTasks';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+// 9:00 in New York every Monday, from before spring-forward
+const standup = makeTask({
+  name: 'Standup',
+  specific_time: '2026-03-02T14:00:00.000Z',
+  deadline: '2026-03-02T14:00:00.000Z',
+  duration_minutes: 15,
+  timezone: 'America/New_York',
+  is_repeat: true,
+  repeat_pattern: 'weekly',
+  repeat_frequency: 1,
+  repeat_days_of_week: ['Monday'],
+  recurrence_exceptions: [
+    { date: '2026-03-16', skip: true },
+    { date: '2026-03-23', start: '2026-03-24T13:00:00.000Z', fields: { name: 'Standup (Tuesday)' } },
+  ],
+});
+
+const exportLines = (tasks: Task[]) => tasksToICalendar(tasks, { now: NOW }).split('\r\n');
+
+// The lines of the first component with this name
+const component = (lines: string[], name: string) => {
+  const start = lines.indexOf(`BEGIN:${name}`);
+  return lines.slice(start, lines.indexOf(`END:${name}`, start) + 1);
+};
+
+describe('tasksToICalendar', () => {
+  it('writes a repeating task on its zone clock', () => {
+    const lines = exportLines([standup]);
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260302T090000');
+    expect(lines).toContain('DTEND;TZID=America/New_York:20260302T091500');
+    expect(lines).toContain('EXDATE;TZID=America/New_York:20260316T090000');
+    expect(lines).toContain('RECURRENCE-ID;TZID=America/New_York:20260323T090000');
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260324T090000');
+    expect(lines.filter(line => /^(DTSTART|DTEND|EXDATE|RECURRENCE-ID)[:;]/.test(line) && line.endsWith('Z'))).toEqual([]);
+  });
+
+  it('describes the zone in a VTIMEZONE, continuing its last changes yearly', () => {
+    expect(component(exportLines([standup]), 'VTIMEZONE')).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:STANDARD', 'DTSTART:20260101T000000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0500', 'END:STANDARD',
+      'BEGIN:DAYLIGHT', 'DTSTART:20260308T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400', 'END:DAYLIGHT',
+      'BEGIN:STANDARD', 'DTSTART:20261101T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500', 'END:STANDARD',
+      'BEGIN:DAYLIGHT', 'DTSTART:20270314T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400',
+      'RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3', 'END:DAYLIGHT',
+      'BEGIN:STANDARD', 'DTSTART:20271107T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500',
+      'RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11', 'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('starts a southern zone in daylight time', () => {
+    const lines = exportLines([{ ...standup, timezone: 'Australia/Sydney' }]);
+    expect(component(lines, 'VTIMEZONE').slice(2, 7)).toEqual([
+      'BEGIN:DAYLIGHT', 'DTSTART:20260101T000000', 'TZOFFSETFROM:+1100', 'TZOFFSETTO:+1100', 'END:DAYLIGHT',
+    ]);
+  });
+
+  it('gives a zone without DST one offset', () => {
+    const lines = exportLines([{ ...standup, timezone: 'Asia/Ho_Chi_Minh' }]);
+    expect(component(lines, 'VTIMEZONE')).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Ho_Chi_Minh',
+      'BEGIN:STANDARD', 'DTSTART:20260101T000000', 'TZOFFSETFROM:+0700', 'TZOFFSETTO:+0700', 'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    expect(lines).toContain('DTSTART;TZID=Asia/Ho_Chi_Minh:20260302T210000');
+  });
+
+  it('leaves one-off tasks in UTC', () => {
+    const lines = exportLines([makeTask({ specific_time: '2026-03-02T14:00:00.000Z', deadline: '2026-03-02T14:00:00.000Z', timezone: 'America/New_York' })]);
+    expect(lines).toContain('DTSTART:20260302T140000Z');
+    expect(lines).not.toContain('BEGIN:VTIMEZONE');
+  });
+});
+
+describe('parseICalendar', () => {
+  it('reads an exported series back unchanged', () => {
+    const [item] = parseICalendar(tasksToICalendar([standup], { now: NOW }));
+    expect(item.input).toMatchObject({
+      specific_time: standup.specific_time,
+      timezone: 'America/New_York',
+      repeat_pattern: 'weekly',
+      repeat_days_of_week: ['Monday'],
+      recurrence_exceptions: [
+        { date: '2026-03-16', skip: true },
+        { date: '2026-03-23', start: '2026-03-24T13:00:00.000Z', duration: 15, fields: { name: 'Standup (Tuesday)' } },
+      ],
+    });
+    expect(item.warnings).toEqual([]);
+  });
+});
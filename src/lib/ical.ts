@@ -0,0 +1,593 @@
+// src/lib/ical.ts
+// iCalendar (RFC 5545) export and import of tasks: VTODO/VEVENT with RRULE, EXDATE, VTIMEZONE, VALARM, CATEGORIES and PRIORITY
+
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import {
+  formatRRule, occurrenceKey, occurrenceStartFromKey, parseRRule, ruleFromRepeatFields, ruleToRepeatFields, WEEKDAY_CODES
+} from '@/lib/recurrence';
+import { getTaskStart, toTaskPriority } from '@/lib/taskMappers';
+import { fromZonedWallTime, isValidTimeZone, resolveTimeZone, zoneOffset, zoneTransitions } from '@/lib/timezones';
+import type { RecurrenceException } from '@/types/CalendarTypes';
+import type { Task, TaskCategory, TaskInput, TaskStatus } from '@/types/TaskTypes';
+
+export type ICalComponentKind = 'VTODO' | 'VEVENT';
+
+// One task read from a file, ready for taskClient.createTask
+export interface ICalImportItem {
+  uid: string | null;
+  kind: ICalComponentKind;
+  input: TaskInput;
+  warnings: string[]; // what didn't carry over
+}
+
+export interface ICalImportRow {
+  item: ICalImportItem;
+  duplicateOf: Task | null; // an existing task this looks like
+  repeatedInFile: boolean; // the same item appeared earlier in the file
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+interface ICalDate {
+  date: Date;
+  allDay: boolean;
+  timeZone?: string; // the TZID it was given in, when Intl knows it
+}
+
+const PRODUCT_ID = '-//DeepTalk//Task Calendar//EN';
+const UID_DOMAIN = 'deeptalk';
+const MAX_LINE_OCTETS = 75;
+
+const TODO_STATUS: Record<TaskStatus, string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+  on_hold: 'NEEDS-ACTION',
+};
+
+const TASK_STATUSES = Object.keys(TODO_STATUS) as TaskStatus[];
+
+// ---- Values ----
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Commas inside a list value are escaped when they belong to an item
+const splitList = (value: string) => value.split(/(?<!\\),/);
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// The instant on the zone's clock, for a TZID property
+const formatWallTime = (date: Date, timeZone: string) =>
+  formatUtc(new Date(date.getTime() + zoneOffset(date.getTime(), timeZone))).replace(/Z$/, '');
+
+// Milliseconds ahead of UTC as +hhmm or -hhmm
+const formatOffset = (offset: number) => {
+  const minutes = Math.round(offset / 60000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+};
+
+const formatDuration = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '';
+  let rest = Math.abs(Math.round(minutes));
+  if (rest === 0) return 'PT0M';
+  const days = Math.floor(rest / 1440);
+  rest %= 1440;
+  const time = `${rest >= 60 ? `${Math.floor(rest / 60)}H` : ''}${rest % 60 ? `${rest % 60}M` : ''}`;
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+};
+
+// Minutes, negative for "before"; null when the text isn't a duration
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = Number(weeks) * 10080 + Number(days) * 1440 + Number(hours) * 60 + Number(minutes) + Math.round(Number(seconds) / 60);
+  return sign === '-' ? -total : total;
+};
+
+const addWarning = (warnings: string[], warning: string) => {
+  if (!warnings.includes(warning)) warnings.push(warning);
+};
+
+// DATE values are all-day; DATE-TIME values are UTC (Z), in a TZID zone, or floating local time
+const parseDateValue = (value: string, params: Record<string, string>, warnings: string[]): ICalDate | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    return { date: new Date(Number(year), Number(month) - 1, Number(day)), allDay: true };
+  }
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  if (utc) return { date: new Date(Date.UTC(...parts)), allDay: false };
+  if (params.TZID) {
+    const timeZone = params.TZID.replace(/^\//, '');
+    const zoned = isValidTimeZone(timeZone) ? fromZonedWallTime(Date.UTC(...parts), timeZone) : null;
+    if (zoned) return { date: zoned, allDay: false, timeZone };
+    addWarning(warnings, `Unknown time zone "${params.TZID}"; its times were read as local time`);
+  }
+  return { date: new Date(...parts), allDay: false };
+};
+
+// ---- Export ----
+
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const property = (name: string, value: string, params: string[] = []) =>
+  `${[name, ...params].join(';')}:${value}`;
+
+const taskUid = (task: Pick<Task, 'id'>) => `task-${task.id}@${UID_DOMAIN}`;
+
+const exportedTaskId = (uid: string) => uid.match(new RegExp(`^task-(.+)@${UID_DOMAIN}$`))?.[1] ?? null;
+
+// A repeating task runs on its zone's clock, or this device's without one, so its times are written there with
+// a TZID and keep their time of day across DST changes wherever they're imported. The rest go out in UTC
+const seriesTimeZone = (task: Task): string | null => {
+  if (!getTaskStart(task) || !ruleFromRepeatFields(task)) return null;
+  const zone = resolveTimeZone(task.timezone);
+  return /^(Etc\/)?(UTC|GMT)$/.test(zone) ? null : zone;
+};
+
+// "The last Sunday of March" for the day a zone changed its clocks, given as wall time read in UTC
+const yearlyRuleFor = (wall: Date) => {
+  const day = wall.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+  return formatRRule({
+    freq: 'YEARLY',
+    interval: 1,
+    byMonth: [wall.getUTCMonth() + 1],
+    byDay: [{ weekday: WEEKDAY_CODES[wall.getUTCDay()], ordinal: day + 7 > daysInMonth ? -1 : Math.ceil(day / 7) }],
+  });
+};
+
+// The zone's offsets over the years the series cover. Its last change of each kind also repeats yearly,
+// so apps that don't know the zone by name still get later years right
+const timeZoneComponent = (timeZone: string, fromYear: number, toYear: number): string[] => {
+  const observance = (kind: 'STANDARD' | 'DAYLIGHT', start: string, from: number, to: number, rrule?: string) => [
+    `BEGIN:${kind}`,
+    property('DTSTART', start),
+    property('TZOFFSETFROM', formatOffset(from)),
+    property('TZOFFSETTO', formatOffset(to)),
+    ...(rrule ? [property('RRULE', rrule)] : []),
+    `END:${kind}`,
+  ];
+  const transitions = zoneTransitions(timeZone, fromYear, toYear);
+  // What the clocks read from the start of the first year, before any change in it
+  const offset = zoneOffset(Date.UTC(fromYear, 0, 1), timeZone);
+  const startsInDaylight = transitions.length > 0 && transitions[0].to < transitions[0].from;
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    property('TZID', timeZone),
+    ...observance(startsInDaylight ? 'DAYLIGHT' : 'STANDARD', `${fromYear}0101T000000`, offset, offset),
+  ];
+  transitions.forEach(({ at, from, to }, index) => {
+    const daylight = to > from;
+    // Changes happen at a time on the clock they change from
+    const wall = new Date(at + from);
+    const lastOfKind = !transitions.slice(index + 1).some(later => (later.to > later.from) === daylight);
+    const rrule = lastOfKind && wall.getUTCFullYear() === toYear ? yearlyRuleFor(wall) : undefined;
+    lines.push(...observance(daylight ? 'DAYLIGHT' : 'STANDARD', formatUtc(wall).replace(/Z$/, ''), from, to, rrule));
+  });
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+// iCalendar priorities run 1 (highest) to 9; tasks use 1 to 5
+const toICalPriority = (priority: number) => toTaskPriority(priority) * 2 - 1;
+
+const fromICalPriority = (value: number) => (value >= 1 && value <= 9 ? toTaskPriority(Math.ceil(value / 2)) : undefined);
+
+// Tasks with a time slot become events so calendar apps show them in the grid; the rest are to-dos due at
+// their deadline. Events have no "completed" status, so the task's status rides along in X-DEEPTALK-STATUS.
+const taskToComponents = (task: Task, now: Date): string[] => {
+  const kind: ICalComponentKind = task.specific_time ? 'VEVENT' : 'VTODO';
+  const start = getTaskStart(task);
+  const duration = task.duration_minutes || task.estimated_duration_minutes;
+  const rule = start ? ruleFromRepeatFields(task) : null;
+  const stamp = property('DTSTAMP', formatUtc(now));
+  const zone = seriesTimeZone(task);
+  const dateProperty = (name: string, ...dates: Date[]) =>
+    zone
+      ? property(name, dates.map(date => formatWallTime(date, zone)).join(','), [`TZID=${zone}`])
+      : property(name, dates.map(formatUtc).join(','));
+
+  const timing = (at: Date, length = duration) =>
+    kind === 'VEVENT'
+      ? [dateProperty('DTSTART', at), ...(length ? [dateProperty('DTEND', addMinutes(at, length))] : [])]
+      // A repeating to-do needs a DTSTART for its RRULE to count from
+      : [...(rule ? [dateProperty('DTSTART', at)] : []), dateProperty('DUE', at)];
+
+  const lines = [`BEGIN:${kind}`, property('UID', taskUid(task)), stamp, property('SUMMARY', escapeText(task.name))];
+  if (task.description) lines.push(property('DESCRIPTION', escapeText(task.description)));
+  if (task.location) lines.push(property('LOCATION', escapeText(task.location)));
+  const categories = [task.category?.name, ...task.tags].filter(Boolean);
+  if (categories.length) lines.push(property('CATEGORIES', categories.map(escapeText).join(',')));
+  lines.push(property('PRIORITY', String(toICalPriority(task.priority))));
+  if (start) lines.push(...timing(start));
+
+  if (kind === 'VEVENT') {
+    lines.push(property('STATUS', task.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'));
+    lines.push(property('X-DEEPTALK-STATUS', task.status));
+  } else {
+    lines.push(property('STATUS', TODO_STATUS[task.status]));
+    lines.push(property('PERCENT-COMPLETE', String(Math.round(task.completion_percentage))));
+    if (task.completed_at) lines.push(property('COMPLETED', formatUtc(new Date(task.completed_at))));
+  }
+  if (task.created_at) lines.push(property('CREATED', formatUtc(new Date(task.created_at))));
+  if (task.updated_at) lines.push(property('LAST-MODIFIED', formatUtc(new Date(task.updated_at))));
+
+  const exceptions = rule ? task.recurrence_exceptions ?? [] : [];
+  if (rule) {
+    lines.push(property('RRULE', formatRRule(rule)));
+    const skipped = exceptions.filter(exception => exception.skip);
+    if (skipped.length) {
+      lines.push(dateProperty('EXDATE', ...skipped.map(exception => occurrenceStartFromKey(exception.date, start, task.timezone))));
+    }
+  }
+
+  // A to-do's reminders count back from DUE, which is where its start is
+  (task.reminders ?? []).forEach(minutes => {
+    lines.push(
+      'BEGIN:VALARM',
+      property('ACTION', 'DISPLAY'),
+      property('DESCRIPTION', escapeText(task.name)),
+      property('TRIGGER', formatDuration(-minutes), kind === 'VTODO' ? ['RELATED=END'] : []),
+      'END:VALARM'
+    );
+  });
+  lines.push(`END:${kind}`);
+
+  // Moved occurrences are overrides of the series, matched by UID and RECURRENCE-ID, with any details they changed
+  exceptions
+    .filter(exception => !exception.skip && exception.start)
+    .forEach(exception => {
+      const { name = task.name, description, location } = exception.fields ?? {};
+      lines.push(
+        `BEGIN:${kind}`,
+        property('UID', taskUid(task)),
+        stamp,
+        dateProperty('RECURRENCE-ID', occurrenceStartFromKey(exception.date, start, task.timezone)),
+        property('SUMMARY', escapeText(name)),
+        ...(description ? [property('DESCRIPTION', escapeText(description))] : []),
+        ...(location ? [property('LOCATION', escapeText(location))] : []),
+        ...timing(new Date(exception.start), exception.duration ?? duration),
+        `END:${kind}`
+      );
+    });
+
+  return lines;
+};
+
+export const tasksToICalendar = (tasks: Task[], { name, now = new Date() }: { name?: string; now?: Date } = {}) => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', property('PRODID', PRODUCT_ID), 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (name) lines.push(property('X-WR-CALNAME', escapeText(name)));
+
+  // Each zone a series is written in, from the year its earliest series starts through next year
+  const firstYears = new Map<string, number>();
+  tasks.forEach(task => {
+    const zone = seriesTimeZone(task);
+    if (!zone) return;
+    const year = getTaskStart(task).getUTCFullYear();
+    firstYears.set(zone, Math.min(firstYears.get(zone) ?? year, year));
+  });
+  firstYears.forEach((fromYear, zone) => {
+    lines.push(...timeZoneComponent(zone, fromYear, Math.max(fromYear, now.getFullYear() + 1)));
+  });
+
+  tasks.forEach(task => lines.push(...taskToComponents(task, now)));
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+// ---- Import ----
+
+// Splits on a separator that isn't inside a quoted parameter value
+const splitOutsideQuotes = (text: string, separator: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseContentLine = (line: string): ICalProperty | null => {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+  const [name, ...params] = splitOutsideQuotes(line.slice(0, colon), ';');
+  return {
+    name: name.trim().toUpperCase(),
+    params: Object.fromEntries(
+      params.map(param => {
+        const [key, ...rest] = param.split('=');
+        return [key.trim().toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+      })
+    ),
+    value: line.slice(colon + 1),
+  };
+};
+
+const parseComponents = (text: string): ICalComponent[] => {
+  const root: ICalComponent = { name: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    const current = stack[stack.length - 1];
+    if (parsed.name === 'BEGIN') {
+      const component: ICalComponent = { name: parsed.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (parsed.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(parsed);
+    }
+  }
+  return root.components;
+};
+
+const findProperty = (component: ICalComponent, name: string) =>
+  component.properties.find(item => item.name === name);
+
+const textOf = (component: ICalComponent, name: string) => {
+  const found = findProperty(component, name);
+  return found ? unescapeText(found.value).trim() : '';
+};
+
+const dateOf = (component: ICalComponent, name: string, warnings: string[]) => {
+  const found = findProperty(component, name);
+  return found ? parseDateValue(found.value, found.params, warnings) : null;
+};
+
+const statusOf = (component: ICalComponent): TaskStatus => {
+  const own = textOf(component, 'X-DEEPTALK-STATUS') as TaskStatus;
+  if (TASK_STATUSES.includes(own)) return own;
+  switch (textOf(component, 'STATUS').toUpperCase()) {
+    case 'COMPLETED': return 'completed';
+    case 'IN-PROCESS': return 'in_progress';
+    case 'CANCELLED': return 'cancelled';
+    default: return 'pending';
+  }
+};
+
+// Where a task's times come from in each kind of component
+interface TimeAnchors {
+  start: Date | null; // what a trigger counts from by default
+  end: Date | null; // what RELATED=END counts from
+  task: Date | null; // the task's own start, which reminders are kept relative to
+}
+
+type AnchoredTimes = TimeAnchors & { allDay: boolean; duration?: number; timeZone?: string };
+
+const timeAnchors = (component: ICalComponent, kind: ICalComponentKind, warnings: string[]): AnchoredTimes => {
+  const start = dateOf(component, 'DTSTART', warnings);
+  if (kind === 'VTODO') {
+    const due = dateOf(component, 'DUE', warnings);
+    const task = (due ?? start)?.date ?? null;
+    return { start: start?.date ?? task, end: task, task, allDay: (due ?? start)?.allDay ?? false, timeZone: (due ?? start)?.timeZone };
+  }
+  if (!start) return { start: null, end: null, task: null, allDay: false };
+  const end = dateOf(component, 'DTEND', warnings);
+  const duration = end ? differenceInMinutes(end.date, start.date) : parseDuration(findProperty(component, 'DURATION')?.value ?? '');
+  return {
+    start: start.date,
+    end: end?.date ?? addMinutes(start.date, duration ?? 0),
+    task: start.date,
+    allDay: start.allDay,
+    duration: !start.allDay && (duration ?? 0) > 0 ? duration : undefined,
+    timeZone: start.timeZone,
+  };
+};
+
+// Minutes before the task's start, or null for alarms that fire after it or can't be placed
+const reminderMinutes = (alarm: ICalComponent, anchors: TimeAnchors, warnings: string[]): number | null => {
+  const trigger = findProperty(alarm, 'TRIGGER');
+  if (!trigger || !anchors.task) return null;
+  let at: Date | null = null;
+  if (trigger.params.VALUE === 'DATE-TIME') {
+    at = parseDateValue(trigger.value, trigger.params, warnings)?.date ?? null;
+  } else {
+    const offset = parseDuration(trigger.value);
+    const reference = trigger.params.RELATED === 'END' ? anchors.end : anchors.start;
+    if (offset !== null && reference) at = addMinutes(reference, offset);
+  }
+  if (!at) return null;
+  const minutes = differenceInMinutes(anchors.task, at);
+  return minutes >= 0 ? minutes : null;
+};
+
+const toImportItem = (component: ICalComponent, categories: TaskCategory[]): ICalImportItem => {
+  const warnings: string[] = [];
+  const kind = component.name as ICalComponentKind;
+  const name = textOf(component, 'SUMMARY');
+  if (!name) addWarning(warnings, 'It has no title');
+
+  // The first name that is one of our categories becomes the category; the rest are tags
+  const labels = component.properties
+    .filter(item => item.name === 'CATEGORIES')
+    .flatMap(item => splitList(item.value))
+    .map(label => unescapeText(label).trim())
+    .filter(Boolean);
+  const category = labels
+    .map(label => categories.find(item => item.name.toLowerCase() === label.toLowerCase()))
+    .find(Boolean);
+
+  const status = statusOf(component);
+  const percent = parseInt(textOf(component, 'PERCENT-COMPLETE'), 10);
+  const input: TaskInput = {
+    name: name || 'Untitled',
+    description: textOf(component, 'DESCRIPTION'),
+    location: textOf(component, 'LOCATION'),
+    category: category?.id ?? null,
+    tags: [...new Set(labels.filter(label => label.toLowerCase() !== category?.name.toLowerCase()))],
+    status,
+    completion_percentage: Number.isNaN(percent) ? (status === 'completed' ? 100 : 0) : Math.min(Math.max(percent, 0), 100),
+  };
+  const priority = fromICalPriority(parseInt(textOf(component, 'PRIORITY'), 10));
+  if (priority) input.priority = priority;
+
+  const anchors = timeAnchors(component, kind, warnings);
+  if (anchors.task) {
+    input.deadline = anchors.task.toISOString();
+    input.specific_time = kind === 'VEVENT' && !anchors.allDay ? anchors.task.toISOString() : null;
+    if (anchors.duration) input.duration_minutes = anchors.duration;
+    // Repeats keep their time of day in the zone they were written in
+    if (anchors.timeZone) input.timezone = anchors.timeZone;
+  }
+
+  const rrule = findProperty(component, 'RRULE');
+  if (rrule) {
+    const rule = anchors.task ? parseRRule(rrule.value) : null;
+    if (rule) {
+      Object.assign(input, ruleToRepeatFields(rule, input.timezone));
+      const skipped = component.properties
+        .filter(item => item.name === 'EXDATE')
+        .flatMap(item => item.value.split(',').map(value => parseDateValue(value, item.params, warnings)))
+        .filter(Boolean);
+      if (skipped.length) {
+        input.recurrence_exceptions = skipped.map(({ date }) => ({ date: occurrenceKey(date, anchors.timeZone), skip: true }));
+      }
+    } else {
+      addWarning(warnings, "Its repeat rule isn't supported, so it comes in as a one-off task");
+    }
+  }
+
+  const reminders = component.components
+    .filter(child => child.name === 'VALARM')
+    .map(alarm => reminderMinutes(alarm, anchors, warnings))
+    .filter((minutes): minutes is number => minutes !== null);
+  if (reminders.length) input.reminders = [...new Set(reminders)].sort((a, b) => a - b);
+
+  return { uid: textOf(component, 'UID') || null, kind, input, warnings };
+};
+
+// An override of one occurrence becomes an exception on its series, keeping the details it changed
+const toException = (override: ICalComponent, { kind, input, warnings }: ICalImportItem): RecurrenceException | null => {
+  const original = dateOf(override, 'RECURRENCE-ID', warnings);
+  if (!original) return null;
+  const key = occurrenceKey(original.date, input.timezone);
+  if (textOf(override, 'STATUS').toUpperCase() === 'CANCELLED') return { date: key, skip: true };
+  const anchors = timeAnchors(override, kind, warnings);
+  if (!anchors.task) return null;
+
+  const fields: Partial<TaskInput> = {};
+  const name = textOf(override, 'SUMMARY');
+  const description = textOf(override, 'DESCRIPTION');
+  const location = textOf(override, 'LOCATION');
+  if (name && name !== input.name) fields.name = name;
+  if (description && description !== input.description) fields.description = description;
+  if (location && location !== input.location) fields.location = location;
+  return {
+    date: key,
+    start: anchors.task.toISOString(),
+    ...(anchors.duration ? { duration: anchors.duration } : {}),
+    ...(Object.keys(fields).length ? { fields } : {}),
+  };
+};
+
+// Throws when the text isn't an iCalendar file at all
+export const parseICalendar = (text: string, categories: TaskCategory[] = []): ICalImportItem[] => {
+  const calendars = parseComponents(text).filter(component => component.name === 'VCALENDAR');
+  if (calendars.length === 0) throw new Error("This file isn't an iCalendar (.ics) file.");
+
+  const components = calendars
+    .flatMap(calendar => calendar.components)
+    .filter(component => component.name === 'VTODO' || component.name === 'VEVENT');
+  const isOverride = (component: ICalComponent) => Boolean(findProperty(component, 'RECURRENCE-ID'));
+  const items = components
+    .filter(component => !isOverride(component))
+    .map(component => toImportItem(component, categories));
+
+  components.filter(isOverride).forEach(override => {
+    const uid = textOf(override, 'UID');
+    const series = items.find(item => item.uid === uid && item.input.is_repeat);
+    // Without its series an override is just a task of its own
+    if (!series) {
+      items.push(toImportItem(override, categories));
+      return;
+    }
+    const exception = toException(override, series);
+    if (!exception) return;
+    series.input.recurrence_exceptions = [
+      ...(series.input.recurrence_exceptions ?? []).filter(existing => existing.date !== exception.date),
+      exception,
+    ];
+  });
+
+  return items;
+};
+
+const sameMinute = (a: string | null | undefined, b: string | null | undefined) =>
+  !a || !b ? !a && !b : Math.abs(new Date(a).getTime() - new Date(b).getTime()) < 60 * 1000;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A task exported from here comes back with its UID; anything else is a duplicate when the name and start match
+export const previewImport = (items: ICalImportItem[], tasks: Task[]): ICalImportRow[] => {
+  const seen = new Set<string>();
+  return items.map(item => {
+    const start = item.input.specific_time || item.input.deadline;
+    const exportedId = item.uid ? exportedTaskId(item.uid) : null;
+    const duplicateOf =
+      tasks.find(task => task.id === exportedId && sameName(task.name, item.input.name)) ??
+      tasks.find(task => sameName(task.name, item.input.name) && sameMinute(getTaskStart(task)?.toISOString(), start)) ??
+      null;
+    const key = item.uid ?? `${item.input.name.trim().toLowerCase()}|${start ?? ''}`;
+    const repeatedInFile = seen.has(key);
+    seen.add(key);
+    return { item, duplicateOf, repeatedInFile };
+  });
+};
@@ -0,0 +1,71 @@
+// src/lib/offlineStore.ts
+// IndexedDB key-value store holding the offline copy of tasks, categories and the outbox
+
+const DB_NAME = 'deeptalk-offline';
+const DB_VERSION = 1;
+const STORE = 'keyval';
+
+export type OfflineKey = 'tasks' | 'categories' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing blocked the first open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const finish = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const readValue = async <T>(key: OfflineKey, fallback: T): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readonly');
+  const request = transaction.objectStore(STORE).get(key);
+  await finish(transaction);
+  return (request.result as T | undefined) ?? fallback;
+};
+
+export const writeValue = async <T>(key: OfflineKey, value: T): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).put(value, key);
+  await finish(transaction);
+};
+
+// Read-modify-write in one transaction so two tabs can't interleave their changes
+export const updateValue = async <T>(key: OfflineKey, fallback: T, update: (value: T) => T): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  let next = fallback;
+  const request = store.get(key);
+  request.onsuccess = () => {
+    next = update((request.result as T | undefined) ?? fallback);
+    store.put(next, key);
+  };
+  await finish(transaction);
+  return next;
+};
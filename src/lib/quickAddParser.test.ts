@@ -0,0 +1,144 @@
+// src/lib/quickAddParser.test.ts
+// The phrasings quick add understands, and ones it leaves in the task name
+
+import { describe, expect, it } from 'vitest';
+import type { TaskInput } from '@/types/TaskTypes';
+import { parseQuickAdd, QUICK_ADD_EXAMPLES } from './quickAddParser';
+
+// Monday, read on a device whose clock is UTC (see vite.config.ts)
+const NOW = new Date('2026-10-19T10:00:00Z');
+const CATEGORIES = [{ id: 'c-work', name: 'Work' }, { id: 'c-health', name: 'Health' }];
+
+const parse = (input: string, timeZone?: string, now = NOW) =>
+  parseQuickAdd(input, { now, categories: CATEGORIES, timeZone }).request;
+
+describe('parseQuickAdd', () => {
+  it.each<[string, TaskInput]>([
+    ['Call mom today', { name: 'Call mom', deadline: '2026-10-19T00:00:00.000Z' }],
+    ['Call mom tomorrow', { name: 'Call mom', deadline: '2026-10-20T00:00:00.000Z' }],
+    ['Call mom tmrw', { name: 'Call mom', deadline: '2026-10-20T00:00:00.000Z' }],
+    ['Movie tonight', { name: 'Movie', specific_time: '2026-10-19T20:00:00.000Z', deadline: '2026-10-19T20:00:00.000Z' }],
+    ['Renew passport in 2 weeks', { name: 'Renew passport', deadline: '2026-11-02T00:00:00.000Z' }],
+    ['Renew passport in a month', { name: 'Renew passport', deadline: '2026-11-19T00:00:00.000Z' }],
+    ['Plan trip in 3 days', { name: 'Plan trip', deadline: '2026-10-22T00:00:00.000Z' }],
+    ['Review next week', { name: 'Review', deadline: '2026-10-26T00:00:00.000Z' }],
+    ['Lunch friday', { name: 'Lunch', deadline: '2026-10-23T00:00:00.000Z' }],
+    ['Lunch on Monday', { name: 'Lunch', deadline: '2026-10-19T00:00:00.000Z' }],
+    ['Lunch next fri', { name: 'Lunch', deadline: '2026-10-30T00:00:00.000Z' }],
+    ['Taxes 2027-04-15', { name: 'Taxes', deadline: '2027-04-15T00:00:00.000Z' }],
+    ['Party Dec 31st', { name: 'Party', deadline: '2026-12-31T00:00:00.000Z' }],
+    ['Party 3rd of March', { name: 'Party', deadline: '2027-03-03T00:00:00.000Z' }],
+    ['Party 11/5', { name: 'Party', deadline: '2026-11-05T00:00:00.000Z' }],
+    ['Birthday Oct 1', { name: 'Birthday', deadline: '2027-10-01T00:00:00.000Z' }],
+  ])('reads the date in %j', (input, expected) => {
+    expect(parse(input)).toEqual(expected);
+  });
+
+  it.each<[string, TaskInput]>([
+    ['Gym tomorrow 7am', { name: 'Gym', specific_time: '2026-10-20T07:00:00.000Z', deadline: '2026-10-20T07:00:00.000Z' }],
+    ['Gym tomorrow 6:45 PM', { name: 'Gym', specific_time: '2026-10-20T18:45:00.000Z', deadline: '2026-10-20T18:45:00.000Z' }],
+    ['Sync 14:30', { name: 'Sync', specific_time: '2026-10-19T14:30:00.000Z', deadline: '2026-10-19T14:30:00.000Z' }],
+    // Already past today, so tomorrow
+    ['Sync 9:00', { name: 'Sync', specific_time: '2026-10-20T09:00:00.000Z', deadline: '2026-10-20T09:00:00.000Z' }],
+    ['Lunch tomorrow at noon', { name: 'Lunch', specific_time: '2026-10-20T12:00:00.000Z', deadline: '2026-10-20T12:00:00.000Z' }],
+    ['Call mom friday at 6', { name: 'Call mom', specific_time: '2026-10-23T18:00:00.000Z', deadline: '2026-10-23T18:00:00.000Z' }],
+    ['Standup friday at 9', { name: 'Standup', specific_time: '2026-10-23T09:00:00.000Z', deadline: '2026-10-23T09:00:00.000Z' }],
+  ])('reads the time in %j', (input, expected) => {
+    expect(parse(input)).toEqual(expected);
+  });
+
+  it.each<[string, number]>([
+    ['Write 45m', 45],
+    ['Write 20 mins', 20],
+    ['Write 1h', 60],
+    ['Write 1.5h', 90],
+    ['Write 1h30m', 90],
+    ['Write for 2 hours', 120],
+  ])('reads the duration in %j', (input, minutes) => {
+    expect(parse(input)).toEqual({ name: 'Write', duration_minutes: minutes });
+  });
+
+  it.each<[string, TaskInput]>([
+    ['Fix login !1', { name: 'Fix login', priority: 1 }],
+    ['Fix login #bug #frontend', { name: 'Fix login', tags: ['bug', 'frontend'] }],
+    ['Fix login #urgent #work', { name: 'Fix login', tags: ['urgent'], category: 'c-work' }],
+    // Only the first tag naming a category becomes the category
+    ['Fix login #Work #health', { name: 'Fix login', category: 'c-work', tags: ['health'] }],
+    ['Coffee @Downtown', { name: 'Coffee', location: 'Downtown' }],
+    ['Coffee @Blue_Bottle', { name: 'Coffee', location: 'Blue Bottle' }],
+    ['Dentist @"Main St Clinic"', { name: 'Dentist', location: 'Main St Clinic' }],
+  ])('reads priority, tags, category and location in %j', (input, expected) => {
+    expect(parse(input)).toEqual(expected);
+  });
+
+  it.each<[string, TaskInput]>([
+    ['Pay rent every month', { name: 'Pay rent', is_repeat: true, repeat_pattern: 'monthly' }],
+    ['Water plants every other day', { name: 'Water plants', is_repeat: true, repeat_pattern: 'daily', repeat_frequency: 2 }],
+    ['Backup weekly', { name: 'Backup', is_repeat: true, repeat_pattern: 'weekly' }],
+    ['Anniversary annually', { name: 'Anniversary', is_repeat: true, repeat_pattern: 'yearly' }],
+    ['Gym every wed and fri', {
+      name: 'Gym', is_repeat: true, repeat_pattern: 'weekly', repeat_days_of_week: ['Wednesday', 'Friday'],
+      deadline: '2026-10-21T00:00:00.000Z',
+    }],
+    ['Stand-up every weekday 9:15am 15m #work', {
+      name: 'Stand-up', is_repeat: true, repeat_pattern: 'weekly', category: 'c-work', duration_minutes: 15,
+      repeat_days_of_week: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+      specific_time: '2026-10-19T09:15:00.000Z', deadline: '2026-10-19T09:15:00.000Z',
+    }],
+  ])('reads the repetition in %j', (input, expected) => {
+    expect(parse(input)).toEqual(expected);
+  });
+
+  it.each<[string, string, Date, TaskInput]>([
+    // 17:00 in Ho Chi Minh City, UTC+7
+    ['Call tomorrow 9am', 'Asia/Ho_Chi_Minh', NOW, {
+      name: 'Call', specific_time: '2026-10-20T02:00:00.000Z', deadline: '2026-10-20T02:00:00.000Z', timezone: 'Asia/Ho_Chi_Minh',
+    }],
+    // Still daylight saving time in New York, UTC-4
+    ['Call tomorrow 9am', 'America/New_York', NOW, {
+      name: 'Call', specific_time: '2026-10-20T13:00:00.000Z', deadline: '2026-10-20T13:00:00.000Z', timezone: 'America/New_York',
+    }],
+    // Already Tuesday in Ho Chi Minh City
+    ['Call today', 'Asia/Ho_Chi_Minh', new Date('2026-10-19T20:00:00Z'), {
+      name: 'Call', deadline: '2026-10-19T17:00:00.000Z', timezone: 'Asia/Ho_Chi_Minh',
+    }],
+    // No date, so no zone either
+    ['Call !3', 'Asia/Ho_Chi_Minh', NOW, { name: 'Call', priority: 3 }],
+  ])('reads %j on the clock in %s', (input, timeZone, now, expected) => {
+    expect(parse(input, timeZone, now)).toEqual(expected);
+  });
+
+  it.each([
+    'Level !7',
+    'Launch 25:00',
+    'Launch 9:75',
+    'Launch 13pm',
+    'Launch 7:75am',
+    'Launch at 25',
+    'Party Feb 30',
+    'Party 31 of April',
+    'Ship 13/45',
+    'Ship 2026-02-30',
+    'Email @',
+    'Read chapter 12',
+    'Buy #',
+  ])('leaves %j as the name', (input) => {
+    expect(parse(input)).toEqual({ name: input });
+  });
+
+  it('records what it understood, in order', () => {
+    const { tokens } = parseQuickAdd('Dentist Oct 24 14:30 for 1h @"Main St Clinic"', { now: NOW });
+    expect(tokens).toEqual([
+      { kind: 'location', text: '@"Main St Clinic"' },
+      { kind: 'duration', text: 'for 1h' },
+      { kind: 'time', text: '14:30' },
+      { kind: 'date', text: 'Oct 24' },
+    ]);
+  });
+
+  it.each(QUICK_ADD_EXAMPLES)('understands the hint %j', (input) => {
+    const { request, tokens } = parseQuickAdd(input, { now: NOW, categories: CATEGORIES });
+    expect(tokens.length).toBeGreaterThan(0);
+    expect(request.name).not.toMatch(/[#!@]/);
+  });
+});
@@ -0,0 +1,247 @@
+// src/lib/quickAddParser.ts
+// Turns one line like "Gym tomorrow 7am 45m #health !2 every mon,wed,fri @Downtown" into a task payload
+
+import { addDays, addMonths, addWeeks, isBefore, setHours, setMinutes, startOfDay } from 'date-fns';
+import type { TaskInput } from '@/types/TaskTypes';
+import { fromZonedTime, toZonedTime } from './timezones';
+
+export interface QuickAddCategory {
+  id: string;
+  name: string;
+}
+
+export type QuickAddTokenKind =
+  'date' | 'time' | 'duration' | 'tag' | 'category' | 'priority' | 'repeat' | 'location';
+
+// A piece of the input the parser understood, for highlighting in the preview
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  text: string;
+}
+
+export interface QuickAddResult {
+  request: TaskInput;
+  categoryName?: string;
+  tokens: QuickAddToken[];
+}
+
+interface ParseOptions {
+  now?: Date;
+  categories?: QuickAddCategory[];
+  timeZone?: string; // whose clock "tomorrow 9am" is read on; this device's when unset
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DAY = '(?:mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs?|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)';
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+const weekdayIndex = (text: string) =>
+  WEEKDAY_NAMES.findIndex(name => name.toLowerCase().startsWith(text.toLowerCase().slice(0, 3)));
+
+const monthIndex = (text: string) => MONTHS.indexOf(text.toLowerCase().slice(0, 3));
+
+// Next date falling on `weekday`, counting today
+const nextWeekday = (from: Date, weekday: number) => addDays(startOfDay(from), (weekday - from.getDay() + 7) % 7);
+
+// Month/day without a year means the next time that date comes round
+const upcomingDate = (now: Date, month: number, day: number) => {
+  const date = new Date(now.getFullYear(), month, day);
+  return isBefore(date, startOfDay(now)) ? new Date(now.getFullYear() + 1, month, day) : date;
+};
+
+// Feb 30 or 13/45 isn't a date, so it stays part of the title; any leap year will do for a date without one
+const isCalendarDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day);
+  return month >= 0 && month < 12 && date.getMonth() === month && date.getDate() === day;
+};
+
+const normalise = (text: string) => text.toLowerCase().replace(/[\s_-]+/g, '');
+
+export const parseQuickAdd = (input: string, { now: at = new Date(), categories = [], timeZone }: ParseOptions = {}): QuickAddResult => {
+  const now = timeZone ? toZonedTime(at, timeZone) : at;
+  const toIso = (date: Date) => (timeZone ? fromZonedTime(date, timeZone) : date).toISOString();
+  const tokens: QuickAddToken[] = [];
+  const request: TaskInput = { name: '' };
+  let categoryName: string | undefined;
+  let text = ` ${input} `;
+
+  // Removes the first match of `pattern` from the remaining text and records it, unless `accept` turns it down
+  const take = (
+    kind: QuickAddTokenKind, pattern: RegExp, accept: (match: RegExpMatchArray) => boolean = () => true
+  ): RegExpMatchArray | null => {
+    const match = text.match(pattern);
+    if (!match || !accept(match)) return null;
+    tokens.push({ kind, text: match[0].trim() });
+    text = text.slice(0, match.index) + ' ' + text.slice((match.index ?? 0) + match[0].length);
+    return match;
+  };
+
+  // @Location or @"Two words"
+  const location = take('location', /\s@(?:"([^"]+)"|(\S+))(?=\s)/);
+  if (location) request.location = (location[1] ?? location[2]).replace(/_/g, ' ');
+
+  // #tags; the first one naming a category becomes the category instead
+  let tag: RegExpMatchArray | null;
+  while ((tag = text.match(/\s#([\w-]+)(?=\s)/))) {
+    const category = !request.category && categories.find(cat => normalise(cat.name) === normalise(tag[1]));
+    take(category ? 'category' : 'tag', /\s#([\w-]+)(?=\s)/);
+    if (category) {
+      request.category = String(category.id);
+      categoryName = category.name;
+    } else {
+      request.tags = [...(request.tags || []), tag[1]];
+    }
+  }
+
+  const priority = take('priority', /\s!([1-5])(?=\s)/);
+  if (priority) request.priority = parseInt(priority[1], 10);
+
+  // Repetition
+  let repeatDays: number[] = [];
+  const repeatDayList = take('repeat', new RegExp(`\\s(?:every|each)\\s+(${DAY}(?:\\s*(?:,|and|&)\\s*${DAY})*)(?=\\s)`, 'i'));
+  const repeatEvery = !repeatDayList && take(
+    'repeat',
+    /\s(?:every|each)\s+(?:(other|\d+)\s+)?(day|weekday|weekend|week|month|year)s?(?=\s)/i
+  );
+  const repeatWord = !repeatDayList && !repeatEvery && take('repeat', /\s(daily|weekly|monthly|yearly|annually)(?=\s)/i);
+
+  if (repeatDayList) {
+    repeatDays = repeatDayList[1].split(/\s*(?:,|and|&)\s*/i).map(weekdayIndex).filter(day => day !== -1);
+    request.repeat_pattern = 'weekly';
+  } else if (repeatEvery) {
+    const unit = repeatEvery[2].toLowerCase();
+    const frequency = repeatEvery[1] ? (repeatEvery[1].toLowerCase() === 'other' ? 2 : parseInt(repeatEvery[1], 10)) : 1;
+    if (unit === 'weekday') {
+      repeatDays = [1, 2, 3, 4, 5];
+      request.repeat_pattern = 'weekly';
+    } else if (unit === 'weekend') {
+      repeatDays = [0, 6];
+      request.repeat_pattern = 'weekly';
+    } else {
+      request.repeat_pattern = ({ day: 'daily', week: 'weekly', month: 'monthly', year: 'yearly' } as const)[unit];
+    }
+    if (frequency > 1) request.repeat_frequency = frequency;
+  } else if (repeatWord) {
+    const word = repeatWord[1].toLowerCase();
+    request.repeat_pattern = word === 'annually' ? 'yearly' : (word as TaskInput['repeat_pattern']);
+  }
+  if (request.repeat_pattern) {
+    request.is_repeat = true;
+    if (repeatDays.length) {
+      request.repeat_days_of_week = [...new Set(repeatDays)].sort().map(day => WEEKDAY_NAMES[day]);
+    }
+  }
+
+  // Duration: 45m, 1h, 1.5h, 1h30m, "for 2 hours"
+  const hoursAndMinutes = take('duration', /\s(?:for\s+)?(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)(?:\s*(\d+)\s*(?:m|mins?|minutes?))?(?=\s)/i);
+  const minutesOnly = !hoursAndMinutes && take('duration', /\s(?:for\s+)?(\d+)\s*(?:m|mins?|minutes?)(?=\s)/i);
+  if (hoursAndMinutes) {
+    request.duration_minutes = Math.round(parseFloat(hoursAndMinutes[1]) * 60) + (hoursAndMinutes[2] ? parseInt(hoursAndMinutes[2], 10) : 0);
+  } else if (minutesOnly) {
+    request.duration_minutes = parseInt(minutesOnly[1], 10);
+  }
+
+  // Time of day
+  // 13pm, 7:75am or "at 25" isn't a time, so like an impossible date it stays in the title
+  let time: { hours: number; minutes: number } | null = null;
+  const twelveHour = take('time', /\s(?:at\s+)?(1[0-2]|0?[1-9])(?::([0-5]\d))?\s*(am|pm)(?=\s)/i);
+  const twentyFourHour = !twelveHour && take('time', /\s(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)(?=\s)/);
+  const namedTime = !twelveHour && !twentyFourHour && take('time', /\s(?:at\s+)?(noon|midday|midnight)(?=\s)/i);
+  const bareHour = !twelveHour && !twentyFourHour && !namedTime && take('time', /\sat\s+([01]?\d|2[0-3])(?=\s)/i);
+
+  if (twelveHour) {
+    let hours = parseInt(twelveHour[1], 10) % 12;
+    if (twelveHour[3].toLowerCase() === 'pm') hours += 12;
+    time = { hours, minutes: twelveHour[2] ? parseInt(twelveHour[2], 10) : 0 };
+  } else if (twentyFourHour) {
+    time = { hours: parseInt(twentyFourHour[1], 10), minutes: parseInt(twentyFourHour[2], 10) };
+  } else if (namedTime) {
+    time = { hours: namedTime[1].toLowerCase() === 'midnight' ? 0 : 12, minutes: 0 };
+  } else if (bareHour) {
+    // "at 3" means 3pm; hours from 8 onwards are read as morning
+    const hours = parseInt(bareHour[1], 10);
+    time = { hours: hours < 8 ? hours + 12 : hours, minutes: 0 };
+  }
+
+  // Date
+  let date: Date | null = null;
+  let match: RegExpMatchArray | null;
+  if ((match = take('date', /\s(today|tonight|tomorrow|tmrw?|tmr)(?=\s)/i))) {
+    const word = match[1].toLowerCase();
+    date = word === 'today' || word === 'tonight' ? startOfDay(now) : addDays(startOfDay(now), 1);
+    if (word === 'tonight' && !time) time = { hours: 20, minutes: 0 };
+  } else if ((match = take('date', /\sin\s+(\d+|a|an)\s+(day|week|month)s?(?=\s)/i))) {
+    const amount = /^an?$/i.test(match[1]) ? 1 : parseInt(match[1], 10);
+    const unit = match[2].toLowerCase();
+    const base = startOfDay(now);
+    date = unit === 'day' ? addDays(base, amount) : unit === 'week' ? addWeeks(base, amount) : addMonths(base, amount);
+  } else if ((match = take('date', /\snext\s+week(?=\s)/i))) {
+    date = addDays(nextWeekday(now, 1), now.getDay() === 1 ? 7 : 0);
+  } else if ((match = take('date', new RegExp(`\\s(?:on\\s+)?(next\\s+)?(${DAY})(?=\\s)`, 'i')))) {
+    date = nextWeekday(now, weekdayIndex(match[2]));
+    if (match[1]) date = addDays(date, 7);
+  } else if ((match = take('date', /\s(?:on\s+)?(\d{4})-(\d{2})-(\d{2})(?=\s)/, ([, y, m, d]) => isCalendarDate(+y, +m - 1, +d)))) {
+    date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  } else if ((match = take(
+    'date',
+    new RegExp(`\\s(?:on\\s+)?(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?=\\s)`, 'i'),
+    ([, month, day]) => isCalendarDate(2024, monthIndex(month), +day)
+  ))) {
+    date = upcomingDate(now, monthIndex(match[1]), parseInt(match[2], 10));
+  } else if ((match = take(
+    'date',
+    new RegExp(`\\s(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})(?=\\s)`, 'i'),
+    ([, day, month]) => isCalendarDate(2024, monthIndex(month), +day)
+  ))) {
+    date = upcomingDate(now, monthIndex(match[2]), parseInt(match[1], 10));
+  } else if ((match = take('date', /\s(?:on\s+)?(\d{1,2})\/(\d{1,2})(?=\s)/, ([, m, d]) => isCalendarDate(2024, +m - 1, +d)))) {
+    // Month first, as in the en-US formats used elsewhere in the app
+    date = upcomingDate(now, parseInt(match[1], 10) - 1, parseInt(match[2], 10));
+  }
+
+  // Repeating tasks without a date start on their first matching day
+  if (!date && repeatDays.length) {
+    date = repeatDays
+      .map(day => nextWeekday(now, day))
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  // A time on its own means the next time that clock time comes round
+  if (!date && time) {
+    date = startOfDay(now);
+    if (isBefore(setMinutes(setHours(date, time.hours), time.minutes), now)) date = addDays(date, 1);
+  }
+
+  if (date) {
+    if (time) {
+      const start = setMinutes(setHours(date, time.hours), time.minutes);
+      request.specific_time = toIso(start);
+      request.deadline = toIso(start);
+    } else {
+      request.deadline = toIso(date);
+    }
+    if (timeZone) request.timezone = timeZone;
+  }
+
+  request.name = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Connecting words left behind once the date or time is removed
+    .replace(/\s+(?:on|at|by|for|from)$/i, '')
+    .trim();
+
+  return { request, categoryName, tokens };
+};
+
+// Shown as hints under the quick-add box
+export const QUICK_ADD_EXAMPLES = [
+  'Gym tomorrow 7am 45m #health !2 every mon,wed,fri @Downtown',
+  'Call mom friday at 6',
+  'Pay rent every month !1',
+  'Dentist Oct 24 14:30 for 1h @"Main St Clinic"',
+  'Stand-up every weekday 9:15am 15m #work',
+  'Renew passport in 2 weeks',
+];
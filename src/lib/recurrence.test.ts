@@ -0,0 +1,190 @@
+// src/lib/recurrence.test.ts
+// Expanding RRULEs into occurrence starts, on a zone's wall clock across DST changes
+
+import { format } from 'date-fns';
+import { vi } from 'date-fns/locale';
+import { describe, expect, it } from 'vitest';
+import { createTranslator } from './i18n';
+import {
+  describeRule, expandOccurrences, expandRule, parseRRule, ruleFromRepeatFields, ruleToRepeatFields, splitRule
+} from './recurrence';
+import { toZonedTime } from './timezones';
+
+// Dates are read on a UTC device clock (see vite.config.ts)
+const days = (dates: Date[]) => dates.map(date => date.toISOString().slice(0, 10));
+
+const expand = (rrule: string, dtstart: string, rangeStart: string, rangeEnd: string) =>
+  expandRule(new Date(dtstart), parseRRule(rrule), new Date(rangeStart), new Date(rangeEnd));
+
+describe('expandRule', () => {
+  it('reaches a range decades after the series started', () => {
+    const starts = expand('FREQ=DAILY;INTERVAL=3', '2000-01-01T09:00:00Z', '2026-10-19T00:00:00Z', '2026-10-28T23:59:59Z');
+    expect(days(starts)).toEqual(['2026-10-20', '2026-10-23', '2026-10-26']);
+    expect(starts[0].toISOString()).toBe('2026-10-20T09:00:00.000Z');
+  });
+
+  it.each([
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2001-01-01T09:00:00Z', ['2026-10-19', '2026-10-22']],
+    ['FREQ=MONTHLY;BYDAY=-1FR', '1990-05-25T09:00:00Z', ['2026-10-30']],
+    ['FREQ=YEARLY;BYMONTH=10;BYMONTHDAY=20', '1980-10-20T09:00:00Z', ['2026-10-20']],
+  ])('jumps straight to the range for %s', (rrule, dtstart, expected) => {
+    expect(days(expand(rrule, dtstart, '2026-10-19T00:00:00Z', '2026-10-31T23:59:59Z'))).toEqual(expected);
+  });
+
+  it('still counts COUNT from the first occurrence', () => {
+    expect(days(expand('FREQ=DAILY;COUNT=10', '2026-10-01T09:00:00Z', '2026-10-08T00:00:00Z', '2026-10-31T00:00:00Z')))
+      .toEqual(['2026-10-08', '2026-10-09', '2026-10-10']);
+  });
+
+  it('stops at UNTIL', () => {
+    expect(days(expand('FREQ=DAILY;UNTIL=20261021T235959Z', '2020-01-01T09:00:00Z', '2026-10-19T00:00:00Z', '2026-12-31T00:00:00Z')))
+      .toEqual(['2026-10-19', '2026-10-20', '2026-10-21']);
+  });
+
+  it('ends for a rule that never matches', () => {
+    expect(expand('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', '2026-01-01T09:00:00Z', '2026-01-01T00:00:00Z', '2126-01-01T00:00:00Z'))
+      .toEqual([]);
+  });
+
+  it('keeps only the BYDAY days that are also BYMONTHDAY days in a month', () => {
+    // Friday the 13th, once each
+    const starts = expand('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13', '2026-01-01T09:00:00Z', '2026-01-01T00:00:00Z', '2026-12-31T23:59:59Z');
+    expect(days(starts)).toEqual(['2026-02-13', '2026-03-13', '2026-11-13']);
+  });
+
+  it('narrows BYDAY by BYMONTHDAY within BYMONTH for a yearly rule', () => {
+    // US Election Day: the Tuesday after the first Monday of November
+    expect(days(expand(
+      'FREQ=YEARLY;BYMONTH=11;BYDAY=TU;BYMONTHDAY=2,3,4,5,6,7,8', '2024-01-01T09:00:00Z', '2024-01-01T00:00:00Z', '2028-12-31T23:59:59Z'
+    ))).toEqual(['2024-11-05', '2025-11-04', '2026-11-03', '2027-11-02', '2028-11-07']);
+  });
+
+  it('counts a day named twice once', () => {
+    // In a 31-day month the 1st and the 31st from the end are the same day
+    expect(days(expand('FREQ=MONTHLY;BYMONTHDAY=1,-31;COUNT=3', '2026-01-01T09:00:00Z', '2026-01-01T00:00:00Z', '2026-12-31T23:59:59Z')))
+      .toEqual(['2026-01-01', '2026-02-01', '2026-03-01']);
+  });
+
+  describe('yearly BYDAY without BYMONTH', () => {
+    it('picks the ordinal weekday of the whole year', () => {
+      // The 20th Monday of 2026 and 2027
+      expect(days(expand('FREQ=YEARLY;BYDAY=20MO', '2026-01-01T09:00:00Z', '2026-01-01T00:00:00Z', '2027-12-31T00:00:00Z')))
+        .toEqual(['2026-05-18', '2027-05-17']);
+    });
+
+    it('counts back from the end of the year', () => {
+      expect(days(expand('FREQ=YEARLY;BYDAY=-1SU', '2026-01-01T09:00:00Z', '2026-01-01T00:00:00Z', '2027-12-31T00:00:00Z')))
+        .toEqual(['2026-12-27', '2027-12-26']);
+    });
+
+    it('takes every matching weekday of the year', () => {
+      const mondays = expand('FREQ=YEARLY;BYDAY=MO', '2026-01-01T09:00:00Z', '2026-01-01T00:00:00Z', '2026-12-31T23:59:59Z');
+      expect(mondays).toHaveLength(52);
+      expect(days(mondays.slice(0, 2))).toEqual(['2026-01-05', '2026-01-12']);
+    });
+
+    it('is narrowed by BYMONTHDAY', () => {
+      // Friday the 13th
+      expect(days(expand('FREQ=YEARLY;BYDAY=FR;BYMONTHDAY=13', '2026-01-01T09:00:00Z', '2026-01-01T00:00:00Z', '2026-12-31T23:59:59Z')))
+        .toEqual(['2026-02-13', '2026-03-13', '2026-11-13']);
+    });
+  });
+});
+
+describe('expandOccurrences across DST', () => {
+  // On New York's clock
+  const wallTimes = (starts: Date[]) => starts.map(start => format(toZonedTime(start, 'America/New_York'), 'yyyy-MM-dd HH:mm'));
+
+  it('keeps a daily series at 9:00 through spring-forward', () => {
+    const occurrences = expandOccurrences(
+      new Date('2026-03-06T14:00:00Z'), parseRRule('FREQ=DAILY'),
+      new Date('2026-03-06T00:00:00Z'), new Date('2026-03-10T23:59:59Z'), [], 'America/New_York'
+    );
+    expect(wallTimes(occurrences.map(occurrence => occurrence.start))).toEqual([
+      '2026-03-06 09:00', '2026-03-07 09:00', '2026-03-08 09:00', '2026-03-09 09:00', '2026-03-10 09:00',
+    ]);
+    // 9:00 EST is 14:00 UTC, 9:00 EDT is 13:00 UTC
+    expect(occurrences.map(occurrence => occurrence.start.toISOString().slice(11, 16)))
+      .toEqual(['14:00', '14:00', '13:00', '13:00', '13:00']);
+    expect(occurrences.map(occurrence => occurrence.key)).toEqual(['2026-03-06', '2026-03-07', '2026-03-08', '2026-03-09', '2026-03-10']);
+  });
+
+  it('keeps a weekly series at 9:00 through fall-back', () => {
+    const occurrences = expandOccurrences(
+      new Date('2026-10-19T13:00:00Z'), parseRRule('FREQ=WEEKLY;BYDAY=MO,FR'),
+      new Date('2026-10-19T00:00:00Z'), new Date('2026-11-10T00:00:00Z'), [], 'America/New_York'
+    );
+    expect(wallTimes(occurrences.map(occurrence => occurrence.start))).toEqual([
+      '2026-10-19 09:00', '2026-10-23 09:00', '2026-10-26 09:00', '2026-10-30 09:00', '2026-11-02 09:00', '2026-11-06 09:00',
+      '2026-11-09 09:00',
+    ]);
+    expect(occurrences[3].start.toISOString()).toBe('2026-10-30T13:00:00.000Z');
+    expect(occurrences[4].start.toISOString()).toBe('2026-11-02T14:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring-forward on by the gap', () => {
+    const occurrences = expandOccurrences(
+      new Date('2026-03-07T07:30:00Z'), parseRRule('FREQ=DAILY;COUNT=3'),
+      new Date('2026-03-07T00:00:00Z'), new Date('2026-03-10T00:00:00Z'), [], 'America/New_York'
+    );
+    expect(wallTimes(occurrences.map(occurrence => occurrence.start))).toEqual(['2026-03-07 02:30', '2026-03-08 03:30', '2026-03-09 02:30']);
+  });
+});
+
+describe('end dates in the series zone', () => {
+  it('ends a series at the end of its last day on the zone clock', () => {
+    const rule = ruleFromRepeatFields({
+      is_repeat: true, repeat_pattern: 'daily', repeat_end_date: '2026-11-01', timezone: 'Asia/Ho_Chi_Minh',
+    });
+    expect(rule.until.toISOString()).toBe('2026-11-01T16:59:59.999Z');
+    expect(ruleToRepeatFields(rule, 'Asia/Ho_Chi_Minh').repeat_end_date).toBe('2026-11-01');
+  });
+
+  it('includes the last day in a zone behind UTC', () => {
+    const rule = ruleFromRepeatFields({
+      is_repeat: true, repeat_pattern: 'daily', repeat_end_date: '2026-11-02', timezone: 'America/New_York',
+    });
+    const occurrences = expandOccurrences(
+      new Date('2026-10-31T23:00:00Z'), rule, new Date('2026-10-01T00:00:00Z'), new Date('2026-12-01T00:00:00Z'), [], 'America/New_York'
+    );
+    // 19:00 in New York, on the day after fall-back too
+    expect(occurrences.map(occurrence => occurrence.key)).toEqual(['2026-10-31', '2026-11-01', '2026-11-02']);
+    expect(occurrences[2].start.toISOString()).toBe('2026-11-03T00:00:00.000Z');
+  });
+
+  it('splits a series at the day before the occurrence on the zone clock', () => {
+    const { before, after } = splitRule(
+      new Date('2026-10-01T23:00:00Z'), parseRRule('FREQ=DAILY'), new Date('2026-10-10T23:00:00Z'), 'America/New_York'
+    );
+    expect(before.until.toISOString()).toBe('2026-10-10T03:59:59.999Z');
+    expect(ruleToRepeatFields(before, 'America/New_York').repeat_end_date).toBe('2026-10-09');
+    expect(after.until).toBeUndefined();
+  });
+
+  it('counts the occurrences before a split on the zone clock', () => {
+    const { before, after } = splitRule(
+      new Date('2026-10-01T23:00:00Z'), parseRRule('FREQ=DAILY;COUNT=10'), new Date('2026-10-04T23:00:00Z'), 'America/New_York'
+    );
+    expect([before.count, after.count]).toEqual([3, 7]);
+  });
+});
+
+describe('describeRule', () => {
+  it.each([
+    ['FREQ=DAILY', 'Every day'],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', 'Every 2 weeks on Monday, Thursday'],
+    ['FREQ=MONTHLY;BYDAY=-1FR;COUNT=6', 'Every month on the last Friday, 6 times'],
+    ['FREQ=MONTHLY;BYMONTHDAY=-3', 'Every month on 3 days before the end'],
+    ['FREQ=YEARLY;BYMONTH=10;BYMONTHDAY=20;UNTIL=20301020T235959Z', 'Every year on day 20 in October until Oct 20, 2030'],
+  ])('reads %s in English', (rrule, expected) => {
+    expect(describeRule(parseRRule(rrule))).toBe(expected);
+  });
+
+  it.each([
+    ['FREQ=DAILY', 'Hằng ngày'],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', 'Mỗi 2 tuần vào Thứ Hai, Thứ Năm'],
+    ['FREQ=MONTHLY;BYDAY=-1FR;COUNT=6', 'Hằng tháng vào Thứ Sáu cuối cùng, 6 lần'],
+  ])('reads %s in Vietnamese', (rrule, expected) => {
+    expect(describeRule(parseRRule(rrule), createTranslator('vi'), vi)).toBe(expected);
+  });
+});
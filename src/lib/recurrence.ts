@@ -0,0 +1,409 @@
+// src/lib/recurrence.ts
+// RRULE (RFC 5545 subset) parsing and expansion for repeating tasks
+
+import {
+  addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, differenceInCalendarMonths, differenceInCalendarWeeks,
+  differenceInCalendarYears, endOfDay, format, getDaysInMonth, getDaysInYear, startOfDay, startOfMonth, startOfWeek,
+  startOfYear, subDays, type Locale
+} from 'date-fns';
+import type { RecurrenceException } from '@/types/CalendarTypes';
+import { translateEnglish, type Translate } from './i18n';
+import { fromZonedTime, toZonedTime } from './timezones';
+import type { TaskRepeatPattern } from '@/types/TaskTypes';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type WeekdayCode = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// Index matches Date.getDay()
+export const WEEKDAY_CODES: WeekdayCode[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface ByDay {
+  weekday: WeekdayCode;
+  ordinal?: number; // 2 = second, -1 = last; monthly and yearly rules only
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: ByDay[];
+  byMonthDay?: number[]; // negative counts from the end of the month
+  byMonth?: number[]; // 1-12
+  count?: number;
+  until?: Date;
+}
+
+export interface Occurrence {
+  key: string; // yyyy-MM-dd of the generated occurrence, used to attach exceptions
+  start: Date;
+  duration?: number;
+  moved: boolean;
+  fields?: RecurrenceException['fields']; // what this occurrence changed on its own
+}
+
+// Fields the task backend stores for repetition
+export interface RepeatFields {
+  is_repeat?: boolean;
+  repeat_pattern?: TaskRepeatPattern | '';
+  repeat_frequency?: number;
+  repeat_days_of_week?: string[];
+  repeat_end_date?: string | null;
+  recurrence_rule?: string | null;
+  timezone?: string | null; // the end date is a day on this zone's clock
+}
+
+const withTimeOf = (day: Date, time: Date) => {
+  const result = new Date(day);
+  result.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), 0);
+  return result;
+};
+
+// The occurrence's date in the series' zone, or this device's when it has none
+export const occurrenceKey = (date: Date, timeZone?: string | null) =>
+  format(timeZone ? toZonedTime(date, timeZone) : date, 'yyyy-MM-dd');
+
+// Where the rule originally put an occurrence, before any exception moved it
+export const occurrenceStartFromKey = (key: string, seriesStart: Date, timeZone?: string | null) => {
+  const [year, month, day] = key.split('-').map(part => parseInt(part, 10));
+  if (!timeZone) return withTimeOf(new Date(year, month - 1, day), seriesStart);
+  return fromZonedTime(withTimeOf(new Date(year, month - 1, day), toZonedTime(seriesStart, timeZone)), timeZone);
+};
+
+// ---- RRULE text ----
+
+const parseUntil = (value: string): Date | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, y, mo, d, h = '23', mi = '59', s = '59', utc] = match;
+  const parts = [parseInt(y, 10), parseInt(mo, 10) - 1, parseInt(d, 10), parseInt(h, 10), parseInt(mi, 10), parseInt(s, 10)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+const formatUntil = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const parseNumberList = (value: string) =>
+  value.split(',').map(part => parseInt(part, 10)).filter(n => !Number.isNaN(n) && n !== 0);
+
+export const parseRRule = (text: string): RecurrenceRule | null => {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  const parts = Object.fromEntries(
+    body.split(';').filter(Boolean).map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()];
+    })
+  );
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(parseInt(parts.INTERVAL || '1', 10) || 1, 1) };
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(',')
+      .map(day => day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([, ordinal, weekday]) => ({
+        weekday: weekday as WeekdayCode,
+        ...(ordinal ? { ordinal: parseInt(ordinal, 10) } : {}),
+      }));
+  }
+  if (parts.BYMONTHDAY) rule.byMonthDay = parseNumberList(parts.BYMONTHDAY);
+  if (parts.BYMONTH) rule.byMonth = parseNumberList(parts.BYMONTH).filter(month => month >= 1 && month <= 12);
+  if (parts.COUNT) rule.count = Math.max(parseInt(parts.COUNT, 10) || 0, 1);
+  if (parts.UNTIL) rule.until = parseUntil(parts.UNTIL);
+  return rule;
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+};
+
+// Human-readable summary, e.g. "Every 2 weeks on Monday, Wednesday until Dec 31, 2026", in the UI language
+export const describeRule = (rule: RecurrenceRule, t: Translate = translateEnglish, locale?: Locale): string => {
+  // 2024-01-07 was a Sunday
+  const weekdayName = (code: WeekdayCode) => format(new Date(2024, 0, 7 + WEEKDAY_CODES.indexOf(code)), 'EEEE', { locale });
+  let text = t('rule.every', { unit: rule.freq, count: rule.interval });
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(day => (day.ordinal
+      ? t('rule.nthWeekday', { ordinal: t('rule.ordinal', { ordinal: day.ordinal }), weekday: weekdayName(day.weekday) })
+      : weekdayName(day.weekday)));
+    text += t('rule.on', { days: days.join(', ') });
+  }
+  if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay.map(day => (
+      day === -1 ? t('rule.lastDay') : day < 0 ? t('rule.daysBeforeEnd', { count: -day }) : t('rule.monthDay', { day })
+    ));
+    text += t('rule.on', { days: days.join(', ') });
+  }
+  if (rule.byMonth?.length) {
+    text += t('rule.in', { months: rule.byMonth.map(month => format(new Date(2000, month - 1, 1), 'LLLL', { locale })).join(', ') });
+  }
+  if (rule.count) text += t('rule.count', { count: rule.count });
+  else if (rule.until) text += t('rule.until', { date: format(rule.until, 'PP', { locale }) });
+  return text;
+};
+
+// ---- Task fields <-> rules ----
+
+const weekdayFromName = (name: string) =>
+  WEEKDAY_CODES[WEEKDAY_NAMES.findIndex(day => day.toLowerCase().startsWith(name.trim().toLowerCase().slice(0, 3)))];
+
+export const ruleFromRepeatFields = (fields: RepeatFields): RecurrenceRule | null => {
+  if (!fields.is_repeat || !fields.repeat_pattern) return null;
+
+  let rule: RecurrenceRule | null;
+  if (fields.repeat_pattern === 'custom') {
+    rule = fields.recurrence_rule ? parseRRule(fields.recurrence_rule) : null;
+  } else {
+    const freq = ({ daily: 'DAILY', weekly: 'WEEKLY', monthly: 'MONTHLY', yearly: 'YEARLY' } as const)[fields.repeat_pattern];
+    if (!freq) return null;
+    rule = { freq, interval: Math.max(fields.repeat_frequency || 1, 1) };
+    const days = (fields.repeat_days_of_week || []).map(weekdayFromName).filter(Boolean);
+    if (days.length && (freq === 'WEEKLY' || freq === 'DAILY')) {
+      rule.byDay = days.map(weekday => ({ weekday }));
+    }
+  }
+
+  if (rule && !rule.until && !rule.count && fields.repeat_end_date) {
+    // Date-only strings are dates in the series' zone (this device's without one), not UTC midnight
+    const [year, month, day] = fields.repeat_end_date.slice(0, 10).split('-').map(part => parseInt(part, 10));
+    const lastDay = endOfDay(new Date(year, month - 1, day));
+    rule.until = fields.timezone ? fromZonedTime(lastDay, fields.timezone) : lastDay;
+  }
+  return rule;
+};
+
+// Simple rules keep using the pattern fields; anything richer is stored as a custom RRULE.
+// The end date is the day UNTIL falls on in `timeZone`
+export const ruleToRepeatFields = (rule: RecurrenceRule | null, timeZone?: string | null): RepeatFields => {
+  if (!rule) {
+    return { is_repeat: false, repeat_pattern: '', repeat_frequency: 1, repeat_days_of_week: [], repeat_end_date: null, recurrence_rule: null };
+  }
+
+  const isSimple = !rule.count && !rule.byMonthDay?.length && !rule.byMonth?.length &&
+    !rule.byDay?.some(day => day.ordinal) &&
+    (!rule.byDay?.length || rule.freq === 'WEEKLY');
+
+  if (!isSimple) {
+    return {
+      is_repeat: true,
+      repeat_pattern: 'custom',
+      repeat_frequency: rule.interval,
+      repeat_days_of_week: [],
+      repeat_end_date: null,
+      recurrence_rule: formatRRule(rule),
+    };
+  }
+
+  return {
+    is_repeat: true,
+    repeat_pattern: rule.freq.toLowerCase() as TaskRepeatPattern,
+    repeat_frequency: rule.interval,
+    repeat_days_of_week: (rule.byDay || []).map(day => WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(day.weekday)]),
+    repeat_end_date: rule.until ? occurrenceKey(rule.until, timeZone) : null,
+    recurrence_rule: null,
+  };
+};
+
+// ---- Expansion ----
+
+// Every matching weekday among `total` days from `from`, or only the ordinal one of them
+const weekdaysIn = (from: Date, total: number, { weekday, ordinal }: ByDay): Date[] => {
+  const target = WEEKDAY_CODES.indexOf(weekday);
+  const matches: Date[] = [];
+  for (let d = 0; d < total; d++) {
+    const date = addDays(from, d);
+    if (date.getDay() === target) matches.push(date);
+  }
+  if (!ordinal) return matches;
+  const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+  return picked ? [picked] : [];
+};
+
+const isMonthDay = (date: Date, byMonthDay: number[]) =>
+  byMonthDay.some(day => (day > 0 ? day : getDaysInMonth(date) + day + 1) === date.getDate());
+
+// Candidate days inside one month for monthly/yearly rules; with both BYDAY and BYMONTHDAY a day has to match both
+const daysInMonthFor = (month: Date, rule: RecurrenceRule, dtstart: Date): Date[] => {
+  const total = getDaysInMonth(month);
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.flatMap(byDay => weekdaysIn(month, total, byDay));
+    return rule.byMonthDay?.length ? days.filter(day => isMonthDay(day, rule.byMonthDay)) : days;
+  }
+
+  if (rule.byMonthDay?.length) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : total + day + 1))
+      .filter(dayOfMonth => dayOfMonth >= 1 && dayOfMonth <= total)
+      .map(dayOfMonth => addDays(month, dayOfMonth - 1));
+  }
+
+  // Without BY rules the series repeats on the start's day of month (skipping short months)
+  return dtstart.getDate() <= total ? [addDays(month, dtstart.getDate() - 1)] : [];
+};
+
+// First day of period `index` of the rule; weeks start on Monday (RRULE's default WKST)
+const periodStart = (rule: RecurrenceRule, dtstart: Date, index: number): Date => {
+  const step = index * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY': return addDays(startOfDay(dtstart), step);
+    case 'WEEKLY': return addWeeks(startOfWeek(dtstart, { weekStartsOn: 1 }), step);
+    case 'MONTHLY': return addMonths(startOfMonth(dtstart), step);
+    case 'YEARLY': return addYears(startOfYear(dtstart), step);
+  }
+};
+
+// The period `date` falls in, counted from the one holding dtstart
+const periodIndexAt = (rule: RecurrenceRule, dtstart: Date, date: Date): number => {
+  const elapsed = {
+    DAILY: () => differenceInCalendarDays(date, dtstart),
+    WEEKLY: () => differenceInCalendarWeeks(date, dtstart, { weekStartsOn: 1 }),
+    MONTHLY: () => differenceInCalendarMonths(date, dtstart),
+    YEARLY: () => differenceInCalendarYears(date, dtstart),
+  }[rule.freq]();
+  return Math.max(0, Math.floor(elapsed / rule.interval));
+};
+
+// Days generated by period `index` of the rule, before the COUNT/UNTIL limits apply
+const candidatesForPeriod = (rule: RecurrenceRule, dtstart: Date, index: number): Date[] => {
+  const start = periodStart(rule, dtstart, index);
+  const byDayCodes = rule.byDay?.map(day => WEEKDAY_CODES.indexOf(day.weekday));
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      if (byDayCodes?.length && !byDayCodes.includes(start.getDay())) return [];
+      if (rule.byMonth?.length && !rule.byMonth.includes(start.getMonth() + 1)) return [];
+      if (rule.byMonthDay?.length && !rule.byMonthDay.includes(start.getDate())) return [];
+      return [start];
+    }
+    case 'WEEKLY': {
+      const codes = byDayCodes?.length ? byDayCodes : [dtstart.getDay()];
+      return codes.map(code => addDays(start, (code + 6) % 7));
+    }
+    case 'MONTHLY': {
+      if (rule.byMonth?.length && !rule.byMonth.includes(start.getMonth() + 1)) return [];
+      return daysInMonthFor(start, rule, dtstart);
+    }
+    case 'YEARLY': {
+      // BYDAY without BYMONTH runs over the whole year, so 20MO is its 20th Monday; BYMONTHDAY narrows it down
+      if (rule.byDay?.length && !rule.byMonth?.length) {
+        const days = rule.byDay.flatMap(byDay => weekdaysIn(start, getDaysInYear(start), byDay));
+        return rule.byMonthDay?.length ? days.filter(day => isMonthDay(day, rule.byMonthDay)) : days;
+      }
+      const months = rule.byMonth?.length ? rule.byMonth : [dtstart.getMonth() + 1];
+      return months.flatMap(month => daysInMonthFor(new Date(start.getFullYear(), month - 1, 1), rule, dtstart));
+    }
+  }
+};
+
+// Occurrence starts inside the range. Without COUNT the expansion begins at the period holding rangeStart, so a
+// series that started years ago costs no more than a new one; COUNT has to be tallied from dtstart.
+export const expandRule = (dtstart: Date, rule: RecurrenceRule, rangeStart: Date, rangeEnd: Date): Date[] => {
+  const results: Date[] = [];
+  let generated = 0;
+  const first = rule.count ? 0 : periodIndexAt(rule, dtstart, rangeStart);
+  const last = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd;
+
+  for (let index = first; periodStart(rule, dtstart, index) <= last; index++) {
+    // MO,1MO or BYMONTHDAY=1,-31 can name a day twice; it is still one occurrence
+    const candidates = candidatesForPeriod(rule, dtstart, index)
+      .map(day => withTimeOf(day, dtstart))
+      .sort((a, b) => a.getTime() - b.getTime())
+      .filter((candidate, i, sorted) => i === 0 || candidate.getTime() !== sorted[i - 1].getTime());
+
+    for (const candidate of candidates) {
+      if (candidate < dtstart) continue;
+      if (rule.until && candidate > rule.until) return results;
+      if (rule.count && generated >= rule.count) return results;
+      if (candidate > rangeEnd) return results;
+      generated++;
+      if (candidate >= rangeStart) results.push(candidate);
+    }
+  }
+  return results;
+};
+
+// Occurrences inside the range with skips removed and moved ones at their new time.
+// With a time zone the rule runs on that zone's wall clock, so a 9:00 series stays at 9:00 there across DST changes.
+export const expandOccurrences = (
+  dtstart: Date,
+  rule: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date,
+  exceptions: RecurrenceException[] = [],
+  timeZone?: string | null
+): Occurrence[] => {
+  const byKey = new Map(exceptions.map(exception => [exception.date, exception]));
+  const toWall = (date: Date) => (timeZone ? toZonedTime(date, timeZone) : date);
+  const fromWall = (date: Date) => (timeZone ? fromZonedTime(date, timeZone) : date);
+  const wallRule = rule.until ? { ...rule, until: toWall(rule.until) } : rule;
+
+  const occurrences: Occurrence[] = expandRule(toWall(dtstart), wallRule, toWall(rangeStart), toWall(rangeEnd))
+    .filter(wall => !byKey.has(occurrenceKey(wall)))
+    .map(wall => ({ key: occurrenceKey(wall), start: fromWall(wall), moved: false }));
+
+  // Moved occurrences show up where they were moved to, even from outside the range
+  exceptions.forEach(exception => {
+    if (exception.skip || !exception.start) return;
+    const start = new Date(exception.start);
+    if (start >= rangeStart && start <= rangeEnd) {
+      occurrences.push({ key: exception.date, start, duration: exception.duration, moved: true, fields: exception.fields });
+    }
+  });
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+// ---- Editing ----
+
+export const upsertException = (
+  exceptions: RecurrenceException[] = [],
+  exception: RecurrenceException
+): RecurrenceException[] => [...exceptions.filter(existing => existing.date !== exception.date), exception];
+
+// "This and following": ends the original series before the occurrence and returns the rule for a new
+// series starting at it. Days are counted on the series' zone clock, this device's without one
+export const splitRule = (
+  dtstart: Date,
+  rule: RecurrenceRule,
+  occurrenceStart: Date,
+  timeZone?: string | null
+): { before: RecurrenceRule; after: RecurrenceRule } => {
+  const toWall = (date: Date) => (timeZone ? toZonedTime(date, timeZone) : date);
+  if (rule.count) {
+    // How many occurrences come before this one
+    const before = expandRule(toWall(dtstart), { ...rule, until: undefined }, toWall(dtstart), new Date(toWall(occurrenceStart).getTime() - 1)).length;
+    return {
+      before: { ...rule, count: Math.max(before, 1) },
+      after: { ...rule, count: Math.max(rule.count - before, 1) },
+    };
+  }
+  const lastDay = endOfDay(subDays(toWall(occurrenceStart), 1));
+  return {
+    before: { ...rule, until: timeZone ? fromZonedTime(lastDay, timeZone) : lastDay },
+    after: { ...rule },
+  };
+};
+
+// Moving a whole weekly series by whole days moves its weekdays too
+export const shiftRuleWeekdays = (rule: RecurrenceRule, from: Date, to: Date): RecurrenceRule => {
+  const dayDelta = differenceInCalendarDays(to, from);
+  if (!dayDelta || !rule.byDay?.length) return rule;
+  return {
+    ...rule,
+    byDay: rule.byDay.map(day => ({
+      ...day,
+      weekday: WEEKDAY_CODES[(((WEEKDAY_CODES.indexOf(day.weekday) + dayDelta) % 7) + 7) % 7],
+    })),
+  };
+};
@@ -0,0 +1,80 @@
+// src/lib/reminderState.ts
+// Which reminders have gone off and which are snoozed, shared by every open tab through localStorage
+
+import type { ReminderTrigger } from './reminders';
+
+const STORAGE_KEY = 'deeptalk_reminder_state';
+const REMINDER_LOCK = 'deeptalk-reminders';
+// Longer than any catch-up window, so a reload never sees an old trigger as new
+const FIRED_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface SnoozedReminder {
+  trigger: ReminderTrigger;
+  until: string; // ISO
+}
+
+interface ReminderState {
+  since?: string; // when reminders first ran in this browser; nothing older is caught up on
+  fired: Record<string, string>; // trigger key → when it went off
+  snoozed: SnoozedReminder[];
+}
+
+const readState = (): ReminderState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { since: saved.since, fired: saved.fired || {}, snoozed: Array.isArray(saved.snoozed) ? saved.snoozed : [] };
+  } catch {
+    return { fired: {}, snoozed: [] };
+  }
+};
+
+const writeState = (state: ReminderState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('❌ Failed to save reminder state:', error);
+  }
+};
+
+// Read-modify-write by one tab at a time where the Web Locks API exists
+const withState = <T>(change: (state: ReminderState) => T): Promise<T> => {
+  const run = async () => {
+    const state = readState();
+    const result = change(state);
+    writeState(state);
+    return result;
+  };
+  return navigator.locks ? navigator.locks.request(REMINDER_LOCK, run) : run();
+};
+
+// Marks the due triggers and snoozes that no tab has shown yet as fired and returns them;
+// any other tab asking for the same ones afterwards gets nothing back
+export const claimReminders = (due: ReminderTrigger[], now = new Date()): Promise<ReminderTrigger[]> =>
+  withState(state => {
+    state.since = state.since || now.toISOString();
+    const cutoff = now.getTime() - FIRED_RETENTION_MS;
+    Object.entries(state.fired).forEach(([key, firedAt]) => {
+      if (new Date(firedAt).getTime() < cutoff) delete state.fired[key];
+    });
+
+    const claimed = due.filter(trigger => trigger.at >= state.since && !state.fired[trigger.key]);
+    claimed.forEach(trigger => {
+      state.fired[trigger.key] = now.toISOString();
+    });
+
+    const woken = state.snoozed.filter(snooze => new Date(snooze.until) <= now);
+    state.snoozed = state.snoozed.filter(snooze => !woken.includes(snooze));
+    return [...claimed, ...woken.map(snooze => snooze.trigger)];
+  });
+
+export const snoozeReminder = (trigger: ReminderTrigger, minutes: number, now = new Date()): Promise<void> =>
+  withState(state => {
+    const until = new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+    state.snoozed = [...state.snoozed.filter(snooze => snooze.trigger.key !== trigger.key), { trigger, until }];
+  });
+
+// Earliest snooze still waiting, in any tab
+export const nextSnoozeEnd = (): Date | null => {
+  const ends = readState().snoozed.map(snooze => new Date(snooze.until).getTime());
+  return ends.length ? new Date(Math.min(...ends)) : null;
+};
@@ -0,0 +1,186 @@
+// src/lib/reminders.ts
+// When task reminders, deadline warnings, overdue alerts and the daily agenda go off
+
+import { addDays, addMinutes, endOfDay, format, isSameDay, startOfDay, type Locale } from 'date-fns';
+import type { NotificationSettings, TimeFormat } from '@/types/CalendarTypes';
+import type { Task } from '@/types/TaskTypes';
+import { DEFAULT_EVENT_DURATION } from './calendarViews';
+import { translateEnglish, type Translate } from './i18n';
+import { expandOccurrences, ruleFromRepeatFields } from './recurrence';
+import { formatTaskTime, getTaskStart } from './taskMappers';
+import { fromZonedTime, toZonedTime } from './timezones';
+
+export type ReminderKind = 'reminder' | 'deadline' | 'overdue' | 'agenda';
+
+// How the text is written: the user's language and clock format, in the zone the calendar is shown in
+export interface ReminderDisplay {
+  timeFormat?: TimeFormat;
+  timeZone?: string;
+  t?: Translate;
+  locale?: Locale;
+}
+
+export interface ReminderTrigger {
+  key: string; // the same whenever it's computed, so each trigger goes off once across reloads and tabs
+  kind: ReminderKind;
+  at: string; // ISO time it goes off
+  taskId: string | null; // null for the daily agenda
+  title: string;
+  body: string;
+  canComplete: boolean; // one-off tasks only; completing a repeating task would end the whole series
+}
+
+// Email reminders and the weekly digest are sent by the server; the rest go off in the browser
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  emailReminders: false,
+  pushNotifications: false, // needs the browser's permission, so it starts off
+  reminderTimes: [15],
+  deadlineWarnings: [1],
+  overdueNotifications: true,
+  weeklyDigest: false,
+  dailyAgenda: false,
+  dailyAgendaTime: '08:00',
+  spokenReminders: false,
+};
+
+export const SNOOZE_MINUTES = 10;
+const AGENDA_PREVIEW_COUNT = 3;
+
+// 15 → "15 minutes", 120 → "2 hours", 1440 → "1 day"
+export const formatLead = (minutes: number, t: Translate = translateEnglish) => {
+  if (minutes >= 1440 && minutes % 1440 === 0) return t('lead.days', { count: minutes / 1440 });
+  if (minutes >= 60 && minutes % 60 === 0) return t('lead.hours', { count: minutes / 60 });
+  return t('lead.minutes', { count: minutes });
+};
+
+const isOpen = (task: Task) => task.status !== 'completed' && task.status !== 'cancelled';
+
+// Start of the task, or of each occurrence of a repeating one, inside the range
+const startsBetween = (task: Task, from: Date, to: Date): Date[] => {
+  const start = getTaskStart(task);
+  if (!start) return [];
+  const rule = ruleFromRepeatFields(task);
+  if (!rule) return start >= from && start <= to ? [start] : [];
+  return expandOccurrences(start, rule, from, to, task.recurrence_exceptions, task.timezone).map(occurrence => occurrence.start);
+};
+
+// Timed tasks are overdue once their slot ends, others once the deadline passes
+const overdueAt = (task: Task) => {
+  if (!task.specific_time) return new Date(task.deadline);
+  return addMinutes(new Date(task.specific_time), task.duration_minutes || DEFAULT_EVENT_DURATION);
+};
+
+const describeDay = (date: Date, { timeZone, locale }: ReminderDisplay) =>
+  format(toZonedTime(date, timeZone), 'EEE, MMM d', { locale });
+
+const describeClock = (date: Date, display: ReminderDisplay) =>
+  formatTaskTime(date, display.timeFormat, display.timeZone, display.locale);
+
+const describeTime = (date: Date, from: Date, display: ReminderDisplay) => {
+  const time = describeClock(date, display);
+  return isSameDay(toZonedTime(date, display.timeZone), toZonedTime(from, display.timeZone))
+    ? time
+    : `${describeDay(date, display)}, ${time}`;
+};
+
+const agendaAt = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return addMinutes(startOfDay(day), (hours || 0) * 60 + (minutes || 0));
+};
+
+const describeAgenda = (tasks: Task[], t: Translate) => t('reminder.agendaBody', {
+  count: tasks.length,
+  names: tasks.slice(0, AGENDA_PREVIEW_COUNT).map(task => task.name).join(', '),
+  more: Math.max(0, tasks.length - AGENDA_PREVIEW_COUNT),
+});
+
+// Everything that goes off after `from` and no later than `to`, earliest first.
+// A task's own reminders replace the default reminder times; an empty list turns them off.
+export const reminderTriggers = (
+  tasks: Task[],
+  settings: NotificationSettings,
+  from: Date,
+  to: Date,
+  display: ReminderDisplay = {}
+): ReminderTrigger[] => {
+  const triggers: ReminderTrigger[] = [];
+  const t = display.t ?? translateEnglish;
+  const inRange = (at: Date) => at > from && at <= to;
+  const add = (trigger: Omit<ReminderTrigger, 'at'>, at: Date) => {
+    if (inRange(at)) triggers.push({ ...trigger, at: at.toISOString() });
+  };
+
+  tasks.filter(isOpen).forEach(task => {
+    const repeating = Boolean(ruleFromRepeatFields(task));
+    const leads = task.reminders ?? settings.reminderTimes;
+    const timed = Boolean(task.specific_time);
+
+    startsBetween(task, from, addMinutes(to, Math.max(0, ...leads))).forEach(start => {
+      leads.forEach(lead => {
+        const at = addMinutes(start, -lead);
+        add({
+          key: `reminder:${task.id}:${start.toISOString()}:${lead}`,
+          kind: 'reminder',
+          taskId: task.id,
+          title: task.name,
+          body: lead === 0
+            ? t(timed ? 'reminder.startsNow' : 'reminder.dueNow')
+            : t(timed ? 'reminder.startsIn' : 'reminder.dueIn', { lead: formatLead(lead, t), when: describeTime(start, at, display) }),
+          canComplete: !repeating,
+        }, at);
+      });
+    });
+
+    // A repeating task's deadline is just its first occurrence, so only one-off tasks get these
+    if (repeating || !task.deadline) return;
+    const deadline = new Date(task.deadline);
+    settings.deadlineWarnings.forEach(days => {
+      add({
+        key: `deadline:${task.id}:${deadline.toISOString()}:${days}`,
+        kind: 'deadline',
+        taskId: task.id,
+        title: task.name,
+        body: t('reminder.deadline', { days, day: describeDay(deadline, display), time: describeClock(deadline, display) }),
+        canComplete: true,
+      }, addDays(deadline, -days));
+    });
+
+    if (settings.overdueNotifications) {
+      const due = overdueAt(task);
+      add({
+        key: `overdue:${task.id}:${due.toISOString()}`,
+        kind: 'overdue',
+        taskId: task.id,
+        title: task.name,
+        body: t('reminder.overdue', { time: describeClock(due, display) }),
+        canComplete: true,
+      }, due);
+    }
+  });
+
+  // Days and the agenda time are the display zone's
+  if (settings.dailyAgenda) {
+    const { timeZone } = display;
+    for (let day = startOfDay(toZonedTime(from, timeZone)); fromZonedTime(day, timeZone) <= to; day = addDays(day, 1)) {
+      const dayStart = fromZonedTime(day, timeZone);
+      const dayEnd = fromZonedTime(endOfDay(day), timeZone);
+      const dayTasks = tasks
+        .filter(isOpen)
+        .map(task => ({ task, start: startsBetween(task, dayStart, dayEnd)[0] }))
+        .filter(({ start }) => start)
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+        .map(({ task }) => task);
+      if (dayTasks.length === 0) continue;
+      add({
+        key: `agenda:${format(day, 'yyyy-MM-dd')}`,
+        kind: 'agenda',
+        taskId: null,
+        title: t('reminder.agendaTitle'),
+        body: describeAgenda(dayTasks, t),
+        canComplete: false,
+      }, fromZonedTime(agendaAt(day, settings.dailyAgendaTime), timeZone));
+    }
+  }
+
+  return triggers.sort((a, b) => a.at.localeCompare(b.at));
+};
@@ -0,0 +1,152 @@
+// src/lib/savedViews.ts
+// Saved views: the URL they open, the layout options they carry, and the sort orders they apply
+
+import { addDays, endOfDay, endOfMonth, endOfWeek, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { compareForScheduling } from './autoScheduler';
+import { filterFromSearchParams, filterToSearchParams } from './calendarFilter';
+import { CALENDAR_VIEW_TYPES, isTimedEvent, type CalendarViewType } from './calendarViews';
+import { BOARD_GROUPS, type BoardGroupBy, type BoardSwimlaneBy } from './taskBoard';
+import { toTaskPriority } from './taskMappers';
+import type {
+  CalendarEvent, EventPriority, SavedView, SavedViewDateWindow, SavedViewInput, SavedViewSort, WeekStart
+} from '@/types/CalendarTypes';
+import type { Task } from '@/types/TaskTypes';
+
+// Named in the UI by the sort.* and dateWindow.* messages
+export const SAVED_VIEW_SORTS: SavedViewSort[] = ['schedule', 'priority', 'deadline', 'title'];
+export const DATE_WINDOWS: SavedViewDateWindow[] = ['today', 'this_week', 'next_7_days', 'this_month'];
+
+export const BOARD_PATH = '/board';
+export const savedViewPath = (id: string) => `/views/${encodeURIComponent(id)}`;
+
+// ---- Layout options in the query string ----
+
+// What a page shows besides the filter; unset means the page's own default
+export interface ViewOptions {
+  calendarView?: CalendarViewType;
+  groupBy?: BoardGroupBy;
+  swimlaneBy?: BoardSwimlaneBy;
+  sort: SavedViewSort;
+}
+
+const VIEW_PARAM = 'view';
+const GROUP_PARAM = 'group';
+const LANES_PARAM = 'lanes';
+const SORT_PARAM = 'sort';
+const DEFAULT_SORT: SavedViewSort = 'schedule';
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[]): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+
+export const viewOptionsFromSearchParams = (params: URLSearchParams): ViewOptions => ({
+  calendarView: oneOf(params.get(VIEW_PARAM), CALENDAR_VIEW_TYPES),
+  groupBy: oneOf(params.get(GROUP_PARAM), BOARD_GROUPS),
+  swimlaneBy: oneOf(params.get(LANES_PARAM), [...BOARD_GROUPS, 'none'] as BoardSwimlaneBy[]),
+  sort: oneOf(params.get(SORT_PARAM), SAVED_VIEW_SORTS) ?? DEFAULT_SORT,
+});
+
+// Sets the options that are given and keeps everything else in the URL; defaults are left out
+export const viewOptionsToSearchParams = (options: Partial<ViewOptions>, base?: URLSearchParams) => {
+  const params = new URLSearchParams(base);
+  const write = (key: string, value: string | undefined, fallback?: string) =>
+    value && value !== fallback ? params.set(key, value) : params.delete(key);
+
+  if ('calendarView' in options) write(VIEW_PARAM, options.calendarView);
+  if ('groupBy' in options) write(GROUP_PARAM, options.groupBy);
+  if ('swimlaneBy' in options) write(LANES_PARAM, options.swimlaneBy, 'none');
+  if ('sort' in options) write(SORT_PARAM, options.sort, DEFAULT_SORT);
+  return params;
+};
+
+// ---- Opening and saving ----
+
+export const dateWindowRange = (window: SavedViewDateWindow, now = new Date(), weekStartsOn: WeekStart = 0) => {
+  switch (window) {
+    case 'today':
+      return { start: startOfDay(now), end: endOfDay(now) };
+    case 'this_week':
+      return { start: startOfWeek(now, { weekStartsOn }), end: endOfWeek(now, { weekStartsOn }) };
+    case 'next_7_days':
+      return { start: startOfDay(now), end: endOfDay(addDays(now, 6)) };
+    case 'this_month':
+      return { start: startOfMonth(now), end: endOfMonth(now) };
+  }
+};
+
+// The page a saved view opens, with its filter and options in the query string
+export const savedViewUrl = (view: SavedView, weekStartsOn: WeekStart = 0, now = new Date()) => {
+  const filter = filterFromSearchParams(new URLSearchParams(view.query));
+  if (view.dateWindow) filter.dateRange = dateWindowRange(view.dateWindow, now, weekStartsOn);
+
+  const isBoard = view.layout === 'board';
+  const params = viewOptionsToSearchParams(
+    {
+      calendarView: isBoard ? undefined : view.layout as CalendarViewType,
+      groupBy: isBoard ? view.groupBy ?? undefined : undefined,
+      swimlaneBy: isBoard ? view.swimlaneBy ?? undefined : undefined,
+      sort: view.sort,
+    },
+    filterToSearchParams(filter)
+  );
+  const search = params.toString();
+  return `${isBoard ? BOARD_PATH : '/'}${search ? `?${search}` : ''}`;
+};
+
+// A saved view of what the page currently shows; a date window drops the fixed dates it stands in for
+export const savedViewFromLocation = (
+  pathname: string,
+  search: string,
+  details: Pick<SavedViewInput, 'name' | 'pinned' | 'dateWindow'>
+): SavedViewInput => {
+  const params = new URLSearchParams(search);
+  const filter = filterFromSearchParams(params);
+  if (details.dateWindow) delete filter.dateRange;
+  const options = viewOptionsFromSearchParams(params);
+  const isBoard = pathname === BOARD_PATH;
+
+  return {
+    ...details,
+    name: details.name.trim(),
+    query: filterToSearchParams(filter).toString(),
+    layout: isBoard ? 'board' : options.calendarView ?? 'month',
+    groupBy: isBoard ? options.groupBy ?? 'status' : null,
+    swimlaneBy: isBoard ? options.swimlaneBy ?? 'none' : null,
+    sort: options.sort,
+  };
+};
+
+// ---- Sorting ----
+
+const PRIORITY_RANK: Record<EventPriority, number> = { urgent: 1, high: 2, medium: 3, low: 4, lowest: 5 };
+
+const byDeadline = (a?: Date | string | null, b?: Date | string | null) =>
+  (a ? new Date(a).getTime() : Infinity) - (b ? new Date(b).getTime() : Infinity);
+
+export const compareTasksBy = (sort: SavedViewSort) => (a: Task, b: Task) => {
+  switch (sort) {
+    case 'priority':
+      return toTaskPriority(a.priority) - toTaskPriority(b.priority) || compareForScheduling(a, b);
+    case 'deadline':
+      return byDeadline(a.deadline, b.deadline) || compareForScheduling(a, b);
+    case 'title':
+      return a.name.localeCompare(b.name) || compareForScheduling(a, b);
+    default:
+      return compareForScheduling(a, b);
+  }
+};
+
+// Within a day: all-day items first, then by start time, unless the view sorts otherwise
+export const compareEventsBy = (sort: SavedViewSort) => (a: CalendarEvent, b: CalendarEvent) => {
+  const bySchedule = Number(isTimedEvent(a)) - Number(isTimedEvent(b)) || a.date.getTime() - b.date.getTime();
+  switch (sort) {
+    case 'priority':
+      return PRIORITY_RANK[a.priority ?? 'medium'] - PRIORITY_RANK[b.priority ?? 'medium'] || bySchedule;
+    case 'deadline':
+      return byDeadline(a.deadline, b.deadline) || bySchedule;
+    case 'title':
+      return a.title.localeCompare(b.title) || bySchedule;
+    default:
+      return bySchedule;
+  }
+};
@@ -0,0 +1,54 @@
+// src/lib/settings.ts
+// Calendar preferences: their defaults, and saved or edited values laid over them
+
+import { DEFAULT_WORKING_HOURS } from './autoScheduler';
+import { DEFAULT_EVENT_DURATION } from './calendarViews';
+import { DEFAULT_FOCUS_SETTINGS } from './focusSession';
+import { DEFAULT_NOTIFICATION_SETTINGS } from './reminders';
+import { resolveTimeZone } from './timezones';
+import type { CalendarSettings, FocusSettings, NotificationSettings } from '@/types/CalendarTypes';
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = {
+  language: '',
+  defaultView: 'month',
+  startOfWeek: 0,
+  workingHours: DEFAULT_WORKING_HOURS,
+  timeFormat: '12h',
+  dateFormat: 'MMM d, yyyy',
+  timezone: '', // follows the device, so times stay local when travelling
+  secondaryTimezone: '',
+  defaultEventDuration: DEFAULT_EVENT_DURATION,
+  defaultReminderTime: 15,
+  autoCreateEvents: false,
+  showDeclinedEvents: false,
+  notifications: DEFAULT_NOTIFICATION_SETTINGS,
+  focus: DEFAULT_FOCUS_SETTINGS,
+};
+
+// Example output next to each pattern, for Oct 19, 2026
+export const DATE_FORMATS: { pattern: string; example: string }[] = [
+  { pattern: 'MMM d, yyyy', example: 'Oct 19, 2026' },
+  { pattern: 'd MMM yyyy', example: '19 Oct 2026' },
+  { pattern: 'MM/dd/yyyy', example: '10/19/2026' },
+  { pattern: 'dd/MM/yyyy', example: '19/10/2026' },
+  { pattern: 'yyyy-MM-dd', example: '2026-10-19' },
+];
+
+// The zone times are shown in
+export const displayTimeZone = (settings: CalendarSettings) => resolveTimeZone(settings.timezone);
+
+// Nested groups can be changed a field at a time
+export type SettingsChanges = Partial<Omit<CalendarSettings, 'workingHours' | 'notifications' | 'focus'>> & {
+  workingHours?: Partial<CalendarSettings['workingHours']>;
+  notifications?: Partial<NotificationSettings>;
+  focus?: Partial<FocusSettings>;
+};
+
+// Also fills in anything an older save or the server doesn't have yet
+export const mergeSettings = (base: CalendarSettings, changes: SettingsChanges | null | undefined): CalendarSettings => ({
+  ...base,
+  ...changes,
+  workingHours: { ...base.workingHours, ...changes?.workingHours },
+  notifications: { ...base.notifications, ...changes?.notifications },
+  focus: { ...base.focus, ...changes?.focus },
+});
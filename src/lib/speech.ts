@@ -0,0 +1,28 @@
+// src/lib/speech.ts
+// The assistant's text-to-speech voice, shared by its replies and spoken reminders
+
+export const canSpeak = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Spoken in the given language (a BCP 47 tag such as 'vi-VN') with one of its voices when the browser has one
+export const createAssistantUtterance = (text: string, lang = 'en-US') => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+
+  // Configure voice settings for a more AI-like experience
+  utterance.rate = 0.9;
+  utterance.pitch = 1.0;
+  utterance.volume = 0.8;
+
+  // Try to use a more suitable voice
+  const base = lang.split('-')[0];
+  const voices = window.speechSynthesis.getVoices().filter(voice => voice.lang.replace('_', '-').split('-')[0] === base);
+  const preferredVoice = voices.find(voice =>
+    voice.name.includes('Google') ||
+    voice.name.includes('Alex') ||
+    voice.name.includes('Daniel')
+  ) ?? voices[0];
+  if (preferredVoice) {
+    utterance.voice = preferredVoice;
+  }
+  return utterance;
+};
@@ -0,0 +1,81 @@
+// src/lib/subtasks.ts
+// Subtask and checklist breakdown of a task, and the progress and effort that roll up to the parent
+
+import { taskDuration } from './autoScheduler';
+import { getTaskStart } from './taskMappers';
+import type { ChecklistItem, Task, TaskInput } from '@/types/TaskTypes';
+
+export interface TaskRollup {
+  completion_percentage: number;
+  estimated_effort_hours: number;
+}
+
+let checklistCount = 0;
+
+export const newChecklistItem = (text: string): ChecklistItem => {
+  checklistCount += 1;
+  return { id: `${Date.now().toString(36)}-${checklistCount}`, text: text.trim(), done: false };
+};
+
+// Scheduled subtasks first, in time order, then the rest by name
+export const subtasksOf = (tasks: Task[], parentId: string): Task[] =>
+  tasks
+    .filter(task => task.parent_task != null && String(task.parent_task) === String(parentId))
+    .sort((a, b) => {
+      const startA = getTaskStart(a)?.getTime() ?? Infinity;
+      const startB = getTaskStart(b)?.getTime() ?? Infinity;
+      return startA !== startB ? startA - startB : a.name.localeCompare(b.name);
+    });
+
+export const checklistProgress = (items: ChecklistItem[] = []) => ({
+  done: items.filter(item => item.done).length,
+  total: items.length,
+});
+
+const ownEffortHours = (task: Task) => task.estimated_effort_hours || taskDuration(task) / 60;
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Subtasks count by their effort and the checklist stands for the parent's own effort.
+// A task with neither keeps its hand-entered numbers, so this returns null
+export const rollUpTask = (task: Task, tasks: Task[], ancestors: string[] = []): TaskRollup | null => {
+  const id = String(task.id);
+  if (ancestors.includes(id)) return null; // a parent loop in bad data
+
+  const children = subtasksOf(tasks, id).filter(child => child.status !== 'cancelled');
+  const checklist = checklistProgress(task.checklist);
+  if (children.length === 0 && checklist.total === 0) return null;
+
+  let effort = 0;
+  let doneEffort = 0;
+  children.forEach(child => {
+    const rolled = rollUpTask(child, tasks, [...ancestors, id]);
+    const hours = rolled?.estimated_effort_hours ?? ownEffortHours(child);
+    const percent = child.status === 'completed' ? 100 : rolled?.completion_percentage ?? child.completion_percentage ?? 0;
+    effort += hours;
+    doneEffort += hours * percent / 100;
+  });
+  if (checklist.total > 0) {
+    // Without subtasks the task's own estimate is all the effort there is
+    const hours = children.length ? ownEffortHours({ ...task, estimated_effort_hours: undefined }) : ownEffortHours(task);
+    effort += hours;
+    doneEffort += hours * checklist.done / checklist.total;
+  }
+
+  const percent = task.status === 'completed' ? 100 : effort > 0 ? (doneEffort / effort) * 100 : 0;
+  return {
+    completion_percentage: Math.round(percent),
+    estimated_effort_hours: round(effort, 2),
+  };
+};
+
+// Parents whose saved progress or effort no longer matches their breakdown, with the update that fixes them
+export const staleRollups = (tasks: Task[]): { id: string; input: Partial<TaskInput> }[] =>
+  tasks.flatMap(task => {
+    const rollup = rollUpTask(task, tasks);
+    if (!rollup) return [];
+    const sameProgress = Math.round(task.completion_percentage ?? 0) === rollup.completion_percentage;
+    const sameEffort = Math.abs((task.estimated_effort_hours ?? 0) - rollup.estimated_effort_hours) < 0.01;
+    if (sameProgress && sameEffort) return [];
+    return [{ id: String(task.id), input: { name: task.name, ...rollup } }];
+  });
@@ -0,0 +1,177 @@
+// src/lib/taskBoard.ts
+// Kanban columns and swimlanes for tasks, and the update a drop between them writes
+
+import { compareForScheduling } from './autoScheduler';
+import { translateEnglish, type Translate } from './i18n';
+import { TASK_PRIORITIES, toTaskPriority } from './taskMappers';
+import type { CalendarView } from '@/types/CalendarTypes';
+import type { Task, TaskCategory, TaskInput, TaskPriority, TaskStatus } from '@/types/TaskTypes';
+
+export type BoardGroupBy = NonNullable<CalendarView['groupBy']>;
+export type BoardSwimlaneBy = BoardGroupBy | 'none';
+
+export interface BoardColumn {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+export interface BoardLane {
+  key: string;
+  label: string;
+  cells: Record<string, Task[]>; // column key -> tasks, sorted
+}
+
+export type WipLimits = Record<string, number>; // column key -> max tasks, unset means no limit
+
+export const BOARD_GROUPS: BoardGroupBy[] = ['status', 'priority', 'category', 'assignee'];
+
+const STATUS_COLUMNS: { key: TaskStatus; color: string }[] = [
+  { key: 'pending', color: '#6b7280' },
+  { key: 'in_progress', color: '#3b82f6' },
+  { key: 'on_hold', color: '#f59e0b' },
+  { key: 'completed', color: '#22c55e' },
+  { key: 'cancelled', color: '#9ca3af' },
+];
+
+// Tasks without a category or assignee share this column
+export const NONE_KEY = '__none__';
+const ALL_KEY = '__all__';
+
+export const boardColumns = (
+  groupBy: BoardGroupBy,
+  tasks: Task[],
+  categories: TaskCategory[],
+  t: Translate = translateEnglish
+): BoardColumn[] => {
+  switch (groupBy) {
+    case 'status':
+      return STATUS_COLUMNS.map(({ key, color }) => ({ key, label: t(`board.status.${key}`), color }));
+    case 'priority':
+      return (Object.keys(TASK_PRIORITIES) as unknown as TaskPriority[]).map(priority => ({
+        key: String(priority),
+        label: t(`priority.${priority}`),
+        color: TASK_PRIORITIES[priority].color,
+      }));
+    case 'category':
+      return [
+        ...categories.map(category => ({ key: category.id, label: category.name, color: category.color_hex })),
+        { key: NONE_KEY, label: t('board.uncategorized') },
+      ];
+    case 'assignee': {
+      const assignees = [...new Set(tasks.map(task => task.assignee).filter(Boolean))].sort();
+      return [...assignees.map(name => ({ key: name, label: name })), { key: NONE_KEY, label: t('board.unassigned') }];
+    }
+  }
+};
+
+export const columnKeyOf = (task: Task, groupBy: BoardGroupBy): string => {
+  switch (groupBy) {
+    case 'status':
+      return task.status;
+    case 'priority':
+      return String(toTaskPriority(task.priority));
+    case 'category':
+      return task.category?.id ?? NONE_KEY;
+    case 'assignee':
+      return task.assignee || NONE_KEY;
+  }
+};
+
+// The fields a drop into this column changes; the same body works for one task or a bulk update
+export const columnInput = (groupBy: BoardGroupBy, key: string): Partial<TaskInput> => {
+  switch (groupBy) {
+    case 'status':
+      return key === 'completed'
+        ? { status: 'completed', completion_percentage: 100 }
+        : { status: key as TaskStatus };
+    case 'priority':
+      return { priority: Number(key) };
+    case 'category':
+      return { category: key === NONE_KEY ? null : key };
+    case 'assignee':
+      return { assignee: key === NONE_KEY ? null : key };
+  }
+};
+
+// Lanes grouped the same way as the columns would just repeat them
+const hasLanes = (groupBy: BoardGroupBy, swimlaneBy: BoardSwimlaneBy): swimlaneBy is BoardGroupBy =>
+  swimlaneBy !== 'none' && swimlaneBy !== groupBy;
+
+// What a drop into a cell writes: its column, plus its lane when lanes are on
+export const dropInput = (
+  groupBy: BoardGroupBy,
+  columnKey: string,
+  swimlaneBy: BoardSwimlaneBy,
+  laneKey: string
+): Partial<TaskInput> => ({
+  ...(hasLanes(groupBy, swimlaneBy) ? columnInput(swimlaneBy, laneKey) : {}),
+  ...columnInput(groupBy, columnKey),
+});
+
+// Tasks the drop would actually move, leaving out those already in that cell
+export const tasksToMove = (
+  tasks: Task[],
+  groupBy: BoardGroupBy,
+  columnKey: string,
+  swimlaneBy: BoardSwimlaneBy,
+  laneKey: string
+) =>
+  tasks.filter(task =>
+    columnKeyOf(task, groupBy) !== columnKey ||
+    (hasLanes(groupBy, swimlaneBy) && columnKeyOf(task, swimlaneBy) !== laneKey)
+  );
+
+export const buildBoard = (
+  tasks: Task[],
+  columns: BoardColumn[],
+  groupBy: BoardGroupBy,
+  swimlaneBy: BoardSwimlaneBy,
+  lanes: BoardColumn[],
+  compare: (a: Task, b: Task) => number = compareForScheduling
+): BoardLane[] => {
+  const laneList = hasLanes(groupBy, swimlaneBy) ? lanes : [{ key: ALL_KEY, label: '' }];
+  const board = laneList.map(lane => ({
+    ...lane,
+    cells: Object.fromEntries(columns.map(column => [column.key, [] as Task[]])),
+  }));
+  const laneIndex = new Map(board.map((lane, index) => [lane.key, index]));
+
+  [...tasks].sort(compare).forEach(task => {
+    const laneKey = hasLanes(groupBy, swimlaneBy) ? columnKeyOf(task, swimlaneBy) : ALL_KEY;
+    const lane = board[laneIndex.get(laneKey) ?? -1];
+    lane?.cells[columnKeyOf(task, groupBy)]?.push(task);
+  });
+
+  // Empty lanes only add noise
+  return board.filter(lane => lane.key === ALL_KEY || Object.values(lane.cells).some(cell => cell.length > 0));
+};
+
+export const columnCount = (board: BoardLane[], columnKey: string) =>
+  board.reduce((sum, lane) => sum + (lane.cells[columnKey]?.length ?? 0), 0);
+
+// Whether moving this many more tasks into the column would go over its limit
+export const exceedsWipLimit = (limits: WipLimits, columnKey: string, current: number, adding: number) =>
+  limits[columnKey] > 0 && current + adding > limits[columnKey];
+
+// ---- Saved limits ----
+
+const WIP_STORAGE_KEY = 'deeptalk_board_wip_limits';
+
+export const loadWipLimits = (groupBy: BoardGroupBy): WipLimits => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(WIP_STORAGE_KEY) || '{}');
+    return saved[groupBy] ?? {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveWipLimits = (groupBy: BoardGroupBy, limits: WipLimits) => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(WIP_STORAGE_KEY) || '{}');
+    localStorage.setItem(WIP_STORAGE_KEY, JSON.stringify({ ...saved, [groupBy]: limits }));
+  } catch (error) {
+    console.error('❌ Failed to save WIP limits:', error);
+  }
+};
@@ -0,0 +1,199 @@
+// src/lib/taskDependencies.ts
+// Prerequisite graph between tasks: loop and order checks, blocked tasks and the critical path
+
+import { taskDuration } from './autoScheduler';
+import { translateEnglish, type Translate } from './i18n';
+import { getTaskStart } from './taskMappers';
+import type { Task } from '@/types/TaskTypes';
+
+type DependencyFields = Pick<Task, 'id' | 'prerequisite_tasks' | 'blocking_tasks'>;
+
+// Edges run from a prerequisite to the task waiting on it. A task lists its own
+// prerequisites and the tasks it blocks, so both fields feed the same edges
+export interface DependencyGraph {
+  prerequisites: Map<string, Set<string>>;
+  dependents: Map<string, Set<string>>;
+}
+
+export interface CriticalPath {
+  taskIds: string[]; // first prerequisite to last dependent
+  minutes: number;
+}
+
+// What the task dialog is about to save, checked against the other tasks
+export interface DependencyDraft {
+  id: string | null; // null while the task is being created
+  name: string;
+  start: Date | null;
+  prerequisites: string[];
+  blocking: string[];
+}
+
+const DRAFT_ID = '__draft__';
+
+const isDone = (task: Pick<Task, 'status'>) => task.status === 'completed' || task.status === 'cancelled';
+
+export const buildDependencyGraph = (tasks: DependencyFields[]): DependencyGraph => {
+  const known = new Set(tasks.map(task => String(task.id)));
+  const graph: DependencyGraph = { prerequisites: new Map(), dependents: new Map() };
+  known.forEach(id => {
+    graph.prerequisites.set(id, new Set());
+    graph.dependents.set(id, new Set());
+  });
+
+  const link = (before: string, after: string) => {
+    // Unknown ids (deleted tasks, typos from the old free-text field) are dropped
+    if (before === after || !known.has(before) || !known.has(after)) return;
+    graph.prerequisites.get(after)!.add(before);
+    graph.dependents.get(before)!.add(after);
+  };
+
+  tasks.forEach(task => {
+    const id = String(task.id);
+    task.prerequisite_tasks?.forEach(before => link(String(before), id));
+    task.blocking_tasks?.forEach(after => link(id, String(after)));
+  });
+  return graph;
+};
+
+// Tasks with at least one edge, in the order they were given
+export const linkedTaskIds = (graph: DependencyGraph) =>
+  [...graph.prerequisites.keys()].filter(id =>
+    graph.prerequisites.get(id)!.size > 0 || graph.dependents.get(id)!.size > 0
+  );
+
+// Ids on a loop through the given task, ending where they started, or null
+export const findCycleThrough = (graph: DependencyGraph, id: string): string[] | null => {
+  const visited = new Set<string>();
+  const walk = (current: string, path: string[]): string[] | null => {
+    for (const next of graph.dependents.get(current) ?? []) {
+      if (next === id) return [...path, next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const found = walk(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(id, [id]);
+};
+
+// Prerequisites that are still open; the task is blocked while there are any
+export const openPrerequisites = (graph: DependencyGraph, tasksById: Map<string, Task>, id: string): Task[] =>
+  [...(graph.prerequisites.get(id) ?? [])]
+    .map(before => tasksById.get(before))
+    .filter((task): task is Task => Boolean(task) && !isDone(task));
+
+// Problems that should stop the dialog from saving, as messages for the user
+export const validateDependencies = (tasks: Task[], draft: DependencyDraft, t: Translate = translateEnglish): string[] => {
+  const id = draft.id ?? DRAFT_ID;
+  const fields: DependencyFields[] = [
+    ...tasks.filter(task => String(task.id) !== id),
+    { id, prerequisite_tasks: draft.prerequisites, blocking_tasks: draft.blocking },
+  ];
+  const tasksById = new Map(tasks.map(task => [String(task.id), task]));
+  const nameOf = (taskId: string) => (taskId === id ? draft.name || t('deps.thisTask') : tasksById.get(taskId)?.name ?? taskId);
+  const errors: string[] = [];
+
+  const overlap = draft.prerequisites.filter(taskId => draft.blocking.includes(taskId));
+  overlap.forEach(taskId => errors.push(t('deps.bothWays', { name: nameOf(taskId) })));
+
+  const cycle = findCycleThrough(buildDependencyGraph(fields), id);
+  if (cycle && overlap.length === 0) {
+    errors.push(t('deps.loop', { path: cycle.map(nameOf).join(' → ') }));
+  }
+
+  // A prerequisite has to be able to happen first
+  if (draft.start) {
+    const start = draft.start;
+    draft.prerequisites.forEach(taskId => {
+      const task = tasksById.get(taskId);
+      const taskStart = task && !isDone(task) ? getTaskStart(task) : null;
+      if (taskStart && taskStart > start) {
+        errors.push(t('deps.prerequisiteLater', { name: task.name }));
+      }
+    });
+    draft.blocking.forEach(taskId => {
+      const task = tasksById.get(taskId);
+      const taskStart = task && !isDone(task) ? getTaskStart(task) : null;
+      if (taskStart && taskStart < start) {
+        errors.push(t('deps.blockedEarlier', { name: task.name }));
+      }
+    });
+  }
+  return errors;
+};
+
+// Prerequisites before dependents; tasks caught in a loop are left out
+const topologicalOrder = (graph: DependencyGraph, ids: string[]) => {
+  const included = new Set(ids);
+  const remaining = new Map(ids.map(id => [id, [...graph.prerequisites.get(id)!].filter(before => included.has(before)).length]));
+  const queue = ids.filter(id => remaining.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    graph.dependents.get(id)!.forEach(next => {
+      if (!included.has(next)) return;
+      remaining.set(next, remaining.get(next)! - 1);
+      if (remaining.get(next) === 0) queue.push(next);
+    });
+  }
+  return order;
+};
+
+// Columns for drawing: each task sits one column right of its latest prerequisite
+export const dependencyLayers = (graph: DependencyGraph, ids: string[]): string[][] => {
+  const order = topologicalOrder(graph, ids);
+  const depth = new Map<string, number>();
+  order.forEach(id => {
+    const before = [...graph.prerequisites.get(id)!].filter(prev => depth.has(prev));
+    depth.set(id, before.length ? Math.max(...before.map(prev => depth.get(prev)!)) + 1 : 0);
+  });
+  // Anything on a loop goes into a column of its own at the end
+  const last = depth.size ? Math.max(...depth.values()) + 1 : 0;
+  ids.filter(id => !depth.has(id)).forEach(id => depth.set(id, last));
+
+  const layers: string[][] = [];
+  ids.forEach(id => {
+    const column = depth.get(id)!;
+    (layers[column] ??= []).push(id);
+  });
+  return layers.filter(Boolean);
+};
+
+// Longest chain of remaining work; finished tasks count as zero minutes
+export const criticalPath = (graph: DependencyGraph, tasks: Task[]): CriticalPath => {
+  const tasksById = new Map(tasks.map(task => [String(task.id), task]));
+  const ids = linkedTaskIds(graph);
+  const order = topologicalOrder(graph, ids);
+  if (order.length < ids.length) return { taskIds: [], minutes: 0 };
+
+  const weight = (id: string) => {
+    const task = tasksById.get(id);
+    return task && !isDone(task) ? taskDuration(task) : 0;
+  };
+  const total = new Map<string, number>();
+  const via = new Map<string, string>();
+  order.forEach(id => {
+    let best = 0;
+    // Sorted so equal chains always resolve the same way
+    [...graph.prerequisites.get(id)!].sort().forEach(before => {
+      if (total.get(before)! > best) {
+        best = total.get(before)!;
+        via.set(id, before);
+      }
+    });
+    total.set(id, best + weight(id));
+  });
+
+  let end: string | null = null;
+  order.forEach(id => {
+    if (end === null || total.get(id)! > total.get(end)!) end = id;
+  });
+  if (end === null || total.get(end) === 0) return { taskIds: [], minutes: 0 };
+
+  const taskIds: string[] = [];
+  for (let id: string | undefined = end; id; id = via.get(id)) taskIds.unshift(id);
+  return { taskIds, minutes: total.get(end)! };
+};
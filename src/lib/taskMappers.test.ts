@@ -0,0 +1,132 @@
+// src/lib/taskMappers.test.ts
+// API responses into tasks, tasks into update bodies and calendar events, and back again
+
+import { describe, expect, it } from 'vitest';
+import type { TaskCategory, TaskPriority, TaskResponse, TaskStatus } from '@/types/TaskTypes';
+import {
+  applyTaskInput, eventStatusToTask, eventToTaskInput, levelToPriority, normalizeTask, priorityToLevel, taskStatusToEvent,
+  taskToEvent, taskToInput
+} from './taskMappers';
+
+const WORK: TaskCategory = { id: 'c1', name: 'Work', color_hex: '#10b981' };
+
+// As the list endpoint returns it: category by id, tags as text
+const response: TaskResponse = {
+  id: '42',
+  name: 'Quarterly report',
+  category: 'c1',
+  category_name: 'Work',
+  tags: 'finance, q4' as unknown as string[],
+  priority: 4,
+  urgency: 2,
+  status: 'in_progress',
+  completion_percentage: 40,
+  specific_time: '2026-10-20T13:30:00.000Z',
+  deadline: '2026-10-20T13:30:00.000Z',
+  duration_minutes: 90,
+  timezone: 'America/New_York',
+  required_tools: ['laptop'],
+  location: 'Office',
+  created_at: '2026-10-01T08:00:00.000Z',
+  updated_at: '2026-10-02T08:00:00.000Z',
+  version: 3,
+};
+
+describe('normalizeTask', () => {
+  it('fills in what the endpoint leaves out', () => {
+    const task = normalizeTask(response);
+    expect(task).toMatchObject({
+      id: '42',
+      category: { id: 'c1', name: 'Work', color_hex: '#3b82f6' },
+      tags: ['finance', 'q4'],
+      priority: 4,
+      status: 'in_progress',
+      description: '',
+    });
+    expect(task).not.toHaveProperty('category_name');
+  });
+
+  it('falls back to defaults for values out of range', () => {
+    const task = normalizeTask({ id: '1', name: 'Odd', priority: 9 as TaskPriority, status: 'done' as TaskStatus });
+    expect(task).toMatchObject({ priority: 3, urgency: 3, status: 'pending', completion_percentage: 0, tags: [], required_tools: [] });
+  });
+
+  it('counts a completed task as fully done', () => {
+    expect(normalizeTask({ id: '1', name: 'Done', status: 'completed' }).completion_percentage).toBe(100);
+  });
+});
+
+describe('taskToInput and applyTaskInput', () => {
+  it('write a task back unchanged', () => {
+    const task = normalizeTask({ ...response, category: WORK });
+    const input = taskToInput(task);
+    expect(input.category).toBe('c1');
+    expect(input).not.toHaveProperty('id');
+    expect(input).not.toHaveProperty('updated_at');
+    expect(applyTaskInput(task, input, [WORK])).toEqual(task);
+  });
+
+  it('apply only the fields an edit carries', () => {
+    const task = normalizeTask({ ...response, category: WORK });
+    const edited = applyTaskInput(task, { name: 'Annual report', category: null });
+    expect(edited).toEqual({ ...task, name: 'Annual report', category: null });
+    expect(applyTaskInput(task, { name: task.name })).toEqual(task);
+  });
+});
+
+describe('priority and status', () => {
+  it.each([
+    [1, 'urgent'],
+    [2, 'high'],
+    [3, 'medium'],
+    [4, 'low'],
+    [5, 'lowest'],
+  ] as const)('maps priority %i to %s and back', (priority, level) => {
+    expect(priorityToLevel(priority)).toBe(level);
+    expect(levelToPriority(level)).toBe(priority);
+  });
+
+  it.each(['pending', 'in_progress', 'completed', 'cancelled', 'on_hold'] as TaskStatus[])('maps status %s both ways', (status) => {
+    expect(eventStatusToTask(taskStatusToEvent(status))).toBe(status);
+  });
+});
+
+describe('taskToEvent and eventToTaskInput', () => {
+  it('shows a timed task on the display clock and reads it back to the same instant', () => {
+    const task = normalizeTask({ ...response, category: WORK });
+    const event = taskToEvent(task, 'Europe/Paris');
+    // 13:30 UTC is 15:30 in Paris (device clock is UTC, see vite.config.ts)
+    expect(event).toMatchObject({ id: '42', time: '3:30 PM', priority: 'low', status: 'in_progress', category: 'Work' });
+    expect(event.date.getHours()).toBe(15);
+
+    expect(eventToTaskInput(event, [WORK], 'Europe/Paris', task.timezone)).toEqual({
+      name: 'Quarterly report',
+      description: '',
+      tags: ['finance', 'q4'],
+      location: 'Office',
+      priority: 4,
+      status: 'in_progress',
+      completion_percentage: 40,
+      duration_minutes: 90,
+      category: 'c1',
+      specific_time: task.specific_time,
+      deadline: task.deadline,
+    });
+  });
+
+  it('keeps an all-day task on its own zone date', () => {
+    // Midnight of Oct 20 in Tokyo
+    const task = normalizeTask({ id: '7', name: 'Holiday', deadline: '2026-10-19T15:00:00.000Z', timezone: 'Asia/Tokyo' });
+    const event = taskToEvent(task, 'America/New_York');
+    expect(event.time).toBeUndefined();
+    expect(event.date.toISOString().slice(0, 10)).toBe('2026-10-20');
+
+    const input = eventToTaskInput(event, [], 'America/New_York', task.timezone);
+    expect(input).toMatchObject({ specific_time: null, deadline: task.deadline, priority: 3 });
+  });
+
+  it('writes only the fields a partial event carries', () => {
+    expect(eventToTaskInput({ title: 'Renamed', progress: 0 })).toEqual({ name: 'Renamed', completion_percentage: 0 });
+    expect(eventToTaskInput({ title: 'Moved out', category: 'Unknown' }, [WORK])).toEqual({ name: 'Moved out', category: null });
+  });
+});
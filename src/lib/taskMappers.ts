@@ -0,0 +1,213 @@
+// src/lib/taskMappers.ts
+// The one place that converts between API tasks, Task and CalendarEvent
+
+import { format, type Locale } from 'date-fns';
+import type { CalendarEvent, EventPriority, EventStatus, TimeFormat } from '@/types/CalendarTypes';
+import type { Task, TaskCategory, TaskInput, TaskPriority, TaskResponse, TaskRevision, TaskStatus } from '@/types/TaskTypes';
+import { fromZonedTime, toZonedTime } from './timezones';
+
+export const TASK_PRIORITIES: Record<TaskPriority, { label: string; level: EventPriority; color: string }> = {
+  1: { label: 'Critical', level: 'urgent', color: '#ef4444' },
+  2: { label: 'High', level: 'high', color: '#f97316' },
+  3: { label: 'Medium', level: 'medium', color: '#eab308' },
+  4: { label: 'Low', level: 'low', color: '#3b82f6' },
+  5: { label: 'Lowest', level: 'lowest', color: '#6b7280' },
+};
+
+export const DEFAULT_PRIORITY: TaskPriority = 3;
+
+const TASK_STATUS_TO_EVENT: Record<TaskStatus, EventStatus> = {
+  pending: 'not_started',
+  in_progress: 'in_progress',
+  completed: 'completed',
+  cancelled: 'cancelled',
+  on_hold: 'on_hold',
+};
+
+const DEFAULT_CATEGORY_COLOR = '#3b82f6';
+
+// ---- Priority and status ----
+
+export const toTaskPriority = (value: unknown): TaskPriority => {
+  const priority = Math.round(Number(value));
+  return priority >= 1 && priority <= 5 ? (priority as TaskPriority) : DEFAULT_PRIORITY;
+};
+
+export const getPriorityColor = (priority: unknown) => TASK_PRIORITIES[toTaskPriority(priority)].color;
+
+export const getPriorityLabel = (priority: unknown) => TASK_PRIORITIES[toTaskPriority(priority)].label;
+
+export const priorityToLevel = (priority: unknown): EventPriority => TASK_PRIORITIES[toTaskPriority(priority)].level;
+
+export const levelToPriority = (level?: EventPriority): TaskPriority => {
+  const match = (Object.keys(TASK_PRIORITIES) as unknown as TaskPriority[])
+    .find(priority => TASK_PRIORITIES[priority].level === level);
+  return match ? toTaskPriority(match) : DEFAULT_PRIORITY;
+};
+
+export const taskStatusToEvent = (status?: TaskStatus): EventStatus => TASK_STATUS_TO_EVENT[status] || 'not_started';
+
+export const eventStatusToTask = (status?: EventStatus): TaskStatus =>
+  (Object.keys(TASK_STATUS_TO_EVENT) as TaskStatus[]).find(key => TASK_STATUS_TO_EVENT[key] === status) || 'pending';
+
+// ---- Display helpers ----
+
+// An instant's time of day, on this device's clock or in the given zone; AM/PM in the locale's words
+export const formatTaskTime = (value: string | Date, timeFormat: TimeFormat = '12h', timeZone?: string, locale?: Locale) => {
+  const date = timeZone ? toZonedTime(new Date(value), timeZone) : new Date(value);
+  return format(date, timeFormat === '24h' ? 'HH:mm' : 'h:mm a', { locale });
+};
+
+// When the task happens: its time slot, else its deadline
+export const getTaskStart = (task: Pick<Task, 'specific_time' | 'deadline'>): Date | null => {
+  const value = task.specific_time || task.deadline;
+  return value ? new Date(value) : null;
+};
+
+export const isTaskOverdue = (task: Pick<Task, 'deadline' | 'status'>, now = new Date()) =>
+  !!task.deadline && task.status !== 'completed' && new Date(task.deadline) < now;
+
+// Whether the server copy was saved after the revision an edit started from;
+// version wins when both sides have one, updated_at otherwise
+export const isNewerRevision = (current: TaskRevision | undefined, known: TaskRevision | undefined) => {
+  if (!current || !known) return false;
+  if (current.version != null && known.version != null) return current.version > known.version;
+  if (!current.updated_at || !known.updated_at) return false;
+  return new Date(current.updated_at).getTime() > new Date(known.updated_at).getTime();
+};
+
+// ---- API <-> Task ----
+
+const toStringList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean);
+  return [];
+};
+
+const toCategory = (raw: TaskResponse): TaskCategory | null => {
+  const { category } = raw;
+  if (!category) return null;
+  if (typeof category === 'string') {
+    return { id: category, name: raw.category_name || '', color_hex: DEFAULT_CATEGORY_COLOR };
+  }
+  return { ...category, color_hex: category.color_hex || DEFAULT_CATEGORY_COLOR };
+};
+
+// Fill the gaps between what the endpoints return and the Task type
+export const normalizeTask = (raw: TaskResponse): Task => {
+  const { category_name: _categoryName, ...fields } = raw;
+  return {
+    ...fields,
+    id: String(raw.id),
+    name: raw.name || '',
+    description: raw.description || '',
+    category: toCategory(raw),
+    tags: toStringList(raw.tags),
+    priority: toTaskPriority(raw.priority),
+    urgency: toTaskPriority(raw.urgency),
+    status: raw.status && raw.status in TASK_STATUS_TO_EVENT ? raw.status : 'pending',
+    completion_percentage: raw.completion_percentage ?? (raw.status === 'completed' ? 100 : 0),
+    location: raw.location || '',
+    required_tools: toStringList(raw.required_tools),
+    created_at: raw.created_at || new Date().toISOString(),
+  };
+};
+
+// Everything an update needs to write a task back unchanged
+export const taskToInput = (task: Task): TaskInput => {
+  const { id: _id, category, created_at: _createdAt, updated_at: _updatedAt, version: _version, completed_at: _completedAt, is_overdue: _isOverdue, ...fields } = task;
+  return { ...fields, category: category?.id ?? null };
+};
+
+// Local copy of an edit, shown until the server answers; updated_at stays the server's
+export const applyTaskInput = (task: Task, input: Partial<TaskInput>, categories: TaskCategory[] = []): Task => {
+  const { category, ...fields } = input;
+  return {
+    ...task,
+    ...fields,
+    ...(category !== undefined
+      ? { category: categories.find(item => item.id === category) ?? null }
+      : {}),
+  };
+};
+
+// Stand-in for a task that has not been created on the server yet
+export const draftTask = (id: string, input: TaskInput, categories: TaskCategory[] = []): Task =>
+  applyTaskInput(
+    {
+      id,
+      name: input.name,
+      description: '',
+      category: null,
+      tags: [],
+      priority: DEFAULT_PRIORITY,
+      urgency: DEFAULT_PRIORITY,
+      status: 'pending',
+      completion_percentage: 0,
+      location: '',
+      required_tools: [],
+      created_at: new Date().toISOString(),
+    },
+    input,
+    categories
+  );
+
+// ---- Task <-> CalendarEvent ----
+
+// Dates come out on the wall clock of `timeZone`, the zone the calendar is shown in. Timed tasks
+// land at their moment there; all-day ones keep the date they have in their own zone wherever they're viewed.
+export const taskToEvent = (task: Task, timeZone?: string): CalendarEvent => {
+  const start = getTaskStart(task);
+  const shown = (date: Date) => toZonedTime(date, task.specific_time ? timeZone : task.timezone);
+  return {
+    id: task.id,
+    title: task.name,
+    description: task.description,
+    date: shown(start ?? new Date(task.created_at)),
+    time: task.specific_time ? formatTaskTime(task.specific_time, '12h', timeZone) : undefined,
+    deadline: task.deadline ? shown(new Date(task.deadline)) : undefined,
+    duration: task.duration_minutes || task.estimated_duration_minutes,
+    type: 'task',
+    priority: priorityToLevel(task.priority),
+    status: taskStatusToEvent(task.status),
+    progress: task.completion_percentage,
+    completed: task.status === 'completed',
+    category: task.category?.name,
+    tags: task.tags,
+    location: task.location,
+    color: getPriorityColor(task.priority),
+    parentTask: task.parent_task ? String(task.parent_task) : undefined,
+  };
+};
+
+// The way back from taskToEvent. Only the fields present on the event are written, so it also works for partial
+// updates; dates are read on the clock taskToEvent showed them on, `timeZone` for timed events and `taskZone` otherwise.
+export const eventToTaskInput = (
+  event: Partial<CalendarEvent>,
+  categories: TaskCategory[] = [],
+  timeZone?: string,
+  taskZone?: string
+): TaskInput => {
+  const input: TaskInput = { name: event.title || '' };
+
+  if (event.description !== undefined) input.description = event.description;
+  if (event.tags) input.tags = event.tags;
+  if (event.location !== undefined) input.location = event.location;
+  if (event.priority) input.priority = levelToPriority(event.priority);
+  if (event.status) input.status = eventStatusToTask(event.status);
+  if (event.progress !== undefined) input.completion_percentage = event.progress;
+  if (event.duration) input.duration_minutes = event.duration;
+
+  if (event.category !== undefined) {
+    input.category = categories.find(category => category.name === event.category)?.id ?? null;
+  }
+
+  // event.date carries the time; an event without a display time is all-day
+  if (event.date) {
+    const instant = (date: Date) => fromZonedTime(date, event.time ? timeZone : taskZone).toISOString();
+    input.specific_time = event.time ? instant(event.date) : null;
+    input.deadline = instant(event.deadline ?? event.date);
+  }
+
+  return input;
+};
@@ -0,0 +1,129 @@
+// src/lib/taskMerge.ts
+// Field-by-field three-way merge between the task an edit started from, the edit and the server copy
+
+import { format, type Locale } from 'date-fns';
+import { translateEnglish, type Translate } from './i18n';
+import { taskToInput, toTaskPriority } from './taskMappers';
+import type { Task, TaskCategory, TaskInput, TaskRepeatPattern, TaskStatus } from '@/types/TaskTypes';
+
+export type MergeField =
+  | 'name' | 'description' | 'deadline' | 'specific_time' | 'duration_minutes' | 'priority'
+  | 'status' | 'completion_percentage' | 'category' | 'tags' | 'location' | 'repeat_pattern' | 'recurrence_exceptions';
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'description', label: 'Description' },
+  { field: 'deadline', label: 'Deadline' },
+  { field: 'specific_time', label: 'Time' },
+  { field: 'duration_minutes', label: 'Duration' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'status', label: 'Status' },
+  { field: 'completion_percentage', label: 'Progress' },
+  { field: 'category', label: 'Category' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'location', label: 'Location' },
+  { field: 'repeat_pattern', label: 'Repeats' },
+  { field: 'recurrence_exceptions', label: 'Changed occurrences' },
+];
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface MergeRow {
+  field: MergeField;
+  label: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  changedByMe: boolean;
+  changedByThem: boolean;
+  conflict: boolean; // both sides changed it, to different values
+}
+
+// Values as TaskInput holds them; the category is compared by id
+const fieldValue = (task: Task, field: MergeField): unknown => taskToInput(task)[field];
+
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) {
+    return value.length ? value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).sort() : null;
+  }
+  // Timestamps from the server and from the form differ in precision and offset
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).getTime();
+  return value;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+export const buildMergeRows = (base: Task, mine: Partial<TaskInput>, theirs: Task): MergeRow[] =>
+  MERGE_FIELDS.map(({ field, label }) => {
+    const baseValue = fieldValue(base, field);
+    const mineValue = field in mine ? mine[field] : baseValue;
+    const theirsValue = fieldValue(theirs, field);
+    const changedByMe = field in mine && !sameValue(mineValue, baseValue);
+    const changedByThem = !sameValue(theirsValue, baseValue);
+    return {
+      field,
+      label,
+      base: baseValue,
+      mine: mineValue,
+      theirs: theirsValue,
+      changedByMe,
+      changedByThem,
+      conflict: changedByMe && changedByThem && !sameValue(mineValue, theirsValue),
+    };
+  });
+
+// Each side keeps what only it changed; real conflicts start on "mine"
+export const defaultChoices = (rows: MergeRow[]): Record<MergeField, MergeChoice> =>
+  Object.fromEntries(
+    rows.map(row => [row.field, row.changedByMe ? 'mine' : 'theirs'])
+  ) as Record<MergeField, MergeChoice>;
+
+// Update body for the merged result, written on top of the server copy
+export const buildMergedInput = (
+  rows: MergeRow[],
+  choices: Partial<Record<MergeField, MergeChoice>>,
+  theirs: Task
+): Partial<TaskInput> => {
+  const input: Partial<TaskInput> = { name: theirs.name };
+  rows.forEach(row => {
+    if (choices[row.field] === 'mine' && row.changedByMe) {
+      (input as Record<string, unknown>)[row.field] = row.mine ?? null;
+    }
+  });
+  return input;
+};
+
+export const formatMergeValue = (
+  row: Pick<MergeRow, 'field'>,
+  value: unknown,
+  categories: TaskCategory[] = [],
+  t: Translate = translateEnglish,
+  locale?: Locale
+): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  switch (row.field) {
+    case 'deadline':
+      return format(new Date(value as string), 'EEE, PP p', { locale });
+    case 'specific_time':
+      return format(new Date(value as string), 'p', { locale });
+    case 'duration_minutes':
+      return t('common.minutes', { count: Number(value) });
+    case 'priority':
+      return t(`priority.${toTaskPriority(value)}`);
+    case 'completion_percentage':
+      return `${value}%`;
+    case 'category':
+      return categories.find(category => category.id === value)?.name ?? String(value);
+    case 'status':
+      return t(`status.${value as TaskStatus}`);
+    case 'repeat_pattern':
+      return t(`repeat.${value as TaskRepeatPattern}`);
+    case 'tags':
+      return (value as string[]).join(', ') || '—';
+    case 'recurrence_exceptions':
+      return (value as unknown[]).length ? t('merge.occurrences', { count: (value as unknown[]).length }) : '—';
+    default:
+      return String(value);
+  }
+};
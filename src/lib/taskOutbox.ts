@@ -0,0 +1,96 @@
+// src/lib/taskOutbox.ts
+// Task changes made while offline, kept in order until the server accepts them
+
+import { translateEnglish, type Translate } from './i18n';
+import { applyTaskInput, draftTask, isNewerRevision } from './taskMappers';
+import type { Task, TaskCategory, TaskInput, TaskRevision } from '@/types/TaskTypes';
+
+export type OutboxKind = 'create' | 'update' | 'delete';
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  seq: number;
+  kind: OutboxKind;
+  taskId: string; // a temp- id until a queued create has been sent
+  label: string; // task name, for the pending changes list
+  input?: Partial<TaskInput>; // full TaskInput for creates
+  baseUpdatedAt?: string; // updated_at of the task the change was made against
+  baseVersion?: number;
+  force?: boolean; // send even though the server copy changed since
+  status: OutboxStatus;
+  error?: string;
+  queuedAt: string;
+}
+
+export type OutboxOperation = Pick<OutboxEntry, 'kind' | 'taskId' | 'label' | 'input' | 'baseUpdatedAt' | 'baseVersion'>;
+
+export const TEMP_ID_PREFIX = 'temp-';
+
+export const isTempId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+const nextSeq = (entries: OutboxEntry[]) => entries.reduce((max, entry) => Math.max(max, entry.seq), 0) + 1;
+
+// Appends an operation, folding it into queued changes to the same task where that keeps the order intact
+export const queueOperation = (entries: OutboxEntry[], operation: OutboxOperation, now = new Date()): OutboxEntry[] => {
+  const queued = (kind: OutboxKind) =>
+    entries.find(entry => entry.taskId === operation.taskId && entry.kind === kind && entry.status === 'pending');
+  const entry: OutboxEntry = { ...operation, seq: nextSeq(entries), status: 'pending', queuedAt: now.toISOString() };
+
+  if (operation.kind === 'update') {
+    const earlier = queued('create') ?? queued('update');
+    if (earlier) {
+      return entries.map(item => (item === earlier
+        ? { ...item, label: operation.label, input: { ...item.input, ...operation.input } }
+        : item));
+    }
+    return [...entries, entry];
+  }
+
+  if (operation.kind === 'delete') {
+    const rest = entries.filter(item => item.taskId !== operation.taskId || item.status !== 'pending');
+    // Never reached the server, so there is nothing to delete there
+    if (isTempId(operation.taskId)) return rest;
+    const earlierUpdate = queued('update');
+    return [...rest, {
+      ...entry,
+      baseUpdatedAt: earlierUpdate?.baseUpdatedAt ?? operation.baseUpdatedAt,
+      baseVersion: earlierUpdate?.baseVersion ?? operation.baseVersion,
+    }];
+  }
+
+  return [...entries, entry];
+};
+
+// Removes an entry; discarding a create also drops the changes queued against its temp id
+export const discardEntry = (entries: OutboxEntry[], seq: number): OutboxEntry[] => {
+  const target = entries.find(entry => entry.seq === seq);
+  if (!target) return entries;
+  if (target.kind === 'create') return entries.filter(entry => entry.taskId !== target.taskId);
+  return entries.filter(entry => entry.seq !== seq);
+};
+
+// After a queued create is sent, later entries point at the id the server assigned
+export const remapTaskId = (entries: OutboxEntry[], from: string, to: string): OutboxEntry[] =>
+  entries.map(entry => (entry.taskId === from ? { ...entry, taskId: to } : entry));
+
+// A queued change is stale when the server copy was saved after the one it was based on
+export const isStaleAgainst = (entry: OutboxEntry, serverTask?: TaskRevision) =>
+  !entry.force && isNewerRevision(serverTask, { updated_at: entry.baseUpdatedAt, version: entry.baseVersion });
+
+// Shows queued changes on top of the last copy from the server
+export const applyOutbox = (tasks: Task[], entries: OutboxEntry[], categories: TaskCategory[] = []): Task[] =>
+  entries.reduce((list, entry) => {
+    switch (entry.kind) {
+      case 'create':
+        return list.some(task => task.id === entry.taskId)
+          ? list
+          : [draftTask(entry.taskId, entry.input as TaskInput, categories), ...list];
+      case 'update':
+        return list.map(task => (task.id === entry.taskId ? applyTaskInput(task, entry.input ?? {}, categories) : task));
+      case 'delete':
+        return list.filter(task => task.id !== entry.taskId);
+    }
+  }, tasks);
+
+export const describeEntry = (entry: OutboxEntry, t: Translate = translateEnglish) =>
+  t(`outbox.${entry.kind}`, { name: entry.label });
@@ -0,0 +1,453 @@
+// src/lib/taskTable.ts
+// Tasks as rows and columns: CSV/JSON reading and writing, column-to-field mapping and row validation for bulk import
+
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { parseRRule } from '@/lib/recurrence';
+import { TASK_PRIORITIES, toTaskPriority } from '@/lib/taskMappers';
+import type { EventPriority } from '@/types/CalendarTypes';
+import type { Task, TaskCategory, TaskInput, TaskPriority, TaskRepeatPattern, TaskStatus } from '@/types/TaskTypes';
+
+// A file read into plain text cells, whatever its format
+export interface TaskTable {
+  headers: string[];
+  rows: string[][];
+}
+
+type FieldKind =
+  | 'text' | 'list' | 'number' | 'numberList' | 'boolean' | 'date' | 'time'
+  | 'priority' | 'status' | 'category' | 'repeatPattern';
+
+export interface TaskField {
+  key: keyof TaskInput;
+  label: string;
+  kind: FieldKind;
+  aliases: string[]; // header names that map to the field, compared after normalizeHeader
+  min?: number;
+  max?: number;
+}
+
+// The fields the task dialog saves, in the order it shows them
+export const TASK_FIELDS: TaskField[] = [
+  { key: 'name', label: 'Name', kind: 'text', aliases: ['title', 'task', 'task name', 'summary', 'subject'] },
+  { key: 'description', label: 'Description', kind: 'text', aliases: ['notes', 'details', 'body'] },
+  { key: 'category', label: 'Category', kind: 'category', aliases: ['category name', 'project', 'list'] },
+  { key: 'tags', label: 'Tags', kind: 'list', aliases: ['labels', 'tag'] },
+  { key: 'deadline', label: 'Deadline', kind: 'date', aliases: ['due', 'due date', 'date', 'deadline date'] },
+  { key: 'specific_time', label: 'Time', kind: 'time', aliases: ['start time', 'start', 'scheduled', 'time of day'] },
+  { key: 'duration_minutes', label: 'Duration (minutes)', kind: 'number', min: 1, aliases: ['duration', 'length', 'minutes'] },
+  { key: 'estimated_duration_minutes', label: 'Estimated duration (minutes)', kind: 'number', min: 1, aliases: ['estimate', 'estimated duration', 'estimated minutes'] },
+  { key: 'minimum_duration_minutes', label: 'Minimum duration (minutes)', kind: 'number', min: 1, aliases: ['minimum duration'] },
+  { key: 'maximum_duration_minutes', label: 'Maximum duration (minutes)', kind: 'number', min: 1, aliases: ['maximum duration'] },
+  { key: 'deadline_flexibility_minutes', label: 'Deadline flexibility (minutes)', kind: 'number', min: 0, aliases: ['deadline flexibility', 'flexibility'] },
+  { key: 'priority', label: 'Priority', kind: 'priority', aliases: ['importance'] },
+  { key: 'urgency', label: 'Urgency', kind: 'number', min: 1, max: 5, aliases: [] },
+  { key: 'difficulty_level', label: 'Difficulty', kind: 'number', min: 1, max: 5, aliases: ['difficulty'] },
+  { key: 'base_priority', label: 'Base priority', kind: 'number', min: 1, max: 5, aliases: [] },
+  { key: 'urgency_multiplier', label: 'Urgency multiplier', kind: 'number', min: 0.1, max: 5, aliases: [] },
+  { key: 'status', label: 'Status', kind: 'status', aliases: ['state'] },
+  { key: 'completion_percentage', label: 'Progress (%)', kind: 'number', min: 0, max: 100, aliases: ['progress', 'completion', 'percent complete', 'done %'] },
+  { key: 'estimated_effort_hours', label: 'Effort (hours)', kind: 'number', min: 0, aliases: ['effort', 'estimated hours', 'hours'] },
+  { key: 'actual_time_spent_minutes', label: 'Time spent (minutes)', kind: 'number', min: 0, aliases: ['time spent', 'actual minutes', 'spent'] },
+  { key: 'location', label: 'Location', kind: 'text', aliases: ['place', 'where'] },
+  { key: 'assignee', label: 'Assignee', kind: 'text', aliases: ['owner', 'assigned to', 'responsible'] },
+  { key: 'required_tools', label: 'Required tools', kind: 'list', aliases: ['tools'] },
+  { key: 'can_be_split', label: 'Can be split', kind: 'boolean', aliases: ['splittable'] },
+  { key: 'requires_consecutive_time', label: 'Needs consecutive time', kind: 'boolean', aliases: ['consecutive'] },
+  { key: 'preferred_time_of_day', label: 'Preferred times of day', kind: 'list', aliases: ['preferred time', 'preferred times'] },
+  { key: 'avoid_time_of_day', label: 'Times of day to avoid', kind: 'list', aliases: ['avoid time', 'avoid times'] },
+  { key: 'is_repeat', label: 'Repeats', kind: 'boolean', aliases: ['repeat', 'recurring', 'repeating'] },
+  { key: 'repeat_pattern', label: 'Repeat pattern', kind: 'repeatPattern', aliases: ['recurrence', 'repeats every'] },
+  { key: 'repeat_frequency', label: 'Repeat interval', kind: 'number', min: 1, aliases: ['interval', 'repeat every'] },
+  { key: 'repeat_days_of_week', label: 'Repeat on days', kind: 'list', aliases: ['repeat days', 'days of week', 'weekdays'] },
+  { key: 'repeat_end_date', label: 'Repeat until', kind: 'date', aliases: ['repeat end', 'repeat until', 'until', 'end repeat'] },
+  { key: 'recurrence_rule', label: 'Repeat rule (RRULE)', kind: 'text', aliases: ['rrule'] },
+  { key: 'reminders', label: 'Reminders (minutes before)', kind: 'numberList', aliases: ['reminder', 'alerts'] },
+];
+
+// Target field per column, null to skip the column
+export type ColumnMapping = (keyof TaskInput | null)[];
+
+// How to read dates like 03/04/2026
+export type DateOrder = 'mdy' | 'dmy';
+
+export interface TableRowResult {
+  row: number; // 1-based, not counting the header
+  input: TaskInput | null; // null when the row has errors
+  errors: string[];
+  warnings: string[];
+}
+
+const TASK_STATUS_WORDS: Record<TaskStatus, string[]> = {
+  pending: ['pending', 'todo', 'to do', 'open', 'new', 'not started', 'needs action'],
+  in_progress: ['in progress', 'doing', 'started', 'active', 'in process'],
+  completed: ['completed', 'complete', 'done', 'closed', 'finished'],
+  cancelled: ['cancelled', 'canceled', 'dropped', 'wont do'],
+  on_hold: ['on hold', 'blocked', 'paused', 'waiting'],
+};
+
+const REPEAT_PATTERNS: TaskRepeatPattern[] = ['daily', 'weekly', 'monthly', 'yearly', 'custom'];
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_WORDS = ['false', 'no', 'n', '0'];
+
+const DATE_FORMATS: Record<DateOrder, string[]> = {
+  mdy: ['M/d/yyyy', 'M/d/yy', 'M-d-yyyy', 'M.d.yyyy'],
+  dmy: ['d/M/yyyy', 'd/M/yy', 'd-M-yyyy', 'd.M.yyyy'],
+};
+const NAMED_DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/M/d', 'MMM d, yyyy', 'MMMM d, yyyy', 'd MMM yyyy', 'd MMMM yyyy'];
+const TIME_FORMATS = ['H:mm', 'H:mm:ss', 'h:mm a', 'h:mma', 'h a', 'ha'];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\-\s.]+/g, ' ');
+
+const normalizeWord = (value: string) => value.trim().toLowerCase().replace(/'/g, '').replace(/[_\-\s]+/g, ' ');
+
+// ---- Reading files ----
+
+// The separator used most on the first line, outside quotes
+const detectDelimiter = (text: string) => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (char === '\n' && !quoted) break;
+    else if (!quoted && char in counts) counts[char]++;
+  }
+  return Object.keys(counts).reduce((best, char) => (counts[char] > counts[best] ? char : best), ',');
+};
+
+// RFC 4180: quoted cells may hold separators, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+const cellFromJson = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(cellFromJson).join(', ');
+  if (typeof value === 'object') {
+    // Categories come as { id, name, ... } from our own API
+    const named = value as { name?: unknown };
+    return typeof named.name === 'string' ? named.name : JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// An array of task objects, or an object holding one under "tasks"
+const tableFromJson = (text: string): TaskTable => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  const records = Array.isArray(data) ? data : (data as { tasks?: unknown })?.tasks;
+  if (!Array.isArray(records) || records.some(record => !record || typeof record !== 'object' || Array.isArray(record))) {
+    throw new Error('Expected a list of task objects, or an object with a "tasks" list.');
+  }
+  const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+  return {
+    headers,
+    rows: records.map(record => headers.map(header => cellFromJson((record as Record<string, unknown>)[header]))),
+  };
+};
+
+// Spreadsheets run cells starting with these as formulas; exports escape them with a leading apostrophe
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const unescapeFormula = (cell: string) => (/^'[=+\-@]/.test(cell) ? cell.slice(1) : cell);
+
+// Throws when the file can't be read as a table
+export const parseTaskFile = (fileName: string, text: string): TaskTable => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const table = isJson ? tableFromJson(text) : (() => {
+    const [headers = [], ...rows] = parseCsv(text);
+    return { headers, rows: rows.map(row => row.map(unescapeFormula)) };
+  })();
+  if (table.rows.length === 0) throw new Error('There are no rows in this file.');
+
+  const width = Math.max(table.headers.length, ...table.rows.map(row => row.length));
+  return {
+    headers: Array.from({ length: width }, (_, index) => table.headers[index]?.trim() || `Column ${index + 1}`),
+    rows: table.rows.map(row => Array.from({ length: width }, (_, index) => row[index] ?? '')),
+  };
+};
+
+// Each column goes to the field its header names, first come first served
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<keyof TaskInput>();
+  return headers.map(header => {
+    const name = normalizeHeader(header);
+    const field = TASK_FIELDS.find(candidate =>
+      !used.has(candidate.key) &&
+      [normalizeHeader(candidate.key), normalizeHeader(candidate.label), ...candidate.aliases].includes(name)
+    );
+    if (!field) return null;
+    used.add(field.key);
+    return field.key;
+  });
+};
+
+// Picks the order a day over 12 gives away; month first when nothing does
+export const guessDateOrder = (table: TaskTable, mapping: ColumnMapping): DateOrder => {
+  const dateColumns = mapping.flatMap((key, column) =>
+    TASK_FIELDS.find(field => field.key === key)?.kind === 'date' ? [column] : []
+  );
+  for (const row of table.rows) {
+    for (const column of dateColumns) {
+      const match = row[column]?.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/);
+      if (match && Number(match[1]) > 12) return 'dmy';
+      if (match && Number(match[2]) > 12) return 'mdy';
+    }
+  }
+  return 'mdy';
+};
+
+// ---- Reading cells ----
+
+const parseWithFormats = (text: string, formats: string[], reference: Date) => {
+  for (const format of formats) {
+    const parsed = parse(text, format, reference);
+    if (isValid(parsed)) return parsed;
+  }
+  return null;
+};
+
+// A date, maybe with a time after it; ISO strings keep their offset
+const parseDateCell = (value: string, order: DateOrder): { date: Date; hasTime: boolean } | null => {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}/.test(text)) {
+    const parsed = parseISO(text.replace(' ', 'T'));
+    return isValid(parsed) ? { date: parsed, hasTime: true } : null;
+  }
+  const reference = new Date();
+  const dateFormats = [...NAMED_DATE_FORMATS, ...DATE_FORMATS[order]];
+  const dateOnly = parseWithFormats(text, dateFormats, reference);
+  if (dateOnly) return { date: dateOnly, hasTime: false };
+  const withTime = parseWithFormats(
+    text,
+    dateFormats.flatMap(format => TIME_FORMATS.map(time => `${format} ${time}`)),
+    reference
+  );
+  return withTime ? { date: withTime, hasTime: true } : null;
+};
+
+const parseNumber = (value: string) => {
+  const text = value.trim().replace(/%$/, '').replace(/^(-?\d+),(\d+)$/, '$1.$2');
+  return text === '' ? NaN : Number(text);
+};
+
+const parseList = (value: string) => value.split(/[,;|]/).map(item => item.trim()).filter(Boolean);
+
+const parsePriority = (value: string): TaskPriority | null => {
+  const number = parseNumber(value);
+  if (Number.isInteger(number)) return number >= 1 && number <= 5 ? toTaskPriority(number) : null;
+  const word = normalizeWord(value);
+  const match = (Object.keys(TASK_PRIORITIES) as unknown as TaskPriority[]).find(priority =>
+    normalizeWord(TASK_PRIORITIES[priority].label) === word || TASK_PRIORITIES[priority].level === (word as EventPriority)
+  );
+  return match ? toTaskPriority(match) : null;
+};
+
+const parseStatus = (value: string): TaskStatus | null => {
+  const word = normalizeWord(value);
+  return (Object.keys(TASK_STATUS_WORDS) as TaskStatus[]).find(status => TASK_STATUS_WORDS[status].includes(word)) ?? null;
+};
+
+const rangeError = (field: TaskField) =>
+  field.max !== undefined
+    ? `${field.label} must be between ${field.min} and ${field.max}`
+    : `${field.label} cannot be less than ${field.min}`;
+
+// Same rules as validateEvent, applied to one spreadsheet row
+export const rowToTaskInput = (
+  cells: string[],
+  mapping: ColumnMapping,
+  categories: TaskCategory[],
+  order: DateOrder = 'mdy'
+): Omit<TableRowResult, 'row'> => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const input: Partial<TaskInput> = {};
+  let time: { hours: number; minutes: number } | null = null;
+
+  mapping.forEach((key, column) => {
+    const field = TASK_FIELDS.find(candidate => candidate.key === key);
+    const value = cells[column]?.trim() ?? '';
+    if (!field || value === '') return;
+    const target = input as Record<string, unknown>;
+
+    switch (field.kind) {
+      case 'text':
+        target[field.key] = value;
+        break;
+      case 'list':
+        target[field.key] = parseList(value);
+        break;
+      case 'number': {
+        const number = parseNumber(value);
+        if (Number.isNaN(number)) errors.push(`${field.label} must be a number, not "${value}"`);
+        else if ((field.min !== undefined && number < field.min) || (field.max !== undefined && number > field.max)) errors.push(rangeError(field));
+        else target[field.key] = number;
+        break;
+      }
+      case 'numberList': {
+        const numbers = parseList(value).map(parseNumber);
+        if (numbers.some(number => Number.isNaN(number) || number < 0)) errors.push(`${field.label} must be minutes, like "10, 60"`);
+        else target[field.key] = [...new Set(numbers)].sort((a, b) => a - b);
+        break;
+      }
+      case 'boolean': {
+        const word = value.toLowerCase();
+        if (TRUE_WORDS.includes(word)) target[field.key] = true;
+        else if (FALSE_WORDS.includes(word)) target[field.key] = false;
+        else errors.push(`${field.label} must be yes or no, not "${value}"`);
+        break;
+      }
+      case 'date': {
+        const parsed = parseDateCell(value, order);
+        if (parsed) target[field.key] = field.key === 'repeat_end_date' ? format(parsed.date, 'yyyy-MM-dd') : parsed.date.toISOString();
+        else errors.push(`${field.label} isn't a date: "${value}"`);
+        break;
+      }
+      case 'time': {
+        // A full date and time stands on its own; a time of day goes on the deadline's date
+        const full = parseDateCell(value, order);
+        const timeOfDay = full ? null : parseWithFormats(value, TIME_FORMATS, new Date());
+        if (full?.hasTime) target[field.key] = full.date.toISOString();
+        else if (timeOfDay) time = { hours: timeOfDay.getHours(), minutes: timeOfDay.getMinutes() };
+        else errors.push(`${field.label} isn't a time: "${value}"`);
+        break;
+      }
+      case 'priority': {
+        const priority = parsePriority(value);
+        if (priority) target[field.key] = priority;
+        else errors.push(`${field.label} must be 1-5 or a name like High, not "${value}"`);
+        break;
+      }
+      case 'status': {
+        const status = parseStatus(value);
+        if (status) target[field.key] = status;
+        else errors.push(`${field.label} isn't a status: "${value}"`);
+        break;
+      }
+      case 'category': {
+        const category = categories.find(item => item.name.toLowerCase() === value.toLowerCase());
+        if (category) target[field.key] = category.id;
+        else warnings.push(`There's no category "${value}", so it's left out`);
+        break;
+      }
+      case 'repeatPattern': {
+        const pattern = value.toLowerCase() as TaskRepeatPattern;
+        if (REPEAT_PATTERNS.includes(pattern)) target[field.key] = pattern;
+        else errors.push(`${field.label} must be one of ${REPEAT_PATTERNS.join(', ')}`);
+        break;
+      }
+    }
+  });
+
+  if (!input.name?.trim()) errors.push('Name is required');
+
+  if (time) {
+    if (input.deadline) {
+      const start = new Date(input.deadline);
+      start.setHours(time.hours, time.minutes, 0, 0);
+      input.deadline = start.toISOString();
+      input.specific_time = start.toISOString();
+    } else {
+      errors.push('A time needs a date in the deadline column');
+    }
+  }
+
+  if (input.repeat_pattern && input.is_repeat === undefined) input.is_repeat = true;
+  if (input.is_repeat) {
+    if (!input.repeat_pattern && !input.recurrence_rule) errors.push('A repeating task needs a repeat pattern');
+    if (input.recurrence_rule && !input.repeat_pattern) input.repeat_pattern = 'custom';
+    if (input.repeat_pattern === 'custom' && !(input.recurrence_rule && parseRRule(input.recurrence_rule))) {
+      errors.push('A custom repeat needs a valid RRULE, like FREQ=WEEKLY;BYDAY=MO');
+    }
+    if (!input.deadline) warnings.push('It repeats but has no date to repeat from');
+  }
+  if (input.repeat_end_date && input.deadline && input.repeat_end_date < format(new Date(input.deadline), 'yyyy-MM-dd')) {
+    errors.push('Repeat end date cannot be before the deadline');
+  }
+  if (input.minimum_duration_minutes && input.maximum_duration_minutes && input.minimum_duration_minutes > input.maximum_duration_minutes) {
+    errors.push('Minimum duration cannot be longer than the maximum');
+  }
+  if (input.status === 'completed' && input.completion_percentage === undefined) input.completion_percentage = 100;
+
+  return { input: errors.length ? null : (input as TaskInput), errors, warnings };
+};
+
+export const validateTable = (
+  table: TaskTable,
+  mapping: ColumnMapping,
+  categories: TaskCategory[],
+  order: DateOrder = 'mdy'
+): TableRowResult[] =>
+  table.rows.map((cells, index) => ({ row: index + 1, ...rowToTaskInput(cells, mapping, categories, order) }));
+
+// ---- Writing files ----
+
+type ExportValue = string | number | boolean | string[] | number[] | null;
+
+// Every mappable field by its key, so an export imports back without remapping
+const taskToRecord = (task: Task): Record<string, ExportValue> =>
+  Object.fromEntries(
+    TASK_FIELDS.map(({ key }) => {
+      if (key === 'category') return [key, task.category?.name ?? null];
+      const value = task[key as keyof Task];
+      return [key, value === undefined ? null : (value as ExportValue)];
+    })
+  );
+
+const csvCell = (value: ExportValue) => {
+  if (value === null) return '';
+  let text = Array.isArray(value) ? value.join(', ') : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",;\r\n\t]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const tasksToCsv = (tasks: Task[]) => {
+  const records = tasks.map(taskToRecord);
+  const headers = TASK_FIELDS.map(field => field.key);
+  const lines = [headers.join(','), ...records.map(record => headers.map(key => csvCell(record[key])).join(','))];
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+export const tasksToJson = (tasks: Task[]) => JSON.stringify(tasks.map(taskToRecord), null, 2);
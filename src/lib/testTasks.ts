@@ -0,0 +1,20 @@
+// src/lib/testTasks.ts
+// Task fixture for the unit tests: an open task with the fields the API always fills in
+
+import type { Task } from '@/types/TaskTypes';
+
+export const makeTask = (fields: Partial<Task> = {}): Task => ({
+  id: '1',
+  name: 'Task',
+  description: '',
+  category: null,
+  tags: [],
+  priority: 3,
+  urgency: 3,
+  status: 'pending',
+  completion_percentage: 0,
+  location: '',
+  required_tools: [],
+  created_at: '2026-01-01T00:00:00Z',
+  ...fields,
+});
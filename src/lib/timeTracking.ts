@@ -0,0 +1,241 @@
+// src/lib/timeTracking.ts
+// Start/stop timers on tasks, shared by every open tab through localStorage, and the report comparing
+// estimated effort with the time actually spent
+
+import { format, startOfWeek } from 'date-fns';
+import type { WeekStart } from '@/types/CalendarTypes';
+import type { Task } from '@/types/TaskTypes';
+import { getTaskStart } from './taskMappers';
+import { toZonedTime } from './timezones';
+
+const STORAGE_KEY = 'deeptalk_time_tracking';
+const TRACKING_LOCK = 'deeptalk-time-tracking';
+const MINUTE_MS = 60 * 1000;
+// An entry claimed this long ago without being settled is claimed again: its tab closed, or the update failed
+const CLAIM_TIMEOUT_MS = MINUTE_MS;
+
+export interface RunningTimer {
+  taskId: string;
+  taskName: string;
+  startedAt: string; // ISO
+}
+
+// A stretch of tracked time not yet added to the task's actual time
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  taskName: string;
+  start: string; // ISO
+  end: string; // ISO
+  minutes: number;
+  claimedAt?: string; // ISO, while a tab is adding it to the task
+}
+
+export interface TimeTrackingState {
+  running: RunningTimer | null;
+  entries: TimeEntry[];
+}
+
+const EMPTY_STATE: TimeTrackingState = { running: null, entries: [] };
+
+export const readTimeTracking = (): TimeTrackingState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { running: saved.running ?? null, entries: Array.isArray(saved.entries) ? saved.entries : [] };
+  } catch {
+    return EMPTY_STATE;
+  }
+};
+
+const listeners: Array<(state: TimeTrackingState) => void> = [];
+const emit = () => {
+  const state = readTimeTracking();
+  listeners.forEach(listener => listener(state));
+};
+
+// Called with the new state after any change, from this tab or another one
+export const subscribeTimeTracking = (listener: (state: TimeTrackingState) => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(readTimeTracking());
+  };
+  listeners.push(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+// Read-modify-write by one tab at a time where the Web Locks API exists
+const withState = <T>(change: (state: TimeTrackingState) => T): Promise<T> => {
+  const run = async () => {
+    const state = readTimeTracking();
+    const result = change(state);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('❌ Failed to save time tracking:', error);
+    }
+    emit();
+    return result;
+  };
+  return navigator.locks ? navigator.locks.request(TRACKING_LOCK, run) : run();
+};
+
+export const elapsedMs = (timer: RunningTimer, now = new Date()) =>
+  Math.max(0, now.getTime() - new Date(timer.startedAt).getTime());
+
+// 65 s → "1:05", 3725 s → "1:02:05"
+export const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}` : `${minutes}:${pad(seconds % 60)}`;
+};
+
+// Ends the running timer as an entry; less than half a minute isn't worth recording
+const finish = (state: TimeTrackingState, now: Date): TimeEntry | null => {
+  const { running } = state;
+  if (!running) return null;
+  state.running = null;
+  const minutes = Math.round(elapsedMs(running, now) / MINUTE_MS);
+  if (minutes < 1) return null;
+  const entry: TimeEntry = {
+    id: `${running.taskId}:${running.startedAt}`,
+    taskId: running.taskId,
+    taskName: running.taskName,
+    start: running.startedAt,
+    end: now.toISOString(),
+    minutes,
+  };
+  state.entries.push(entry);
+  return entry;
+};
+
+// Only one timer runs at a time, so starting one stops whatever was running; returns that entry
+export const startTimer = (task: Pick<Task, 'id' | 'name'>, now = new Date()): Promise<TimeEntry | null> =>
+  withState(state => {
+    if (state.running?.taskId === task.id) return null;
+    const stopped = finish(state, now);
+    state.running = { taskId: task.id, taskName: task.name, startedAt: now.toISOString() };
+    return stopped;
+  });
+
+export const stopTimer = (now = new Date()): Promise<TimeEntry | null> => withState(state => finish(state, now));
+
+// Time worked away from the timer, such as a focus session; minutes can be fewer than start to end when it was paused
+export const recordTimeEntry = (
+  task: Pick<Task, 'id' | 'name'>, start: Date, end: Date, minutes = (end.getTime() - start.getTime()) / MINUTE_MS
+): Promise<TimeEntry | null> =>
+  withState(state => {
+    const rounded = Math.round(minutes);
+    if (rounded < 1) return null;
+    const entry: TimeEntry = {
+      id: `${task.id}:${start.toISOString()}`,
+      taskId: task.id,
+      taskName: task.name,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      minutes: rounded,
+    };
+    state.entries.push(entry);
+    return entry;
+  });
+
+// Marks the entries no tab is adding to their task yet as claimed and returns them;
+// any other tab asking afterwards gets nothing back until the claim times out
+export const claimTimeEntries = (now = new Date()): Promise<TimeEntry[]> =>
+  withState(state => {
+    const claimable = state.entries.filter(entry =>
+      !entry.claimedAt || now.getTime() - new Date(entry.claimedAt).getTime() >= CLAIM_TIMEOUT_MS
+    );
+    claimable.forEach(entry => {
+      entry.claimedAt = now.toISOString();
+    });
+    return claimable.map(entry => ({ ...entry }));
+  });
+
+// A task created offline gets the server's id once the outbox sends it; its tracked time follows
+export const remapTimeEntries = (from: string, to: string): Promise<void> =>
+  withState(state => {
+    state.entries.forEach(entry => {
+      if (entry.taskId === from) entry.taskId = to;
+    });
+    if (state.running?.taskId === from) state.running.taskId = to;
+  });
+
+// Forgets entries once they're part of the task's actual time
+export const settleTimeEntries = (ids: string[]): Promise<void> =>
+  withState(state => {
+    state.entries = state.entries.filter(entry => !ids.includes(entry.id));
+  });
+
+// ---- Estimate vs actual report ----
+
+export type TimeReportGroupBy = 'category' | 'week';
+
+export interface TimeReportRow {
+  key: string;
+  label: string;
+  taskCount: number;
+  estimatedHours: number;
+  actualHours: number;
+  ratio: number; // actual / estimated; above 1 means the estimates were too low
+}
+
+export interface TimeReportOptions {
+  completedOnly?: boolean;
+  weekStartsOn?: WeekStart;
+  timeZone?: string; // weeks are the display zone's
+  uncategorizedLabel?: string;
+  unscheduledLabel?: string;
+  weekLabel?: (weekStart: Date) => string;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Tasks with both an effort estimate and tracked time, by category or by the week they're scheduled in
+export const timeReport = (tasks: Task[], groupBy: TimeReportGroupBy, options: TimeReportOptions = {}): TimeReportRow[] => {
+  const {
+    completedOnly = false, weekStartsOn = 0, timeZone, uncategorizedLabel = 'Uncategorized',
+    unscheduledLabel = 'Unscheduled', weekLabel = (week: Date) => `Week of ${format(week, 'MMM d, yyyy')}`,
+  } = options;
+  const rows = new Map<string, TimeReportRow & { sortKey: string }>();
+
+  tasks
+    .filter(task => (task.estimated_effort_hours ?? 0) > 0 && (task.actual_time_spent_minutes ?? 0) > 0)
+    .filter(task => !completedOnly || task.status === 'completed')
+    .forEach(task => {
+      let key: string;
+      let label: string;
+      let sortKey: string;
+      if (groupBy === 'category') {
+        key = task.category?.id ?? '';
+        label = task.category?.name || uncategorizedLabel;
+        sortKey = key ? label.toLowerCase() : '\uffff';
+      } else {
+        const start = getTaskStart(task);
+        const week = start && startOfWeek(toZonedTime(start, timeZone), { weekStartsOn });
+        key = week ? format(week, 'yyyy-MM-dd') : '';
+        label = week ? weekLabel(week) : unscheduledLabel;
+        sortKey = key || '\uffff';
+      }
+
+      const row = rows.get(key) ?? { key, label, sortKey, taskCount: 0, estimatedHours: 0, actualHours: 0, ratio: 0 };
+      row.taskCount += 1;
+      row.estimatedHours += task.estimated_effort_hours;
+      row.actualHours += task.actual_time_spent_minutes / 60;
+      rows.set(key, row);
+    });
+
+  return [...rows.values()]
+    .sort((a, b) => a.sortKey.localeCompare(b.sortKey))
+    .map(({ sortKey: _sortKey, ...row }) => ({
+      ...row,
+      estimatedHours: round(row.estimatedHours),
+      actualHours: round(row.actualHours),
+      ratio: Math.round((row.actualHours / row.estimatedHours) * 100) / 100,
+    }));
+};
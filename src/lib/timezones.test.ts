@@ -0,0 +1,68 @@
+// src/lib/timezones.test.ts
+// Wall-clock conversions and the second time zone gutter across DST changes
+
+import { format } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { convertWallTime, formatZoneOffset, fromZonedTime, toZonedTime, zoneTransitions } from './timezones';
+
+const wall = (date: Date) => format(date, 'yyyy-MM-dd HH:mm');
+
+describe('toZonedTime and fromZonedTime', () => {
+  it.each([
+    ['2026-03-08T06:59:00Z', '2026-03-08 01:59'],
+    ['2026-03-08T07:00:00Z', '2026-03-08 03:00'],
+    ['2026-11-01T05:30:00Z', '2026-11-01 01:30'],
+    ['2026-11-01T06:30:00Z', '2026-11-01 01:30'],
+  ])('reads %s on New York clocks as %s', (instant, expected) => {
+    expect(wall(toZonedTime(new Date(instant), 'America/New_York'))).toBe(expected);
+  });
+
+  it('takes the first of a time that happens twice at fall-back', () => {
+    expect(fromZonedTime(new Date(2026, 10, 1, 1, 30), 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('moves a time skipped at spring-forward on by the gap', () => {
+    expect(fromZonedTime(new Date(2026, 2, 8, 2, 30), 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+});
+
+describe('second time zone gutter', () => {
+  // The calendar shown in Ho Chi Minh City, which has no DST, with New York alongside
+  const gutter = (day: Date, hours: number[]) =>
+    hours.map(hour => wall(convertWallTime(new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour), 'Asia/Ho_Chi_Minh', 'America/New_York')));
+
+  it.each([
+    // Before spring-forward New York is 12 hours behind, after it 11
+    [new Date(2026, 2, 7), 'UTC-5', ['2026-03-06 21:00', '2026-03-07 12:00']],
+    [new Date(2026, 2, 9), 'UTC-4', ['2026-03-08 22:00', '2026-03-09 13:00']],
+    [new Date(2026, 9, 31), 'UTC-4', ['2026-10-30 22:00', '2026-10-31 13:00']],
+    [new Date(2026, 10, 2), 'UTC-5', ['2026-11-01 21:00', '2026-11-02 12:00']],
+  ])('labels %s with %s', (day, offset, labels) => {
+    expect(formatZoneOffset(fromZonedTime(day, 'Asia/Ho_Chi_Minh'), 'America/New_York')).toBe(offset);
+    expect(formatZoneOffset(fromZonedTime(day, 'Asia/Ho_Chi_Minh'), 'Asia/Ho_Chi_Minh')).toBe('UTC+7');
+    expect(gutter(day, [9, 24])).toEqual(labels);
+  });
+
+  it('follows the change on the day it happens', () => {
+    // 2:00 New York time on Mar 8 is 14:00 in Ho Chi Minh City; the hour after it is gone
+    expect(gutter(new Date(2026, 2, 8), [13, 14, 15])).toEqual(['2026-03-08 01:00', '2026-03-08 03:00', '2026-03-08 04:00']);
+  });
+
+  it('shows half-hour zones', () => {
+    expect(formatZoneOffset(new Date('2026-07-01T00:00:00Z'), 'Asia/Kolkata')).toBe('UTC+5:30');
+    expect(formatZoneOffset(new Date('2026-07-01T00:00:00Z'), 'America/St_Johns')).toBe('UTC-2:30');
+  });
+});
+
+describe('zoneTransitions', () => {
+  it('finds both changes in a year to the minute', () => {
+    expect(zoneTransitions('Europe/Berlin', 2026, 2026)).toEqual([
+      { at: Date.UTC(2026, 2, 29, 1), from: 3600000, to: 7200000 },
+      { at: Date.UTC(2026, 9, 25, 1), from: 7200000, to: 3600000 },
+    ]);
+  });
+
+  it('finds none in a zone without DST', () => {
+    expect(zoneTransitions('Asia/Ho_Chi_Minh', 2020, 2030)).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+// src/lib/timezones.ts
+// Converting between instants and wall-clock times in IANA time zones, DST included
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Used when Intl can't list its zones
+const COMMON_TIME_ZONES = [
+  'UTC', 'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York', 'America/Sao_Paulo',
+  'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Europe/Kiev', 'Africa/Lagos', 'Asia/Dubai', 'Asia/Kolkata',
+  'Asia/Ho_Chi_Minh', 'Asia/Singapore', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland',
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const wallClockFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Milliseconds the zone's clock is ahead of UTC at that instant; throws for zones Intl doesn't know
+export const zoneOffset = (instant: number, timeZone: string) => {
+  const whole = Math.floor(instant / 1000) * 1000;
+  const parts = wallClockFormatter(timeZone).formatToParts(new Date(whole));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - whole;
+};
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string | null | undefined) => {
+  if (!timeZone) return false;
+  try {
+    wallClockFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The zone itself when Intl knows it, otherwise this device's zone
+export const resolveTimeZone = (timeZone?: string | null) => (isValidTimeZone(timeZone) ? timeZone : deviceTimeZone());
+
+// The instant a wall-clock time (its fields read as UTC) refers to in a zone; null for zones Intl doesn't know.
+// A time skipped when clocks go forward moves forward by the gap, and a time that happens twice when
+// they go back is the first of the two.
+export const fromZonedWallTime = (wall: number, timeZone: string): Date | null => {
+  try {
+    const before = zoneOffset(wall - DAY_MS, timeZone);
+    const after = zoneOffset(wall + DAY_MS, timeZone);
+    const matches = [wall - before, wall - after].filter(instant => instant + zoneOffset(instant, timeZone) === wall);
+    return new Date(matches.length ? Math.min(...matches) : wall - before);
+  } catch {
+    return null;
+  }
+};
+
+// A Date whose local fields show the zone's wall clock at that instant, for date-fns and the calendar grid.
+// Dates in this device's zone come back unchanged.
+export const toZonedTime = (date: Date, timeZone: string): Date => {
+  const zone = resolveTimeZone(timeZone);
+  if (zone === deviceTimeZone()) return new Date(date);
+  const wall = new Date(date.getTime() + zoneOffset(date.getTime(), zone));
+  return new Date(
+    wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(),
+    wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), wall.getUTCMilliseconds()
+  );
+};
+
+// The instant a Date's local fields refer to when read as wall-clock time in the zone; undoes toZonedTime
+export const fromZonedTime = (date: Date, timeZone: string): Date => {
+  const zone = resolveTimeZone(timeZone);
+  if (zone === deviceTimeZone()) return new Date(date);
+  const wall = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  );
+  return fromZonedWallTime(wall, zone) ?? new Date(date);
+};
+
+export interface ZoneTransition {
+  at: number; // instant the clocks change
+  from: number; // offset before, in ms
+  to: number; // offset after
+}
+
+// The zone's offset changes from the start of `fromYear` to the end of `toYear`. Looked for a week at a
+// time, since no zone changes its clocks twice in a week, then narrowed down to the minute
+export const zoneTransitions = (timeZone: string, fromYear: number, toYear: number): ZoneTransition[] => {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(toYear + 1, 0, 1);
+  let at = Date.UTC(fromYear, 0, 1);
+  let offset = zoneOffset(at, timeZone);
+  while (at < end) {
+    const next = Math.min(at + 7 * DAY_MS, end);
+    const nextOffset = zoneOffset(next, timeZone);
+    if (nextOffset !== offset) {
+      let before = at;
+      let after = next;
+      while (after - before > MINUTE_MS) {
+        const middle = before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (zoneOffset(middle, timeZone) === offset) before = middle;
+        else after = middle;
+      }
+      transitions.push({ at: after, from: offset, to: zoneOffset(after, timeZone) });
+      offset = zoneOffset(after, timeZone);
+      at = after;
+      continue;
+    }
+    at = next;
+  }
+  return transitions;
+};
+
+// A wall-clock time in one zone as the other zone's clock shows that moment; both as from toZonedTime
+export const convertWallTime = (wall: Date, fromZone: string, toZone: string): Date =>
+  toZonedTime(fromZonedTime(wall, fromZone), toZone);
+
+// "UTC", "UTC+2", "UTC-3:30"
+export const formatZoneOffset = (date: Date, timeZone: string) => {
+  const minutes = Math.round(zoneOffset(date.getTime(), resolveTimeZone(timeZone)) / MINUTE_MS);
+  if (minutes === 0) return 'UTC';
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  return `UTC${minutes < 0 ? '-' : '+'}${hours}${rest ? `:${String(rest).padStart(2, '0')}` : ''}`;
+};
+
+// "America/New_York" → "New York"
+export const timeZoneCity = (timeZone: string) => timeZone.split('/').pop().replace(/_/g, ' ');
+
+export const listTimeZones = (): string[] => {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supported ? supported('timeZone') : COMMON_TIME_ZONES;
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
@@ -0,0 +1,777 @@
+// src/locales/en.ts
+// English UI strings, the catalog every other language is checked against.
+// Messages use ICU syntax: "{name}" arguments, "{count, plural, one {...} other {...}}" and "#" for the count.
+
+export const en = {
+  // Calendar header and footer
+  'calendar.today': 'Today',
+  'calendar.goToToday': 'Go to Today',
+  'calendar.refresh': 'Refresh',
+  'calendar.addEvent': 'Add Event',
+  'calendar.selected': 'Selected:',
+  'calendar.stats.total': '{count, plural, one {total event} other {total events}}',
+  'calendar.stats.today': 'today',
+  'calendar.stats.pending': '{count, plural, one {pending task} other {pending tasks}}',
+  'calendar.stats.onDay': '{count, plural, one {# event} other {# events}} on {date}',
+
+  // View switcher and views
+  'view.month': 'Month',
+  'view.week': 'Week',
+  'view.day': 'Day',
+  'view.agenda': 'Agenda',
+  'view.timeline': 'Timeline',
+  'view.board': 'Board',
+  'view.weekends': 'Weekends',
+  'view.completed': 'Completed',
+  'view.todayBadge': 'TODAY',
+  'view.more': '+{count} more',
+  'view.addEvent': 'Add event',
+  'view.allDay': 'All day',
+  'view.empty': 'Nothing scheduled in this period',
+
+  // Sidebar
+  'sidebar.create': 'Create',
+  'sidebar.savedViews': 'Saved views',
+  'sidebar.search': 'Search events...',
+  'sidebar.searchResults': 'Search Results',
+  'sidebar.noResults': 'No events found',
+  'sidebar.comingSoon': 'Calendar navigation coming soon...',
+  'sidebar.today': 'Today',
+  'sidebar.upcoming': 'Upcoming',
+  'sidebar.dateAtTime': '{date} at {time}',
+  'sidebar.markDone': 'Mark "{title}" as done',
+  'sidebar.markNotDone': 'Mark "{title}" as not done',
+
+  // Header, navigation and the task stats cards
+  'nav.calendar': 'Task Calendar',
+  'nav.board': 'Board',
+  'nav.dashboard': 'Dashboard',
+  'nav.focus': 'Focus',
+  'nav.settings': 'Settings',
+  'nav.signOut': 'Sign Out',
+  'stats.todaysTasks': 'Today\'s Tasks',
+  'stats.completionRate': 'Completion Rate',
+  'stats.overdue': 'Overdue Tasks',
+  'stats.total': 'Total Tasks',
+
+  // Sign-in
+  'auth.welcome': 'Welcome to DeepTalk',
+  'auth.checking': 'Checking your authentication...',
+  'auth.via': 'Authenticating via {method}...',
+  'auth.tagline': 'Your AI-Powered Productivity Companion',
+  'auth.subtitle': 'Welcome to a smarter way to manage your life',
+  'auth.continueWithGoogle': 'Continue with Google',
+  'auth.features': 'What you\'ll get with DeepTalk:',
+  'auth.feature.tasks': 'AI-Powered Task Management',
+  'auth.feature.scheduling': 'Smart Scheduling',
+  'auth.feature.analytics': 'Productivity Analytics',
+  'auth.feature.goals': 'Goal Tracking',
+
+  // Voice assistant
+  'assistant.title': 'AI Assistant',
+  'assistant.listening': 'Listening...',
+  'assistant.speaking': 'Speaking...',
+  'assistant.hint': 'Click the circle to start voice interaction',
+  'assistant.unsupported': 'Voice recognition not supported',
+  'assistant.start': 'Start Voice Input',
+  'assistant.stop': 'Stop Listening',
+  'assistant.error.title': 'Voice Recognition Error',
+  'assistant.error.description': 'Please check your microphone permissions and try again.',
+  'assistant.unavailable.title': 'Voice Recognition Unavailable',
+  'assistant.unavailable.description': 'Your browser doesn\'t support voice recognition. Please use a modern browser.',
+  'assistant.speechError.title': 'Speech Error',
+  'assistant.speechError.description': 'There was an error with text-to-speech.',
+  'assistant.speechUnsupported.title': 'Speech Not Supported',
+  'assistant.speechUnsupported.description': 'Text-to-speech is not supported in your browser.',
+  'assistant.offline.title': 'Assistant Unavailable',
+  'assistant.offline.description': 'Could not reach the {provider} chat backend.',
+  'assistant.fallbackReply': 'Sorry, I couldn\'t reach my language model just now.',
+  'assistant.applied.title': 'Task Updated',
+  'assistant.applied.description': 'JARVIS applied the change to your tasks.',
+  'assistant.updateFailed': 'Failed to update tasks',
+  'assistant.heard.title': 'Voice Input Received',
+  'assistant.heard.description': 'You said: "{text}"',
+  'assistant.history': 'Chat History',
+  'assistant.you': 'You',
+  'assistant.placeholder': 'Type your message...',
+  'assistant.send': 'Send',
+  'assistant.showChat': 'Show Chat',
+  'assistant.hideChat': 'Hide Chat',
+  'assistant.tagline': 'Just A Rather Very Intelligent System',
+  'assistant.jarvisSpeaking': 'JARVIS is speaking...',
+  'assistant.stopSpeaking': 'Stop Speaking',
+  'assistant.instructions': 'Click the circle and speak to interact with JARVIS',
+  'assistant.chatHint': 'Use the chat sidebar to type messages or view conversation history',
+
+  // Task priority, also used for urgency and difficulty
+  'priority.1': 'Critical',
+  'priority.2': 'High',
+  'priority.3': 'Medium',
+  'priority.4': 'Low',
+  'priority.5': 'Lowest',
+
+  // Reminder texts
+  'lead.minutes': '{count, plural, one {# minute} other {# minutes}}',
+  'lead.hours': '{count, plural, one {# hour} other {# hours}}',
+  'lead.days': '{count, plural, one {# day} other {# days}}',
+  'reminder.startsNow': 'Starts now',
+  'reminder.dueNow': 'Due now',
+  'reminder.startsIn': 'Starts in {lead}, {when}',
+  'reminder.dueIn': 'Due in {lead}, {when}',
+  'reminder.deadline': 'Due {days, plural, =1 {tomorrow} other {in # days}}, {day} at {time}',
+  'reminder.overdue': 'Overdue since {time}',
+  'reminder.agendaTitle': 'Today\'s agenda',
+  'reminder.agendaBody': '{count, plural, one {# task} other {# tasks}}: {names}{more, plural, =0 {} other { and # more}}',
+  'reminder.snooze': 'Snooze',
+  'reminder.snoozeFor': 'Snooze for {minutes, plural, one {# minute} other {# minutes}}',
+  'reminder.done': 'Done',
+  'reminder.markDone': 'Mark the task done',
+
+  // Bell menu and reminder settings
+  'reminders.title': 'Reminders',
+  'reminders.comingUp': 'Coming up',
+  'reminders.nothingSoon': 'Nothing in the next 24 hours.',
+  'reminders.beforeTask': 'Remind me before a task',
+  'reminders.atStart': 'At start',
+  'reminders.ownReminders': 'Tasks with their own reminders use those instead.',
+  'reminders.beforeDeadline': 'Warn me before a deadline',
+  'reminders.browser': 'Browser notifications',
+  'reminders.spoken': 'Read reminders aloud',
+  'reminders.overdue': 'Tell me when a task is overdue',
+  'reminders.agenda': 'Morning agenda',
+  'reminders.agendaAt': 'at',
+  'reminders.blocked': 'Notifications are blocked',
+  'reminders.unsupported': 'This browser doesn\'t support notifications. Reminders still show in the app.',
+  'reminders.allow': 'Allow notifications for this site in the browser settings, then turn this on again.',
+  'reminders.completeFailed': 'Couldn\'t complete the task',
+
+  // Settings page
+  'settings.title': 'Settings',
+  'settings.back': 'Back',
+  'settings.saving': 'Saving...',
+  'settings.calendar': 'Calendar',
+  'settings.language': 'Language',
+  'settings.languageBrowser': 'Same as the browser ({language})',
+  'settings.defaultView': 'Open the calendar in',
+  'settings.viewOption': '{view} view',
+  'settings.weekStart': 'Week starts on',
+  'settings.timeFormat': 'Time format',
+  'settings.time12h': '12-hour ({example})',
+  'settings.time24h': '24-hour ({example})',
+  'settings.dateFormat': 'Date format',
+  'settings.duration': 'New tasks last',
+  'settings.minutes': '{count, plural, one {# minute} other {# minutes}}',
+  'settings.todayIs': 'Today is {date}.',
+  'settings.timeZones': 'Time zones',
+  'settings.showTimesIn': 'Show times in',
+  'settings.deviceZone': 'This device\'s zone ({city})',
+  'settings.secondZone': 'Second time column',
+  'settings.none': 'None',
+  'settings.zoneNow': 'It\'s {time} in {city}.',
+  'settings.zoneHint': 'The week and day views show the second zone\'s hours next to your own.',
+  'settings.workingHours': 'Working hours',
+  'settings.from': 'From',
+  'settings.until': 'Until',
+  'settings.endBeforeStart': 'The working day has to end after it starts.',
+  'settings.workingHoursHint': 'Auto-schedule only places tasks inside these hours.',
+  'settings.reminders': 'Reminders',
+  'settings.saveFailed': 'Couldn\'t save settings',
+
+  // Time tracking and the estimate vs actual report
+  'timer.start': 'Start timer for "{task}"',
+  'timer.stop': 'Stop timer for "{task}"',
+  'timer.title': 'Time tracking',
+  'timer.tracking': 'Tracking',
+  'timer.stopButton': 'Stop',
+  'timer.idle': 'No timer running. Start one from a task.',
+  'timer.syncFailed': 'Couldn\'t save tracked time',
+
+  'report.title': 'Estimates vs actual time',
+  'report.byCategory': 'By category',
+  'report.byWeek': 'By week',
+  'report.completedOnly': 'Completed tasks only',
+  'report.group': 'Group',
+  'report.tasks': 'Tasks',
+  'report.estimated': 'Estimated',
+  'report.actual': 'Actual',
+  'report.ratio': 'Actual ÷ estimate',
+  'report.hours': '{hours}h',
+  'report.weekOf': 'Week of {date}',
+  'report.uncategorized': 'Uncategorized',
+  'report.unscheduled': 'Unscheduled',
+  'report.empty': 'No tasks have both an effort estimate and tracked time yet.',
+  'report.summary': 'Across {count, plural, one {# task} other {# tasks}}, the work took {ratio}× the estimate.',
+
+  // Focus sessions
+  'focus.title': 'Focus',
+  'focus.pickTask': 'Work on',
+  'focus.chooseTask': 'Choose a task…',
+  'focus.suggested': 'Suggested',
+  'focus.noTasks': 'No open tasks to focus on.',
+  'focus.start': 'Start focusing',
+  'focus.pause': 'Pause',
+  'focus.resume': 'Resume',
+  'focus.skip': 'Skip',
+  'focus.stop': 'End session',
+  'focus.phase.work': 'Focus',
+  'focus.phase.shortBreak': 'Short break',
+  'focus.phase.longBreak': 'Long break',
+  'focus.paused': 'Paused',
+  'focus.workingOn': 'Working on "{task}"',
+  'focus.upNext': 'Up next: "{task}"',
+  'focus.switch': 'Work on it next',
+  'focus.completed': '{count, plural, =0 {No focus sessions finished yet} one {# focus session finished} other {# focus sessions finished}}',
+  'focus.voiceHint': 'Click the ring and say "pause", "resume", "skip" or "stop".',
+  'focus.voiceStart': 'Click the ring and say "start".',
+  'focus.intervals': 'Intervals',
+  'focus.work': 'Focus for',
+  'focus.shortBreak': 'Short break',
+  'focus.longBreak': 'Long break',
+  'focus.longBreakEvery': 'Long break after',
+  'focus.sessions': '{count, plural, one {# session} other {# sessions}}',
+  'focus.spokenCues': 'Announce focus and breaks aloud',
+  'focus.failed': 'Couldn\'t update the focus session',
+  'focus.cue.start': 'Focusing on {task} for {minutes, plural, one {# minute} other {# minutes}}.',
+  'focus.cue.break': 'Nice work on {task}. Take a break for {minutes, plural, one {# minute} other {# minutes}}.',
+  'focus.cue.longBreak': 'That\'s {count} focus sessions. Take a longer break, {minutes, plural, one {# minute} other {# minutes}}.',
+  'focus.cue.breakOver': 'Break\'s over. Ready to focus on {task}?',
+
+  // Task status and repeat patterns, shared by the task forms
+  'status.pending': 'Pending',
+  'status.in_progress': 'In Progress',
+  'status.completed': 'Completed',
+  'status.cancelled': 'Cancelled',
+  'status.on_hold': 'On Hold',
+  'repeat.daily': 'Daily',
+  'repeat.weekly': 'Weekly',
+  'repeat.monthly': 'Monthly',
+  'repeat.yearly': 'Yearly',
+  'repeat.custom': 'Custom',
+
+  // Buttons and messages used across the app
+  'common.cancel': 'Cancel',
+  'common.ok': 'OK',
+  'common.save': 'Save',
+  'common.clear': 'Clear',
+  'common.home': 'Return to Home',
+  'common.minutes': '{count} min',
+  'common.tryAgain': 'Please try again.',
+
+  // Task dialog
+  'taskDialog.edit': 'Edit Task',
+  'taskDialog.new': 'New Task',
+  'taskDialog.basics': 'Basic Information',
+  'taskDialog.name': 'Task Name *',
+  'taskDialog.namePlaceholder': 'What needs to be done?',
+  'taskDialog.nameRequired': 'Task name is required',
+  'taskDialog.description': 'Description',
+  'taskDialog.descriptionPlaceholder': 'Add details about this task...',
+  'taskDialog.category': 'Category',
+  'taskDialog.chooseCategory': 'Select a category',
+  'taskDialog.assignee': 'Assignee',
+  'taskDialog.assigneePlaceholder': 'Who is doing this?',
+  'taskDialog.status': 'Status',
+  'taskDialog.tags': 'Tags',
+  'taskDialog.tagPlaceholder': 'Add a tag...',
+  'taskDialog.timing': 'Timing & Priority',
+  'taskDialog.deadline': 'Deadline',
+  'taskDialog.estimate': 'Est. Duration (min)',
+  'taskDialog.minimum': 'Min (min)',
+  'taskDialog.maximum': 'Max (min)',
+  'taskDialog.priority': 'Priority',
+  'taskDialog.urgency': 'Urgency',
+  'taskDialog.difficulty': 'Difficulty',
+  'taskDialog.location': 'Location',
+  'taskDialog.locationPlaceholder': 'Where will this task be done?',
+  'taskDialog.constraints': 'Task Constraints',
+  'taskDialog.canSplit': 'Can be split into chunks',
+  'taskDialog.consecutive': 'Requires consecutive time',
+  'taskDialog.aiSuggested': 'AI suggested task',
+  'taskDialog.breakdown': 'Subtasks & Checklist',
+  'taskDialog.advanced': 'Advanced Settings',
+  'taskDialog.repeat': 'Repeat this task',
+  'taskDialog.pattern': 'Pattern',
+  'taskDialog.frequency': 'Frequency',
+  'taskDialog.endDate': 'End Date',
+  'taskDialog.update': 'Update Task',
+  'taskDialog.create': 'Create Task',
+  'taskDialog.updating': 'Updating...',
+  'taskDialog.creating': 'Creating...',
+  'taskDialog.saveFailed': 'Failed to save task. Please try again.',
+
+  // Repeat rules and which occurrences an edit applies to
+  'rule.every': '{unit, select, DAILY {{count, plural, one {Every day} other {Every # days}}} WEEKLY {{count, plural, one {Every week} other {Every # weeks}}} MONTHLY {{count, plural, one {Every month} other {Every # months}}} other {{count, plural, one {Every year} other {Every # years}}}}',
+  'rule.unit': '{unit, select, DAILY {{count, plural, one {day} other {days}}} WEEKLY {{count, plural, one {week} other {weeks}}} MONTHLY {{count, plural, one {month} other {months}}} other {{count, plural, one {year} other {years}}}}',
+  'rule.ordinal': '{ordinal, select, 1 {first} 2 {second} 3 {third} 4 {fourth} 5 {fifth} -1 {last} other {{ordinal}th}}',
+  'rule.nthWeekday': 'the {ordinal} {weekday}',
+  'rule.monthDay': 'day {day}',
+  'rule.lastDay': 'the last day',
+  'rule.daysBeforeEnd': '{count, plural, one {# day} other {# days}} before the end',
+  'rule.on': ' on {days}',
+  'rule.in': ' in {months}',
+  'rule.count': ', {count, plural, one {# time} other {# times}}',
+  'rule.until': ' until {date}',
+  'rule.repeatEvery': 'Repeat every',
+  'rule.onDay': 'On day',
+  'rule.lastDayHint': '(-1 = last day)',
+  'rule.onThe': 'On the',
+  'rule.ends': 'Ends',
+  'rule.never': 'Never',
+  'rule.onDate': 'On date',
+  'rule.after': 'After',
+  'rule.occurrences': '{count, plural, one {occurrence} other {occurrences}}',
+  'rule.next': 'Next: {dates}',
+  'scope.title': 'Edit repeating task',
+  'scope.moveTitle': 'Move repeating task',
+  'scope.this': 'This occurrence',
+  'scope.following': 'This and following occurrences',
+  'scope.all': 'All occurrences',
+
+  // Import and export
+  'transfer.menu': 'Import / Export',
+  'transfer.export': 'Export {count, plural, one {# task} other {# tasks}} as {format}',
+  'transfer.import': 'Import .ics, CSV or JSON...',
+  'transfer.readFailed': 'Couldn\'t read {file}',
+  'transfer.title': 'Import {file}',
+  'transfer.importTasks': 'Import {count, plural, one {# task} other {# tasks}}',
+  'transfer.importing': 'Importing {done} of {total}...',
+  'transfer.importingShort': 'Importing...',
+  'transfer.stop': 'Stop',
+  'transfer.back': 'Back',
+  'transfer.imported': 'Imported {count, plural, one {# task} other {# tasks}}',
+  'transfer.stopped': '{file}; stopped before the last {count, plural, one {# task} other {# tasks}}',
+  'transfer.failed': '{count, plural, one {# task} other {# tasks}} couldn\'t be imported',
+  'ics.found': '{count, plural, one {# item} other {# items}} found{duplicates, plural, =0 {} other {, # of them already here or repeated in the file}}.',
+  'ics.empty': 'There are no events or to-dos in this file.',
+  'ics.event': 'Event',
+  'ics.todo': 'To-do',
+  'ics.noDate': 'No date',
+  'ics.reminders': '{count, plural, one {# reminder} other {# reminders}}',
+  'ics.duplicate': 'Looks like “{task}”, which you already have',
+  'ics.repeatedInFile': 'Appears earlier in the file',
+  'table.rows': '{count, plural, one {# row} other {# rows}}. Choose the task field each column fills.',
+  'table.ready': '{valid} of {count, plural, one {# row} other {# rows}} are ready. Rows with errors are skipped.',
+  'table.empty': 'empty',
+  'table.fieldFor': 'Field for {column}',
+  'table.skipColumn': 'Don\'t import',
+  'table.dateOrder': 'Dates like 03/04/2026 are',
+  'table.mdy': 'month/day/year',
+  'table.dmy': 'day/month/year',
+  'table.needName': 'Pick the column that holds the task names.',
+  'table.pickedTwice': '{field} is picked for more than one column.',
+  'table.problemsOnly': 'Only rows with problems',
+  'table.noProblems': 'No problems found.',
+  'table.row': 'Row {row}',
+  'table.noName': '(no name)',
+  'table.firstRows': 'Showing the first {count} rows.',
+  'table.check': 'Check rows',
+  'taskField.name': 'Name',
+  'taskField.description': 'Description',
+  'taskField.category': 'Category',
+  'taskField.tags': 'Tags',
+  'taskField.deadline': 'Deadline',
+  'taskField.specific_time': 'Time',
+  'taskField.duration_minutes': 'Duration (minutes)',
+  'taskField.estimated_duration_minutes': 'Estimated duration (minutes)',
+  'taskField.minimum_duration_minutes': 'Minimum duration (minutes)',
+  'taskField.maximum_duration_minutes': 'Maximum duration (minutes)',
+  'taskField.deadline_flexibility_minutes': 'Deadline flexibility (minutes)',
+  'taskField.priority': 'Priority',
+  'taskField.urgency': 'Urgency',
+  'taskField.difficulty_level': 'Difficulty',
+  'taskField.base_priority': 'Base priority',
+  'taskField.urgency_multiplier': 'Urgency multiplier',
+  'taskField.status': 'Status',
+  'taskField.completion_percentage': 'Progress (%)',
+  'taskField.estimated_effort_hours': 'Effort (hours)',
+  'taskField.actual_time_spent_minutes': 'Time spent (minutes)',
+  'taskField.location': 'Location',
+  'taskField.assignee': 'Assignee',
+  'taskField.required_tools': 'Required tools',
+  'taskField.can_be_split': 'Can be split',
+  'taskField.requires_consecutive_time': 'Needs consecutive time',
+  'taskField.preferred_time_of_day': 'Preferred times of day',
+  'taskField.avoid_time_of_day': 'Times of day to avoid',
+  'taskField.is_repeat': 'Repeats',
+  'taskField.repeat_pattern': 'Repeat pattern',
+  'taskField.repeat_frequency': 'Repeat interval',
+  'taskField.repeat_days_of_week': 'Repeat on days',
+  'taskField.repeat_end_date': 'Repeat until',
+  'taskField.recurrence_rule': 'Repeat rule (RRULE)',
+  'taskField.reminders': 'Reminders (minutes before)',
+  'taskField.recurrence_exceptions': 'Changed occurrences',
+
+  // Dashboard
+  'dashboard.openAssistant': 'Open AI Assistant',
+  'dashboard.closeAssistant': 'Close AI Assistant',
+  'dashboard.welcome': 'Welcome back, {name}! 👋',
+  'dashboard.pendingCount': 'Let\'s make today productive. You have {count, plural, one {# pending task} other {# pending tasks}}.',
+  'dashboard.askAssistant': 'Ask AI Assistant',
+  'dashboard.askAssistantHint': 'Get help with tasks and planning',
+  'dashboard.overdue': 'Overdue',
+  'dashboard.loading': 'Loading your calendar...',
+
+  // Task changes the assistant proposes
+  'tool.create_task': 'Create task',
+  'tool.update_task': 'Update task',
+  'tool.toggle_task_status': 'Change status',
+  'tool.delete_task': 'Delete task',
+  'tool.start_timer': 'Start timer',
+  'tool.stop_timer': 'Stop timer',
+  'tool.call.create': 'Create "{name}"',
+  'tool.call.createAt': 'Create "{name}" for {when}',
+  'tool.call.update': 'Update {task}',
+  'tool.call.updateAt': 'Update {task} to {when}',
+  'tool.call.renamed': '{change}, renamed to "{name}"',
+  'tool.call.reopen': 'Reopen {task}',
+  'tool.call.complete': 'Mark {task} as done',
+  'tool.call.delete': 'Delete {task}',
+  'tool.call.startTimer': 'Start the timer on {task}',
+  'tool.call.stopTimer': 'Stop the timer on "{task}"',
+  'tool.call.noTimer': 'Stop the timer (none is running)',
+  'tool.unknownTask': 'unknown task',
+  'tool.untitled': 'Untitled task',
+  'action.confidence': '{percent}% sure',
+  'action.task': 'Task',
+  'action.chooseTask': 'Choose a task…',
+  'action.name': 'Name',
+  'action.when': 'When',
+  'action.duration': 'Duration (min)',
+  'action.priority': 'Priority (1-5)',
+  'action.approve': 'Approve',
+  'action.edit': 'Edit',
+  'action.doneEditing': 'Done editing',
+  'action.dismiss': 'Dismiss',
+  'action.running': 'Working on it…',
+  'action.done': '✓ Done',
+  'action.dismissed': 'Dismissed',
+  'action.failed': 'Something went wrong',
+  'action.retry': 'Retry',
+
+  // Quick add
+  'quickAdd.title': 'Quick add',
+  'quickAdd.placeholder': 'Quick add: Gym tomorrow 7am 45m #health',
+  'quickAdd.label': 'Quick add task',
+  'quickAdd.close': 'Close quick add',
+  'quickAdd.namePlaceholder': 'Task name…',
+  'quickAdd.add': 'Add task',
+  'quickAdd.added': 'Task Added',
+  'quickAdd.addedOn': '"{name}" on {date}',
+  'quickAdd.try': 'Try:',
+
+  // Merging a task changed elsewhere
+  'merge.title': 'Task changed elsewhere',
+  'merge.intro': '"{task}" was saved somewhere else while you were editing it.',
+  'merge.conflicts': '{count, plural, one {# field} other {# fields}} changed on both sides; pick which version to keep.',
+  'merge.noConflicts': 'None of the changes overlap, so both can be kept.',
+  'merge.field': 'Field',
+  'merge.original': 'Original',
+  'merge.mine': 'Mine',
+  'merge.theirs': 'Theirs',
+  'merge.changedOnly': 'Show changed fields only',
+  'merge.allFields': 'Show all fields',
+  'merge.keepTheirs': 'Keep theirs',
+  'merge.save': 'Save merged',
+  'merge.saveFailed': 'Couldn\'t save merged task',
+  'merge.occurrences': '{count, plural, one {# occurrence} other {# occurrences}}',
+
+  // Task dependencies
+  'deps.title': 'Task dependencies',
+  'deps.close': 'Close',
+  'deps.empty': 'No task depends on another yet. Link tasks under "Dependencies & Relationships" in the task editor.',
+  'deps.criticalPath': 'Critical path:',
+  'deps.workLeft': '({duration} of work left)',
+  'deps.allDone': 'All linked work is done.',
+  'deps.graph': 'Dependency graph',
+  'deps.minutes': '{minutes}m',
+  'deps.hours': '{hours}h',
+  'deps.hoursMinutes': '{hours}h {minutes}m',
+  'deps.legend.critical': 'Critical path',
+  'deps.legend.waiting': 'Waiting on a prerequisite',
+  'deps.legend.done': 'Done',
+  'deps.legend.hint': 'Click a task to follow its chain, double-click to edit it.',
+  'deps.done': 'Done',
+  'deps.waitingOn': 'Waiting on {tasks}',
+  'deps.ready': 'Ready to start',
+  'deps.open': 'Open task',
+  'deps.thisTask': 'This task',
+  'deps.bothWays': '"{name}" can\'t be both a prerequisite and blocked by this task',
+  'deps.loop': 'These dependencies form a loop: {path}',
+  'deps.prerequisiteLater': 'Prerequisite "{name}" is scheduled after this task',
+  'deps.blockedEarlier': '"{name}" waits on this task but is scheduled before it',
+  'deps.show': 'Dependencies',
+  'picker.missing': 'Missing task {id}',
+  'picker.remove': 'Remove {task}',
+  'picker.search': 'Search tasks...',
+  'picker.noMatches': 'No matching tasks',
+
+  // Filters and sort orders
+  'filter.title': 'Filters',
+  'filter.placeholder': 'Filter tasks...',
+  'filter.search': 'Search tasks',
+  'filter.facet.statuses': 'Status',
+  'filter.facet.priorities': 'Priority',
+  'filter.facet.categories': 'Category',
+  'filter.facet.assignees': 'Assignee',
+  'filter.facet.tags': 'Tag',
+  'filter.facet.types': 'Type',
+  'filter.type.task': 'Task',
+  'filter.from': 'From date',
+  'filter.to': 'To date',
+  'filter.hasDeadline': 'Has deadline',
+  'filter.overdue': 'Overdue',
+  'filter.sort': 'Sort',
+  'filter.views': 'Views',
+  'filter.count': '{total, plural, one {# task} other {# tasks}}',
+  'filter.shown': '{shown} of {total, plural, one {# task} other {# tasks}}',
+  'filter.clear': 'Clear ({count})',
+  'filter.remove': 'Remove {facet} {value}',
+  'sort.schedule': 'Schedule',
+  'sort.priority': 'Priority',
+  'sort.deadline': 'Deadline',
+  'sort.title': 'Title',
+
+  // Saved views
+  'views.save': 'Save view',
+  'views.edit': 'Edit saved view',
+  'views.name': 'Name',
+  'views.namePlaceholder': 'e.g. This week\'s urgent work tasks',
+  'views.dates': 'Dates',
+  'views.asFiltered': 'As filtered now',
+  'views.window': '{window}, counted from the day it\'s opened',
+  'views.pinToSidebar': 'Pin to the sidebar',
+  'views.replace': 'Replace its filter and layout with what\'s shown now',
+  'views.summary': 'Opens as {layout}, sorted by {sort}{filter, select, current {, with the current filter} other {, unfiltered}}.',
+  'views.loading': 'Loading views...',
+  'views.pinnedEmpty': 'Pinned views show up here.',
+  'views.empty': 'No saved views yet.',
+  'views.openAs': 'Open as {layout}',
+  'views.pin': 'Pin {name}',
+  'views.unpin': 'Unpin {name}',
+  'views.copyLink': 'Copy a link to {name}',
+  'views.editView': 'Edit {name}',
+  'views.deleteView': 'Delete {name}',
+  'views.linkCopied': 'Link copied',
+  'views.copyFailed': 'Couldn\'t copy the link',
+  'views.saveCurrent': 'Save current view',
+  'views.notFound': 'View not found',
+  'views.notFoundHint': 'It may have been deleted, or saved in another browser.',
+  'views.saveFailed': 'Couldn\'t save view',
+  'views.deleteFailed': 'Couldn\'t delete view',
+  'dateWindow.today': 'Today',
+  'dateWindow.this_week': 'This week',
+  'dateWindow.next_7_days': 'Next 7 days',
+  'dateWindow.this_month': 'This month',
+
+  // Board
+  'board.columns': 'Columns',
+  'board.swimlanes': 'Swimlanes',
+  'board.noLanes': 'None',
+  'board.group.status': 'Status',
+  'board.group.priority': 'Priority',
+  'board.group.category': 'Category',
+  'board.group.assignee': 'Assignee',
+  'board.status.pending': 'To do',
+  'board.status.in_progress': 'In progress',
+  'board.status.on_hold': 'On hold',
+  'board.status.completed': 'Done',
+  'board.status.cancelled': 'Cancelled',
+  'board.uncategorized': 'Uncategorized',
+  'board.unassigned': 'Unassigned',
+  'board.selected': '{count} selected, drag any of them to move all',
+  'board.wipReached': 'Work-in-progress limit reached',
+  'board.wipLimited': '{column} is limited to {limit, plural, one {# task} other {# tasks}}. Finish or move one out first.',
+  'board.noLimit': 'No limit',
+  'board.limitFor': 'Work-in-progress limit for {column}',
+  'board.setLimit': 'Set a work-in-progress limit',
+  'board.moveFailed': 'Couldn\'t move task',
+  'board.moveManyFailed': 'Couldn\'t move tasks',
+
+  // Changes waiting to sync
+  'offline.waiting': '{count, plural, one {# change} other {# changes}} waiting to sync',
+  'offline.attention': '{count, plural, one {# needs} other {# need}} attention',
+  'offline.offline': 'You\'re offline. Changes are saved on this device and sync when you reconnect.',
+  'offline.syncNow': 'Sync now',
+  'offline.status.pending': 'Pending',
+  'offline.status.failed': 'Failed',
+  'offline.status.conflict': 'Conflict',
+  'offline.keepMine': 'Keep mine',
+  'offline.retry': 'Retry',
+  'offline.discard': 'Discard this change',
+  'offline.savedTitle': 'Offline changes saved',
+  'offline.savedBody': '{count, plural, one {# change} other {# changes}} sent to the server.',
+  'offline.failedTitle': 'Some changes need attention',
+  'offline.failedBody': 'Open the pending changes list to retry or discard them.',
+  'outbox.create': 'Add "{name}"',
+  'outbox.update': 'Edit "{name}"',
+  'outbox.delete': 'Delete "{name}"',
+
+  // Command palette
+  'palette.title': 'Search tasks and actions',
+  'palette.placeholder': 'Search tasks, categories and actions...',
+  'palette.searching': 'Searching older tasks...',
+  'palette.nothing': 'Nothing found.',
+  'palette.tasks': 'Tasks',
+  'palette.olderTasks': 'Older tasks',
+  'palette.categories': 'Categories',
+  'palette.show': 'Show',
+  'palette.actions': 'Actions',
+  'palette.newTask': 'New task',
+  'palette.today': 'Go to today',
+  'palette.switchView': 'Switch to {view} view',
+  'palette.openBoard': 'Open board',
+  'palette.clearFilters': 'Clear filters',
+  'palette.toggleAssistant': 'Toggle assistant',
+  'palette.openView': 'Open view: {name}',
+  'palette.hint': '{key}+K to open or close · ↑↓ to move · Enter to run',
+
+  // Auto-schedule proposal
+  'schedule.title': 'Proposed schedule',
+  'schedule.placed': '{count, plural, one {# task} other {# tasks}} placed',
+  'schedule.discard': 'Discard',
+  'schedule.acceptAll': 'Accept all',
+  'schedule.accept': 'Accept',
+  'schedule.part': 'Part {part}/{parts}: {when}',
+  'schedule.none': 'No open tasks could be placed in your working hours.',
+  'schedule.unplaced': 'Couldn\'t place',
+  'schedule.untitled': 'Task',
+  'schedule.reason.noTimeBeforeDeadline': 'No free working time before the deadline',
+  'schedule.reason.noOpeningBeforeDeadline': 'No {minutes}-minute opening before the deadline',
+  'schedule.reason.noOpening': 'No {minutes}-minute opening in the next {days} days',
+  'schedule.saveFailed': 'Couldn\'t schedule task',
+  'schedule.splitFailed': 'Couldn\'t add the rest of a split task',
+  'schedule.run': 'Auto-schedule open tasks',
+
+  // Subtasks and checklist
+  'subtasks.progress': 'Progress {percent}%',
+  'subtasks.effort': '{hours}h estimated effort',
+  'subtasks.title': 'Subtasks',
+  'subtasks.saveFirst': 'Save the task first to break it into subtasks.',
+  'subtasks.markDone': 'Mark {name} done',
+  'subtasks.when': 'When to work on {name}',
+  'subtasks.delete': 'Delete {name}',
+  'subtasks.add': 'Add a subtask...',
+  'subtasks.addFailed': 'Couldn\'t add subtask',
+  'subtasks.scheduleFailed': 'Couldn\'t schedule subtask',
+  'subtasks.removeFailed': 'Couldn\'t remove subtask',
+  'checklist.title': 'Checklist',
+  'checklist.remove': 'Remove {name}',
+  'checklist.add': 'Add a checklist item...',
+
+  // Time zone picker
+  'zone.option': '{zone} ({offset})',
+  'zone.optionNamed': '{zone} ({name}, {offset})',
+
+  // Task changes that didn't go through
+  'tasks.loadFailed': 'Failed to load tasks',
+  'tasks.addFailed': 'Couldn\'t add task',
+  'tasks.updateFailed': 'Couldn\'t update task',
+  'tasks.statusFailed': 'Couldn\'t change task status',
+  'tasks.deleteFailed': 'Couldn\'t delete task',
+  'tasks.updateManyFailed': 'Couldn\'t update tasks',
+  'tasks.deleteManyFailed': 'Couldn\'t delete tasks',
+  'tasks.changeUndone': 'The change was undone.',
+  'tasks.seriesMissing': 'The repeating task could not be found.',
+
+  // Full task editor on the calendar
+  'editor.create': 'Create Comprehensive Task',
+  'editor.update': 'Update Comprehensive Task',
+  'editor.applyTo': 'Apply to',
+  'editor.skip': 'Skip this occurrence',
+  'editor.onlyThis': 'Only the date, time and duration of this occurrence will change.',
+  'editor.required': 'Task name and date are required',
+  'editor.saveFailed': 'Failed to save task',
+  'editor.skipFailed': 'Failed to skip occurrence',
+  'editor.namePlaceholder': 'Enter task name...',
+  'editor.descriptionPlaceholder': 'Detailed description of the task...',
+  'editor.chooseCategory': 'Select category...',
+  'editor.tags': 'Tags (comma-separated)',
+  'editor.tagsPlaceholder': 'urgent, meeting, project...',
+  'editor.timing': 'Timing & Duration',
+  'editor.specificTime': 'Specific Time',
+  'editor.flexibility': 'Deadline Flexibility (minutes)',
+  'editor.timeZone': 'Time Zone',
+  'editor.zoneHint': 'The date and time above are in {city}; repeats keep that time of day there.',
+  'editor.duration': 'Duration (minutes)',
+  'editor.estimated': 'Estimated Duration',
+  'editor.minimum': 'Min Duration',
+  'editor.maximum': 'Max Duration',
+  'editor.effort': 'Estimated Effort (hours)',
+  'editor.spent': 'Actual Time Spent (minutes)',
+  'editor.priorityDifficulty': 'Priority & Difficulty',
+  'editor.priority': 'Priority (1-5)',
+  'editor.urgency': 'Urgency (1-5)',
+  'editor.difficulty': 'Difficulty (1-5)',
+  'editor.urgency.1': 'Urgent',
+  'editor.urgency.2': 'High',
+  'editor.urgency.3': 'Medium',
+  'editor.urgency.4': 'Low',
+  'editor.urgency.5': 'Lowest',
+  'editor.difficulty.1': 'Very Hard',
+  'editor.difficulty.2': 'Hard',
+  'editor.difficulty.3': 'Medium',
+  'editor.difficulty.4': 'Easy',
+  'editor.difficulty.5': 'Very Easy',
+  'editor.basePriority': 'Base Priority',
+  'editor.urgencyMultiplier': 'Urgency Multiplier',
+  'editor.completion': 'Completion Percentage: {percent}%',
+  'editor.locationTools': 'Location & Tools',
+  'editor.locationPlaceholder': 'Where will this happen?',
+  'editor.tools': 'Required Tools (comma-separated)',
+  'editor.toolsPlaceholder': 'laptop, notebook, calculator...',
+  'editor.dependencies': 'Dependencies & Relationships',
+  'editor.prerequisites': 'Prerequisite Tasks',
+  'editor.prerequisitesHint': 'Must be done before this task can start',
+  'editor.blocking': 'Blocking Tasks',
+  'editor.blockingHint': 'Wait for this task to be done',
+  'editor.scheduling': 'Scheduling Constraints',
+  'editor.canSplit': 'Can be split into smaller chunks',
+  'editor.consecutive': 'Requires consecutive time block',
+  'editor.preferredTime': 'Preferred Time of Day',
+  'editor.preferredPlaceholder': 'morning, afternoon, evening...',
+  'editor.avoidTime': 'Avoid Time of Day',
+  'editor.avoidPlaceholder': 'late night, early morning...',
+  'editor.repetition': 'Repetition & Recurrence',
+  'editor.isRepeat': 'This is a recurring task',
+  'editor.pattern': 'Repeat Pattern',
+  'editor.choosePattern': 'Select pattern...',
+  'editor.frequency': 'Frequency',
+  'editor.days': 'Days of Week',
+  'editor.daysPlaceholder': 'Monday, Tuesday, Friday...',
+  'editor.endsOn': 'Ends On',
+  'editor.ai': 'AI & Quality Metrics',
+  'editor.aiSuggested': 'AI-suggested task',
+  'editor.satisfaction': 'User Satisfaction (1-5)',
+  'editor.notRated': 'Not rated',
+  'editor.rating.1': 'Poor',
+  'editor.rating.2': 'Fair',
+  'editor.rating.3': 'Good',
+  'editor.rating.4': 'Very Good',
+  'editor.rating.5': 'Excellent',
+  'editor.confidence': 'AI Confidence Score (0-1)',
+
+  // Overview on the home page
+  'home.title': 'Task Management Dashboard',
+  'home.calendar': 'Manage your tasks with deadlines, priorities, and scheduling on a visual calendar.',
+  'home.calendar.times': 'Create tasks with specific times',
+  'home.calendar.deadlines': 'Set deadlines and priorities',
+  'home.calendar.completion': 'Track task completion',
+  'home.calendar.categories': 'Organize by categories',
+  'home.profile': 'Your Profile',
+  'home.loggedInAs': 'Logged in as {name}',
+  'home.auth': 'Auth: {method, select, session {Session Active} other {Token Valid}}',
+  'home.features': 'Task Features',
+  'home.feature.priority': 'Priority levels (1-5 scale)',
+  'home.feature.categories': 'Task categories & tags',
+  'home.feature.location': 'Location tracking',
+  'home.feature.duration': 'Duration estimation',
+  'home.backend': '🔗 Backend Integration',
+  'home.backendBody': 'Your calendar is now connected to your existing Django task management backend. All tasks are stored in your database with full CRUD operations, priority management, and category organization.',
+  'home.badge.crud': '✅ Task CRUD',
+  'home.badge.categories': '✅ Categories',
+  'home.badge.priorities': '✅ Priorities',
+  'home.badge.status': '✅ Status Tracking',
+  'home.badge.statistics': '✅ Statistics',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,743 @@
+// src/locales/vi.ts
+// Vietnamese UI strings. Vietnamese nouns don't change with the count, so plurals only need "other".
+
+import type { MessageKey } from './en';
+
+export const vi: Record<MessageKey, string> = {
+  'calendar.today': 'Hôm nay',
+  'calendar.goToToday': 'Về hôm nay',
+  'calendar.refresh': 'Làm mới',
+  'calendar.addEvent': 'Thêm sự kiện',
+  'calendar.selected': 'Đã chọn:',
+  'calendar.stats.total': 'sự kiện',
+  'calendar.stats.today': 'hôm nay',
+  'calendar.stats.pending': 'việc chưa xong',
+  'calendar.stats.onDay': '{count, plural, other {# sự kiện}} vào {date}',
+
+  'view.month': 'Tháng',
+  'view.week': 'Tuần',
+  'view.day': 'Ngày',
+  'view.agenda': 'Lịch trình',
+  'view.timeline': 'Dòng thời gian',
+  'view.board': 'Bảng',
+  'view.weekends': 'Cuối tuần',
+  'view.completed': 'Đã xong',
+  'view.todayBadge': 'HÔM NAY',
+  'view.more': '+{count} mục khác',
+  'view.addEvent': 'Thêm sự kiện',
+  'view.allDay': 'Cả ngày',
+  'view.empty': 'Không có gì trong khoảng thời gian này',
+
+  'sidebar.create': 'Tạo mới',
+  'sidebar.savedViews': 'Chế độ xem đã lưu',
+  'sidebar.search': 'Tìm sự kiện...',
+  'sidebar.searchResults': 'Kết quả tìm kiếm',
+  'sidebar.noResults': 'Không tìm thấy sự kiện nào',
+  'sidebar.comingSoon': 'Điều hướng lịch sắp ra mắt...',
+  'sidebar.today': 'Hôm nay',
+  'sidebar.upcoming': 'Sắp tới',
+  'sidebar.dateAtTime': '{date} lúc {time}',
+  'sidebar.markDone': 'Đánh dấu "{title}" là đã xong',
+  'sidebar.markNotDone': 'Đánh dấu "{title}" là chưa xong',
+
+  'nav.calendar': 'Lịch công việc',
+  'nav.board': 'Bảng',
+  'nav.dashboard': 'Tổng quan',
+  'nav.focus': 'Tập trung',
+  'nav.settings': 'Cài đặt',
+  'nav.signOut': 'Đăng xuất',
+  'stats.todaysTasks': 'Việc hôm nay',
+  'stats.completionRate': 'Tỉ lệ hoàn thành',
+  'stats.overdue': 'Việc quá hạn',
+  'stats.total': 'Tổng số việc',
+
+  'auth.welcome': 'Chào mừng đến với DeepTalk',
+  'auth.checking': 'Đang kiểm tra đăng nhập...',
+  'auth.via': 'Đang xác thực qua {method}...',
+  'auth.tagline': 'Trợ lý năng suất dùng AI của bạn',
+  'auth.subtitle': 'Cách thông minh hơn để sắp xếp cuộc sống',
+  'auth.continueWithGoogle': 'Tiếp tục với Google',
+  'auth.features': 'DeepTalk mang lại cho bạn:',
+  'auth.feature.tasks': 'Quản lý công việc bằng AI',
+  'auth.feature.scheduling': 'Xếp lịch thông minh',
+  'auth.feature.analytics': 'Thống kê năng suất',
+  'auth.feature.goals': 'Theo dõi mục tiêu',
+
+  'assistant.title': 'Trợ lý AI',
+  'assistant.listening': 'Đang nghe...',
+  'assistant.speaking': 'Đang nói...',
+  'assistant.hint': 'Nhấn vào vòng tròn để bắt đầu nói chuyện',
+  'assistant.unsupported': 'Không hỗ trợ nhận dạng giọng nói',
+  'assistant.start': 'Bắt đầu nói',
+  'assistant.stop': 'Dừng nghe',
+  'assistant.error.title': 'Lỗi nhận dạng giọng nói',
+  'assistant.error.description': 'Hãy kiểm tra quyền truy cập micro rồi thử lại.',
+  'assistant.unavailable.title': 'Không dùng được giọng nói',
+  'assistant.unavailable.description': 'Trình duyệt này không hỗ trợ nhận dạng giọng nói. Hãy dùng một trình duyệt mới hơn.',
+  'assistant.speechError.title': 'Lỗi giọng nói',
+  'assistant.speechError.description': 'Đã có lỗi khi đọc thành tiếng.',
+  'assistant.speechUnsupported.title': 'Không hỗ trợ đọc thành tiếng',
+  'assistant.speechUnsupported.description': 'Trình duyệt của bạn không hỗ trợ chuyển văn bản thành giọng nói.',
+  'assistant.offline.title': 'Trợ lý không khả dụng',
+  'assistant.offline.description': 'Không kết nối được máy chủ trò chuyện {provider}.',
+  'assistant.fallbackReply': 'Xin lỗi, lúc này tôi chưa kết nối được mô hình ngôn ngữ.',
+  'assistant.applied.title': 'Đã cập nhật công việc',
+  'assistant.applied.description': 'JARVIS đã áp dụng thay đổi cho công việc của bạn.',
+  'assistant.updateFailed': 'Không cập nhật được công việc',
+  'assistant.heard.title': 'Đã nhận giọng nói',
+  'assistant.heard.description': 'Bạn đã nói: "{text}"',
+  'assistant.history': 'Lịch sử trò chuyện',
+  'assistant.you': 'Bạn',
+  'assistant.placeholder': 'Nhập tin nhắn...',
+  'assistant.send': 'Gửi',
+  'assistant.showChat': 'Hiện trò chuyện',
+  'assistant.hideChat': 'Ẩn trò chuyện',
+  'assistant.tagline': 'Just A Rather Very Intelligent System',
+  'assistant.jarvisSpeaking': 'JARVIS đang nói...',
+  'assistant.stopSpeaking': 'Ngừng nói',
+  'assistant.instructions': 'Nhấn vào vòng tròn và nói để trò chuyện với JARVIS',
+  'assistant.chatHint': 'Dùng khung trò chuyện bên cạnh để nhập tin nhắn hoặc xem lại cuộc trò chuyện',
+
+  'priority.1': 'Khẩn cấp',
+  'priority.2': 'Cao',
+  'priority.3': 'Trung bình',
+  'priority.4': 'Thấp',
+  'priority.5': 'Thấp nhất',
+
+  'lead.minutes': '{count, plural, other {# phút}}',
+  'lead.hours': '{count, plural, other {# giờ}}',
+  'lead.days': '{count, plural, other {# ngày}}',
+  'reminder.startsNow': 'Bắt đầu ngay bây giờ',
+  'reminder.dueNow': 'Đến hạn ngay bây giờ',
+  'reminder.startsIn': 'Bắt đầu sau {lead}, {when}',
+  'reminder.dueIn': 'Đến hạn sau {lead}, {when}',
+  'reminder.deadline': 'Hạn chót {days, plural, =1 {ngày mai} other {sau # ngày}}, {day} lúc {time}',
+  'reminder.overdue': 'Quá hạn từ {time}',
+  'reminder.agendaTitle': 'Lịch hôm nay',
+  'reminder.agendaBody': '{count, plural, other {# việc}}: {names}{more, plural, =0 {} other { và # việc khác}}',
+  'reminder.snooze': 'Báo lại',
+  'reminder.snoozeFor': 'Báo lại sau {minutes, plural, other {# phút}}',
+  'reminder.done': 'Xong',
+  'reminder.markDone': 'Đánh dấu việc đã xong',
+
+  'reminders.title': 'Nhắc nhở',
+  'reminders.comingUp': 'Sắp diễn ra',
+  'reminders.nothingSoon': 'Không có gì trong 24 giờ tới.',
+  'reminders.beforeTask': 'Nhắc tôi trước khi bắt đầu việc',
+  'reminders.atStart': 'Lúc bắt đầu',
+  'reminders.ownReminders': 'Việc có nhắc nhở riêng sẽ dùng nhắc nhở đó.',
+  'reminders.beforeDeadline': 'Cảnh báo trước hạn chót',
+  'reminders.browser': 'Thông báo của trình duyệt',
+  'reminders.spoken': 'Đọc to nhắc nhở',
+  'reminders.overdue': 'Báo khi việc bị quá hạn',
+  'reminders.agenda': 'Lịch buổi sáng',
+  'reminders.agendaAt': 'lúc',
+  'reminders.blocked': 'Thông báo đang bị chặn',
+  'reminders.unsupported': 'Trình duyệt này không hỗ trợ thông báo. Nhắc nhở vẫn hiện trong ứng dụng.',
+  'reminders.allow': 'Hãy cho phép trang này gửi thông báo trong cài đặt trình duyệt, rồi bật lại.',
+  'reminders.completeFailed': 'Không hoàn thành được công việc',
+
+  'settings.title': 'Cài đặt',
+  'settings.back': 'Quay lại',
+  'settings.saving': 'Đang lưu...',
+  'settings.calendar': 'Lịch',
+  'settings.language': 'Ngôn ngữ',
+  'settings.languageBrowser': 'Theo trình duyệt ({language})',
+  'settings.defaultView': 'Mở lịch ở chế độ',
+  'settings.viewOption': 'Xem theo {view}',
+  'settings.weekStart': 'Tuần bắt đầu vào',
+  'settings.timeFormat': 'Định dạng giờ',
+  'settings.time12h': '12 giờ ({example})',
+  'settings.time24h': '24 giờ ({example})',
+  'settings.dateFormat': 'Định dạng ngày',
+  'settings.duration': 'Thời lượng việc mới',
+  'settings.minutes': '{count, plural, other {# phút}}',
+  'settings.todayIs': 'Hôm nay là {date}.',
+  'settings.timeZones': 'Múi giờ',
+  'settings.showTimesIn': 'Hiển thị giờ theo',
+  'settings.deviceZone': 'Múi giờ của thiết bị ({city})',
+  'settings.secondZone': 'Cột giờ thứ hai',
+  'settings.none': 'Không',
+  'settings.zoneNow': 'Bây giờ là {time} ở {city}.',
+  'settings.zoneHint': 'Chế độ xem tuần và ngày hiển thị giờ của múi thứ hai bên cạnh giờ của bạn.',
+  'settings.workingHours': 'Giờ làm việc',
+  'settings.from': 'Từ',
+  'settings.until': 'Đến',
+  'settings.endBeforeStart': 'Giờ kết thúc phải sau giờ bắt đầu.',
+  'settings.workingHoursHint': 'Tự động xếp lịch chỉ đặt việc trong những giờ này.',
+  'settings.reminders': 'Nhắc nhở',
+  'settings.saveFailed': 'Không lưu được cài đặt',
+
+  'timer.start': 'Bấm giờ cho "{task}"',
+  'timer.stop': 'Dừng bấm giờ cho "{task}"',
+  'timer.title': 'Theo dõi thời gian',
+  'timer.tracking': 'Đang bấm giờ',
+  'timer.stopButton': 'Dừng',
+  'timer.idle': 'Chưa bấm giờ. Hãy bắt đầu từ một việc.',
+  'timer.syncFailed': 'Không lưu được thời gian đã bấm',
+
+  'report.title': 'Ước tính so với thực tế',
+  'report.byCategory': 'Theo danh mục',
+  'report.byWeek': 'Theo tuần',
+  'report.completedOnly': 'Chỉ việc đã xong',
+  'report.group': 'Nhóm',
+  'report.tasks': 'Số việc',
+  'report.estimated': 'Ước tính',
+  'report.actual': 'Thực tế',
+  'report.ratio': 'Thực tế ÷ ước tính',
+  'report.hours': '{hours} giờ',
+  'report.weekOf': 'Tuần từ {date}',
+  'report.uncategorized': 'Chưa phân loại',
+  'report.unscheduled': 'Chưa xếp lịch',
+  'report.empty': 'Chưa có việc nào vừa có ước tính công sức vừa có thời gian đã bấm.',
+  'report.summary': 'Trên {count, plural, other {# việc}}, thời gian thực tế bằng {ratio} lần ước tính.',
+
+  'focus.title': 'Tập trung',
+  'focus.pickTask': 'Làm việc',
+  'focus.chooseTask': 'Chọn một việc…',
+  'focus.suggested': 'Gợi ý',
+  'focus.noTasks': 'Không có việc nào đang mở để tập trung.',
+  'focus.start': 'Bắt đầu tập trung',
+  'focus.pause': 'Tạm dừng',
+  'focus.resume': 'Tiếp tục',
+  'focus.skip': 'Bỏ qua',
+  'focus.stop': 'Kết thúc phiên',
+  'focus.phase.work': 'Tập trung',
+  'focus.phase.shortBreak': 'Nghỉ ngắn',
+  'focus.phase.longBreak': 'Nghỉ dài',
+  'focus.paused': 'Đã tạm dừng',
+  'focus.workingOn': 'Đang làm "{task}"',
+  'focus.upNext': 'Tiếp theo: "{task}"',
+  'focus.switch': 'Làm việc này tiếp theo',
+  'focus.completed': '{count, plural, =0 {Chưa xong phiên tập trung nào} other {Đã xong # phiên tập trung}}',
+  'focus.voiceHint': 'Nhấn vào vòng tròn và nói "tạm dừng", "tiếp tục", "bỏ qua" hoặc "dừng".',
+  'focus.voiceStart': 'Nhấn vào vòng tròn và nói "bắt đầu".',
+  'focus.intervals': 'Khoảng thời gian',
+  'focus.work': 'Tập trung trong',
+  'focus.shortBreak': 'Nghỉ ngắn',
+  'focus.longBreak': 'Nghỉ dài',
+  'focus.longBreakEvery': 'Nghỉ dài sau',
+  'focus.sessions': '{count, plural, other {# phiên}}',
+  'focus.spokenCues': 'Đọc to khi bắt đầu tập trung và nghỉ',
+  'focus.failed': 'Không cập nhật được phiên tập trung',
+  'focus.cue.start': 'Tập trung vào {task} trong {minutes, plural, other {# phút}}.',
+  'focus.cue.break': 'Làm tốt lắm với {task}. Hãy nghỉ {minutes, plural, other {# phút}}.',
+  'focus.cue.longBreak': 'Bạn đã xong {count} phiên tập trung. Hãy nghỉ dài hơn, {minutes, plural, other {# phút}}.',
+  'focus.cue.breakOver': 'Hết giờ nghỉ. Sẵn sàng tập trung vào {task} chưa?',
+
+  'status.pending': 'Chờ làm',
+  'status.in_progress': 'Đang làm',
+  'status.completed': 'Đã xong',
+  'status.cancelled': 'Đã hủy',
+  'status.on_hold': 'Tạm dừng',
+  'repeat.daily': 'Hằng ngày',
+  'repeat.weekly': 'Hằng tuần',
+  'repeat.monthly': 'Hằng tháng',
+  'repeat.yearly': 'Hằng năm',
+  'repeat.custom': 'Tùy chỉnh',
+
+  'common.cancel': 'Hủy',
+  'common.ok': 'OK',
+  'common.save': 'Lưu',
+  'common.clear': 'Xóa',
+  'common.home': 'Về trang chủ',
+  'common.minutes': '{count} phút',
+  'common.tryAgain': 'Vui lòng thử lại.',
+
+  'taskDialog.edit': 'Sửa công việc',
+  'taskDialog.new': 'Công việc mới',
+  'taskDialog.basics': 'Thông tin cơ bản',
+  'taskDialog.name': 'Tên công việc *',
+  'taskDialog.namePlaceholder': 'Cần làm gì?',
+  'taskDialog.nameRequired': 'Cần nhập tên công việc',
+  'taskDialog.description': 'Mô tả',
+  'taskDialog.descriptionPlaceholder': 'Thêm chi tiết về công việc này...',
+  'taskDialog.category': 'Danh mục',
+  'taskDialog.chooseCategory': 'Chọn danh mục',
+  'taskDialog.assignee': 'Người thực hiện',
+  'taskDialog.assigneePlaceholder': 'Ai sẽ làm việc này?',
+  'taskDialog.status': 'Trạng thái',
+  'taskDialog.tags': 'Thẻ',
+  'taskDialog.tagPlaceholder': 'Thêm thẻ...',
+  'taskDialog.timing': 'Thời gian và mức ưu tiên',
+  'taskDialog.deadline': 'Hạn chót',
+  'taskDialog.estimate': 'Thời lượng dự kiến (phút)',
+  'taskDialog.minimum': 'Tối thiểu (phút)',
+  'taskDialog.maximum': 'Tối đa (phút)',
+  'taskDialog.priority': 'Ưu tiên',
+  'taskDialog.urgency': 'Độ gấp',
+  'taskDialog.difficulty': 'Độ khó',
+  'taskDialog.location': 'Địa điểm',
+  'taskDialog.locationPlaceholder': 'Việc này sẽ làm ở đâu?',
+  'taskDialog.constraints': 'Ràng buộc',
+  'taskDialog.canSplit': 'Có thể chia thành nhiều phần',
+  'taskDialog.consecutive': 'Cần thời gian liền mạch',
+  'taskDialog.aiSuggested': 'Công việc do AI gợi ý',
+  'taskDialog.breakdown': 'Việc con và danh sách kiểm',
+  'taskDialog.advanced': 'Cài đặt nâng cao',
+  'taskDialog.repeat': 'Lặp lại công việc này',
+  'taskDialog.pattern': 'Kiểu lặp',
+  'taskDialog.frequency': 'Tần suất',
+  'taskDialog.endDate': 'Ngày kết thúc',
+  'taskDialog.update': 'Cập nhật',
+  'taskDialog.create': 'Tạo công việc',
+  'taskDialog.updating': 'Đang cập nhật...',
+  'taskDialog.creating': 'Đang tạo...',
+  'taskDialog.saveFailed': 'Không lưu được công việc. Vui lòng thử lại.',
+
+  'rule.every': '{unit, select, DAILY {{count, plural, =1 {Hằng ngày} other {Mỗi # ngày}}} WEEKLY {{count, plural, =1 {Hằng tuần} other {Mỗi # tuần}}} MONTHLY {{count, plural, =1 {Hằng tháng} other {Mỗi # tháng}}} other {{count, plural, =1 {Hằng năm} other {Mỗi # năm}}}}',
+  'rule.unit': '{unit, select, DAILY {ngày} WEEKLY {tuần} MONTHLY {tháng} other {năm}}',
+  'rule.ordinal': '{ordinal, select, 1 {đầu tiên} 2 {thứ hai} 3 {thứ ba} 4 {thứ tư} 5 {thứ năm} -1 {cuối cùng} other {thứ {ordinal}}}',
+  'rule.nthWeekday': '{weekday} {ordinal}',
+  'rule.monthDay': 'ngày {day}',
+  'rule.lastDay': 'ngày cuối cùng',
+  'rule.daysBeforeEnd': '{count} ngày trước cuối tháng',
+  'rule.on': ' vào {days}',
+  'rule.in': ' trong {months}',
+  'rule.count': ', {count} lần',
+  'rule.until': ' đến {date}',
+  'rule.repeatEvery': 'Lặp lại mỗi',
+  'rule.onDay': 'Vào ngày',
+  'rule.lastDayHint': '(-1 = ngày cuối tháng)',
+  'rule.onThe': 'Vào',
+  'rule.ends': 'Kết thúc',
+  'rule.never': 'Không bao giờ',
+  'rule.onDate': 'Vào ngày',
+  'rule.after': 'Sau',
+  'rule.occurrences': 'lần',
+  'rule.next': 'Tiếp theo: {dates}',
+  'scope.title': 'Sửa công việc lặp lại',
+  'scope.moveTitle': 'Dời công việc lặp lại',
+  'scope.this': 'Chỉ lần này',
+  'scope.following': 'Lần này và các lần sau',
+  'scope.all': 'Tất cả các lần',
+
+  'transfer.menu': 'Nhập / Xuất',
+  'transfer.export': 'Xuất {count} công việc dạng {format}',
+  'transfer.import': 'Nhập tệp .ics, CSV hoặc JSON...',
+  'transfer.readFailed': 'Không đọc được {file}',
+  'transfer.title': 'Nhập {file}',
+  'transfer.importTasks': 'Nhập {count} công việc',
+  'transfer.importing': 'Đang nhập {done}/{total}...',
+  'transfer.importingShort': 'Đang nhập...',
+  'transfer.stop': 'Dừng',
+  'transfer.back': 'Quay lại',
+  'transfer.imported': 'Đã nhập {count} công việc',
+  'transfer.stopped': '{file}; đã dừng trước {count} công việc cuối',
+  'transfer.failed': '{count} công việc không nhập được',
+  'ics.found': 'Tìm thấy {count} mục{duplicates, plural, =0 {} other {, # mục đã có hoặc lặp lại trong tệp}}.',
+  'ics.empty': 'Tệp này không có sự kiện hay việc cần làm nào.',
+  'ics.event': 'Sự kiện',
+  'ics.todo': 'Việc cần làm',
+  'ics.noDate': 'Không có ngày',
+  'ics.reminders': '{count} lời nhắc',
+  'ics.duplicate': 'Giống “{task}” mà bạn đã có',
+  'ics.repeatedInFile': 'Đã xuất hiện trước đó trong tệp',
+  'table.rows': '{count} dòng. Chọn trường công việc cho từng cột.',
+  'table.ready': '{valid}/{count} dòng sẵn sàng. Các dòng có lỗi sẽ bị bỏ qua.',
+  'table.empty': 'trống',
+  'table.fieldFor': 'Trường cho {column}',
+  'table.skipColumn': 'Không nhập',
+  'table.dateOrder': 'Ngày dạng 03/04/2026 là',
+  'table.mdy': 'tháng/ngày/năm',
+  'table.dmy': 'ngày/tháng/năm',
+  'table.needName': 'Hãy chọn cột chứa tên công việc.',
+  'table.pickedTwice': '{field} đang được chọn cho nhiều hơn một cột.',
+  'table.problemsOnly': 'Chỉ các dòng có vấn đề',
+  'table.noProblems': 'Không có vấn đề nào.',
+  'table.row': 'Dòng {row}',
+  'table.noName': '(không tên)',
+  'table.firstRows': 'Đang hiện {count} dòng đầu tiên.',
+  'table.check': 'Kiểm tra các dòng',
+  'taskField.name': 'Tên',
+  'taskField.description': 'Mô tả',
+  'taskField.category': 'Danh mục',
+  'taskField.tags': 'Thẻ',
+  'taskField.deadline': 'Hạn chót',
+  'taskField.specific_time': 'Thời điểm',
+  'taskField.duration_minutes': 'Thời lượng (phút)',
+  'taskField.estimated_duration_minutes': 'Thời lượng dự kiến (phút)',
+  'taskField.minimum_duration_minutes': 'Thời lượng tối thiểu (phút)',
+  'taskField.maximum_duration_minutes': 'Thời lượng tối đa (phút)',
+  'taskField.deadline_flexibility_minutes': 'Độ linh hoạt hạn chót (phút)',
+  'taskField.priority': 'Ưu tiên',
+  'taskField.urgency': 'Độ gấp',
+  'taskField.difficulty_level': 'Độ khó',
+  'taskField.base_priority': 'Ưu tiên gốc',
+  'taskField.urgency_multiplier': 'Hệ số độ gấp',
+  'taskField.status': 'Trạng thái',
+  'taskField.completion_percentage': 'Tiến độ (%)',
+  'taskField.estimated_effort_hours': 'Công sức (giờ)',
+  'taskField.actual_time_spent_minutes': 'Thời gian đã dùng (phút)',
+  'taskField.location': 'Địa điểm',
+  'taskField.assignee': 'Người thực hiện',
+  'taskField.required_tools': 'Công cụ cần có',
+  'taskField.can_be_split': 'Có thể chia nhỏ',
+  'taskField.requires_consecutive_time': 'Cần thời gian liền mạch',
+  'taskField.preferred_time_of_day': 'Thời điểm ưa thích trong ngày',
+  'taskField.avoid_time_of_day': 'Thời điểm nên tránh',
+  'taskField.is_repeat': 'Lặp lại',
+  'taskField.repeat_pattern': 'Kiểu lặp',
+  'taskField.repeat_frequency': 'Khoảng lặp',
+  'taskField.repeat_days_of_week': 'Lặp vào các ngày',
+  'taskField.repeat_end_date': 'Lặp đến',
+  'taskField.recurrence_rule': 'Quy tắc lặp (RRULE)',
+  'taskField.reminders': 'Nhắc trước (phút)',
+  'taskField.recurrence_exceptions': 'Các lần đã thay đổi',
+
+  'dashboard.openAssistant': 'Mở trợ lý AI',
+  'dashboard.closeAssistant': 'Đóng trợ lý AI',
+  'dashboard.welcome': 'Chào mừng trở lại, {name}! 👋',
+  'dashboard.pendingCount': 'Cùng làm một ngày hiệu quả nhé. Bạn có {count} việc chưa xong.',
+  'dashboard.askAssistant': 'Hỏi trợ lý AI',
+  'dashboard.askAssistantHint': 'Nhờ giúp đỡ với công việc và kế hoạch',
+  'dashboard.overdue': 'Quá hạn',
+  'dashboard.loading': 'Đang tải lịch của bạn...',
+
+  'tool.create_task': 'Tạo công việc',
+  'tool.update_task': 'Cập nhật công việc',
+  'tool.toggle_task_status': 'Đổi trạng thái',
+  'tool.delete_task': 'Xóa công việc',
+  'tool.start_timer': 'Bấm giờ',
+  'tool.stop_timer': 'Dừng bấm giờ',
+  'tool.call.create': 'Tạo "{name}"',
+  'tool.call.createAt': 'Tạo "{name}" vào {when}',
+  'tool.call.update': 'Cập nhật {task}',
+  'tool.call.updateAt': 'Chuyển {task} sang {when}',
+  'tool.call.renamed': '{change}, đổi tên thành "{name}"',
+  'tool.call.reopen': 'Mở lại {task}',
+  'tool.call.complete': 'Đánh dấu {task} là đã xong',
+  'tool.call.delete': 'Xóa {task}',
+  'tool.call.startTimer': 'Bấm giờ cho {task}',
+  'tool.call.stopTimer': 'Dừng bấm giờ cho "{task}"',
+  'tool.call.noTimer': 'Dừng bấm giờ (không có đồng hồ nào đang chạy)',
+  'tool.unknownTask': 'công việc không rõ',
+  'tool.untitled': 'Công việc chưa đặt tên',
+  'action.confidence': 'Chắc chắn {percent}%',
+  'action.task': 'Công việc',
+  'action.chooseTask': 'Chọn công việc…',
+  'action.name': 'Tên',
+  'action.when': 'Khi nào',
+  'action.duration': 'Thời lượng (phút)',
+  'action.priority': 'Ưu tiên (1-5)',
+  'action.approve': 'Đồng ý',
+  'action.edit': 'Sửa',
+  'action.doneEditing': 'Sửa xong',
+  'action.dismiss': 'Bỏ qua',
+  'action.running': 'Đang thực hiện…',
+  'action.done': '✓ Xong',
+  'action.dismissed': 'Đã bỏ qua',
+  'action.failed': 'Đã xảy ra lỗi',
+  'action.retry': 'Thử lại',
+
+  'quickAdd.title': 'Thêm nhanh',
+  'quickAdd.placeholder': 'Thêm nhanh: Gym tomorrow 7am 45m #health',
+  'quickAdd.label': 'Thêm nhanh công việc',
+  'quickAdd.close': 'Đóng thêm nhanh',
+  'quickAdd.namePlaceholder': 'Tên công việc…',
+  'quickAdd.add': 'Thêm công việc',
+  'quickAdd.added': 'Đã thêm công việc',
+  'quickAdd.addedOn': '"{name}" vào {date}',
+  'quickAdd.try': 'Thử:',
+
+  'merge.title': 'Công việc đã được sửa ở nơi khác',
+  'merge.intro': '"{task}" đã được lưu ở nơi khác trong lúc bạn đang sửa.',
+  'merge.conflicts': '{count} trường bị sửa ở cả hai phía; hãy chọn bản muốn giữ.',
+  'merge.noConflicts': 'Các thay đổi không trùng nhau nên có thể giữ cả hai.',
+  'merge.field': 'Trường',
+  'merge.original': 'Ban đầu',
+  'merge.mine': 'Của tôi',
+  'merge.theirs': 'Bản kia',
+  'merge.changedOnly': 'Chỉ hiện các trường đã đổi',
+  'merge.allFields': 'Hiện tất cả các trường',
+  'merge.keepTheirs': 'Giữ bản kia',
+  'merge.save': 'Lưu bản gộp',
+  'merge.saveFailed': 'Không lưu được bản gộp',
+  'merge.occurrences': '{count} lần lặp',
+
+  'deps.title': 'Phụ thuộc giữa các công việc',
+  'deps.close': 'Đóng',
+  'deps.empty': 'Chưa có công việc nào phụ thuộc công việc khác. Hãy liên kết chúng trong mục "Phụ thuộc & liên kết" của trình sửa công việc.',
+  'deps.criticalPath': 'Đường găng:',
+  'deps.workLeft': '(còn {duration} công việc)',
+  'deps.allDone': 'Mọi công việc liên kết đã xong.',
+  'deps.graph': 'Sơ đồ phụ thuộc',
+  'deps.minutes': '{minutes} phút',
+  'deps.hours': '{hours} giờ',
+  'deps.hoursMinutes': '{hours} giờ {minutes} phút',
+  'deps.legend.critical': 'Đường găng',
+  'deps.legend.waiting': 'Đang chờ việc tiên quyết',
+  'deps.legend.done': 'Đã xong',
+  'deps.legend.hint': 'Bấm vào công việc để xem chuỗi của nó, bấm đúp để sửa.',
+  'deps.done': 'Đã xong',
+  'deps.waitingOn': 'Đang chờ {tasks}',
+  'deps.ready': 'Sẵn sàng bắt đầu',
+  'deps.open': 'Mở công việc',
+  'deps.thisTask': 'Công việc này',
+  'deps.bothWays': '"{name}" không thể vừa phải làm trước vừa phải chờ công việc này',
+  'deps.loop': 'Các phụ thuộc này tạo thành vòng lặp: {path}',
+  'deps.prerequisiteLater': 'Việc phải làm trước "{name}" được xếp lịch sau công việc này',
+  'deps.blockedEarlier': '"{name}" chờ công việc này nhưng được xếp lịch trước nó',
+  'deps.show': 'Phụ thuộc',
+  'picker.missing': 'Không tìm thấy công việc {id}',
+  'picker.remove': 'Bỏ {task}',
+  'picker.search': 'Tìm công việc...',
+  'picker.noMatches': 'Không có công việc phù hợp',
+
+  'filter.title': 'Bộ lọc',
+  'filter.placeholder': 'Lọc công việc...',
+  'filter.search': 'Tìm công việc',
+  'filter.facet.statuses': 'Trạng thái',
+  'filter.facet.priorities': 'Mức ưu tiên',
+  'filter.facet.categories': 'Danh mục',
+  'filter.facet.assignees': 'Người phụ trách',
+  'filter.facet.tags': 'Thẻ',
+  'filter.facet.types': 'Loại',
+  'filter.type.task': 'Công việc',
+  'filter.from': 'Từ ngày',
+  'filter.to': 'Đến ngày',
+  'filter.hasDeadline': 'Có hạn chót',
+  'filter.overdue': 'Quá hạn',
+  'filter.sort': 'Sắp xếp',
+  'filter.views': 'Chế độ xem',
+  'filter.count': '{total} công việc',
+  'filter.shown': '{shown} trên {total} công việc',
+  'filter.clear': 'Xóa lọc ({count})',
+  'filter.remove': 'Bỏ {facet} {value}',
+  'sort.schedule': 'Lịch',
+  'sort.priority': 'Mức ưu tiên',
+  'sort.deadline': 'Hạn chót',
+  'sort.title': 'Tên',
+
+  'views.save': 'Lưu chế độ xem',
+  'views.edit': 'Sửa chế độ xem đã lưu',
+  'views.name': 'Tên',
+  'views.namePlaceholder': 'VD: Việc gấp ở công ty tuần này',
+  'views.dates': 'Ngày',
+  'views.asFiltered': 'Như bộ lọc hiện tại',
+  'views.window': '{window}, tính từ ngày mở',
+  'views.pinToSidebar': 'Ghim vào thanh bên',
+  'views.replace': 'Thay bộ lọc và bố cục bằng những gì đang hiện',
+  'views.summary': 'Mở dạng {layout}, sắp xếp theo {sort}{filter, select, current {, với bộ lọc hiện tại} other {, không lọc}}.',
+  'views.loading': 'Đang tải chế độ xem...',
+  'views.pinnedEmpty': 'Chế độ xem đã ghim sẽ hiện ở đây.',
+  'views.empty': 'Chưa có chế độ xem nào được lưu.',
+  'views.openAs': 'Mở dạng {layout}',
+  'views.pin': 'Ghim {name}',
+  'views.unpin': 'Bỏ ghim {name}',
+  'views.copyLink': 'Sao chép liên kết tới {name}',
+  'views.editView': 'Sửa {name}',
+  'views.deleteView': 'Xóa {name}',
+  'views.linkCopied': 'Đã sao chép liên kết',
+  'views.copyFailed': 'Không sao chép được liên kết',
+  'views.saveCurrent': 'Lưu chế độ xem hiện tại',
+  'views.notFound': 'Không tìm thấy chế độ xem',
+  'views.notFoundHint': 'Có thể nó đã bị xóa, hoặc được lưu trên trình duyệt khác.',
+  'views.saveFailed': 'Không lưu được chế độ xem',
+  'views.deleteFailed': 'Không xóa được chế độ xem',
+  'dateWindow.today': 'Hôm nay',
+  'dateWindow.this_week': 'Tuần này',
+  'dateWindow.next_7_days': '7 ngày tới',
+  'dateWindow.this_month': 'Tháng này',
+
+  'board.columns': 'Cột',
+  'board.swimlanes': 'Làn',
+  'board.noLanes': 'Không',
+  'board.group.status': 'Trạng thái',
+  'board.group.priority': 'Mức ưu tiên',
+  'board.group.category': 'Danh mục',
+  'board.group.assignee': 'Người phụ trách',
+  'board.status.pending': 'Cần làm',
+  'board.status.in_progress': 'Đang làm',
+  'board.status.on_hold': 'Tạm dừng',
+  'board.status.completed': 'Xong',
+  'board.status.cancelled': 'Đã hủy',
+  'board.uncategorized': 'Chưa phân loại',
+  'board.unassigned': 'Chưa giao',
+  'board.selected': 'Đã chọn {count}, kéo một mục bất kỳ để chuyển tất cả',
+  'board.wipReached': 'Đã chạm giới hạn việc đang làm',
+  'board.wipLimited': '{column} chỉ được có {limit} công việc. Hãy hoàn thành hoặc chuyển bớt một việc trước.',
+  'board.noLimit': 'Không giới hạn',
+  'board.limitFor': 'Giới hạn việc đang làm cho {column}',
+  'board.setLimit': 'Đặt giới hạn việc đang làm',
+  'board.moveFailed': 'Không chuyển được công việc',
+  'board.moveManyFailed': 'Không chuyển được các công việc',
+
+  'offline.waiting': '{count} thay đổi đang chờ đồng bộ',
+  'offline.attention': '{count} cần xem lại',
+  'offline.offline': 'Bạn đang ngoại tuyến. Thay đổi được lưu trên thiết bị này và sẽ đồng bộ khi có mạng lại.',
+  'offline.syncNow': 'Đồng bộ ngay',
+  'offline.status.pending': 'Đang chờ',
+  'offline.status.failed': 'Thất bại',
+  'offline.status.conflict': 'Xung đột',
+  'offline.keepMine': 'Giữ bản của tôi',
+  'offline.retry': 'Thử lại',
+  'offline.discard': 'Bỏ thay đổi này',
+  'offline.savedTitle': 'Đã lưu các thay đổi khi ngoại tuyến',
+  'offline.savedBody': 'Đã gửi {count} thay đổi lên máy chủ.',
+  'offline.failedTitle': 'Một số thay đổi cần xem lại',
+  'offline.failedBody': 'Mở danh sách thay đổi đang chờ để thử lại hoặc bỏ chúng.',
+  'outbox.create': 'Thêm "{name}"',
+  'outbox.update': 'Sửa "{name}"',
+  'outbox.delete': 'Xóa "{name}"',
+
+  'palette.title': 'Tìm công việc và thao tác',
+  'palette.placeholder': 'Tìm công việc, danh mục và thao tác...',
+  'palette.searching': 'Đang tìm các công việc cũ hơn...',
+  'palette.nothing': 'Không tìm thấy gì.',
+  'palette.tasks': 'Công việc',
+  'palette.olderTasks': 'Công việc cũ hơn',
+  'palette.categories': 'Danh mục',
+  'palette.show': 'Hiện',
+  'palette.actions': 'Thao tác',
+  'palette.newTask': 'Công việc mới',
+  'palette.today': 'Đến hôm nay',
+  'palette.switchView': 'Chuyển sang dạng {view}',
+  'palette.openBoard': 'Mở bảng',
+  'palette.clearFilters': 'Xóa bộ lọc',
+  'palette.toggleAssistant': 'Bật/tắt trợ lý',
+  'palette.openView': 'Mở chế độ xem: {name}',
+  'palette.hint': '{key}+K để mở hoặc đóng · ↑↓ để di chuyển · Enter để chạy',
+
+  'schedule.title': 'Lịch đề xuất',
+  'schedule.placed': 'Đã xếp {count} công việc',
+  'schedule.discard': 'Bỏ qua',
+  'schedule.acceptAll': 'Nhận tất cả',
+  'schedule.accept': 'Nhận',
+  'schedule.part': 'Phần {part}/{parts}: {when}',
+  'schedule.none': 'Không xếp được công việc nào vào giờ làm việc của bạn.',
+  'schedule.unplaced': 'Không xếp được',
+  'schedule.untitled': 'Công việc',
+  'schedule.reason.noTimeBeforeDeadline': 'Không còn giờ làm việc trống trước hạn chót',
+  'schedule.reason.noOpeningBeforeDeadline': 'Không có khoảng trống {minutes} phút trước hạn chót',
+  'schedule.reason.noOpening': 'Không có khoảng trống {minutes} phút trong {days} ngày tới',
+  'schedule.saveFailed': 'Không xếp lịch được công việc',
+  'schedule.splitFailed': 'Không thêm được phần còn lại của công việc đã chia',
+  'schedule.run': 'Tự động xếp lịch các công việc còn mở',
+
+  'subtasks.progress': 'Tiến độ {percent}%',
+  'subtasks.effort': 'Ước tính {hours} giờ công',
+  'subtasks.title': 'Công việc con',
+  'subtasks.saveFirst': 'Hãy lưu công việc trước khi chia thành công việc con.',
+  'subtasks.markDone': 'Đánh dấu {name} đã xong',
+  'subtasks.when': 'Thời điểm làm {name}',
+  'subtasks.delete': 'Xóa {name}',
+  'subtasks.add': 'Thêm công việc con...',
+  'subtasks.addFailed': 'Không thêm được công việc con',
+  'subtasks.scheduleFailed': 'Không xếp lịch được công việc con',
+  'subtasks.removeFailed': 'Không xóa được công việc con',
+  'checklist.title': 'Danh sách kiểm tra',
+  'checklist.remove': 'Bỏ {name}',
+  'checklist.add': 'Thêm mục kiểm tra...',
+
+  'zone.option': '{zone} ({offset})',
+  'zone.optionNamed': '{zone} ({name}, {offset})',
+
+  'tasks.loadFailed': 'Không tải được công việc',
+  'tasks.addFailed': 'Không thêm được công việc',
+  'tasks.updateFailed': 'Không cập nhật được công việc',
+  'tasks.statusFailed': 'Không đổi được trạng thái công việc',
+  'tasks.deleteFailed': 'Không xóa được công việc',
+  'tasks.updateManyFailed': 'Không cập nhật được các công việc',
+  'tasks.deleteManyFailed': 'Không xóa được các công việc',
+  'tasks.changeUndone': 'Thay đổi đã được hoàn tác.',
+  'tasks.seriesMissing': 'Không tìm thấy công việc lặp lại.',
+
+  'editor.create': 'Tạo công việc chi tiết',
+  'editor.update': 'Cập nhật công việc chi tiết',
+  'editor.applyTo': 'Áp dụng cho',
+  'editor.skip': 'Bỏ qua lần này',
+  'editor.onlyThis': 'Chỉ ngày, giờ và thời lượng của lần này thay đổi.',
+  'editor.required': 'Cần có tên công việc và ngày',
+  'editor.saveFailed': 'Không lưu được công việc',
+  'editor.skipFailed': 'Không bỏ qua được lần này',
+  'editor.namePlaceholder': 'Nhập tên công việc...',
+  'editor.descriptionPlaceholder': 'Mô tả chi tiết công việc...',
+  'editor.chooseCategory': 'Chọn danh mục...',
+  'editor.tags': 'Thẻ (cách nhau bằng dấu phẩy)',
+  'editor.tagsPlaceholder': 'gấp, họp, dự án...',
+  'editor.timing': 'Thời gian & thời lượng',
+  'editor.specificTime': 'Giờ cụ thể',
+  'editor.flexibility': 'Độ linh hoạt của hạn chót (phút)',
+  'editor.timeZone': 'Múi giờ',
+  'editor.zoneHint': 'Ngày giờ ở trên tính theo giờ {city}; các lần lặp giữ nguyên giờ đó ở {city}.',
+  'editor.duration': 'Thời lượng (phút)',
+  'editor.estimated': 'Thời lượng ước tính',
+  'editor.minimum': 'Thời lượng tối thiểu',
+  'editor.maximum': 'Thời lượng tối đa',
+  'editor.effort': 'Công sức ước tính (giờ)',
+  'editor.spent': 'Thời gian thực tế (phút)',
+  'editor.priorityDifficulty': 'Ưu tiên & độ khó',
+  'editor.priority': 'Ưu tiên (1-5)',
+  'editor.urgency': 'Mức khẩn (1-5)',
+  'editor.difficulty': 'Độ khó (1-5)',
+  'editor.urgency.1': 'Khẩn cấp',
+  'editor.urgency.2': 'Cao',
+  'editor.urgency.3': 'Trung bình',
+  'editor.urgency.4': 'Thấp',
+  'editor.urgency.5': 'Thấp nhất',
+  'editor.difficulty.1': 'Rất khó',
+  'editor.difficulty.2': 'Khó',
+  'editor.difficulty.3': 'Trung bình',
+  'editor.difficulty.4': 'Dễ',
+  'editor.difficulty.5': 'Rất dễ',
+  'editor.basePriority': 'Ưu tiên gốc',
+  'editor.urgencyMultiplier': 'Hệ số khẩn',
+  'editor.completion': 'Mức hoàn thành: {percent}%',
+  'editor.locationTools': 'Địa điểm & công cụ',
+  'editor.locationPlaceholder': 'Việc này diễn ra ở đâu?',
+  'editor.tools': 'Công cụ cần có (cách nhau bằng dấu phẩy)',
+  'editor.toolsPlaceholder': 'máy tính xách tay, sổ tay, máy tính bỏ túi...',
+  'editor.dependencies': 'Phụ thuộc & liên kết',
+  'editor.prerequisites': 'Việc phải làm trước',
+  'editor.prerequisitesHint': 'Phải xong trước khi công việc này bắt đầu',
+  'editor.blocking': 'Việc đang chờ',
+  'editor.blockingHint': 'Chờ công việc này xong',
+  'editor.scheduling': 'Ràng buộc xếp lịch',
+  'editor.canSplit': 'Có thể chia thành nhiều phần nhỏ',
+  'editor.consecutive': 'Cần một khoảng thời gian liền',
+  'editor.preferredTime': 'Thời điểm ưa thích trong ngày',
+  'editor.preferredPlaceholder': 'sáng, chiều, tối...',
+  'editor.avoidTime': 'Thời điểm cần tránh',
+  'editor.avoidPlaceholder': 'đêm khuya, sáng sớm...',
+  'editor.repetition': 'Lặp lại',
+  'editor.isRepeat': 'Đây là công việc lặp lại',
+  'editor.pattern': 'Kiểu lặp',
+  'editor.choosePattern': 'Chọn kiểu lặp...',
+  'editor.frequency': 'Tần suất',
+  'editor.days': 'Các ngày trong tuần',
+  'editor.daysPlaceholder': 'Monday, Tuesday, Friday...',
+  'editor.endsOn': 'Kết thúc vào',
+  'editor.ai': 'AI & chỉ số chất lượng',
+  'editor.aiSuggested': 'Công việc do AI gợi ý',
+  'editor.satisfaction': 'Mức hài lòng (1-5)',
+  'editor.notRated': 'Chưa đánh giá',
+  'editor.rating.1': 'Kém',
+  'editor.rating.2': 'Tạm được',
+  'editor.rating.3': 'Tốt',
+  'editor.rating.4': 'Rất tốt',
+  'editor.rating.5': 'Xuất sắc',
+  'editor.confidence': 'Độ tin cậy của AI (0-1)',
+
+  'home.title': 'Bảng quản lý công việc',
+  'home.calendar': 'Quản lý công việc với hạn chót, mức ưu tiên và lịch trình trên một lịch trực quan.',
+  'home.calendar.times': 'Tạo công việc với giờ cụ thể',
+  'home.calendar.deadlines': 'Đặt hạn chót và mức ưu tiên',
+  'home.calendar.completion': 'Theo dõi mức hoàn thành',
+  'home.calendar.categories': 'Sắp xếp theo danh mục',
+  'home.profile': 'Hồ sơ của bạn',
+  'home.loggedInAs': 'Đăng nhập với tên {name}',
+  'home.auth': 'Xác thực: {method, select, session {Phiên đang hoạt động} other {Mã truy cập hợp lệ}}',
+  'home.features': 'Tính năng công việc',
+  'home.feature.priority': 'Mức ưu tiên (thang 1-5)',
+  'home.feature.categories': 'Danh mục & thẻ công việc',
+  'home.feature.location': 'Theo dõi địa điểm',
+  'home.feature.duration': 'Ước tính thời lượng',
+  'home.backend': '🔗 Kết nối máy chủ',
+  'home.backendBody': 'Lịch của bạn đã được kết nối với máy chủ quản lý công việc Django hiện có. Mọi công việc được lưu trong cơ sở dữ liệu với đầy đủ thao tác tạo, xem, sửa, xóa, quản lý mức ưu tiên và sắp xếp theo danh mục.',
+  'home.badge.crud': '✅ Tạo, sửa, xóa công việc',
+  'home.badge.categories': '✅ Danh mục',
+  'home.badge.priorities': '✅ Mức ưu tiên',
+  'home.badge.status': '✅ Theo dõi trạng thái',
+  'home.badge.statistics': '✅ Thống kê',
+};
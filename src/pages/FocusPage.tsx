@@ -0,0 +1,275 @@
+import { useCallback, useMemo, useState, type ReactNode } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, Pause, Play, SkipForward, Square } from "lucide-react";
+import { AICircle } from "@/components/AICircle";
+import { Button } from "@/components/jarvis_ui/button";
+import { useFocusSession, useRemaining } from "@/hooks/use-focus-session";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSettings } from "@/hooks/use-settings";
+import { useTasks } from "@/hooks/use-tasks";
+import { toast } from "@/hooks/use-toast";
+import {
+  focusScore, parseFocusCommand, pauseFocus, resumeFocus, skipFocusPhase, startFocus, stopFocus, suggestNextTask,
+  switchFocusTask, type FocusSession,
+} from "@/lib/focusSession";
+import { canSpeak, createAssistantUtterance } from "@/lib/speech";
+import { formatElapsed } from "@/lib/timeTracking";
+import type { FocusSettings } from "@/types/CalendarTypes";
+import type { Task } from "@/types/TaskTypes";
+
+const WORK_OPTIONS = [15, 20, 25, 30, 45, 50, 60, 90]; // minutes
+const SHORT_BREAK_OPTIONS = [3, 5, 10, 15];
+const LONG_BREAK_OPTIONS = [10, 15, 20, 30];
+const LONG_BREAK_EVERY_OPTIONS = [2, 3, 4, 5, 6];
+
+const selectClass = "rounded-md border border-primary/20 bg-background/50 px-2 py-1.5";
+
+const Row = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="flex items-center justify-between gap-4 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    {children}
+  </label>
+);
+
+const isOpen = (task: Task) => task.status !== "completed" && task.status !== "cancelled";
+
+// /focus: work/break intervals on a task around the assistant's ring. The session runs on in
+// FocusSessionRunner while other pages are open, and everything here works offline
+const FocusPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const session = useFocusSession();
+  const remaining = useRemaining(session);
+  const { data: tasks = [] } = useTasks();
+  const { settings, updateSettings } = useSettings();
+  const { focus } = settings;
+  const { t, speechLang } = useI18n();
+  const [pickedId, setPickedId] = useState<string | null>(searchParams.get("task"));
+
+  // Most pressing first, the same order the suggestion comes from
+  const openTasks = useMemo(() => {
+    const now = new Date();
+    return tasks.filter(isOpen).sort((a, b) => focusScore(b, now) - focusScore(a, now));
+  }, [tasks]);
+  const suggestion = useMemo(() => suggestNextTask(tasks), [tasks]);
+  const upNext = useMemo(
+    () => (session && !session.workStartedAt ? suggestNextTask(tasks, { exclude: session.taskId }) : undefined),
+    [tasks, session]
+  );
+  const picked = openTasks.find(task => task.id === pickedId) ?? suggestion;
+
+  const say = useCallback((text: string) => {
+    if (focus.spokenCues && canSpeak()) window.speechSynthesis.speak(createAssistantUtterance(text, speechLang));
+  }, [focus.spokenCues, speechLang]);
+
+  const perform = useCallback((action: Promise<unknown>) => {
+    action.catch(error => {
+      console.error("❌ Focus session change failed:", error);
+      toast({ title: t("focus.failed"), description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    });
+  }, [t]);
+
+  const start = useCallback((task: Task) => {
+    perform(startFocus(task, focus));
+    say(t("focus.cue.start", { task: task.name, minutes: focus.workMinutes }));
+  }, [perform, say, focus, t]);
+
+  const goBack = () => (location.key === "default" ? navigate("/") : navigate(-1));
+
+  // "Pause", "resume", "skip" or "stop" said to the ring; before a session, "start" starts one
+  const handleVoiceInput = useCallback((text: string) => {
+    const command = parseFocusCommand(text);
+    console.log("🎤 Focus command:", text, "→", command);
+    if (!session) {
+      if (command === "resume" && picked) start(picked);
+      return;
+    }
+    if (command === "pause") perform(pauseFocus());
+    if (command === "resume") perform(resumeFocus());
+    if (command === "skip") perform(skipFocusPhase(focus));
+    if (command === "stop") perform(stopFocus());
+  }, [session, picked, start, perform, focus]);
+
+  return (
+    <div className="min-h-screen bg-tech-gradient tech-grid relative">
+      <div className="absolute inset-0 bg-gradient-to-br from-tech-dark via-background to-tech-darker opacity-90" />
+
+      <div className="relative z-10 max-w-3xl mx-auto p-6 space-y-8">
+        <header className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={goBack} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t("settings.back")}
+          </Button>
+          <h1 className="text-3xl font-bold text-glow flex-1">{t("focus.title")}</h1>
+        </header>
+
+        {session ? (
+          <ActiveSession
+            session={session}
+            remaining={remaining}
+            upNext={upNext}
+            onVoiceInput={handleVoiceInput}
+            onPause={() => perform(pauseFocus())}
+            onResume={() => perform(resumeFocus())}
+            onSkip={() => perform(skipFocusPhase(focus))}
+            onStop={() => perform(stopFocus())}
+            onSwitch={(task) => perform(switchFocusTask(task))}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div className="flex justify-center">
+              <AICircle
+                size={240}
+                onVoiceInput={handleVoiceInput}
+                progress={0}
+                label={formatElapsed(focus.workMinutes * 60 * 1000)}
+                title={picked ? t("focus.workingOn", { task: picked.name }) : t("focus.title")}
+                hint={t("focus.voiceStart")}
+              />
+            </div>
+
+            <div className="rounded-lg border border-primary/20 bg-card/10 backdrop-blur-sm p-6 space-y-4">
+              {openTasks.length ? (
+                <Row label={t("focus.pickTask")}>
+                  <select
+                    value={picked?.id ?? ""}
+                    onChange={(e) => setPickedId(e.target.value)}
+                    className={`${selectClass} max-w-xs`}
+                  >
+                    <option value="" disabled>{t("focus.chooseTask")}</option>
+                    {openTasks.map(task => (
+                      <option key={task.id} value={task.id}>
+                        {task.id === suggestion?.id ? `${task.name} · ${t("focus.suggested")}` : task.name}
+                      </option>
+                    ))}
+                  </select>
+                </Row>
+              ) : (
+                <p className="text-sm text-muted-foreground">{t("focus.noTasks")}</p>
+              )}
+              <Button onClick={() => picked && start(picked)} disabled={!picked} className="w-full">
+                <Play className="w-4 h-4 me-2" />
+                {t("focus.start")}
+              </Button>
+            </div>
+
+            <IntervalSettings focus={focus} onChange={(changes) => updateSettings({ focus: changes })} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface ActiveSessionProps {
+  session: FocusSession;
+  remaining: number;
+  upNext?: Task;
+  onVoiceInput: (text: string) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+  onSwitch: (task: Task) => void;
+}
+
+const ActiveSession = ({
+  session, remaining, upNext, onVoiceInput, onPause, onResume, onSkip, onStop, onSwitch,
+}: ActiveSessionProps) => {
+  const { t } = useI18n();
+  const running = Boolean(session.endsAt);
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <AICircle
+        size={280}
+        onVoiceInput={onVoiceInput}
+        progress={session.phaseMs ? 1 - remaining / session.phaseMs : 0}
+        label={formatElapsed(remaining)}
+        title={running ? t(`focus.phase.${session.phase}`) : t("focus.paused")}
+        hint={t("focus.voiceHint")}
+      />
+
+      <div className="text-center space-y-1">
+        <p className="text-lg">{t("focus.workingOn", { task: session.taskName })}</p>
+        <p className="text-sm text-muted-foreground">{t("focus.completed", { count: session.completedWork })}</p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        {running ? (
+          <Button variant="outline" onClick={onPause}>
+            <Pause className="w-4 h-4 me-2" />
+            {t("focus.pause")}
+          </Button>
+        ) : (
+          <Button onClick={onResume}>
+            <Play className="w-4 h-4 me-2" />
+            {t("focus.resume")}
+          </Button>
+        )}
+        <Button variant="outline" onClick={onSkip}>
+          <SkipForward className="w-4 h-4 me-2 rtl:rotate-180" />
+          {t("focus.skip")}
+        </Button>
+        <Button variant="destructive" onClick={onStop}>
+          <Square className="w-4 h-4 me-2" />
+          {t("focus.stop")}
+        </Button>
+      </div>
+
+      {/* Between work phases the task can change, starting with the one most worth doing */}
+      {upNext && (
+        <div className="flex items-center gap-3 rounded-lg border border-primary/20 bg-card/10 backdrop-blur-sm px-4 py-3 text-sm">
+          <span>{t("focus.upNext", { task: upNext.name })}</span>
+          <Button size="sm" variant="outline" onClick={() => onSwitch(upNext)}>
+            {t("focus.switch")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const IntervalSettings = ({ focus, onChange }: { focus: FocusSettings; onChange: (changes: Partial<FocusSettings>) => void }) => {
+  const { t } = useI18n();
+  const minuteSelect = (value: number, options: number[], key: keyof FocusSettings) => (
+    <select value={value} onChange={(e) => onChange({ [key]: Number(e.target.value) })} className={selectClass}>
+      {options.map(minutes => (
+        <option key={minutes} value={minutes}>{t("settings.minutes", { count: minutes })}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="rounded-lg border border-primary/20 bg-card/10 backdrop-blur-sm p-6 space-y-4">
+      <h2 className="font-semibold">{t("focus.intervals")}</h2>
+      <Row label={t("focus.work")}>{minuteSelect(focus.workMinutes, WORK_OPTIONS, "workMinutes")}</Row>
+      <Row label={t("focus.shortBreak")}>{minuteSelect(focus.shortBreakMinutes, SHORT_BREAK_OPTIONS, "shortBreakMinutes")}</Row>
+      <Row label={t("focus.longBreak")}>{minuteSelect(focus.longBreakMinutes, LONG_BREAK_OPTIONS, "longBreakMinutes")}</Row>
+      <Row label={t("focus.longBreakEvery")}>
+        <select
+          value={focus.sessionsBeforeLongBreak}
+          onChange={(e) => onChange({ sessionsBeforeLongBreak: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {LONG_BREAK_EVERY_OPTIONS.map(count => (
+            <option key={count} value={count}>{t("focus.sessions", { count })}</option>
+          ))}
+        </select>
+      </Row>
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={focus.spokenCues && canSpeak()}
+          onChange={(e) => onChange({ spokenCues: e.target.checked })}
+          disabled={!canSpeak()}
+          className="rounded border-primary/30"
+        />
+        {t("focus.spokenCues")}
+      </label>
+    </div>
+  );
+};
+
+export default FocusPage;
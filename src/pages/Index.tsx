@@ -1,10 +1,16 @@
 // src/pages/Index.tsx - Updated to use your existing Django backend
 
 import React, { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import GoogleAuth from '@/components/GoogleAuth';
 import AdaptedCalendarContainer from '@/components/CalendarContainer'; // Using the adapted version
+import { TaskBoard } from '@/components/board/TaskBoard';
+import { ReminderMenu } from '@/components/reminders/ReminderMenu';
+import { RunningTimer } from '@/components/time/RunningTimer';
+import { TimeReport } from '@/components/time/TimeReport';
+import { useI18n } from '@/hooks/use-i18n';
 import { Button } from '@/components/calendar_ui/button';
-import { Calendar as CalendarIcon, User, Settings, LogOut, BarChart3 } from 'lucide-react';
+import { Calendar as CalendarIcon, User, Settings, LogOut, BarChart3, Columns3, Target } from 'lucide-react';
 
 interface User {
   id: string;
@@ -22,6 +28,17 @@ const Index = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const [currentView, setCurrentView] = useState<'calendar' | 'dashboard'>('calendar');
+  // The board has a route of its own so it can be linked to and reloaded
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const isBoard = location.pathname === '/board';
+
+  // The filter in the query string comes along, so switching views keeps the same tasks in sight
+  const showView = (view: 'calendar' | 'dashboard') => {
+    setCurrentView(view);
+    if (isBoard) navigate({ pathname: '/', search: location.search });
+  };
 
   const handleAuthSuccess = (userData: User) => {
     console.log('✅ Authentication successful, connecting to task backend:', userData);
@@ -73,22 +90,40 @@ const Index = () => {
               {/* Navigation Buttons */}
               <nav className="flex items-center gap-2">
                 <Button
-                  variant={currentView === 'calendar' ? 'default' : 'ghost'}
+                  variant={!isBoard && currentView === 'calendar' ? 'default' : 'ghost'}
                   size="sm"
-                  onClick={() => setCurrentView('calendar')}
+                  onClick={() => showView('calendar')}
                   className="flex items-center gap-2"
                 >
                   <CalendarIcon className="h-4 w-4" />
-                  Task Calendar
+                  {t('nav.calendar')}
+                </Button>
+                <Button
+                  variant={isBoard ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => navigate({ pathname: '/board', search: location.search })}
+                  className="flex items-center gap-2"
+                >
+                  <Columns3 className="h-4 w-4" />
+                  {t('nav.board')}
                 </Button>
                 <Button
-                  variant={currentView === 'dashboard' ? 'default' : 'ghost'}
+                  variant={!isBoard && currentView === 'dashboard' ? 'default' : 'ghost'}
                   size="sm"
-                  onClick={() => setCurrentView('dashboard')}
+                  onClick={() => showView('dashboard')}
                   className="flex items-center gap-2"
                 >
                   <BarChart3 className="h-4 w-4" />
-                  Dashboard
+                  {t('nav.dashboard')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate('/focus')}
+                  className="flex items-center gap-2"
+                >
+                  <Target className="h-4 w-4" />
+                  {t('nav.focus')}
                 </Button>
               </nav>
             </div>
@@ -112,13 +147,16 @@ const Index = () => {
               
               {/* Action Buttons */}
               <div className="flex items-center gap-2">
+                <RunningTimer className="max-w-[16rem]" />
+                <ReminderMenu />
                 <Button
                   variant="ghost"
                   size="sm"
+                  onClick={() => navigate('/settings')}
                   className="flex items-center gap-2"
                 >
                   <Settings className="h-4 w-4" />
-                  <span className="hidden md:inline">Settings</span>
+                  <span className="hidden md:inline">{t('nav.settings')}</span>
                 </Button>
                 <Button
                   variant="outline"
@@ -127,7 +165,7 @@ const Index = () => {
                   className="flex items-center gap-2 hover:bg-red-50 hover:text-red-600 hover:border-red-200"
                 >
                   <LogOut className="h-4 w-4" />
-                  <span className="hidden md:inline">Sign Out</span>
+                  <span className="hidden md:inline">{t('nav.signOut')}</span>
                 </Button>
               </div>
             </div>
@@ -137,7 +175,9 @@ const Index = () => {
 
       {/* Main Content */}
       <main>
-        {currentView === 'calendar' ? (
+        {isBoard ? (
+          <TaskBoard />
+        ) : currentView === 'calendar' ? (
           <AdaptedCalendarContainer />
         ) : (
           <TaskDashboardView user={user} />
@@ -149,12 +189,13 @@ const Index = () => {
 
 // Task Dashboard View Component
 const TaskDashboardView: React.FC<{ user: User | null }> = ({ user }) => {
+  const { t } = useI18n();
   return (
     <div className="container mx-auto py-8">
       <div className="max-w-6xl mx-auto px-6">
         <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-white/50">
           <h2 className="text-3xl font-bold text-gray-900 mb-6">
-            Task Management Dashboard
+            {t('home.title')}
           </h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -164,16 +205,16 @@ const TaskDashboardView: React.FC<{ user: User | null }> = ({ user }) => {
                 <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
                   <CalendarIcon className="h-5 w-5 text-white" />
                 </div>
-                <h3 className="text-lg font-semibold text-gray-900">Task Calendar</h3>
+                <h3 className="text-lg font-semibold text-gray-900">{t('nav.calendar')}</h3>
               </div>
               <p className="text-gray-600 text-sm">
-                Manage your tasks with deadlines, priorities, and scheduling on a visual calendar.
+                {t('home.calendar')}
               </p>
               <ul className="mt-3 text-xs text-gray-500 space-y-1">
-                <li>• Create tasks with specific times</li>
-                <li>• Set deadlines and priorities</li>
-                <li>• Track task completion</li>
-                <li>• Organize by categories</li>
+                <li>• {t('home.calendar.times')}</li>
+                <li>• {t('home.calendar.deadlines')}</li>
+                <li>• {t('home.calendar.completion')}</li>
+                <li>• {t('home.calendar.categories')}</li>
               </ul>
             </div>
             
@@ -185,16 +226,16 @@ const TaskDashboardView: React.FC<{ user: User | null }> = ({ user }) => {
                   alt={user?.name}
                   className="w-10 h-10 rounded-lg border-2 border-white shadow-sm"
                 />
-                <h3 className="text-lg font-semibold text-gray-900">Your Profile</h3>
+                <h3 className="text-lg font-semibold text-gray-900">{t('home.profile')}</h3>
               </div>
               <p className="text-gray-600 text-sm">
-                Logged in as {user?.firstName} 
+                {t('home.loggedInAs', { name: user?.firstName ?? '' })}
               </p>
               <p className="text-xs text-gray-500 mt-1">
                 {user?.email}
               </p>
               <p className="text-green-600 text-xs mt-2">
-                Auth: {user?.loginMethod === 'session' ? 'Session Active' : 'Token Valid'}
+                {t('home.auth', { method: user?.loginMethod ?? '' })}
               </p>
             </div>
             
@@ -204,45 +245,48 @@ const TaskDashboardView: React.FC<{ user: User | null }> = ({ user }) => {
                 <div className="w-10 h-10 bg-purple-600 rounded-lg flex items-center justify-center">
                   <span className="text-white text-lg">📋</span>
                 </div>
-                <h3 className="text-lg font-semibold text-gray-900">Task Features</h3>
+                <h3 className="text-lg font-semibold text-gray-900">{t('home.features')}</h3>
               </div>
               <ul className="text-sm text-gray-600 space-y-2">
                 <li className="flex items-center gap-2">
                   <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
-                  Priority levels (1-5 scale)
+                  {t('home.feature.priority')}
                 </li>
                 <li className="flex items-center gap-2">
                   <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
-                  Task categories & tags
+                  {t('home.feature.categories')}
                 </li>
                 <li className="flex items-center gap-2">
                   <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
-                  Location tracking
+                  {t('home.feature.location')}
                 </li>
                 <li className="flex items-center gap-2">
                   <span className="w-2 h-2 bg-purple-500 rounded-full"></span>
-                  Duration estimation
+                  {t('home.feature.duration')}
                 </li>
               </ul>
             </div>
           </div>
           
+          {/* Estimates vs tracked time */}
+          <div className="mt-8 rounded-xl border border-gray-200 bg-white p-6">
+            <TimeReport />
+          </div>
+          
           {/* Integration Info */}
           <div className="mt-8 p-4 bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl border border-indigo-200">
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
-              🔗 Backend Integration
+              {t('home.backend')}
             </h3>
             <p className="text-sm text-gray-600">
-              Your calendar is now connected to your existing Django task management backend. 
-              All tasks are stored in your database with full CRUD operations, priority management, 
-              and category organization.
+              {t('home.backendBody')}
             </p>
             <div className="mt-3 flex flex-wrap gap-2">
-              <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">✅ Task CRUD</span>
-              <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full">✅ Categories</span>
-              <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded-full">✅ Priorities</span>
-              <span className="px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded-full">✅ Status Tracking</span>
-              <span className="px-2 py-1 bg-pink-100 text-pink-700 text-xs rounded-full">✅ Statistics</span>
+              <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">{t('home.badge.crud')}</span>
+              <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full">{t('home.badge.categories')}</span>
+              <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded-full">{t('home.badge.priorities')}</span>
+              <span className="px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded-full">{t('home.badge.status')}</span>
+              <span className="px-2 py-1 bg-pink-100 text-pink-700 text-xs rounded-full">{t('home.badge.statistics')}</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,36 @@
+import { Link, Navigate, useParams } from "react-router-dom";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useSettings } from "@/hooks/use-settings";
+import { savedViewUrl } from "@/lib/savedViews";
+
+// /views/:id opens the page a saved view was saved from, with its filter and options in the URL
+const SavedViewPage = () => {
+  const { id } = useParams();
+  const { data: views, isLoading, error } = useSavedViews();
+  const { settings } = useSettings();
+  const { t } = useI18n();
+  const view = views?.find(item => item.id === id);
+
+  if (view) return <Navigate to={savedViewUrl(view, settings.startOfWeek)} replace />;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      {isLoading ? (
+        <div className="w-8 h-8 border-2 border-gray-300 border-t-indigo-600 rounded-full animate-spin" />
+      ) : (
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">{t("views.notFound")}</h1>
+          <p className="text-gray-600 mb-4">
+            {error ? error.message : t("views.notFoundHint")}
+          </p>
+          <Link to="/" className="text-blue-500 hover:text-blue-700 underline">
+            {t("common.home")}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewPage;
@@ -0,0 +1,245 @@
+import type { ReactNode } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { addDays, format } from "date-fns";
+import { ArrowLeft, Bell, Briefcase, Calendar as CalendarIcon, Globe, Languages, Loader2 } from "lucide-react";
+import { Button } from "@/components/calendar_ui/button";
+import { Card } from "@/components/calendar_ui/card";
+import { NotificationSettingsForm } from "@/components/reminders/NotificationSettingsForm";
+import { TimeZoneSelect } from "@/components/settings/TimeZoneSelect";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSettings } from "@/hooks/use-settings";
+import { LANGUAGES, resolveLanguage, type LanguageCode } from "@/lib/i18n";
+import { DATE_FORMATS, displayTimeZone } from "@/lib/settings";
+import { formatTaskTime } from "@/lib/taskMappers";
+import { deviceTimeZone, timeZoneCity } from "@/lib/timezones";
+import { cn } from "@/lib/utils";
+import type { CalendarSettings, TimeFormat, WeekStart } from "@/types/CalendarTypes";
+
+const DEFAULT_VIEWS: CalendarSettings["defaultView"][] = ["month", "week", "day"];
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120]; // minutes
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+// Weekday names are read off a known Sunday, in the UI language
+const SAMPLE_SUNDAY = new Date(2026, 0, 4);
+// Shows what each time format looks like
+const SAMPLE_TIME = new Date(2026, 0, 1, 13, 30);
+
+const selectClass = "border border-gray-300 rounded-lg px-2 py-1 bg-white";
+
+const Row = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="flex items-center justify-between gap-4 text-sm text-gray-700">
+    {label}
+    {children}
+  </label>
+);
+
+// /settings: calendar preferences, working hours and reminders, saved as they are changed
+const SettingsPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { settings, updateSettings, isSaving } = useSettings();
+  const { t, dateLocale } = useI18n();
+  const { workingHours } = settings;
+  const weekdayOrder = WEEKDAYS.map(index => (index + settings.startOfWeek) % 7);
+  const weekdayName = (day: number, pattern = "EEE") => format(addDays(SAMPLE_SUNDAY, day), pattern, { locale: dateLocale });
+  const browserLanguage = LANGUAGES[resolveLanguage()].name;
+
+  // A language brings its usual first day of the week along; it can still be changed below
+  const changeLanguage = (language: string) =>
+    updateSettings({ language, startOfWeek: LANGUAGES[resolveLanguage(language)].weekStartsOn });
+
+  // Back to wherever Settings was opened from, or home when the page was opened directly
+  const goBack = () => (location.key === "default" ? navigate("/") : navigate(-1));
+
+  const toggleWorkingDay = (day: number) =>
+    updateSettings({
+      workingHours: {
+        workingDays: workingHours.workingDays.includes(day)
+          ? workingHours.workingDays.filter(existing => existing !== day)
+          : [...workingHours.workingDays, day].sort((a, b) => a - b),
+      },
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="max-w-3xl mx-auto flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={goBack} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t("settings.back")}
+          </Button>
+          <h1 className="text-2xl font-bold text-gray-900 flex-1">{t("settings.title")}</h1>
+          {isSaving && (
+            <span className="flex items-center gap-1 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t("settings.saving")}
+            </span>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Languages className="h-5 w-5 text-blue-600" />
+            {t("settings.language")}
+          </h2>
+          <Row label={t("settings.language")}>
+            <select value={settings.language} onChange={(e) => changeLanguage(e.target.value)} className={selectClass}>
+              <option value="">{t("settings.languageBrowser", { language: browserLanguage })}</option>
+              {(Object.keys(LANGUAGES) as LanguageCode[]).map(code => (
+                <option key={code} value={code} lang={code}>{LANGUAGES[code].name}</option>
+              ))}
+            </select>
+          </Row>
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <CalendarIcon className="h-5 w-5 text-blue-600" />
+            {t("settings.calendar")}
+          </h2>
+          <Row label={t("settings.defaultView")}>
+            <select
+              value={settings.defaultView}
+              onChange={(e) => updateSettings({ defaultView: e.target.value as CalendarSettings["defaultView"] })}
+              className={selectClass}
+            >
+              {DEFAULT_VIEWS.map(view => (
+                <option key={view} value={view}>{t("settings.viewOption", { view: t(`view.${view}`) })}</option>
+              ))}
+            </select>
+          </Row>
+          <Row label={t("settings.weekStart")}>
+            <select
+              value={settings.startOfWeek}
+              onChange={(e) => updateSettings({ startOfWeek: Number(e.target.value) as WeekStart })}
+              className={selectClass}
+            >
+              <option value={0}>{weekdayName(0, "EEEE")}</option>
+              <option value={1}>{weekdayName(1, "EEEE")}</option>
+            </select>
+          </Row>
+          <Row label={t("settings.timeFormat")}>
+            <select
+              value={settings.timeFormat}
+              onChange={(e) => updateSettings({ timeFormat: e.target.value as TimeFormat })}
+              className={selectClass}
+            >
+              <option value="12h">{t("settings.time12h", { example: formatTaskTime(SAMPLE_TIME, "12h", undefined, dateLocale) })}</option>
+              <option value="24h">{t("settings.time24h", { example: formatTaskTime(SAMPLE_TIME, "24h") })}</option>
+            </select>
+          </Row>
+          <Row label={t("settings.dateFormat")}>
+            <select
+              value={settings.dateFormat}
+              onChange={(e) => updateSettings({ dateFormat: e.target.value })}
+              className={selectClass}
+            >
+              {DATE_FORMATS.map(({ pattern, example }) => (
+                <option key={pattern} value={pattern}>{example}</option>
+              ))}
+            </select>
+          </Row>
+          <Row label={t("settings.duration")}>
+            <select
+              value={settings.defaultEventDuration}
+              onChange={(e) => updateSettings({ defaultEventDuration: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {DURATION_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{t("settings.minutes", { count: minutes })}</option>
+              ))}
+            </select>
+          </Row>
+          <p className="text-xs text-muted-foreground">
+            {t("settings.todayIs", { date: format(new Date(), settings.dateFormat, { locale: dateLocale }) })}
+          </p>
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Globe className="h-5 w-5 text-blue-600" />
+            {t("settings.timeZones")}
+          </h2>
+          <Row label={t("settings.showTimesIn")}>
+            <TimeZoneSelect
+              value={settings.timezone}
+              onChange={(timezone) => updateSettings({ timezone })}
+              emptyLabel={t("settings.deviceZone", { city: timeZoneCity(deviceTimeZone()) })}
+              className={cn(selectClass, "max-w-xs")}
+            />
+          </Row>
+          <Row label={t("settings.secondZone")}>
+            <TimeZoneSelect
+              value={settings.secondaryTimezone}
+              onChange={(secondaryTimezone) => updateSettings({ secondaryTimezone })}
+              emptyLabel={t("settings.none")}
+              className={cn(selectClass, "max-w-xs")}
+            />
+          </Row>
+          <p className="text-xs text-muted-foreground">
+            {t("settings.zoneNow", {
+              time: formatTaskTime(new Date(), settings.timeFormat, displayTimeZone(settings), dateLocale),
+              city: timeZoneCity(displayTimeZone(settings)),
+            })}{" "}
+            {t("settings.zoneHint")}
+          </p>
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Briefcase className="h-5 w-5 text-blue-600" />
+            {t("settings.workingHours")}
+          </h2>
+          <Row label={t("settings.from")}>
+            <input
+              type="time"
+              value={workingHours.start}
+              onChange={(e) => e.target.value && updateSettings({ workingHours: { start: e.target.value } })}
+              className={selectClass}
+            />
+          </Row>
+          <Row label={t("settings.until")}>
+            <input
+              type="time"
+              value={workingHours.end}
+              onChange={(e) => e.target.value && updateSettings({ workingHours: { end: e.target.value } })}
+              className={selectClass}
+            />
+          </Row>
+          <div className="flex flex-wrap gap-1">
+            {weekdayOrder.map(day => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWorkingDay(day)}
+                className={cn(
+                  "px-3 py-1 rounded-full border text-xs transition-colors",
+                  workingHours.workingDays.includes(day)
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                )}
+              >
+                {weekdayName(day)}
+              </button>
+            ))}
+          </div>
+          {workingHours.start >= workingHours.end && (
+            <p className="text-sm text-red-600">{t("settings.endBeforeStart")}</p>
+          )}
+          <p className="text-xs text-muted-foreground">{t("settings.workingHoursHint")}</p>
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Bell className="h-5 w-5 text-blue-600" />
+            {t("settings.reminders")}
+          </h2>
+          <NotificationSettingsForm />
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,47 +1,61 @@
 // src/types/CalendarTypes.ts
-// Comprehensive calendar event interface with all necessary fields
+// Calendar event interfaces with all necessary fields
 
-export interface ComprehensiveCalendarEvent {
-  // Basic Information
+import { format, parseISO } from 'date-fns';
+import type { TaskInput } from './TaskTypes';
+
+export type EventType = 'task' | 'event' | 'reminder';
+export type EventPriority = 'lowest' | 'low' | 'medium' | 'high' | 'urgent';
+export type EventStatus = 'not_started' | 'in_progress' | 'completed' | 'cancelled' | 'on_hold';
+
+// What the calendar views render; built from a Task with taskToEvent
+export interface CalendarEvent {
   id: string;
   title: string;
   description?: string;
+  date: Date;
+  time?: string; // display time, unset for all-day items
+  deadline?: Date;
+  duration?: number; // minutes, used to size events in the time grid
+  type?: EventType;
+  priority?: EventPriority;
+  status?: EventStatus;
+  progress?: number; // 0-100%
+  completed?: boolean;
+  category?: string;
+  tags?: string[];
+  location?: string;
+  color?: string;
+  seriesId?: string; // set on occurrences of a repeating task
+  occurrenceDate?: string; // yyyy-MM-dd key of the occurrence within its series
+  proposed?: boolean; // a time block suggested by the auto-scheduler, not saved yet
+  blockedBy?: string[]; // names of open prerequisites; the item stays locked until they are done
+  parentTask?: string; // id of the task this is a subtask of
+  subtasks?: string[]; // ids of subtasks
+}
+
+export interface ComprehensiveCalendarEvent extends CalendarEvent {
   notes?: string;
   
   // Time & Schedule
-  date: Date;
-  time?: string; // For backward compatibility
   startTime?: string;
   endTime?: string;
   allDay?: boolean;
-  deadline?: Date;
-  duration?: number; // in minutes
   timezone?: string;
   
-  // Task Management
-  type?: 'task' | 'event' | 'reminder';
-  priority?: 'low' | 'medium' | 'high' | 'urgent';
-  status?: 'not_started' | 'in_progress' | 'completed' | 'cancelled' | 'on_hold';
-  progress?: number; // 0-100%
-  completed?: boolean; // For backward compatibility
-  category?: string;
-  tags?: string[];
-  
-  // Assignment & Location
+  // Assignment
   assignee?: string;
   createdBy?: string;
   modifiedBy?: string;
-  location?: string;
   
   // Recurrence & Reminders
   isRecurring?: boolean;
   recurrenceRule?: 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+  rrule?: string; // RFC 5545 rule, used when recurrenceRule is 'custom'
   recurrenceEnd?: Date;
+  recurrenceExceptions?: RecurrenceException[];
   reminders?: number[]; // minutes before event
   
-  // Visual & Organization
-  color?: string;
-  
   // Project Management
   estimatedHours?: number;
   actualHours?: number;
@@ -52,8 +66,6 @@ export interface ComprehensiveCalendarEvent {
   
   // Dependencies & Relationships
   dependencies?: string[]; // IDs of dependent tasks
-  parentTask?: string; // For subtasks
-  subtasks?: string[]; // IDs of subtasks
   
   // Files & Links
   attachments?: AttachmentType[];
@@ -68,6 +80,17 @@ export interface ComprehensiveCalendarEvent {
   customFields?: Record<string, any>;
 }
 
+// One occurrence of a repeating item that was skipped or moved
+export interface RecurrenceException {
+  date: string; // yyyy-MM-dd of the occurrence as the rule generates it
+  skip?: boolean;
+  start?: string; // ISO datetime the occurrence was moved to
+  duration?: number; // minutes
+  fields?: Partial<TaskInput>; // name, priority and the like changed for this occurrence alone
+}
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
 export interface AttachmentType {
   id: string;
   name: string;
@@ -85,10 +108,12 @@ export interface LinkType {
   description?: string;
 }
 
+// What the filter bar and sidebar facets narrow tasks down to; empty fields match everything
 export interface CalendarFilter {
-  categories?: string[];
-  priorities?: string[];
-  statuses?: string[];
+  search?: string; // matched against name, description, tags and location
+  categories?: string[]; // category names
+  priorities?: string[]; // EventPriority levels
+  statuses?: string[]; // TaskStatus values
   types?: string[];
   assignees?: string[];
   dateRange?: {
@@ -105,9 +130,33 @@ export interface CalendarView {
   currentDate: Date;
   showWeekends: boolean;
   showCompleted: boolean;
+  weekStartsOn?: WeekStart; // Sunday when unset
   groupBy?: 'category' | 'assignee' | 'priority' | 'status';
 }
 
+// How a saved view lays its tasks out: one of the calendar views, or the board
+export type SavedViewLayout = CalendarView['type'] | 'board';
+export type SavedViewSort = 'schedule' | 'priority' | 'deadline' | 'title';
+// A date range relative to the day the view is opened, so "this week" stays this week
+export type SavedViewDateWindow = 'today' | 'this_week' | 'next_7_days' | 'this_month';
+
+// A named filter plus the layout, grouping and sort it is shown with
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string; // the filter in its URL query string form, see filterToSearchParams
+  dateWindow?: SavedViewDateWindow | null; // replaces any fixed date range in the query
+  layout: SavedViewLayout;
+  groupBy?: CalendarView['groupBy'] | null; // board columns
+  swimlaneBy?: CalendarView['groupBy'] | 'none' | null; // board rows
+  sort: SavedViewSort;
+  pinned: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SavedViewInput = Omit<SavedView, 'id' | 'created_at' | 'updated_at'>;
+
 export interface CalendarStats {
   totalEvents: number;
   totalTasks: number;
@@ -137,24 +186,41 @@ export interface NotificationSettings {
   overdueNotifications: boolean;
   weeklyDigest: boolean;
   dailyAgenda: boolean;
+  dailyAgendaTime: string; // HH:mm
+  spokenReminders: boolean; // read reminders aloud in the assistant's voice
 }
 
+// Pomodoro-style focus sessions
+export interface FocusSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  sessionsBeforeLongBreak: number; // work sessions between long breaks
+  spokenCues: boolean; // announce each start and end in the assistant's voice
+}
+
+export type WeekStart = 0 | 1; // 0 = Sunday, 1 = Monday
+export type TimeFormat = '12h' | '24h';
+
 export interface CalendarSettings {
+  language: string; // 'en' or 'vi'; empty follows the browser
   defaultView: 'month' | 'week' | 'day';
-  startOfWeek: 0 | 1; // 0 = Sunday, 1 = Monday
+  startOfWeek: WeekStart;
   workingHours: {
     start: string;
     end: string;
     workingDays: number[]; // 0-6, Sunday-Saturday
   };
-  timeFormat: '12h' | '24h';
-  dateFormat: string;
-  timezone: string;
+  timeFormat: TimeFormat;
+  dateFormat: string; // date-fns pattern
+  timezone: string; // IANA zone the calendar is shown in; empty follows this device
+  secondaryTimezone: string; // second hour column in the week and day views; empty hides it
   defaultEventDuration: number; // minutes
   defaultReminderTime: number; // minutes
   autoCreateEvents: boolean;
   showDeclinedEvents: boolean;
   notifications: NotificationSettings;
+  focus: FocusSettings;
 }
 
 // API Response Types
@@ -181,6 +247,9 @@ export interface CalendarEventResponse {
   location?: string;
   is_recurring?: boolean;
   recurrence_rule?: string;
+  rrule?: string;
+  recurrence_end?: string;
+  recurrence_exceptions?: RecurrenceException[];
   reminders?: number[];
   color?: string;
   estimated_hours?: number;
@@ -209,8 +278,12 @@ export interface CreateEventRequest {
   tags?: string[];
   assignee?: string;
   location?: string;
+  timezone?: string;
   is_recurring?: boolean;
   recurrence_rule?: string;
+  rrule?: string;
+  recurrence_end?: string;
+  recurrence_exceptions?: RecurrenceException[];
   reminders?: number[];
   color?: string;
   estimated_hours?: number;
@@ -229,12 +302,13 @@ export const transformApiEventToCalendarEvent = (apiEvent: CalendarEventResponse
     title: apiEvent.title,
     description: apiEvent.description,
     notes: apiEvent.notes,
-    date: new Date(apiEvent.date),
+    // parseISO reads a bare yyyy-MM-dd as local midnight; new Date would take it as UTC
+    date: parseISO(apiEvent.date),
     time: apiEvent.start_time, // For backward compatibility
     startTime: apiEvent.start_time,
     endTime: apiEvent.end_time,
     allDay: apiEvent.all_day,
-    deadline: apiEvent.deadline ? new Date(apiEvent.deadline) : undefined,
+    deadline: apiEvent.deadline ? parseISO(apiEvent.deadline) : undefined,
     duration: apiEvent.duration,
     timezone: apiEvent.timezone,
     type: apiEvent.type as any,
@@ -249,6 +323,9 @@ export const transformApiEventToCalendarEvent = (apiEvent: CalendarEventResponse
     location: apiEvent.location,
     isRecurring: apiEvent.is_recurring,
     recurrenceRule: apiEvent.recurrence_rule as any,
+    rrule: apiEvent.rrule,
+    recurrenceEnd: apiEvent.recurrence_end ? new Date(apiEvent.recurrence_end) : undefined,
+    recurrenceExceptions: apiEvent.recurrence_exceptions,
     reminders: apiEvent.reminders,
     color: apiEvent.color,
     estimatedHours: apiEvent.estimated_hours,
@@ -265,11 +342,12 @@ export const transformCalendarEventToApiRequest = (event: Partial<ComprehensiveC
     title: event.title || '',
     description: event.description,
     notes: event.notes,
-    date: event.date?.toISOString().split('T')[0] || '',
+    // Calendar dates as shown; toISOString would move them to the UTC day
+    date: event.date ? format(event.date, 'yyyy-MM-dd') : '',
     start_time: event.startTime,
     end_time: event.endTime,
     all_day: event.allDay,
-    deadline: event.deadline?.toISOString().split('T')[0],
+    deadline: event.deadline ? format(event.deadline, 'yyyy-MM-dd') : undefined,
     duration: event.duration,
     type: event.type,
     priority: event.priority,
@@ -279,8 +357,12 @@ export const transformCalendarEventToApiRequest = (event: Partial<ComprehensiveC
     tags: event.tags,
     assignee: event.assignee,
     location: event.location,
+    timezone: event.timezone,
     is_recurring: event.isRecurring,
     recurrence_rule: event.recurrenceRule,
+    rrule: event.recurrenceRule === 'custom' ? event.rrule : undefined,
+    recurrence_end: event.recurrenceEnd?.toISOString(),
+    recurrence_exceptions: event.recurrenceExceptions,
     reminders: event.reminders,
     color: event.color,
     estimated_hours: event.estimatedHours,
@@ -326,15 +408,17 @@ export const validateEvent = (event: Partial<ComprehensiveCalendarEvent>): strin
 
 // Constants
 export const EVENT_TYPES = ['task', 'event', 'reminder'] as const;
-export const PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+export const PRIORITIES = ['lowest', 'low', 'medium', 'high', 'urgent'] as const;
 export const STATUSES = ['not_started', 'in_progress', 'completed', 'cancelled', 'on_hold'] as const;
 export const RECURRENCE_RULES = ['daily', 'weekly', 'monthly', 'yearly'] as const;
 
+// Same colours as the task priorities 5..1, see TASK_PRIORITIES in lib/taskMappers
 export const PRIORITY_COLORS = {
-  low: '#10b981',
-  medium: '#f59e0b', 
-  high: '#ef4444',
-  urgent: '#dc2626'
+  lowest: '#6b7280',
+  low: '#3b82f6',
+  medium: '#eab308',
+  high: '#f97316',
+  urgent: '#ef4444'
 } as const;
 
 export const STATUS_COLORS = {
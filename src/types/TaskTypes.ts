@@ -0,0 +1,127 @@
+// src/types/TaskTypes.ts
+// Canonical task model, matching the Django Task model in task_manager
+
+import type { RecurrenceException } from './CalendarTypes';
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled' | 'on_hold';
+export type TaskPriority = 1 | 2 | 3 | 4 | 5; // 1 = critical, 5 = lowest
+export type TaskRepeatPattern = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export interface TaskCategory {
+  id: string;
+  name: string;
+  color_hex: string;
+  icon?: string;
+  user?: string;
+  is_system_category?: boolean;
+}
+
+// A lightweight step inside a task; unlike a subtask it has no time of its own
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+// A task as the rest of the app sees it, after normalizeTask
+export interface Task {
+  id: string;
+  name: string;
+  description: string;
+  category: TaskCategory | null;
+  tags: string[];
+
+  // Timing
+  deadline?: string | null; // ISO datetime
+  specific_time?: string | null; // ISO datetime, unset for all-day tasks
+  timezone?: string | null; // IANA zone its times were set in, which repeats keep their time of day in; this device's zone when unset
+  duration_minutes?: number;
+  estimated_duration_minutes?: number;
+  minimum_duration_minutes?: number;
+  maximum_duration_minutes?: number;
+  deadline_flexibility_minutes?: number;
+  reminders?: number[]; // minutes before the task's start
+
+  // Priority & Status
+  priority: number; // TaskPriority, kept wide because the backend sends plain numbers
+  urgency: number; // 1-5 scale
+  difficulty_level?: number;
+  base_priority?: number;
+  urgency_multiplier?: number;
+  status: TaskStatus;
+  completion_percentage: number;
+  estimated_effort_hours?: number;
+  actual_time_spent_minutes?: number;
+
+  // Location & Tools
+  location: string;
+  assignee?: string | null; // who is doing it, for shared boards
+  required_tools: string[];
+
+  // Dependencies
+  prerequisite_tasks?: string[];
+  blocking_tasks?: string[];
+
+  // Breakdown
+  parent_task?: string | null; // id of the task this is a subtask of
+  checklist?: ChecklistItem[];
+
+  // Scheduling constraints
+  can_be_split?: boolean;
+  requires_consecutive_time?: boolean;
+  preferred_time_of_day?: string[];
+  avoid_time_of_day?: string[];
+
+  // Repetition
+  is_repeat?: boolean;
+  repeat_pattern?: TaskRepeatPattern | '';
+  repeat_frequency?: number;
+  repeat_days_of_week?: string[]; // e.g. ['Monday', 'Friday']
+  repeat_end_date?: string | null; // ISO date
+  recurrence_rule?: string | null; // RRULE, when repeat_pattern is 'custom'
+  recurrence_exceptions?: RecurrenceException[];
+
+  // AI
+  ai_suggested?: boolean;
+  ai_confidence_score?: number | null;
+  user_satisfaction_rating?: number | null;
+
+  // Metadata
+  created_at: string;
+  updated_at?: string;
+  version?: number; // bumped by the backend on every save, where supported
+  completed_at?: string | null;
+  is_overdue?: boolean;
+}
+
+// What the API returns; some endpoints send the category as an id plus category_name
+export type TaskResponse = Omit<Partial<Task>, 'category'> & {
+  id: string;
+  name: string;
+  category?: TaskCategory | string | null;
+  category_name?: string;
+};
+
+// Body for creating or updating a task
+export type TaskInput = Omit<Partial<Task>, 'id' | 'category' | 'created_at' | 'updated_at' | 'version' | 'completed_at' | 'is_overdue' | 'repeat_pattern'> & {
+  name: string;
+  category?: string | null; // category id
+  repeat_pattern?: TaskRepeatPattern | '';
+};
+
+export interface TaskStats {
+  total: number;
+  pending: number;
+  completed: number;
+  in_progress: number;
+  overdue: number;
+  completion_rate: number;
+}
+
+export interface TaskSearchFilters {
+  status?: TaskStatus;
+  priority?: number;
+}
+
+// The revision of a task an edit was made against
+export type TaskRevision = Pick<Task, 'updated_at' | 'version'>;
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ASSISTANT_PROVIDER?: 'http' | 'mock';
+  readonly VITE_ASSISTANT_ENDPOINT?: string;
+  readonly VITE_ASSISTANT_FORMAT?: 'django' | 'openai';
+  readonly VITE_ASSISTANT_MODEL?: string;
+  readonly VITE_ASSISTANT_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}